@@ -6,6 +6,11 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
+/// @dev ValidatorVault's reward-pool entry point
+interface IValidatorVault {
+    function fundRewards(uint256 amount) external;
+}
+
 /**
  * @title P2PEscrowV5
  * @notice Production-ready P2P Escrow with comprehensive cooldowns and edge case handling
@@ -54,6 +59,7 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
     uint256 public constant LP_OFFLINE_TIMEOUT = 15 minutes;
     uint256 public constant DISPUTE_TIMEOUT = 4 hours;
     uint256 public constant UNSTAKING_NOTICE = 24 hours;
+    uint256 public constant RELAYER_RELEASE_DELAY = 24 hours;  // App's dispute window, counted from the payment claim
     
     // Velocity limits
     uint256 public constant MAX_ORDERS_PER_HOUR = 5;
@@ -147,7 +153,9 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
         uint256 lpLastActiveAt;    // For offline detection
         string utrProof;           // UTR reference for payment verification
         string disputeReason;
-        bool paymentClaimed;       // User claimed payment sent
+        bool paymentClaimed;       // Fiat payment claimed sent (UTR / proof reference)
+        uint256 paymentClaimedAt;
+        bool accepted;             // LP took the order on — sender can no longer refund before expiry
     }
 
     // ============================================
@@ -165,6 +173,8 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
     
     address public arbitrator;
     address public rateOracle;  // For getting current USDC/INR rate
+    address public settlementRelayer;  // Backend worker that releases after the dispute window
+    address public validatorVault;     // Platform fees fund validator rewards here (owner() if unset)
 
     // ============================================
     // Events
@@ -180,6 +190,9 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
     
     event EscrowCreated(bytes32 indexed orderId, address indexed sender, address indexed lp, uint256 amount, uint256 lockedRate);
     event EscrowReleased(bytes32 indexed orderId, address indexed recipient, uint256 amount);
+    event EscrowAccepted(bytes32 indexed orderId, address indexed lp);
+    event SettlementRelayerUpdated(address indexed relayer);
+    event ValidatorVaultUpdated(address indexed vault);
     event EscrowRefunded(bytes32 indexed orderId, address indexed sender, uint256 amount);
     event PaymentClaimed(bytes32 indexed orderId, address indexed user, string utrProof);
     event DisputeRaised(bytes32 indexed orderId, address indexed raiser, string reason);
@@ -216,6 +229,8 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
     error UnstakeNoticePending();
     error UnstakeNotReady();
     error UTRRequired();
+    error PaymentNotClaimed();
+    error ReleaseTooEarly(uint256 releasableAt);
 
     // ============================================
     // Constructor
@@ -582,7 +597,9 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
             lpLastActiveAt: block.timestamp,
             utrProof: "",
             disputeReason: "",
-            paymentClaimed: false
+            paymentClaimed: false,
+            paymentClaimedAt: 0,
+            accepted: false
         });
         
         // Update user profile
@@ -596,15 +613,36 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
     }
     
     /**
-     * @notice User claims payment was sent with UTR proof
+     * @notice LP takes the order on before paying any fiat
+     * @dev From here the sender can't refund until the escrow expires
+     */
+    function acceptEscrow(bytes32 orderId) external nonReentrant {
+        Escrow storage escrow = escrows[orderId];
+        if (escrow.status != EscrowStatus.Locked) revert InvalidStatus();
+        if (msg.sender != escrow.lp) revert NotAuthorized();
+        if (block.timestamp > escrow.expiresAt) revert EscrowExpired();
+        
+        escrow.accepted = true;
+        escrow.lpLastActiveAt = block.timestamp;
+        
+        emit EscrowAccepted(orderId, msg.sender);
+    }
+    
+    /**
+     * @notice Claim the fiat payment was sent, with its UTR / proof reference —
+     *         by the sender, or by the LP paying out a sell order
+     * @dev Starts the relayer's release delay (first claim counts)
      */
     function claimPaymentSent(bytes32 orderId, string calldata utrProof) external nonReentrant {
         Escrow storage escrow = escrows[orderId];
         if (escrow.status != EscrowStatus.Locked) revert InvalidStatus();
-        if (msg.sender != escrow.sender) revert NotAuthorized();
+        if (msg.sender != escrow.sender && msg.sender != escrow.lp) revert NotAuthorized();
         if (bytes(utrProof).length == 0) revert UTRRequired();
         
-        escrow.paymentClaimed = true;
+        if (!escrow.paymentClaimed) {
+            escrow.paymentClaimed = true;
+            escrow.paymentClaimedAt = block.timestamp;
+        }
         escrow.utrProof = utrProof;
         
         emit PaymentClaimed(orderId, msg.sender, utrProof);
@@ -643,13 +681,21 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
     }
     
     /**
-     * @notice Release escrow (LP confirms payment received)
+     * @notice Release escrow (LP confirms payment received, or the settlement
+     *         relayer once the off-chain dispute window has closed)
+     * @dev The relayer can only release a claimed payment, RELAYER_RELEASE_DELAY
+     *      after the claim — a leaked relayer key can't empty open escrows
      */
     function releaseEscrow(bytes32 orderId) external nonReentrant returns (bool) {
         Escrow storage escrow = escrows[orderId];
         
         if (escrow.status != EscrowStatus.Locked) revert InvalidStatus();
-        if (msg.sender != escrow.lp) revert NotAuthorized();
+        if (msg.sender != escrow.lp) {
+            if (msg.sender != settlementRelayer) revert NotAuthorized();
+            if (!escrow.paymentClaimed) revert PaymentNotClaimed();
+            uint256 releasableAt = escrow.paymentClaimedAt + RELAYER_RELEASE_DELAY;
+            if (block.timestamp < releasableAt) revert ReleaseTooEarly(releasableAt);
+        }
         
         escrow.status = EscrowStatus.Released;
         escrow.completedAt = block.timestamp;
@@ -673,9 +719,7 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
         
         // Transfer USDC
         usdc.safeTransfer(escrow.recipient, escrow.amount);
-        if (escrow.fee > 0) {
-            usdc.safeTransfer(owner(), escrow.fee);
-        }
+        _payFee(escrow.fee);
         
         emit EscrowReleased(orderId, escrow.recipient, escrow.amount);
         return true;
@@ -683,6 +727,8 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
     
     /**
      * @notice Refund escrow (cancellation)
+     * @dev The sender can cancel until the LP accepts or a payment is claimed;
+     *      after that only expiry refunds it
      */
     function refundEscrow(bytes32 orderId) external nonReentrant returns (bool) {
         Escrow storage escrow = escrows[orderId];
@@ -691,8 +737,9 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
         
         bool isSender = msg.sender == escrow.sender;
         bool isExpired = block.timestamp > escrow.expiresAt;
+        bool senderMayCancel = isSender && !escrow.accepted && !escrow.paymentClaimed;
         
-        if (!isSender && !isExpired) revert NotAuthorized();
+        if (!senderMayCancel && !isExpired) revert NotAuthorized();
         
         escrow.status = EscrowStatus.Refunded;
         lpStakes[escrow.lp].lockedInOrders -= escrow.amount;
@@ -776,7 +823,7 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
             userProfiles[escrow.sender].disputesWon++;
             
             usdc.safeTransfer(escrow.recipient, escrow.amount);
-            usdc.safeTransfer(owner(), escrow.fee);
+            _payFee(escrow.fee);
             emit DisputeResolved(orderId, escrow.recipient, escrow.amount);
         } else {
             escrow.status = EscrowStatus.Refunded;
@@ -795,6 +842,20 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
         }
     }
     
+    /**
+     * @notice Pay a released order's platform fee into the validator reward
+     * pool, or to the owner while no vault is set
+     */
+    function _payFee(uint256 fee) internal {
+        if (fee == 0) return;
+        if (validatorVault == address(0)) {
+            usdc.safeTransfer(owner(), fee);
+            return;
+        }
+        usdc.forceApprove(validatorVault, fee);
+        IValidatorVault(validatorVault).fundRewards(fee);
+    }
+    
     function _slashLP(address lp, uint256 percentage, string memory reason) internal {
         LPStake storage lpStake = lpStakes[lp];
         
@@ -847,10 +908,14 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
     
     function getEscrow(bytes32 orderId) external view returns (
         address sender, address recipient, address lp, uint256 amount,
-        uint8 status, uint256 lockedRate, uint256 createdAt, bool paymentClaimed
+        uint8 status, uint256 lockedRate, uint256 createdAt, bool paymentClaimed,
+        uint256 expiresAt, bool accepted
     ) {
         Escrow storage e = escrows[orderId];
-        return (e.sender, e.recipient, e.lp, e.amount, uint8(e.status), e.lockedRate, e.createdAt, e.paymentClaimed);
+        return (
+            e.sender, e.recipient, e.lp, e.amount, uint8(e.status), e.lockedRate, e.createdAt, e.paymentClaimed,
+            e.expiresAt, e.accepted
+        );
     }
     
     function getUserProfile(address user) external view returns (
@@ -893,6 +958,16 @@ contract P2PEscrowV5 is ReentrancyGuard, Ownable {
         rateOracle = _oracle;
     }
     
+    function setSettlementRelayer(address _relayer) external onlyOwner {
+        settlementRelayer = _relayer;
+        emit SettlementRelayerUpdated(_relayer);
+    }
+    
+    function setValidatorVault(address _vault) external onlyOwner {
+        validatorVault = _vault;
+        emit ValidatorVaultUpdated(_vault);
+    }
+    
     function setPlatformFee(uint256 _feeBps) external onlyOwner {
         require(_feeBps <= 500, "Fee too high");
         platformFeeBps = _feeBps;
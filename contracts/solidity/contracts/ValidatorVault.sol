@@ -0,0 +1,286 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title ValidatorVault
+ * @notice Holds DAO validator USDC stake and review rewards
+ * @dev Payment-proof validations are voted off-chain (commit-reveal
+ * committees in the app); the app's operator key mirrors each outcome here:
+ *
+ * - Rewards: P2PEscrowV5 pays each released order's platform fee into
+ *   the reward pool (fundRewards, once setValidatorVault points at this).
+ *   syncRewards() raises a validator's cumulative earnings and moves the
+ *   difference from the pool to their claimable balance.
+ * - Slashes: slash() moves stake into the slashed pool under an app-side
+ *   slash ID; reverseSlash() returns it when an appeal is granted. The
+ *   owner sweeps the slashed pool once appeals are settled.
+ *
+ * Both are keyed so a resent operator tx is a no-op / revert, never a
+ * double credit or double slash. Unstaking waits out the unbonding period
+ * and stays slashable meanwhile.
+ */
+contract ValidatorVault is ReentrancyGuard, Ownable {
+    using SafeERC20 for IERC20;
+
+    // ============ State Variables ============
+
+    IERC20 public immutable usdc;
+    address public operator;                      // App key that mirrors rewards + slashes
+
+    uint256 public minStake = 100 * 1e6;          // 100 USDC
+    uint256 public unbondingPeriod = 7 days;
+    uint256 public rewardPool;                    // Funded, not yet credited to anyone
+    uint256 public slashedPool;                   // Slashed stake, held for appeals
+
+    // ============ Structs ============
+
+    struct Validator {
+        uint256 stake;
+        uint256 unbonding;            // Requested out, still slashable
+        uint256 unbondingReleaseAt;
+        uint256 claimable;
+        uint256 totalEarned;          // Cumulative credited rewards (syncRewards target)
+        uint256 totalClaimed;
+        uint256 totalSlashed;         // Net of reversals
+    }
+
+    struct Slash {
+        address validator;
+        uint256 fromStake;
+        uint256 fromUnbonding;
+        uint256 slashedAt;
+        bool reversed;
+    }
+
+    // ============ Mappings ============
+
+    mapping(address => Validator) public validators;
+    mapping(bytes32 => Slash) public slashes;
+
+    // ============ Events ============
+
+    event Staked(address indexed validator, uint256 amount, uint256 totalStake);
+    event UnstakeRequested(address indexed validator, uint256 amount, uint256 releaseAt);
+    event Unstaked(address indexed validator, uint256 amount);
+    event RewardsFunded(address indexed from, uint256 amount);
+    event RewardsCredited(address indexed validator, uint256 amount, uint256 totalEarned);
+    event RewardsClaimed(address indexed validator, uint256 amount);
+    event ValidatorSlashed(bytes32 indexed slashId, address indexed validator, uint256 amount);
+    event SlashReversed(bytes32 indexed slashId, address indexed validator, uint256 amount);
+    event SlashedSwept(address indexed to, uint256 amount);
+    event OperatorUpdated(address indexed operator);
+
+    // ============ Errors ============
+
+    error InvalidAmount();
+    error InsufficientStake();
+    error NotOperator();
+    error UnstakePending();
+    error UnstakeNotReady(uint256 releaseAt);
+    error NothingToClaim();
+    error InsufficientRewardPool();
+    error SlashExists();
+    error SlashNotFound();
+    error SlashAlreadyReversed();
+    error InsufficientSlashedPool();
+
+    // ============ Constructor ============
+
+    constructor(address _usdc, address _operator) Ownable(msg.sender) {
+        usdc = IERC20(_usdc);
+        operator = _operator;
+    }
+
+    // ============ Modifiers ============
+
+    modifier onlyOperator() {
+        if (msg.sender != operator && msg.sender != owner()) revert NotOperator();
+        _;
+    }
+
+    // ============ Staking ============
+
+    /**
+     * @notice Stake USDC (total stake must reach minStake)
+     */
+    function stake(uint256 amount) external nonReentrant {
+        if (amount == 0) revert InvalidAmount();
+        Validator storage v = validators[msg.sender];
+        if (v.stake + amount < minStake) revert InsufficientStake();
+
+        usdc.safeTransferFrom(msg.sender, address(this), amount);
+        v.stake += amount;
+
+        emit Staked(msg.sender, amount, v.stake);
+    }
+
+    /**
+     * @notice Start unbonding part of the stake — one request at a time
+     */
+    function requestUnstake(uint256 amount) external nonReentrant {
+        Validator storage v = validators[msg.sender];
+        if (amount == 0) revert InvalidAmount();
+        if (amount > v.stake) revert InsufficientStake();
+        if (v.unbonding > 0) revert UnstakePending();
+
+        v.stake -= amount;
+        v.unbonding = amount;
+        v.unbondingReleaseAt = block.timestamp + unbondingPeriod;
+
+        emit UnstakeRequested(msg.sender, amount, v.unbondingReleaseAt);
+    }
+
+    /**
+     * @notice Withdraw whatever is left of the unbonding amount once it's released
+     */
+    function withdrawUnstaked() external nonReentrant {
+        Validator storage v = validators[msg.sender];
+        if (v.unbonding == 0) revert InvalidAmount();
+        if (block.timestamp < v.unbondingReleaseAt) revert UnstakeNotReady(v.unbondingReleaseAt);
+
+        uint256 amount = v.unbonding;
+        v.unbonding = 0;
+        v.unbondingReleaseAt = 0;
+
+        usdc.safeTransfer(msg.sender, amount);
+        emit Unstaked(msg.sender, amount);
+    }
+
+    // ============ Rewards ============
+
+    /**
+     * @notice Pay platform fees into the reward pool
+     */
+    function fundRewards(uint256 amount) external nonReentrant {
+        if (amount == 0) revert InvalidAmount();
+        usdc.safeTransferFrom(msg.sender, address(this), amount);
+        rewardPool += amount;
+        emit RewardsFunded(msg.sender, amount);
+    }
+
+    /**
+     * @notice Raise a validator's cumulative earnings to `totalEarned`
+     * @dev Idempotent: a target at or below the current total does nothing
+     */
+    function syncRewards(address validator, uint256 totalEarned) external onlyOperator {
+        Validator storage v = validators[validator];
+        if (totalEarned <= v.totalEarned) return;
+
+        uint256 amount = totalEarned - v.totalEarned;
+        if (amount > rewardPool) revert InsufficientRewardPool();
+
+        rewardPool -= amount;
+        v.claimable += amount;
+        v.totalEarned = totalEarned;
+
+        emit RewardsCredited(validator, amount, totalEarned);
+    }
+
+    /**
+     * @notice Withdraw all credited rewards
+     */
+    function claimRewards() external nonReentrant {
+        Validator storage v = validators[msg.sender];
+        uint256 amount = v.claimable;
+        if (amount == 0) revert NothingToClaim();
+
+        v.claimable = 0;
+        v.totalClaimed += amount;
+
+        usdc.safeTransfer(msg.sender, amount);
+        emit RewardsClaimed(msg.sender, amount);
+    }
+
+    // ============ Slashing ============
+
+    /**
+     * @notice Slash stake (then unbonding stake) into the slashed pool
+     * @dev Takes what's there if the validator holds less than `amount`
+     */
+    function slash(bytes32 slashId, address validator, uint256 amount) external onlyOperator {
+        if (amount == 0 || validator == address(0)) revert InvalidAmount();
+        if (slashes[slashId].validator != address(0)) revert SlashExists();
+
+        Validator storage v = validators[validator];
+        uint256 fromStake = amount < v.stake ? amount : v.stake;
+        uint256 rest = amount - fromStake;
+        uint256 fromUnbonding = rest < v.unbonding ? rest : v.unbonding;
+
+        v.stake -= fromStake;
+        v.unbonding -= fromUnbonding;
+        v.totalSlashed += fromStake + fromUnbonding;
+        slashedPool += fromStake + fromUnbonding;
+
+        slashes[slashId] = Slash({
+            validator: validator,
+            fromStake: fromStake,
+            fromUnbonding: fromUnbonding,
+            slashedAt: block.timestamp,
+            reversed: false
+        });
+
+        emit ValidatorSlashed(slashId, validator, fromStake + fromUnbonding);
+    }
+
+    /**
+     * @notice Return a slash to the validator's stake (appeal granted)
+     */
+    function reverseSlash(bytes32 slashId) external onlyOperator {
+        Slash storage s = slashes[slashId];
+        if (s.validator == address(0)) revert SlashNotFound();
+        if (s.reversed) revert SlashAlreadyReversed();
+
+        uint256 amount = s.fromStake + s.fromUnbonding;
+        if (amount > slashedPool) revert InsufficientSlashedPool();
+
+        s.reversed = true;
+        slashedPool -= amount;
+
+        Validator storage v = validators[s.validator];
+        v.stake += amount;
+        v.totalSlashed -= amount;
+
+        emit SlashReversed(slashId, s.validator, amount);
+    }
+
+    // ============ Admin Functions ============
+
+    /**
+     * @notice Move settled slashes out (treasury, insurance fund or back into rewards)
+     */
+    function sweepSlashed(address to, uint256 amount) external onlyOwner nonReentrant {
+        if (amount > slashedPool) revert InsufficientSlashedPool();
+        slashedPool -= amount;
+        usdc.safeTransfer(to, amount);
+        emit SlashedSwept(to, amount);
+    }
+
+    function setOperator(address _operator) external onlyOwner {
+        operator = _operator;
+        emit OperatorUpdated(_operator);
+    }
+
+    function setMinStake(uint256 _minStake) external onlyOwner {
+        minStake = _minStake;
+    }
+
+    function setUnbondingPeriod(uint256 _period) external onlyOwner {
+        require(_period <= 30 days, "Period too long");
+        unbondingPeriod = _period;
+    }
+
+    // ============ View Functions ============
+
+    function getValidator(address validator) external view returns (Validator memory) {
+        return validators[validator];
+    }
+
+    function getSlash(bytes32 slashId) external view returns (Slash memory) {
+        return slashes[slashId];
+    }
+}
@@ -89,6 +89,17 @@ async function main() {
     await tx.wait();
     console.log("   ✅ P2PEscrowV5 authorized in TrustScore");
 
+    // Settlement relayer (backend worker key) may release escrows after the dispute window
+    const SETTLEMENT_RELAYER_ADDRESS = process.env.SETTLEMENT_RELAYER_ADDRESS;
+    if (SETTLEMENT_RELAYER_ADDRESS) {
+        console.log("   • Setting settlement relayer...");
+        tx = await escrow.setSettlementRelayer(SETTLEMENT_RELAYER_ADDRESS);
+        await tx.wait();
+        console.log("   ✅ Settlement relayer:", SETTLEMENT_RELAYER_ADDRESS);
+    } else {
+        console.warn("   ⚠️  SETTLEMENT_RELAYER_ADDRESS not set — call setSettlementRelayer() before enabling the worker");
+    }
+
     // Note: P2PEscrowV5 has its own arbitrator set to deployer during construction
     // DisputeDAO works independently - it references the escrow contract
 
@@ -0,0 +1,73 @@
+const hre = require("hardhat");
+
+/**
+ * Deploy ValidatorVault
+ *
+ * Holds DAO validator stake + review rewards. The app's vault operator key
+ * (VALIDATOR_VAULT_OPERATOR_ADDRESS) mirrors reward credits and slashes.
+ * With P2P_ESCROW_ADDRESS set, P2PEscrowV5 pays its platform fees into the
+ * vault's reward pool (the deployer must own the escrow).
+ *
+ * Env: USDC_ADDRESS, VALIDATOR_VAULT_OPERATOR_ADDRESS, P2P_ESCROW_ADDRESS
+ */
+async function main() {
+    console.log("Deploying ValidatorVault...\n");
+
+    const [deployer] = await hre.ethers.getSigners();
+    console.log("Deploying with account:", deployer.address);
+
+    const USDC_ADDRESS = process.env.USDC_ADDRESS || "0x0000000000000000000000000000000000000000";
+    if (USDC_ADDRESS === "0x0000000000000000000000000000000000000000") {
+        console.warn("⚠️  USDC_ADDRESS not set. Set it in .env for the target chain.");
+    }
+
+    const OPERATOR_ADDRESS = process.env.VALIDATOR_VAULT_OPERATOR_ADDRESS || deployer.address;
+    if (!process.env.VALIDATOR_VAULT_OPERATOR_ADDRESS) {
+        console.warn("⚠️  VALIDATOR_VAULT_OPERATOR_ADDRESS not set — operator is the deployer; call setOperator() later");
+    }
+
+    // ============================================
+    // 1. Deploy ValidatorVault
+    // ============================================
+    console.log("\n1. Deploying ValidatorVault...");
+    const ValidatorVault = await hre.ethers.getContractFactory("ValidatorVault");
+    const vault = await ValidatorVault.deploy(USDC_ADDRESS, OPERATOR_ADDRESS);
+    await vault.waitForDeployment();
+    const vaultAddress = await vault.getAddress();
+    console.log("   ValidatorVault deployed to:", vaultAddress);
+    console.log("   Operator:", OPERATOR_ADDRESS);
+
+    // ============================================
+    // 2. Route escrow fees into the reward pool
+    // ============================================
+    const ESCROW_ADDRESS = process.env.P2P_ESCROW_ADDRESS || process.env.NEXT_PUBLIC_P2P_ESCROW_ADDRESS;
+    if (ESCROW_ADDRESS) {
+        console.log("\n2. Routing P2PEscrowV5 fees into the vault...");
+        const escrow = await hre.ethers.getContractAt("P2PEscrowV5", ESCROW_ADDRESS);
+        const tx = await escrow.setValidatorVault(vaultAddress);
+        await tx.wait();
+        console.log("   ✅ P2PEscrowV5 fees fund validator rewards");
+    } else {
+        console.warn("\n⚠️  P2P_ESCROW_ADDRESS not set — call escrow.setValidatorVault(vault) to fund rewards from fees");
+    }
+
+    // ============================================
+    // Summary
+    // ============================================
+    console.log("\n============================================");
+    console.log("ValidatorVault Deployment Complete!");
+    console.log("============================================");
+    console.log("\nContract Address:");
+    console.log("  ValidatorVault: ", vaultAddress);
+    console.log("\nUpdate in your .env.local:");
+    console.log(`  NEXT_PUBLIC_VALIDATOR_VAULT_ADDRESS=${vaultAddress}`);
+    console.log("\nTop up validator rewards by hand (any wallet):");
+    console.log("  usdc.approve(vault, amount) then vault.fundRewards(amount)");
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
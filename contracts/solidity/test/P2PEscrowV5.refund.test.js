@@ -0,0 +1,107 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture, time } = require("@nomicfoundation/hardhat-network-helpers");
+
+/**
+ * P2PEscrowV5 — acceptance and refunds
+ *
+ * A sell order's LP accepts the escrow on-chain before paying fiat
+ * (src/app/(app)/solver/page.tsx). From then on the seller can't pull the
+ * USDC back; only expiry refunds it.
+ */
+
+const USDC = (n) => ethers.parseUnits(String(n), 6);
+const ORDER_ID = ethers.id("order-1");
+const LOCK = 48 * 60 * 60;
+const REFUNDED = 4;
+
+async function deployWithEscrow() {
+    const [owner, lp, user, stranger] = await ethers.getSigners();
+
+    const usdc = await ethers.deployContract("MockUSDC");
+    const escrow = await ethers.deployContract("P2PEscrowV5", [await usdc.getAddress(), owner.address]);
+    const escrowAddress = await escrow.getAddress();
+
+    await usdc.mint(lp.address, USDC(1000));
+    await usdc.mint(user.address, USDC(1000));
+
+    await usdc.connect(lp).approve(escrowAddress, USDC(100));
+    await escrow.connect(lp).stake(USDC(100));
+    await escrow.connect(lp).setActive(true);
+
+    await usdc.connect(user).approve(escrowAddress, USDC(1000));
+    const expiresAt = (await time.latest()) + LOCK;
+    await escrow.connect(user).createEscrow(ORDER_ID, USDC(20), lp.address, expiresAt, 90_000000);
+
+    return { escrow, usdc, owner, lp, user, stranger, expiresAt };
+}
+
+async function deployAccepted() {
+    const fixture = await deployWithEscrow();
+    await fixture.escrow.connect(fixture.lp).acceptEscrow(ORDER_ID);
+    return fixture;
+}
+
+describe("P2PEscrowV5 acceptance and refunds", function () {
+    describe("acceptEscrow", function () {
+        it("marks the escrow accepted for its LP only", async function () {
+            const { escrow, lp, user } = await loadFixture(deployWithEscrow);
+
+            await expect(escrow.connect(user).acceptEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "NotAuthorized");
+            await expect(escrow.connect(lp).acceptEscrow(ORDER_ID))
+                .to.emit(escrow, "EscrowAccepted")
+                .withArgs(ORDER_ID, lp.address);
+
+            const e = await escrow.getEscrow(ORDER_ID);
+            expect(e.accepted).to.equal(true);
+        });
+
+        it("can't accept an expired escrow", async function () {
+            const { escrow, lp, expiresAt } = await loadFixture(deployWithEscrow);
+            await time.increaseTo(expiresAt + 1);
+
+            await expect(escrow.connect(lp).acceptEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "EscrowExpired");
+        });
+    });
+
+    describe("refundEscrow", function () {
+        it("lets the sender cancel before the LP accepts", async function () {
+            const { escrow, usdc, user } = await loadFixture(deployWithEscrow);
+            const fee = USDC(20) * 50n / 10000n;
+
+            await expect(escrow.connect(user).refundEscrow(ORDER_ID))
+                .to.changeTokenBalance(usdc, user, USDC(20) + fee);
+            const [, , , , status] = await escrow.getEscrow(ORDER_ID);
+            expect(status).to.equal(REFUNDED);
+        });
+
+        it("blocks the sender once the LP accepted", async function () {
+            const { escrow, user } = await loadFixture(deployAccepted);
+
+            await expect(escrow.connect(user).refundEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "NotAuthorized");
+        });
+
+        it("blocks the sender once a payment is claimed", async function () {
+            const { escrow, lp, user } = await loadFixture(deployWithEscrow);
+            await escrow.connect(lp).claimPaymentSent(ORDER_ID, "UTR123");
+
+            await expect(escrow.connect(user).refundEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "NotAuthorized");
+        });
+
+        it("refunds an accepted escrow to the sender only after expiry", async function () {
+            const { escrow, usdc, user, stranger, expiresAt } = await loadFixture(deployAccepted);
+
+            await expect(escrow.connect(stranger).refundEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "NotAuthorized");
+
+            await time.increaseTo(expiresAt + 1);
+            const fee = USDC(20) * 50n / 10000n;
+            await expect(escrow.connect(stranger).refundEscrow(ORDER_ID))
+                .to.changeTokenBalance(usdc, user, USDC(20) + fee);
+        });
+    });
+});
@@ -0,0 +1,161 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture, time } = require("@nomicfoundation/hardhat-network-helpers");
+
+/**
+ * P2PEscrowV5 — settlement relayer
+ *
+ * The settlement worker (src/lib/settlement-worker.ts) releases escrow from
+ * the relayer wallet once the off-chain dispute window closes. Only the
+ * owner picks that wallet; it may release, nobody else but the LP may —
+ * and only a claimed payment, RELAYER_RELEASE_DELAY after the claim.
+ */
+
+const USDC = (n) => ethers.parseUnits(String(n), 6);
+const ORDER_ID = ethers.id("order-1");
+const LOCKED = 2;
+const RELEASED = 3;
+const RELEASE_DELAY = 24 * 60 * 60;
+
+async function deployWithEscrow() {
+    const [owner, lp, user, relayer, stranger] = await ethers.getSigners();
+
+    const usdc = await ethers.deployContract("MockUSDC");
+    const escrow = await ethers.deployContract("P2PEscrowV5", [await usdc.getAddress(), owner.address]);
+    const escrowAddress = await escrow.getAddress();
+
+    await usdc.mint(lp.address, USDC(1000));
+    await usdc.mint(user.address, USDC(1000));
+
+    await usdc.connect(lp).approve(escrowAddress, USDC(100));
+    await escrow.connect(lp).stake(USDC(100));
+    await escrow.connect(lp).setActive(true);
+
+    await usdc.connect(user).approve(escrowAddress, USDC(1000));
+    const expiresAt = (await time.latest()) + 3600;
+    await escrow.connect(user).createEscrow(ORDER_ID, USDC(20), lp.address, expiresAt, 90_000000);
+
+    return { escrow, usdc, owner, lp, user, relayer, stranger };
+}
+
+// The LP claims its fiat payment, the relayer is set and the delay has passed
+async function deployReleasable() {
+    const fixture = await deployWithEscrow();
+    await fixture.escrow.setSettlementRelayer(fixture.relayer.address);
+    await fixture.escrow.connect(fixture.lp).claimPaymentSent(ORDER_ID, "UTR123");
+    await time.increase(RELEASE_DELAY);
+    return fixture;
+}
+
+describe("P2PEscrowV5 settlement relayer", function () {
+    describe("setSettlementRelayer", function () {
+        it("lets the owner set the relayer", async function () {
+            const { escrow, relayer } = await loadFixture(deployWithEscrow);
+
+            await expect(escrow.setSettlementRelayer(relayer.address))
+                .to.emit(escrow, "SettlementRelayerUpdated")
+                .withArgs(relayer.address);
+            expect(await escrow.settlementRelayer()).to.equal(relayer.address);
+        });
+
+        it("rejects anyone else", async function () {
+            const { escrow, stranger } = await loadFixture(deployWithEscrow);
+
+            await expect(escrow.connect(stranger).setSettlementRelayer(stranger.address))
+                .to.be.revertedWithCustomError(escrow, "OwnableUnauthorizedAccount")
+                .withArgs(stranger.address);
+        });
+    });
+
+    describe("relayer release guard", function () {
+        it("rejects a relayer release before the payment is claimed", async function () {
+            const { escrow, relayer } = await loadFixture(deployWithEscrow);
+            await escrow.setSettlementRelayer(relayer.address);
+            await time.increase(RELEASE_DELAY);
+
+            await expect(escrow.connect(relayer).releaseEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "PaymentNotClaimed");
+        });
+
+        it("rejects a relayer release until the delay after the claim has passed", async function () {
+            const { escrow, lp, relayer } = await loadFixture(deployWithEscrow);
+            await escrow.setSettlementRelayer(relayer.address);
+            await escrow.connect(lp).claimPaymentSent(ORDER_ID, "UTR123");
+            const releasableAt = (await time.latest()) + RELEASE_DELAY;
+
+            await expect(escrow.connect(relayer).releaseEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "ReleaseTooEarly")
+                .withArgs(releasableAt);
+
+            // A second claim doesn't restart (or shorten) the delay
+            await time.increaseTo(releasableAt - 60);
+            await escrow.connect(lp).claimPaymentSent(ORDER_ID, "UTR456");
+            await expect(escrow.connect(relayer).releaseEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "ReleaseTooEarly")
+                .withArgs(releasableAt);
+
+            await time.increaseTo(releasableAt);
+            await expect(escrow.connect(relayer).releaseEscrow(ORDER_ID))
+                .to.emit(escrow, "EscrowReleased");
+        });
+
+        it("only lets the sender or the LP claim the payment", async function () {
+            const { escrow, stranger } = await loadFixture(deployWithEscrow);
+
+            await expect(escrow.connect(stranger).claimPaymentSent(ORDER_ID, "UTR123"))
+                .to.be.revertedWithCustomError(escrow, "NotAuthorized");
+        });
+
+        it("still lets the LP release without a claim", async function () {
+            const { escrow, lp } = await loadFixture(deployWithEscrow);
+
+            await expect(escrow.connect(lp).releaseEscrow(ORDER_ID))
+                .to.emit(escrow, "EscrowReleased");
+        });
+    });
+
+    describe("releaseEscrow", function () {
+        it("lets the relayer release to the recipient and the fee to the owner", async function () {
+            const { escrow, usdc, owner, lp, relayer } = await loadFixture(deployReleasable);
+
+            const fee = USDC(20) * 50n / 10000n;
+            const tx = escrow.connect(relayer).releaseEscrow(ORDER_ID);
+            await expect(tx).to.changeTokenBalances(usdc, [lp, owner], [USDC(20), fee]);
+            await expect(tx)
+                .to.emit(escrow, "EscrowReleased")
+                .withArgs(ORDER_ID, lp.address, USDC(20));
+
+            const [, , , , status] = await escrow.getEscrow(ORDER_ID);
+            expect(status).to.equal(RELEASED);
+            const lpStake = await escrow.lpStakes(lp.address);
+            expect(lpStake.lockedInOrders).to.equal(0);
+        });
+
+        it("rejects a caller that is neither the LP nor the relayer", async function () {
+            const { escrow, stranger } = await loadFixture(deployReleasable);
+
+            await expect(escrow.connect(stranger).releaseEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "NotAuthorized");
+        });
+
+        it("rejects a relayer that has been replaced", async function () {
+            const { escrow, relayer, stranger } = await loadFixture(deployReleasable);
+            await escrow.setSettlementRelayer(stranger.address);
+
+            await expect(escrow.connect(relayer).releaseEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "NotAuthorized");
+            const [, , , , status] = await escrow.getEscrow(ORDER_ID);
+            expect(status).to.equal(LOCKED);
+        });
+
+        it("releases only once", async function () {
+            const { escrow, lp, relayer } = await loadFixture(deployReleasable);
+            await escrow.connect(relayer).releaseEscrow(ORDER_ID);
+
+            await expect(escrow.connect(relayer).releaseEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "InvalidStatus");
+            await expect(escrow.connect(lp).releaseEscrow(ORDER_ID))
+                .to.be.revertedWithCustomError(escrow, "InvalidStatus");
+        });
+    });
+});
@@ -0,0 +1,233 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture, time } = require("@nomicfoundation/hardhat-network-helpers");
+
+/**
+ * ValidatorVault
+ *
+ * The app's operator key (src/lib/validator-vault.ts) mirrors review rewards
+ * and slashes here. Every operator call is keyed — a cumulative total or a
+ * slash ID — so a resent tx can never credit or slash twice.
+ */
+
+const USDC = (n) => ethers.parseUnits(String(n), 6);
+const SLASH_ID = ethers.id("0xvalidator:slash-1");
+const UNBONDING = 7 * 24 * 60 * 60;
+
+async function deployVault() {
+    const [owner, operator, validator, other, stranger] = await ethers.getSigners();
+
+    const usdc = await ethers.deployContract("MockUSDC");
+    const vault = await ethers.deployContract("ValidatorVault", [await usdc.getAddress(), operator.address]);
+    const vaultAddress = await vault.getAddress();
+
+    for (const signer of [owner, validator, other]) {
+        await usdc.mint(signer.address, USDC(1000));
+        await usdc.connect(signer).approve(vaultAddress, USDC(1000));
+    }
+
+    return { vault, usdc, owner, operator, validator, other, stranger };
+}
+
+async function deployStakedVault() {
+    const fixture = await deployVault();
+    await fixture.vault.connect(fixture.validator).stake(USDC(100));
+    return fixture;
+}
+
+describe("ValidatorVault", function () {
+    describe("staking", function () {
+        it("takes a stake that reaches the minimum", async function () {
+            const { vault, usdc, validator } = await loadFixture(deployVault);
+
+            await expect(vault.connect(validator).stake(USDC(100)))
+                .to.emit(vault, "Staked")
+                .withArgs(validator.address, USDC(100), USDC(100));
+            expect((await vault.getValidator(validator.address)).stake).to.equal(USDC(100));
+            expect(await usdc.balanceOf(await vault.getAddress())).to.equal(USDC(100));
+        });
+
+        it("rejects a stake below the minimum", async function () {
+            const { vault, validator } = await loadFixture(deployVault);
+
+            await expect(vault.connect(validator).stake(USDC(99)))
+                .to.be.revertedWithCustomError(vault, "InsufficientStake");
+            await expect(vault.connect(validator).stake(0))
+                .to.be.revertedWithCustomError(vault, "InvalidAmount");
+        });
+
+        it("pays out unbonded stake only after the unbonding period", async function () {
+            const { vault, usdc, validator } = await loadFixture(deployStakedVault);
+
+            await vault.connect(validator).requestUnstake(USDC(40));
+            const { unbondingReleaseAt } = await vault.getValidator(validator.address);
+            await expect(vault.connect(validator).withdrawUnstaked())
+                .to.be.revertedWithCustomError(vault, "UnstakeNotReady")
+                .withArgs(unbondingReleaseAt);
+            await expect(vault.connect(validator).requestUnstake(USDC(10)))
+                .to.be.revertedWithCustomError(vault, "UnstakePending");
+
+            await time.increase(UNBONDING);
+            await expect(vault.connect(validator).withdrawUnstaked())
+                .to.changeTokenBalance(usdc, validator, USDC(40));
+            expect((await vault.getValidator(validator.address)).stake).to.equal(USDC(60));
+        });
+    });
+
+    describe("rewards", function () {
+        it("credits the difference up to a cumulative total, once", async function () {
+            const { vault, owner, operator, validator } = await loadFixture(deployVault);
+            await vault.connect(owner).fundRewards(USDC(10));
+
+            await expect(vault.connect(operator).syncRewards(validator.address, USDC(3)))
+                .to.emit(vault, "RewardsCredited")
+                .withArgs(validator.address, USDC(3), USDC(3));
+            // A resent or stale target is a no-op
+            await expect(vault.connect(operator).syncRewards(validator.address, USDC(3)))
+                .not.to.emit(vault, "RewardsCredited");
+            await vault.connect(operator).syncRewards(validator.address, USDC(2));
+
+            await vault.connect(operator).syncRewards(validator.address, USDC(5));
+            const v = await vault.getValidator(validator.address);
+            expect(v.claimable).to.equal(USDC(5));
+            expect(v.totalEarned).to.equal(USDC(5));
+            expect(await vault.rewardPool()).to.equal(USDC(5));
+        });
+
+        it("never credits more than the pool holds", async function () {
+            const { vault, owner, operator, validator } = await loadFixture(deployVault);
+            await vault.connect(owner).fundRewards(USDC(1));
+
+            await expect(vault.connect(operator).syncRewards(validator.address, USDC(2)))
+                .to.be.revertedWithCustomError(vault, "InsufficientRewardPool");
+        });
+
+        it("lets the validator claim what was credited", async function () {
+            const { vault, usdc, owner, operator, validator } = await loadFixture(deployVault);
+            await vault.connect(owner).fundRewards(USDC(10));
+            await vault.connect(operator).syncRewards(validator.address, USDC(4));
+
+            await expect(vault.connect(validator).claimRewards())
+                .to.changeTokenBalance(usdc, validator, USDC(4));
+            const v = await vault.getValidator(validator.address);
+            expect(v.claimable).to.equal(0);
+            expect(v.totalClaimed).to.equal(USDC(4));
+            await expect(vault.connect(validator).claimRewards())
+                .to.be.revertedWithCustomError(vault, "NothingToClaim");
+        });
+
+        it("only takes operator calls from the operator or owner", async function () {
+            const { vault, validator, stranger } = await loadFixture(deployVault);
+
+            await expect(vault.connect(stranger).syncRewards(validator.address, USDC(1)))
+                .to.be.revertedWithCustomError(vault, "NotOperator");
+            await expect(vault.connect(stranger).slash(SLASH_ID, validator.address, USDC(1)))
+                .to.be.revertedWithCustomError(vault, "NotOperator");
+        });
+    });
+
+    describe("slashing", function () {
+        it("moves stake into the slashed pool under a slash ID", async function () {
+            const { vault, operator, validator } = await loadFixture(deployStakedVault);
+
+            await expect(vault.connect(operator).slash(SLASH_ID, validator.address, USDC(25)))
+                .to.emit(vault, "ValidatorSlashed")
+                .withArgs(SLASH_ID, validator.address, USDC(25));
+            const v = await vault.getValidator(validator.address);
+            expect(v.stake).to.equal(USDC(75));
+            expect(v.totalSlashed).to.equal(USDC(25));
+            expect(await vault.slashedPool()).to.equal(USDC(25));
+
+            await expect(vault.connect(operator).slash(SLASH_ID, validator.address, USDC(25)))
+                .to.be.revertedWithCustomError(vault, "SlashExists");
+        });
+
+        it("reaches into unbonding stake and caps at what's there", async function () {
+            const { vault, operator, validator } = await loadFixture(deployStakedVault);
+            await vault.connect(validator).requestUnstake(USDC(80));
+
+            await vault.connect(operator).slash(SLASH_ID, validator.address, USDC(150));
+            const s = await vault.getSlash(SLASH_ID);
+            expect(s.fromStake).to.equal(USDC(20));
+            expect(s.fromUnbonding).to.equal(USDC(80));
+            const v = await vault.getValidator(validator.address);
+            expect(v.stake).to.equal(0);
+            expect(v.unbonding).to.equal(0);
+        });
+
+        it("returns a reversed slash to the stake, once", async function () {
+            const { vault, operator, validator } = await loadFixture(deployStakedVault);
+            await vault.connect(operator).slash(SLASH_ID, validator.address, USDC(25));
+
+            await expect(vault.connect(operator).reverseSlash(SLASH_ID))
+                .to.emit(vault, "SlashReversed")
+                .withArgs(SLASH_ID, validator.address, USDC(25));
+            const v = await vault.getValidator(validator.address);
+            expect(v.stake).to.equal(USDC(100));
+            expect(v.totalSlashed).to.equal(0);
+            expect(await vault.slashedPool()).to.equal(0);
+
+            await expect(vault.connect(operator).reverseSlash(SLASH_ID))
+                .to.be.revertedWithCustomError(vault, "SlashAlreadyReversed");
+            await expect(vault.connect(operator).reverseSlash(ethers.id("unknown")))
+                .to.be.revertedWithCustomError(vault, "SlashNotFound");
+        });
+
+        it("lets only the owner sweep the slashed pool", async function () {
+            const { vault, usdc, owner, operator, validator, stranger } = await loadFixture(deployStakedVault);
+            await vault.connect(operator).slash(SLASH_ID, validator.address, USDC(25));
+
+            await expect(vault.connect(operator).sweepSlashed(operator.address, USDC(25)))
+                .to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount")
+                .withArgs(operator.address);
+            await expect(vault.connect(owner).sweepSlashed(stranger.address, USDC(26)))
+                .to.be.revertedWithCustomError(vault, "InsufficientSlashedPool");
+            await expect(vault.connect(owner).sweepSlashed(stranger.address, USDC(25)))
+                .to.changeTokenBalance(usdc, stranger, USDC(25));
+        });
+    });
+
+    describe("platform fees from P2PEscrowV5", function () {
+        const ORDER_ID = ethers.id("order-1");
+
+        async function deployEscrowWithVault() {
+            const fixture = await deployVault();
+            const { usdc, vault, owner, validator: lp, other: user } = fixture;
+
+            const escrow = await ethers.deployContract("P2PEscrowV5", [await usdc.getAddress(), owner.address]);
+            const escrowAddress = await escrow.getAddress();
+            await usdc.connect(lp).approve(escrowAddress, USDC(100));
+            await escrow.connect(lp).stake(USDC(100));
+            await escrow.connect(lp).setActive(true);
+
+            await usdc.connect(user).approve(escrowAddress, USDC(1000));
+            const expiresAt = (await time.latest()) + 3600;
+            await escrow.connect(user).createEscrow(ORDER_ID, USDC(20), lp.address, expiresAt, 90_000000);
+
+            await expect(escrow.setValidatorVault(await vault.getAddress()))
+                .to.emit(escrow, "ValidatorVaultUpdated")
+                .withArgs(await vault.getAddress());
+            return { ...fixture, escrow, lp };
+        }
+
+        it("pays a released order's fee into the reward pool", async function () {
+            const { vault, usdc, escrow, owner, lp } = await loadFixture(deployEscrowWithVault);
+            const fee = USDC(20) * 50n / 10000n;
+
+            const tx = escrow.connect(lp).releaseEscrow(ORDER_ID);
+            await expect(tx).to.changeTokenBalances(usdc, [vault, owner], [fee, 0]);
+            await expect(tx)
+                .to.emit(vault, "RewardsFunded")
+                .withArgs(await escrow.getAddress(), fee);
+            expect(await vault.rewardPool()).to.equal(fee);
+        });
+
+        it("lets only the escrow owner point fees at a vault", async function () {
+            const { escrow, stranger } = await loadFixture(deployEscrowWithVault);
+
+            await expect(escrow.connect(stranger).setValidatorVault(stranger.address))
+                .to.be.revertedWithCustomError(escrow, "OwnableUnauthorizedAccount")
+                .withArgs(stranger.address);
+        });
+    });
+});
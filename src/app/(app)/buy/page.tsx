@@ -50,9 +50,9 @@ export default function BuyPage() {
             try {
                 const { fetchLiveRates } = await import('@/lib/currency-converter')
                 const rates = await fetchLiveRates()
-                setLiveRate(rates.INR || 83.50)
+                setLiveRate(rates.INR ?? null)
             } catch {
-                setLiveRate(83.50)
+                setLiveRate(null)
             }
         }
         fetchRate()
@@ -96,7 +96,7 @@ export default function BuyPage() {
     const formattedCountdown = `${Math.floor(countdown / 60)}:${(countdown % 60).toString().padStart(2, "0")}`
 
     const handleContinue = () => {
-        if (amount === "0" || parseFloat(amount) <= 0) return
+        if (amount === "0" || parseFloat(amount) <= 0 || !liveRate) return
 
         // Check limit
         if (orderExceedsLimit) {
@@ -224,7 +224,7 @@ export default function BuyPage() {
                     {/* Execute Button */}
                     <button
                         onClick={handleContinue}
-                        disabled={amount === "0" || parseFloat(amount) <= 0 || orderExceedsLimit}
+                        disabled={amount === "0" || parseFloat(amount) <= 0 || orderExceedsLimit || !liveRate}
                         className="w-full mt-6 py-4 bg-brand text-black font-bold uppercase tracking-wider disabled:opacity-50 disabled:cursor-not-allowed hover:bg-brand-hover transition-colors font-mono relative overflow-hidden"
                     >
                         <span className="relative z-10">{">"} EXECUTE_ORDER</span>
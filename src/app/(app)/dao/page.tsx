@@ -5,20 +5,24 @@ import Link from "next/link"
 import {
     ChevronLeft, Shield, Clock, CheckCircle, XCircle, AlertTriangle,
     Award, Eye, ThumbsUp, ThumbsDown, Loader2, Coins, DollarSign,
-    ImageIcon, RefreshCw, Flag, ArrowRight, Zap, Check
+    ImageIcon, RefreshCw, Flag, Zap, Check, Lock, LockOpen
 } from "lucide-react"
 import { useWallet } from "@/hooks/useWallet"
-import { useStaking } from "@/hooks/useStaking"
+import { useValidatorVault } from "@/hooks/useValidatorVault"
 import { Badge } from "@/components/ui/badge"
 import { WalletConnect } from "@/components/app/wallet-connect"
+import { type VoteDecision, type VotingPhase, generateVoteSalt, voteCommitHash } from "@/lib/vote-commit"
 
 /**
  * Validator Dashboard — DAO Validation Page
  * 
- * Open pool: ALL Gold+ stakers see ALL pending validations.
- * Race to review — first 3 votes resolve the task.
+ * Committees: each task is shown only to the validators drawn for it, who
+ * must commit before their respond-by time or lose the seat to a redraw.
+ * Votes are commit-reveal: the decision is sealed (hash committed, salt kept
+ * in localStorage) and revealed automatically once the reveal phase opens.
  * Majority approve → LP gets paid. Majority flag → escalated to admin.
- * Validators earn $0.05 USDC per review.
+ * Validators earn $0.05 USDC per revealed review; skipping the reveal is slashed.
+ * Stake and rewards live in ValidatorVault — the wallet tab claims them.
  */
 
 interface ValidationTask {
@@ -27,6 +31,7 @@ interface ValidationTask {
     status: 'pending' | 'approved' | 'flagged' | 'escalated' | 'auto_approved'
     evidence: {
         userQrImage?: string
+        userQrPayee?: { scheme?: string; type: string; recipient?: string; recipientName?: string; amount?: number; currency?: string; reference?: string }
         userAddress: string
         lpScreenshot?: string
         lpAddress: string
@@ -41,10 +46,24 @@ interface ValidationTask {
     deadline: number
     resolvedAt?: number
     resolvedBy?: string
+    commitDeadline?: number
+    revealDeadline?: number
+    committeeSize?: number
+    myRespondBy?: number | null     // Commit before this or the seat is redrawn
+    phase: VotingPhase
+    myCommitted: boolean
     myVote?: string | null
-    votesCount: number
-    approvesCount: number
-    flagsCount: number
+    votesCount: number              // Sealed ballots committed
+    revealsCount: number
+    approvesCount: number | null    // Hidden until the task resolves
+    flagsCount: number | null
+}
+
+/** What we need to reveal later — never sent to the server before the reveal */
+interface SealedBallot {
+    decision: VoteDecision
+    salt: string
+    notes?: string
 }
 
 interface ValidatorProfile {
@@ -55,17 +74,37 @@ interface ValidatorProfile {
     flags: number
     accuracy: number
     lastReviewAt?: number
+    staked?: number
+    cooldownUntil?: number
+    slashLedger?: SlashEntry[]
+}
+
+interface SlashEntry {
+    id: string
+    orderId: string
+    reason: 'minority_vote' | 'no_reveal'
+    decision?: 'approve' | 'flag'
+    percent: number
+    amount: number
+    at: number
+    appeal?: { status: 'pending' | 'granted' | 'rejected'; reviewNote?: string }
+    reversedAt?: number
 }
 
 interface ValidationConfig {
     threshold: number
     rewardPerReview: number
     timeoutMs: number
+    commitWindowMs?: number
+    revealWindowMs?: number
+    committeeSize?: number
+    responseWindowMs?: number
 }
 
 export default function ValidatorDashboard() {
     const { isConnected, address } = useWallet()
-    const { stakeProfile, fetchStakeProfile, isLoading: isStakingLoading } = useStaking()
+    const vault = useValidatorVault()
+    const { position: vaultPosition, fetchPosition: fetchVaultPosition } = vault
 
     const [mounted, setMounted] = useState(false)
     const [validations, setValidations] = useState<ValidationTask[]>([])
@@ -83,10 +122,11 @@ export default function ValidatorDashboard() {
     const TEST_VALIDATORS = (process.env.NEXT_PUBLIC_DAO_VALIDATORS || '').split(',').map(a => a.trim().toLowerCase()).filter(Boolean)
     const isTestValidator = address ? TEST_VALIDATORS.includes(address.toLowerCase()) : false
 
-    // Check if user qualifies as validator (>=100 USDC stake OR whitelisted validator)
-    const hasValidatorStake = isTestValidator || (stakeProfile && stakeProfile.baseStake >= 100)
+    // Check if user qualifies as validator (>=100 USDC in the vault OR whitelisted validator)
+    const hasValidatorStake = isTestValidator || (!!vaultPosition && vaultPosition.staked >= 100)
+    const [stakeInput, setStakeInput] = useState("100")
 
-    // isChecking = true until stakeProfile is loaded from chain
+    // isChecking = true until the vault position is loaded from chain
     const [hasFetched, setHasFetched] = useState(false)
     const isChecking = !hasFetched && !!address
 
@@ -94,14 +134,14 @@ export default function ValidatorDashboard() {
         setMounted(true)
         if (address) {
             setHasFetched(false)
-            fetchStakeProfile().finally(() => setHasFetched(true))
+            fetchVaultPosition().finally(() => setHasFetched(true))
         }
-    }, [address, fetchStakeProfile])
+    }, [address, fetchVaultPosition])
 
-    // Auto-register as DAO validator if user has sufficient on-chain stake but isn't registered
+    // Auto-register as DAO validator if user has sufficient vault stake but isn't registered
     const autoRegisterAttempted = useRef(false)
     const ensureRegistered = useCallback(async () => {
-        if (!address || !stakeProfile || stakeProfile.baseStake < 100) return
+        if (!address || !vaultPosition || vaultPosition.staked < 100) return
         if (autoRegisterAttempted.current) return
         autoRegisterAttempted.current = true
 
@@ -111,12 +151,12 @@ export default function ValidatorDashboard() {
             const checkData = await checkRes.json()
 
             if (checkData.success && !checkData.registered) {
-                // Auto-register with their on-chain stake
-                console.log(`[DAO] Auto-registering validator ${address} with $${stakeProfile.baseStake} stake`)
+                // Auto-register — the server reads the stake from the vault
+                console.log(`[DAO] Auto-registering validator ${address} with $${vaultPosition.staked} stake`)
                 const regRes = await fetch('/api/dao/register', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ address, stakeAmount: stakeProfile.baseStake })
+                    body: JSON.stringify({})
                 })
                 const regData = await regRes.json()
                 if (regData.success) {
@@ -126,7 +166,7 @@ export default function ValidatorDashboard() {
         } catch (err) {
             console.error('[DAO] Auto-register check failed:', err)
         }
-    }, [address, stakeProfile])
+    }, [address, vaultPosition])
 
     // Fetch validations
     const fetchValidations = useCallback(async () => {
@@ -144,12 +184,19 @@ export default function ValidatorDashboard() {
                 setValidations(data.validations || [])
                 setProfile(data.profile || null)
                 setConfig(data.config)
+
+                // Reveal any sealed ballots whose reveal phase has opened
+                const toReveal = (data.validations || []).filter((t: ValidationTask) =>
+                    t.phase === 'reveal' && t.myCommitted && !t.myVote && !revealing.current.has(t.id)
+                )
+                for (const task of toReveal) revealVote(task)
             }
         } catch (err) {
             console.error('Failed to fetch validations:', err)
         } finally {
             setIsLoading(false)
         }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [address, showResolved])
 
     useEffect(() => {
@@ -181,26 +228,72 @@ export default function ValidatorDashboard() {
         }
     }
 
-    // Inline vote (from card buttons — no notes)
-    const submitVoteInline = async (task: ValidationTask, decision: 'approve' | 'flag') => {
+    // ─── Commit-reveal ──────────────────────────────────
+    const ballotKey = (taskId: string) => `uwu_vote_${taskId}_${address?.toLowerCase()}`
+    const revealing = useRef(new Set<string>())
+
+    // Phase 1: seal the decision and commit its hash
+    const commitVote = async (task: ValidationTask, decision: VoteDecision, voteNotes?: string): Promise<boolean> => {
+        if (!address) return false
+        const ballot: SealedBallot = { decision, salt: generateVoteSalt(), notes: voteNotes }
+        // Save before committing — a lost salt means a missed reveal (and a slash)
+        localStorage.setItem(ballotKey(task.id), JSON.stringify(ballot))
+
+        const res = await fetch('/api/validations', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                action: 'commit',
+                taskId: task.id,
+                commitHash: voteCommitHash(task.id, address, decision, ballot.salt),
+            })
+        })
+        const data = await res.json()
+        if (!data.success) {
+            localStorage.removeItem(ballotKey(task.id))
+            alert(data.error || 'Vote failed')
+            return false
+        }
+        return true
+    }
+
+    // Phase 2: open the sealed ballot
+    const revealVote = async (task: ValidationTask) => {
         if (!address) return
-        setIsVoting(true)
+        const stored = localStorage.getItem(ballotKey(task.id))
+        if (!stored) {
+            console.warn(`[DAO] No sealed ballot for ${task.id} in this browser — can't reveal`)
+            return
+        }
+        revealing.current.add(task.id)
         try {
+            const ballot = JSON.parse(stored) as SealedBallot
             const res = await fetch('/api/validations', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    taskId: task.id,
-                    validator: address,
-                    decision,
-                })
+                body: JSON.stringify({ action: 'reveal', taskId: task.id, ...ballot })
             })
             const data = await res.json()
             if (data.success) {
-                setSelectedTask(null)
+                localStorage.removeItem(ballotKey(task.id))
                 fetchValidations()
             } else {
-                alert(data.error || 'Vote failed')
+                console.error(`[DAO] Reveal failed for ${task.id}:`, data.error)
+            }
+        } catch (err) {
+            console.error('Reveal failed:', err)
+        } finally {
+            revealing.current.delete(task.id)
+        }
+    }
+
+    // Inline vote (from card buttons — no notes)
+    const submitVoteInline = async (task: ValidationTask, decision: VoteDecision) => {
+        setIsVoting(true)
+        try {
+            if (await commitVote(task, decision)) {
+                setSelectedTask(null)
+                fetchValidations()
             }
         } catch (err) {
             console.error('Vote failed:', err)
@@ -211,28 +304,15 @@ export default function ValidatorDashboard() {
     }
 
     // Submit vote (from modal — with optional notes)
-    const submitVote = async (decision: 'approve' | 'flag') => {
-        if (!selectedTask || !address) return
+    const submitVote = async (decision: VoteDecision) => {
+        if (!selectedTask) return
         setIsVoting(true)
         try {
-            const res = await fetch('/api/validations', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    taskId: selectedTask.id,
-                    validator: address,
-                    decision,
-                    notes: notes.trim() || undefined,
-                })
-            })
-            const data = await res.json()
-            if (data.success) {
+            if (await commitVote(selectedTask, decision, notes.trim() || undefined)) {
                 setSelectedTask(null)
                 setFullEvidence(null)
                 setNotes("")
                 fetchValidations()
-            } else {
-                alert(data.error || 'Vote failed')
             }
         } catch (err) {
             console.error('Vote failed:', err)
@@ -242,6 +322,45 @@ export default function ValidatorDashboard() {
         }
     }
 
+    // Ask the core team to review a minority-vote slash
+    const fileAppeal = async (entry: SlashEntry) => {
+        const note = prompt('Why was your vote right? (optional)')
+        if (note === null) return
+        try {
+            const res = await fetch('/api/validations', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action: 'appeal', entryId: entry.id, note: note.trim() || undefined })
+            })
+            const data = await res.json()
+            if (data.success) fetchValidations()
+            else alert(data.error || 'Appeal failed')
+        } catch (err) {
+            console.error('Appeal failed:', err)
+            alert('Network error')
+        }
+    }
+
+    // ─── Vault ──────────────────────────────────────────
+    // Approve + stake; registration follows automatically once it lands
+    const stakeInVault = async () => {
+        const amount = Number(stakeInput)
+        if (!amount || amount <= 0) return
+        await vault.stake(amount)
+    }
+
+    const claimRewards = async () => {
+        if (await vault.claimRewards()) fetchValidations()
+    }
+
+    // Unbonding stays slashable until withdrawn; dropping under $100 ends validating
+    const unstakeFromVault = async () => {
+        const input = prompt(`Unstake how much? (staked: $${(vaultPosition?.staked || 0).toFixed(2)})`)
+        const amount = Number(input)
+        if (!input || !amount || amount <= 0) return
+        await vault.requestUnstake(amount)
+    }
+
     // Open review modal
     const openReview = (task: ValidationTask) => {
         setSelectedTask(task)
@@ -333,17 +452,28 @@ export default function ValidatorDashboard() {
                             Stake &ge;$100 USDC to become a validator and earn $0.05 per review.
                         </p>
                         <p className="text-text-secondary text-sm mb-6">
-                            Your tier: <span className="text-brand font-bold">{stakeProfile?.tier || 'None'}</span>
-                            {stakeProfile?.baseStake ? ` ($${stakeProfile.baseStake.toFixed(0)} staked)` : ''}
+                            In the validator vault: <span className="text-brand font-bold">${(vaultPosition?.staked || 0).toFixed(2)}</span>
                         </p>
-                        <Link
-                            href="/stake"
-                            className="inline-flex items-center gap-2 px-6 py-3 bg-brand text-black font-medium hover:bg-brand/90 transition-colors"
-                        >
-                            <Coins className="w-5 h-5" />
-                            Stake to become validator
-                            <ArrowRight className="w-4 h-4" />
-                        </Link>
+                        <div className="flex items-center justify-center gap-2">
+                            <input
+                                type="number"
+                                min={100}
+                                value={stakeInput}
+                                onChange={(e) => setStakeInput(e.target.value)}
+                                className="w-28 px-3 py-3 bg-background border border-border text-text-primary font-mono text-sm focus:outline-none focus:border-brand"
+                            />
+                            <button
+                                onClick={stakeInVault}
+                                disabled={vault.isLoading || (vaultPosition?.staked || 0) + Number(stakeInput) < 100}
+                                className="inline-flex items-center gap-2 px-6 py-3 bg-brand text-black font-medium hover:bg-brand/90 transition-colors disabled:opacity-50"
+                            >
+                                {vault.isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Coins className="w-5 h-5" />}
+                                Stake to become validator
+                            </button>
+                        </div>
+                        {vault.error && (
+                            <p className="text-red-400 text-xs mt-3">{vault.error.message}</p>
+                        )}
                     </div>
                 )}
 
@@ -373,7 +503,7 @@ export default function ValidatorDashboard() {
                                 History
                             </button>
                             <button
-                                onClick={() => setTab('wallet')}
+                                onClick={() => { setTab('wallet'); fetchVaultPosition() }}
                                 className={`flex-1 py-3 flex items-center justify-center gap-2 transition-colors ${tab === 'wallet'
                                     ? 'bg-[#22c55e] text-black'
                                     : 'bg-[#111114] text-[#8b8b9e] hover:text-white'
@@ -425,6 +555,50 @@ export default function ValidatorDashboard() {
                                     </div>
                                 </div>
 
+                                {/* Cool-off after a slash */}
+                                {profile?.cooldownUntil && profile.cooldownUntil > Date.now() && (
+                                    <div className="bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400 flex items-center gap-2">
+                                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                                        Cooling off after a slash &mdash; no new committees for {timeLeft(profile.cooldownUntil).replace(' left', '')}
+                                    </div>
+                                )}
+
+                                {/* Slash ledger */}
+                                {(profile?.slashLedger?.length || 0) > 0 && (
+                                    <div className="bg-surface border border-border p-4">
+                                        <h3 className="text-sm font-bold text-text-primary mb-3 flex items-center gap-2">
+                                            <AlertTriangle className="w-4 h-4 text-red-400" />
+                                            Slash Ledger
+                                        </h3>
+                                        <div className="space-y-2">
+                                            {[...(profile?.slashLedger || [])].reverse().map(entry => (
+                                                <div key={entry.id} className="flex items-center gap-3 text-xs">
+                                                    <div className="flex-1 min-w-0">
+                                                        <div className="text-text-primary">
+                                                            #{entry.orderId.slice(0, 8)} &bull; {entry.reason === 'no_reveal' ? 'vote not revealed' : `voted ${entry.decision} against the majority`}
+                                                        </div>
+                                                        <div className="text-text-secondary">{new Date(entry.at).toLocaleDateString()} &bull; {entry.percent}% of stake</div>
+                                                    </div>
+                                                    <div className={`font-mono font-bold ${entry.reversedAt ? 'text-text-secondary line-through' : 'text-red-400'}`}>
+                                                        -${entry.amount.toFixed(2)}
+                                                    </div>
+                                                    {entry.reversedAt ? (
+                                                        <Badge className="bg-green-500/20 text-green-400 text-[10px]">Reversed</Badge>
+                                                    ) : entry.appeal ? (
+                                                        <Badge className="bg-gray-500/20 text-gray-400 text-[10px]">
+                                                            {entry.appeal.status === 'pending' ? 'Appealed' : 'Appeal rejected'}
+                                                        </Badge>
+                                                    ) : entry.reason === 'minority_vote' ? (
+                                                        <button onClick={() => fileAppeal(entry)} className="text-brand hover:underline">
+                                                            Appeal
+                                                        </button>
+                                                    ) : null}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* How it works */}
                                 <div className="bg-surface border border-border p-4">
                                     <h3 className="text-sm font-bold text-text-primary mb-3 flex items-center gap-2">
@@ -444,9 +618,13 @@ export default function ValidatorDashboard() {
                                             <div className="w-6 h-6 rounded-full bg-brand/20 flex items-center justify-center text-brand text-xs font-bold shrink-0">3</div>
                                             <div>Majority approve &rarr; payment released. Majority flag &rarr; escalated to admin.</div>
                                         </div>
+                                        <div className="flex gap-3">
+                                            <div className="w-6 h-6 rounded-full bg-red-500/20 flex items-center justify-center text-red-400 text-xs font-bold shrink-0">!</div>
+                                            <div>A minority vote costs a slice of stake and a cool-off &mdash; appeal it if the order is later resolved your way</div>
+                                        </div>
                                         <div className="flex gap-3">
                                             <div className="w-6 h-6 rounded-full bg-green-500/20 flex items-center justify-center text-green-400 text-xs font-bold shrink-0">$</div>
-                                            <div>You earn <span className="text-green-400">${config.rewardPerReview} USDC</span> per review</div>
+                                            <div>You earn <span className="text-green-400">${config.rewardPerReview} USDC</span> per review, claimable from the vault in the Wallet tab</div>
                                         </div>
                                     </div>
                                 </div>
@@ -491,12 +669,18 @@ export default function ValidatorDashboard() {
                                                         </span>
                                                     </div>
                                                 </div>
-                                                <StatusBadge status={task.status} myVote={task.myVote} />
+                                                <StatusBadge status={task.status} myVote={task.myVote} myCommitted={task.myCommitted} />
                                             </div>
 
-                                            {/* Approve / Flag buttons for pending tasks the user hasn't voted on */}
-                                            {task.status === 'pending' && !task.myVote && (
+                                            {/* Approve / Flag buttons while the commit window is open */}
+                                            {task.phase === 'commit' && !task.myCommitted && (
                                                 <div className="mt-3 pt-3 border-t border-border space-y-2">
+                                                    {task.myRespondBy && (
+                                                        <div className="text-[10px] text-text-secondary flex items-center gap-1">
+                                                            <Clock className="w-3 h-3" />
+                                                            Drawn for this committee &middot; {timeLeft(task.myRespondBy)} to respond
+                                                        </div>
+                                                    )}
                                                     <div className="flex gap-2">
                                                         <button
                                                             onClick={(e) => { e.stopPropagation(); setSelectedTask(task); submitVoteInline(task, 'approve') }}
@@ -533,6 +717,24 @@ export default function ValidatorDashboard() {
                                                 </div>
                                             )}
 
+                                            {task.myCommitted && !task.myVote && (
+                                                <div className="mt-2 pt-2 border-t border-border text-xs text-text-secondary flex items-center gap-1">
+                                                    {task.phase === 'reveal' ? (
+                                                        <>
+                                                            <LockOpen className="w-3 h-3 text-blue-400" /> Reveal open
+                                                            <button
+                                                                onClick={(e) => { e.stopPropagation(); revealVote(task) }}
+                                                                className="ml-auto text-brand hover:underline"
+                                                            >
+                                                                Reveal now
+                                                            </button>
+                                                        </>
+                                                    ) : (
+                                                        <><Lock className="w-3 h-3 text-blue-400" /> Vote sealed — reveals after the commit window</>
+                                                    )}
+                                                </div>
+                                            )}
+
                                             {task.myVote && (
                                                 <div className="mt-2 pt-2 border-t border-border text-xs text-text-secondary flex items-center gap-1">
                                                     {task.myVote === 'approve' ? (
@@ -555,9 +757,20 @@ export default function ValidatorDashboard() {
                                 <div className="bg-gradient-to-br from-green-900/20 to-brand/10 border border-green-500/20 p-6 text-center">
                                     <DollarSign className="w-12 h-12 text-green-400 mx-auto mb-2" />
                                     <div className="text-3xl font-bold text-green-400 font-mono mb-1">
-                                        ${(profile?.totalEarned || 0).toFixed(2)}
+                                        ${(vaultPosition?.claimable || 0).toFixed(2)}
                                     </div>
-                                    <div className="text-xs text-text-secondary uppercase">Total Validator Earnings</div>
+                                    <div className="text-xs text-text-secondary uppercase mb-4">Claimable Rewards</div>
+                                    <button
+                                        onClick={claimRewards}
+                                        disabled={vault.isLoading || !vaultPosition?.claimable}
+                                        className="inline-flex items-center gap-2 px-6 py-2 bg-green-500 text-black font-bold text-sm hover:bg-green-400 transition-colors disabled:opacity-50"
+                                    >
+                                        {vault.isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Coins className="w-4 h-4" />}
+                                        Claim
+                                    </button>
+                                    {vault.error && (
+                                        <p className="text-red-400 text-xs mt-3">{vault.error.message}</p>
+                                    )}
                                 </div>
 
                                 <div className="bg-surface border border-border p-4">
@@ -566,9 +779,62 @@ export default function ValidatorDashboard() {
                                         <span className="text-text-primary font-mono text-xs">{address?.slice(0, 10)}...{address?.slice(-6)}</span>
                                     </div>
                                     <div className="flex justify-between items-center py-2 border-b border-border">
-                                        <span className="text-text-secondary text-sm">Valid Validator Stake</span>
-                                        <span className="text-brand font-bold">Yes (&ge;$100)</span>
+                                        <span className="text-text-secondary text-sm">Staked in Vault</span>
+                                        <span className="flex items-center gap-3">
+                                            <span className="text-brand font-bold font-mono">${(vaultPosition?.staked || 0).toFixed(2)}</span>
+                                            {!vaultPosition?.unbonding && !!vaultPosition?.staked && (
+                                                <button
+                                                    onClick={unstakeFromVault}
+                                                    disabled={vault.isLoading}
+                                                    className="text-text-secondary text-xs hover:text-white underline disabled:opacity-50"
+                                                >
+                                                    Unstake
+                                                </button>
+                                            )}
+                                        </span>
                                     </div>
+                                    {!!vaultPosition?.unbonding && (
+                                        <div className="flex justify-between items-center py-2 border-b border-border">
+                                            <span className="text-text-secondary text-sm">Unbonding</span>
+                                            {vaultPosition.unbondingReleaseAt <= Date.now() ? (
+                                                <button
+                                                    onClick={vault.withdrawUnstaked}
+                                                    disabled={vault.isLoading}
+                                                    className="text-brand font-bold font-mono text-sm hover:underline disabled:opacity-50"
+                                                >
+                                                    Withdraw ${vaultPosition.unbonding.toFixed(2)}
+                                                </button>
+                                            ) : (
+                                                <span className="text-yellow-400 font-mono text-sm">
+                                                    ${vaultPosition.unbonding.toFixed(2)} · {new Date(vaultPosition.unbondingReleaseAt).toLocaleDateString()}
+                                                </span>
+                                            )}
+                                        </div>
+                                    )}
+                                    <div className="flex justify-between items-center py-2 border-b border-border">
+                                        <span className="text-text-secondary text-sm">Earned (credited on-chain)</span>
+                                        <span className="text-green-400 font-bold font-mono">${(vaultPosition?.totalEarned || 0).toFixed(2)}</span>
+                                    </div>
+                                    {(profile?.totalEarned || 0) - (vaultPosition?.totalEarned || 0) >= 0.01 && (
+                                        <div className="flex justify-between items-center py-2 border-b border-border">
+                                            <span className="text-text-secondary text-sm">Awaiting credit</span>
+                                            <span className="text-yellow-400 font-mono text-sm">
+                                                ${((profile?.totalEarned || 0) - (vaultPosition?.totalEarned || 0)).toFixed(2)}
+                                            </span>
+                                        </div>
+                                    )}
+                                    {!!vaultPosition?.totalClaimed && (
+                                        <div className="flex justify-between items-center py-2 border-b border-border">
+                                            <span className="text-text-secondary text-sm">Claimed</span>
+                                            <span className="text-text-primary font-mono text-sm">${vaultPosition.totalClaimed.toFixed(2)}</span>
+                                        </div>
+                                    )}
+                                    {!!vaultPosition?.totalSlashed && (
+                                        <div className="flex justify-between items-center py-2 border-b border-border">
+                                            <span className="text-text-secondary text-sm">Slashed</span>
+                                            <span className="text-red-400 font-mono text-sm">-${vaultPosition.totalSlashed.toFixed(2)}</span>
+                                        </div>
+                                    )}
                                     <div className="flex justify-between items-center py-2">
                                         <span className="text-text-secondary text-sm">Reward Rate</span>
                                         <span className="text-green-400 font-bold">${config.rewardPerReview}/review</span>
@@ -609,7 +875,7 @@ export default function ValidatorDashboard() {
                         <div className="bg-background border border-border rounded-lg p-4 mb-4">
                             <div className="flex justify-between items-center mb-2">
                                 <span className="text-xs text-brand font-mono">#{selectedTask.orderId.slice(0, 8)}</span>
-                                <StatusBadge status={selectedTask.status} myVote={selectedTask.myVote} />
+                                <StatusBadge status={selectedTask.status} myVote={selectedTask.myVote} myCommitted={selectedTask.myCommitted} />
                             </div>
                             <div className="grid grid-cols-2 gap-3 text-sm">
                                 <div>
@@ -626,7 +892,11 @@ export default function ValidatorDashboard() {
                                 </div>
                                 <div>
                                     <div className="text-text-secondary text-xs">Votes</div>
-                                    <div className="text-text-primary">{selectedTask.votesCount}/{selectedTask.threshold}</div>
+                                    <div className="text-text-primary">
+                                        {selectedTask.approvesCount !== null && selectedTask.flagsCount !== null
+                                            ? `${selectedTask.approvesCount} approve · ${selectedTask.flagsCount} flag`
+                                            : `${selectedTask.votesCount}/${selectedTask.threshold} sealed`}
+                                    </div>
                                 </div>
                             </div>
                         </div>
@@ -644,6 +914,18 @@ export default function ValidatorDashboard() {
                                             alt="Buyer evidence"
                                             className="w-full rounded-lg border border-border max-h-48 object-contain bg-black"
                                         />
+                                        {fullEvidence?.evidence.userQrPayee && (
+                                            <div className="mt-1 bg-background border border-border rounded p-2 text-xs font-mono">
+                                                <div className="text-text-secondary">{fullEvidence.evidence.userQrPayee.scheme || fullEvidence.evidence.userQrPayee.type.toUpperCase()} payee (decoded)</div>
+                                                <div className="text-text-primary break-all">{fullEvidence.evidence.userQrPayee.recipient}</div>
+                                                {fullEvidence.evidence.userQrPayee.recipientName && (
+                                                    <div className="text-text-secondary">{fullEvidence.evidence.userQrPayee.recipientName}</div>
+                                                )}
+                                                {fullEvidence.evidence.userQrPayee.amount !== undefined && (
+                                                    <div className="text-text-secondary">QR amount: {fullEvidence.evidence.userQrPayee.currency} {fullEvidence.evidence.userQrPayee.amount}</div>
+                                                )}
+                                            </div>
+                                        )}
                                     </div>
                                 )}
                                 {(fullEvidence?.evidence.lpScreenshot || selectedTask.evidence.lpScreenshot) && (
@@ -672,7 +954,7 @@ export default function ValidatorDashboard() {
                         )}
 
                         {/* Notes Input */}
-                        {selectedTask.status === 'pending' && !selectedTask.myVote && (
+                        {selectedTask.phase === 'commit' && !selectedTask.myCommitted && (
                             <div className="mb-4">
                                 <label className="text-xs text-text-secondary block mb-1">Notes (optional)</label>
                                 <textarea
@@ -685,7 +967,7 @@ export default function ValidatorDashboard() {
                         )}
 
                         {/* Action Buttons */}
-                        {selectedTask.status === 'pending' && !selectedTask.myVote && (
+                        {selectedTask.phase === 'commit' && !selectedTask.myCommitted && (
                             <div className="flex gap-3">
                                 <button
                                     onClick={() => submitVote('approve')}
@@ -706,6 +988,23 @@ export default function ValidatorDashboard() {
                             </div>
                         )}
 
+                        {/* Sealed, not yet revealed */}
+                        {selectedTask.myCommitted && !selectedTask.myVote && (
+                            <div className="text-center py-3 text-sm text-text-secondary">
+                                {selectedTask.phase === 'reveal' ? (
+                                    <button
+                                        onClick={() => revealVote(selectedTask)}
+                                        className="w-full py-3 bg-brand hover:bg-brand/80 text-black font-bold rounded-lg flex items-center justify-center gap-2 transition-colors"
+                                    >
+                                        <LockOpen className="w-5 h-5" />
+                                        Reveal Vote
+                                    </button>
+                                ) : (
+                                    <span className="text-blue-400 flex items-center justify-center gap-1"><Lock className="w-4 h-4" /> Your vote is sealed until the commit window closes</span>
+                                )}
+                            </div>
+                        )}
+
                         {/* Already voted */}
                         {selectedTask.myVote && (
                             <div className="text-center py-3 text-sm text-text-secondary">
@@ -724,7 +1023,16 @@ export default function ValidatorDashboard() {
 }
 
 // Status badge component
-function StatusBadge({ status, myVote }: { status: string; myVote?: string | null }) {
+function StatusBadge({ status, myVote, myCommitted }: { status: string; myVote?: string | null; myCommitted?: boolean }) {
+    if (status === 'pending' && myCommitted && !myVote) {
+        return (
+            <Badge className="bg-blue-500/20 text-blue-400 text-[10px]">
+                <Lock className="w-3 h-3 mr-1" />
+                Sealed
+            </Badge>
+        )
+    }
+
     if (myVote) {
         return (
             <Badge className="bg-blue-500/20 text-blue-400 text-[10px]">
@@ -27,7 +27,7 @@ function DashboardContent() {
     const loadRate = useCallback(async () => {
         try {
             const rates = await fetchLiveRates()
-            setLiveRate(rates.INR)
+            setLiveRate(rates.INR ?? null)
         } catch (err) {
             console.error('Failed to fetch rate:', err)
         }
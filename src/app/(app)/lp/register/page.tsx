@@ -56,6 +56,9 @@ export default function LPRegisterPage() {
     
     // LP Configuration
     const [marketRate, setMarketRate] = useState<number | null>(null)
+    const [pricingMode, setPricingMode] = useState<"spread" | "fixed">("spread")
+    const [spreadPct, setSpreadPct] = useState("0.5")
+    const [fixedRate, setFixedRate] = useState("")
     const [minOrder, setMinOrder] = useState("10")
     const [maxOrder, setMaxOrder] = useState("1000")
 
@@ -65,11 +68,10 @@ export default function LPRegisterPage() {
             try {
                 const { fetchLiveRates } = await import('@/lib/currency-converter')
                 const rates = await fetchLiveRates()
-                const inrRate = rates.INR || 83.50
-                setMarketRate(inrRate)
+                setMarketRate(rates.INR ?? null)
             } catch (error) {
                 console.error('Failed to fetch rate:', error)
-                setMarketRate(83.50)
+                setMarketRate(null)
             }
         }
         fetchRate()
@@ -126,6 +128,14 @@ export default function LPRegisterPage() {
         }
     }
 
+    // The price this LP pays per USDC (spread is taken off the market rate)
+    const lpRate = pricingMode === "fixed"
+        ? parseFloat(fixedRate) || null
+        : marketRate !== null ? marketRate * (1 - (parseFloat(spreadPct) || 0) / 100) : null
+    const pricingValid = pricingMode === "fixed"
+        ? parseFloat(fixedRate) > 0
+        : parseFloat(spreadPct) >= 0 && parseFloat(spreadPct) <= 5
+
     const handleActivateLP = async () => {
         setIsActivating(true)
         
@@ -136,7 +146,10 @@ export default function LPRegisterPage() {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     address,
-                    rate: marketRate, // Use live market rate
+                    currency: 'INR',
+                    pricing: pricingMode === "fixed"
+                        ? { mode: "fixed", rate: parseFloat(fixedRate) }
+                        : { mode: "spread", spreadBps: Math.round(parseFloat(spreadPct) * 100) },
                     minOrder: parseFloat(minOrder),
                     maxOrder: parseFloat(maxOrder),
                     paymentMethods: ['UPI'], // Only UPI supported
@@ -535,7 +548,7 @@ export default function LPRegisterPage() {
                 {currentStep === 3 && (
                     <div className="space-y-4">
                         <div className="bg-surface border border-border rounded-lg p-4">
-                            <h3 className="font-bold text-text-primary mb-4">Order Limits</h3>
+                            <h3 className="font-bold text-text-primary mb-4">Pricing & Order Limits</h3>
                             
                             <div className="space-y-4">
                                 {/* Show current market rate (read-only) */}
@@ -544,7 +557,43 @@ export default function LPRegisterPage() {
                                         <span className="text-sm text-text-secondary">Market Rate</span>
                                         <span className="font-bold text-brand">₹{marketRate?.toFixed(2) || '...'}/USDC</span>
                                     </div>
-                                    <p className="text-[10px] text-green-400 mt-1">Live from CoinGecko • Auto-updated</p>
+                                    <p className="text-[10px] text-green-400 mt-1">Oracle median • Auto-updated</p>
+                                </div>
+
+                                {/* Your price — you only see orders profitable at it */}
+                                <div>
+                                    <label className="text-sm text-text-secondary">Your Price</label>
+                                    <div className="flex gap-2 mt-2">
+                                        {(["spread", "fixed"] as const).map(mode => (
+                                            <button
+                                                key={mode}
+                                                onClick={() => setPricingMode(mode)}
+                                                className={`px-4 py-2 text-sm border rounded-lg font-bold ${pricingMode === mode ? 'border-brand bg-brand/10 text-brand' : 'border-border text-text-secondary'}`}
+                                            >
+                                                {mode === "spread" ? "Spread" : "Fixed ₹/USDC"}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    {pricingMode === "spread" ? (
+                                        <Input
+                                            type="number"
+                                            value={spreadPct}
+                                            onChange={(e) => setSpreadPct(e.target.value)}
+                                            placeholder="Spread below market (%)"
+                                            className="mt-2"
+                                        />
+                                    ) : (
+                                        <Input
+                                            type="number"
+                                            value={fixedRate}
+                                            onChange={(e) => setFixedRate(e.target.value)}
+                                            placeholder={marketRate?.toFixed(2) || "₹ per USDC"}
+                                            className="mt-2"
+                                        />
+                                    )}
+                                    <p className="text-[10px] text-text-secondary mt-1">
+                                        You pay ₹{lpRate?.toFixed(2) || '...'} per USDC • {pricingMode === "spread" ? "0–5% below market, follows the market" : "must stay within 5% of market"}
+                                    </p>
                                 </div>
 
                                 <div className="grid grid-cols-2 gap-4">
@@ -589,7 +638,7 @@ export default function LPRegisterPage() {
                             </button>
                             <button
                                 onClick={() => setCurrentStep(4)}
-                                disabled={!minOrder || !maxOrder}
+                                disabled={!minOrder || !maxOrder || !pricingValid}
                                 className="flex-1 py-3 bg-brand text-white rounded-lg font-bold disabled:opacity-50"
                             >
                                 Review
@@ -615,6 +664,13 @@ export default function LPRegisterPage() {
                                     <span className="text-text-secondary">Market Rate</span>
                                     <span className="font-mono text-green-400">₹{marketRate?.toFixed(2) || '...'} / USDC (live)</span>
                                 </div>
+                                <div className="flex justify-between py-2 border-b border-border">
+                                    <span className="text-text-secondary">Your Price</span>
+                                    <span className="font-mono text-brand">
+                                        ₹{lpRate?.toFixed(2) || '...'} / USDC
+                                        {pricingMode === "spread" ? ` (${spreadPct}% spread)` : ' (fixed)'}
+                                    </span>
+                                </div>
                                 <div className="flex justify-between py-2 border-b border-border">
                                     <span className="text-text-secondary">Order Range</span>
                                     <span className="font-mono">{minOrder} - {maxOrder} USDC</span>
@@ -648,7 +704,7 @@ export default function LPRegisterPage() {
                             </button>
                             <button
                                 onClick={handleActivateLP}
-                                disabled={isActivating || currentStake < MIN_LP_STAKE}
+                                disabled={isActivating || currentStake < MIN_LP_STAKE || !marketRate}
                                 className="flex-1 py-3 bg-success text-white rounded-lg font-bold disabled:opacity-50"
                             >
                                 {isActivating ? (
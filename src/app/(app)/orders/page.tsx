@@ -5,6 +5,7 @@ import Link from "next/link"
 import { ChevronLeft, Clock, Check, AlertTriangle, X, Loader2, RefreshCw, Terminal, Shield, Trash2 } from "lucide-react"
 import { BottomNav } from "@/components/app/bottom-nav"
 import { useWallet } from "@/hooks/useWallet"
+import { useMyOrderStream } from "@/hooks/useOrders"
 import { Order } from "@/app/api/orders/sse/route"
 import { formatCurrency } from "@/lib/currency-converter"
 import { TrustBadge } from "@/components/app/trust-score-card"
@@ -115,10 +116,24 @@ export default function OrdersPage() {
 
     useEffect(() => {
         fetchOrders()
-        const interval = setInterval(fetchOrders, 10000) // Poll every 10s
-        return () => clearInterval(interval)
     }, [address])
 
+    // Live transitions from the user's order stream — merged over API + local orders
+    const { orders: liveOrders } = useMyOrderStream(address || undefined)
+
+    useEffect(() => {
+        if (!address || liveOrders.length === 0) return
+
+        setOrders(prev => {
+            const byId = new Map(prev.map(o => [o.id, o]))
+            liveOrders.forEach(o => byId.set(o.id, o))
+            const merged = Array.from(byId.values()).sort((a, b) => b.createdAt - a.createdAt)
+            localStorage.setItem(`uwu_orders_${address.toLowerCase()}`, JSON.stringify(merged.slice(0, 50)))
+            return merged
+        })
+        setSelectedOrder(prev => prev ? liveOrders.find(o => o.id === prev.id) || prev : prev)
+    }, [liveOrders, address])
+
     const handleDispute = async () => {
         if (!selectedOrder || !disputeReason) return
 
@@ -9,8 +9,14 @@ import { QRScanner } from "@/components/app/qr-scanner"
 import { Numpad } from "@/components/app/numpad"
 import { useWallet } from "@/hooks/useWallet"
 import { useStaking } from "@/hooks/useStaking"
+import { useMyOrderStream } from "@/hooks/useOrders"
+import { useEscrow } from "@/hooks/useEscrow"
+import { useRateQuote } from "@/hooks/useRateQuote"
 import { USER_MAX_ORDER_USDC } from "@/hooks/useUserLimits"
 import { formatCurrency } from "@/lib/currency-converter"
+import { type FiatCurrency, PLATFORM_CONFIG, getPaymentMethodsForCurrency, isSupportedFiat } from "@/lib/platform-config"
+import { SUPPORTED_CURRENCIES } from "@/lib/web3-config"
+import { type ParsedQRData, parseQRCode } from "@/lib/qr-parser"
 import { Order } from "@/app/api/orders/sse/route"
 import { useSafeNavigation } from "@/hooks/useSafeNavigation"
 import { saveOrderToLocal } from "@/app/(app)/orders/page"
@@ -19,10 +25,10 @@ import { saveOrderToLocal } from "@/app/(app)/orders/page"
  * Scan & Pay - Amount-First Order Creation
  * 
  * New Flow:
- * 1. Enter amount (INR) you want to receive
+ * 1. Pick a currency, enter the amount you want to receive
  * 2. Submit -> Order broadcasts to LPs
  * 3. Wait for LP to accept
- * 4. AFTER matched -> Provide your UPI QR
+ * 4. AFTER matched -> Provide your payment QR (UPI, PIX, ...)
  * 5. LP pays -> Uploads proof -> Done!
  */
 
@@ -34,6 +40,7 @@ export default function ScanPage() {
     const fileInputRef = useRef<HTMLInputElement>(null)
     const { isConnected, address, displayName, balance } = useWallet()
     const { stakeProfile, fetchStakeProfile } = useStaking()
+    const { lockSellEscrow } = useEscrow()
     const [mounted, setMounted] = useState(false)
 
     const [step, setStep] = useState<Step>("amount")
@@ -43,83 +50,95 @@ export default function ScanPage() {
     const [qrImage, setQrImage] = useState<string | null>(null)
     const [isSubmitting, setIsSubmitting] = useState(false)
     const [showScanner, setShowScanner] = useState(false) // For live camera QR capture
-    const [liveRate, setLiveRate] = useState<number>(83.50) // Default, will be fetched
+    const [scannedQR, setScannedQR] = useState<ParsedQRData | null>(null) // Amount-step prefill
+    const [fiatCurrency, setFiatCurrency] = useState<FiatCurrency>("INR")
+    // Quoted rate once signed in (null while the oracle isn't quoting)
+    const { rate: liveRate, quote, isQuoteFresh, refreshQuote } = useRateQuote(fiatCurrency, address ?? undefined)
+
+    const currencySymbol = SUPPORTED_CURRENCIES.find(c => c.code === fiatCurrency)?.symbol || ""
+    const [paymentMethod] = getPaymentMethodsForCurrency(fiatCurrency)
 
     useEffect(() => {
         setMounted(true)
-        // Fetch live rate
-        const fetchRate = async () => {
-            try {
-                const { fetchLiveRates } = await import('@/lib/currency-converter')
-                const rates = await fetchLiveRates()
-                setLiveRate(rates.INR || 83.50)
-            } catch {
-                setLiveRate(83.50)
-            }
-        }
-        fetchRate()
         if (address) fetchStakeProfile()
     }, [address])
 
-    // Poll for order updates when waiting
+    // Order updates are pushed over the user's order stream
+    const { orders: myOrders } = useMyOrderStream(address || undefined)
+
     useEffect(() => {
         if (!orderId || step === "complete" || !address) return
 
-        const checkOrder = async () => {
-            try {
-                const res = await fetch(`/api/orders?orderId=${orderId}`)
-                const data = await res.json()
-                if (data.success && data.orders?.[0]) {
-                    const updatedOrder = data.orders[0]
-                    setOrder(updatedOrder)
-                    // Update localStorage with latest status
-                    saveOrderToLocal(address, updatedOrder)
-
-                    if (updatedOrder.status === "matched" && step === "waiting") {
-                        setStep("matched")
-                    } else if (updatedOrder.status === "verifying") {
-                        // DAO validators are reviewing LP's payment proof
-                        setStep("verifying")
-                    } else if (["payment_sent", "completed", "settled"].includes(updatedOrder.status)) {
-                        // LP submitted payment proof - order is done
-                        setStep("complete")
-                    }
-                }
-            } catch (error) {
-                console.error("Failed to check order:", error)
-            }
+        const updatedOrder = myOrders.find(o => o.id === orderId)
+        if (!updatedOrder) return
+
+        setOrder(updatedOrder)
+        // Update localStorage with latest status
+        saveOrderToLocal(address, updatedOrder)
+
+        if (updatedOrder.status === "matched" && step === "waiting") {
+            setStep("matched")
+        } else if (updatedOrder.status === "verifying") {
+            // DAO validators are reviewing LP's payment proof
+            setStep("verifying")
+        } else if (["payment_sent", "completed", "settled"].includes(updatedOrder.status)) {
+            // LP submitted payment proof - order is done
+            setStep("complete")
         }
-
-        checkOrder()
-        const interval = setInterval(checkOrder, 3000)
-        return () => clearInterval(interval)
-    }, [orderId, step, address])
+    }, [myOrders, orderId, step, address])
 
     const fiatAmount = parseFloat(amount) || 0
-    const usdcAmount = fiatAmount / liveRate // Live INR to USDC rate
+    const usdcAmount = liveRate ? fiatAmount / liveRate : 0 // Live fiat to USDC rate
 
     // Limit check: users = $150 USDC, LPs = staked USDC
     const isLP = stakeProfile?.isLP && stakeProfile.baseStake > 0
     const maxOrderUsdc = isLP ? stakeProfile!.baseStake : USER_MAX_ORDER_USDC
     const orderExceedsLimit = usdcAmount > maxOrderUsdc
 
+    // Amount step: prefill currency + amount from a scanned payment QR
+    const handlePrefillScan = (data: string) => {
+        const parsed = parseQRCode(data)
+        setScannedQR(parsed)
+        if (parsed.currency && isSupportedFiat(parsed.currency)) {
+            setFiatCurrency(parsed.currency)
+            setAmount(parsed.amount !== undefined ? String(parsed.amount) : "0")
+        }
+    }
+
     // Step 1: Create order with amount only
     const handleCreateOrder = async () => {
-        if (!address || fiatAmount <= 0 || orderExceedsLimit) return
+        if (!address || !liveRate || fiatAmount <= 0 || orderExceedsLimit) return
 
         setIsSubmitting(true)
         try {
+            // The order is priced at the quote shown — re-quote if it's about to lapse
+            if (!isQuoteFresh(quote)) {
+                const fresh = await refreshQuote()
+                alert(fresh
+                    ? `Rate updated to ${formatCurrency(fresh.rate, fiatCurrency)} per USDC — check the amount and confirm again`
+                    : "No rate quote available right now — try again shortly")
+                return
+            }
+
+            // Lock the USDC on-chain first — the server verifies the escrow tx
+            const escrow = await lockSellEscrow(usdcAmount, quote.rate)
+            if (!escrow) {
+                alert("Failed to lock USDC in escrow")
+                return
+            }
+
             const res = await fetch("/api/orders", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
-                    userId: address,
-                    userAddress: address,
+                    orderId: escrow.orderId,
+                    escrowTxHash: escrow.escrowTxHash,
+                    quoteId: quote.id,
                     type: "sell",
                     amountUsdc: usdcAmount,
                     amountFiat: fiatAmount,
-                    fiatCurrency: "INR",
-                    paymentMethod: "UPI",
+                    fiatCurrency,
+                    paymentMethod: paymentMethod.id,
                     paymentDetails: "Pending QR upload",
                     // No QR yet - will be provided after LP match
                 }),
@@ -175,6 +194,10 @@ export default function ScanPage() {
             if (data.success) {
                 setOrder(data.order)
                 setStep("pending")
+            } else {
+                // Server decodes the image — not a valid payment QR for this order
+                alert("QR rejected: " + data.error)
+                setQrImage(null)
             }
         } catch (error) {
             console.error("Failed to submit QR:", error)
@@ -227,7 +250,7 @@ export default function ScanPage() {
                 </button>
                 <div className="text-center">
                     <h1 className="text-lg font-bold uppercase text-brand">SCAN & PAY</h1>
-                    <p className="text-[10px] text-text-secondary uppercase">SELL INR → GET USDC</p>
+                    <p className="text-[10px] text-text-secondary uppercase">SELL {fiatCurrency} → GET USDC</p>
                 </div>
                 <button onClick={goHome} className="w-8 h-8 flex items-center justify-center text-text-secondary hover:text-brand">
                     <Home className="w-4 h-4" />
@@ -275,11 +298,27 @@ export default function ScanPage() {
                             <span className="text-[10px] uppercase text-brand">INPUT_STREAM</span>
                         </div>
 
+                        {/* Currency */}
+                        <div className="flex gap-2 mb-3">
+                            {(Object.keys(PLATFORM_CONFIG.fiatCurrencies) as FiatCurrency[]).map(code => (
+                                <button
+                                    key={code}
+                                    onClick={() => { setFiatCurrency(code); setAmount("0"); setScannedQR(null) }}
+                                    className={`px-2 py-1 border text-[10px] font-mono font-bold uppercase transition-colors ${code === fiatCurrency
+                                        ? 'bg-brand/10 border-brand text-brand'
+                                        : 'border-border text-text-secondary hover:text-white'
+                                        }`}
+                                >
+                                    {code}
+                                </button>
+                            ))}
+                        </div>
+
                         <label className="text-[10px] text-brand uppercase block mb-2 font-mono truncate">
-                            {">"}  ENTER_REQUEST_AMOUNT (INR):
+                            {">"}  ENTER_REQUEST_AMOUNT ({fiatCurrency}):
                         </label>
                         <div className="flex items-baseline gap-2 mb-2">
-                            <span className="text-2xl font-bold text-gray-500 font-mono">₹</span>
+                            <span className="text-2xl font-bold text-gray-500 font-mono">{currencySymbol}</span>
                             <span className="text-4xl font-bold font-mono text-white">
                                 {amount === "0" ? "_" : amount}
                             </span>
@@ -304,6 +343,34 @@ export default function ScanPage() {
                         )}
                     </div>
 
+                    {/* Prefill from a merchant / payee QR */}
+                    <button
+                        onClick={() => setShowScanner(true)}
+                        className="w-full mb-4 py-2 bg-surface border border-brand/50 text-brand text-[10px] font-bold uppercase font-mono flex items-center justify-center gap-2 hover:bg-brand/10 transition-colors"
+                    >
+                        <QrCode className="w-3 h-3" />
+                        [ SCAN_PAYMENT_QR_TO_PREFILL ]
+                    </button>
+                    {scannedQR && (
+                        <div className={`border p-3 mb-4 font-mono ${scannedQR.errors || !scannedQR.currency || !isSupportedFiat(scannedQR.currency) ? 'bg-red-500/10 border-red-500/30' : 'bg-brand/5 border-brand/20'}`}>
+                            <p className="text-[10px] text-brand font-bold uppercase">
+                                {scannedQR.scheme || scannedQR.type.toUpperCase()}{scannedQR.recipientName ? ` · ${scannedQR.recipientName}` : ''}
+                            </p>
+                            {scannedQR.recipient && (
+                                <p className="text-[10px] text-text-secondary mt-1 break-all">{">"} PAYEE: {scannedQR.recipient}</p>
+                            )}
+                            {scannedQR.currency && !isSupportedFiat(scannedQR.currency) && (
+                                <p className="text-[10px] text-red-400 mt-1">{">"} {scannedQR.currency} orders aren&apos;t supported yet</p>
+                            )}
+                            {scannedQR.currency && isSupportedFiat(scannedQR.currency) && scannedQR.amount === undefined && (
+                                <p className="text-[10px] text-text-secondary mt-1">{">"} No amount in QR — enter it below</p>
+                            )}
+                            {scannedQR.errors?.map(e => (
+                                <p key={e} className="text-[10px] text-red-400 mt-1">{">"} {e}</p>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Numpad */}
                     <div className="mb-4">
                         <Numpad value={amount} onChange={setAmount} />
@@ -312,13 +379,23 @@ export default function ScanPage() {
                     <div className="bg-brand/5 border border-brand/20 p-4 mb-6 font-mono">
                         <p className="text-[10px] text-brand font-bold mb-2 uppercase border-b border-brand/20 pb-1">HOW IT WORKS</p>
                         <ol className="text-[10px] text-text-secondary space-y-2 list-none">
-                            <li>01. Enter how much INR you want</li>
+                            <li>01. Enter how much {fiatCurrency} you want</li>
                             <li>02. Wait for a provider to match</li>
-                            <li>03. Share your UPI QR code</li>
+                            <li>03. Share your {paymentMethod.name} QR code</li>
                             <li>04. Provider pays you → Get USDC!</li>
                         </ol>
                     </div>
 
+                    {/* No oracle quote — orders are paused for this currency */}
+                    {liveRate === null && (
+                        <div className="bg-red-500/10 border border-red-500/30 p-3 mb-4 font-mono">
+                            <p className="text-[10px] text-red-400 font-bold uppercase">RATE_UNAVAILABLE</p>
+                            <p className="text-[10px] text-text-secondary mt-1">
+                                {">"} No reliable {fiatCurrency} rate right now — try again shortly
+                            </p>
+                        </div>
+                    )}
+
                     {/* Limit Warning */}
                     {orderExceedsLimit && fiatAmount > 0 && (
                         <div className="bg-red-500/10 border border-red-500/30 p-3 mb-4 font-mono">
@@ -332,7 +409,7 @@ export default function ScanPage() {
 
                     <button
                         onClick={handleCreateOrder}
-                        disabled={fiatAmount <= 0 || isSubmitting || orderExceedsLimit}
+                        disabled={fiatAmount <= 0 || !liveRate || isSubmitting || orderExceedsLimit}
                         className="w-full py-4 bg-brand text-black font-bold uppercase tracking-wider text-sm hover:bg-brand-hover disabled:opacity-50 disabled:cursor-not-allowed font-mono relative overflow-hidden"
                     >
                         {isSubmitting ? (
@@ -365,7 +442,7 @@ export default function ScanPage() {
                     <div className="bg-black border border-border p-4 max-w-xs mx-auto text-left">
                         <div className="flex justify-between mb-2">
                             <span className="text-[10px] text-text-secondary uppercase">Amount</span>
-                            <span className="font-bold text-sm">₹{fiatAmount.toFixed(0)}</span>
+                            <span className="font-bold text-sm">{currencySymbol}{fiatAmount.toFixed(0)}</span>
                         </div>
                         <div className="flex justify-between border-t border-border border-dashed pt-2 mb-4">
                             <span className="text-[10px] text-text-secondary uppercase">Order ID</span>
@@ -406,7 +483,7 @@ export default function ScanPage() {
                             <p className="font-bold text-success uppercase text-sm">Provider Found!</p>
                         </div>
                         <p className="text-[10px] text-text-secondary uppercase">
-                            Now share your UPI QR code<br />
+                            Now share your {paymentMethod.name} QR code<br />
                             Provider will pay you directly
                         </p>
                     </div>
@@ -418,7 +495,7 @@ export default function ScanPage() {
                         </div>
                         <div className="flex justify-between border-t border-border border-dashed pt-2">
                             <span className="text-[10px] text-text-secondary uppercase">TARGET_AMOUNT</span>
-                            <span className="font-bold text-lg text-brand">₹{fiatAmount.toFixed(0)}</span>
+                            <span className="font-bold text-lg text-brand">{currencySymbol}{fiatAmount.toFixed(0)}</span>
                         </div>
                     </div>
 
@@ -454,7 +531,7 @@ export default function ScanPage() {
                             <div className="border-2 border-brand p-1 bg-black inline-block mx-auto w-full">
                                 <img
                                     src={qrImage}
-                                    alt="Your UPI QR"
+                                    alt={`Your ${paymentMethod.name} QR`}
                                     className="max-h-64 mx-auto object-contain bg-white"
                                 />
                             </div>
@@ -488,14 +565,14 @@ export default function ScanPage() {
 
                     <h2 className="text-lg font-bold mb-2 uppercase text-warning tracking-widest">Payment In Progress</h2>
                     <p className="text-xs text-text-secondary mb-8 uppercase">
-                        Provider is sending payment to your UPI...<br />
+                        Provider is sending payment to your {paymentMethod.name}...<br />
                         Hold tight!
                     </p>
 
                     <div className="bg-black border border-border p-4 text-left">
                         <div className="flex justify-between mb-2">
                             <span className="text-[10px] text-text-secondary uppercase">Amount</span>
-                            <span className="font-bold text-white">₹{fiatAmount.toFixed(0)}</span>
+                            <span className="font-bold text-white">{currencySymbol}{fiatAmount.toFixed(0)}</span>
                         </div>
                         <div className="flex justify-between">
                             <span className="text-[10px] text-text-secondary uppercase">Status</span>
@@ -554,8 +631,8 @@ export default function ScanPage() {
 
                     <h2 className="text-xl font-bold text-success mb-2 uppercase tracking-widest">Payment Complete!</h2>
                     <p className="text-xs text-text-secondary mb-8 uppercase">
-                        Check your UPI app for the payment<br />
-                        <span className="block mt-2 text-white font-bold">₹{fiatAmount.toFixed(0)} received</span>
+                        Check your {paymentMethod.name} app for the payment<br />
+                        <span className="block mt-2 text-white font-bold">{currencySymbol}{fiatAmount.toFixed(0)} received</span>
                     </p>
 
                     {order.lpPaymentProof && (
@@ -595,6 +672,11 @@ export default function ScanPage() {
                         console.log("[Scan] Scanned QR data:", data)
                         setShowScanner(false)
 
+                        if (step === "amount") {
+                            handlePrefillScan(data)
+                            return
+                        }
+
                         // Generate QR image from scanned data using canvas
                         try {
                             const QRCode = (await import('qrcode')).default
@@ -621,6 +703,9 @@ export default function ScanPage() {
                                 if (result.success) {
                                     setOrder(result.order)
                                     setStep("pending")
+                                } else {
+                                    alert("QR rejected: " + result.error)
+                                    setQrImage(null)
                                 }
                                 setIsSubmitting(false)
                             }
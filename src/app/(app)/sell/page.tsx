@@ -7,21 +7,23 @@ import { Numpad } from "@/components/app/numpad"
 import { WalletConnect } from "@/components/app/wallet-connect"
 import { useWallet } from "@/hooks/useWallet"
 import { useUserOrders, Order } from "@/hooks/useOrders"
+import { useEscrow } from "@/hooks/useEscrow"
+import { useRateQuote } from "@/hooks/useRateQuote"
 import { useFraudProfile } from "@/hooks/useFraudProfile"
 import { useStaking } from "@/hooks/useStaking"
 import { USER_MAX_ORDER_USDC } from "@/hooks/useUserLimits"
-import { usdcToFiat, formatCurrency } from "@/lib/currency-converter"
+import { formatCurrency } from "@/lib/currency-converter"
 import { useRouter } from "next/navigation"
 import { RiskIndicator, StakeRequirement, OrderBlockedWarning } from "@/components/app/risk-indicator"
 import { PaymentProofUpload } from "@/components/app/payment-proof-upload"
-import { PLATFORM_CONFIG, calculateRequiredStake } from "@/lib/platform-config"
+import { type FiatCurrency, PLATFORM_CONFIG, calculateRequiredStake, getPaymentMethodsForCurrency, roundFiat } from "@/lib/platform-config"
 
 /**
  * Sell Page - Simplified Flow (Terminal Style)
  * 
  * User Flow:
  * 1. Enter USDC amount to sell
- * 2. Enter payment details (UPI, Bank, etc.)
+ * 2. Pick a payment method for the currency and enter details (UPI, PIX, IBAN, ...)
  * 3. Create order -> Broadcasted to solvers via SSE
  * 4. Wait for solver to accept and pay
  * 5. Confirm payment received -> USDC released
@@ -31,6 +33,8 @@ export default function SellPage() {
     const router = useRouter()
     const [amount, setAmount] = useState("0")
     const [paymentDetails, setPaymentDetails] = useState("")
+    const [fiatCurrency, setFiatCurrency] = useState<FiatCurrency>("INR")
+    const [paymentMethodId, setPaymentMethodId] = useState<string>("upi")
     const [step, setStep] = useState<"amount" | "payment" | "waiting" | "verify" | "confirm">("amount")
     const [currentOrder, setCurrentOrder] = useState<Order | null>(null)
     const [mounted, setMounted] = useState(false)
@@ -46,21 +50,19 @@ export default function SellPage() {
         getRequiredStake
     } = useFraudProfile(address ?? undefined)
     const { stakeProfile, fetchStakeProfile } = useStaking()
-    const [liveRate, setLiveRate] = useState<number>(83.50)
+    // Quoted rate once signed in (null while the oracle isn't quoting)
+    const { rate: liveRate, quote, isQuoteFresh, refreshQuote } = useRateQuote(fiatCurrency, address ?? undefined)
+    const { lockSellEscrow, isProcessing: isLocking } = useEscrow()
+
+    const paymentMethods = getPaymentMethodsForCurrency(fiatCurrency)
+    const paymentMethod = paymentMethods.find(m => m.id === paymentMethodId) || paymentMethods[0]
 
-    // Fetch live rate
-    useEffect(() => {
-        const fetchRate = async () => {
-            try {
-                const { fetchLiveRates } = await import('@/lib/currency-converter')
-                const rates = await fetchLiveRates()
-                setLiveRate(rates.INR || 83.50)
-            } catch {
-                setLiveRate(83.50)
-            }
-        }
-        fetchRate()
-    }, [])
+
+    const selectCurrency = (code: FiatCurrency) => {
+        setFiatCurrency(code)
+        setPaymentMethodId(getPaymentMethodsForCurrency(code)[0].id)
+        setPaymentDetails("")
+    }
 
     // Fetch stake profile on mount
     useEffect(() => {
@@ -73,7 +75,7 @@ export default function SellPage() {
         setMounted(true)
     }, [])
 
-    const fiatAmount = amount !== "0" ? usdcToFiat(parseFloat(amount), "INR") : 0
+    const fiatAmount = amount !== "0" && liveRate ? roundFiat(parseFloat(amount) * liveRate, fiatCurrency) : 0
     const hasEnoughBalance = parseFloat(amount) <= parseFloat(balanceFormatted)
 
     // Limit check: users = $150 USDC, LPs = staked USDC
@@ -82,7 +84,7 @@ export default function SellPage() {
     const orderExceedsLimit = parseFloat(amount) > maxOrderUsdc
 
     const handleContinue = async () => {
-        if (amount === "0" || parseFloat(amount) <= 0 || !hasEnoughBalance) return
+        if (amount === "0" || parseFloat(amount) <= 0 || !hasEnoughBalance || !liveRate) return
 
         // Check limit
         if (orderExceedsLimit) {
@@ -92,8 +94,8 @@ export default function SellPage() {
         // Run fraud analysis before proceeding
         const assessment = await analyzeOrderRisk({
             amountUsdc: parseFloat(amount),
-            paymentMethod: 'upi',
-            fiatCurrency: 'INR',
+            paymentMethod: paymentMethod.id,
+            fiatCurrency,
         })
 
         setRiskChecked(true)
@@ -107,13 +109,28 @@ export default function SellPage() {
     }
 
     const handleCreateOrder = async () => {
-        if (!address || !paymentDetails) return
+        if (!address || !paymentDetails || !liveRate) return
+
+        // The order is priced at the quote shown — re-quote if it's about to lapse
+        if (!isQuoteFresh(quote)) {
+            const fresh = await refreshQuote()
+            alert(fresh
+                ? `Rate updated to ${formatCurrency(fresh.rate, fiatCurrency)} per USDC — check the amount and confirm again`
+                : "No rate quote available right now — try again shortly")
+            return
+        }
+
+        // Lock the USDC on-chain first — the server verifies the escrow tx
+        const escrow = await lockSellEscrow(parseFloat(amount), quote.rate)
+        if (!escrow) return
 
         const order = await createSellOrder({
+            ...escrow,
+            quoteId: quote.id,
             amountUsdc: parseFloat(amount),
             amountFiat: fiatAmount,
-            fiatCurrency: "INR",
-            paymentMethod: "UPI",
+            fiatCurrency,
+            paymentMethod: paymentMethod.id,
             paymentDetails,
             userAddress: address,
         })
@@ -237,8 +254,22 @@ export default function SellPage() {
                             </span>
                         </div>
                         <div className="border-t border-dashed border-border pt-2 mt-2">
+                            <div className="flex gap-2 mb-2">
+                                {(Object.keys(PLATFORM_CONFIG.fiatCurrencies) as FiatCurrency[]).map(code => (
+                                    <button
+                                        key={code}
+                                        onClick={() => selectCurrency(code)}
+                                        className={`px-2 py-1 border text-[10px] font-bold uppercase transition-colors ${code === fiatCurrency
+                                            ? 'bg-brand/10 border-brand text-brand'
+                                            : 'border-border text-text-secondary hover:text-white'
+                                            }`}
+                                    >
+                                        {code}
+                                    </button>
+                                ))}
+                            </div>
                             <p className="text-xs text-text-secondary uppercase">
-                                ESTIMATED_RECEIVE: {formatCurrency(fiatAmount, "INR")}
+                                ESTIMATED_RECEIVE: {formatCurrency(fiatAmount, fiatCurrency)}
                             </p>
                         </div>
                     </div>
@@ -251,6 +282,21 @@ export default function SellPage() {
                         </div>
                     )}
 
+                    {/* No oracle quote — orders are paused for this currency */}
+                    {liveRate === null && (
+                        <div className="bg-warning/10 border border-warning p-3 mb-4 font-mono">
+                            <div className="flex items-start gap-2">
+                                <AlertCircle className="w-4 h-4 text-warning shrink-0 mt-0.5" />
+                                <div>
+                                    <p className="text-xs text-warning font-bold uppercase">RATE_UNAVAILABLE</p>
+                                    <p className="text-[10px] text-text-secondary mt-1">
+                                        {">"}  No reliable {fiatCurrency} rate right now — try again shortly
+                                    </p>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Limit Warning */}
                     {orderExceedsLimit && fiatAmount > 0 && (
                         <div className="bg-warning/10 border border-warning p-3 mb-4 font-mono">
@@ -275,7 +321,7 @@ export default function SellPage() {
                     {/* Continue Button */}
                     <button
                         onClick={handleContinue}
-                        disabled={amount === "0" || parseFloat(amount) <= 0 || !hasEnoughBalance || orderExceedsLimit}
+                        disabled={amount === "0" || parseFloat(amount) <= 0 || !hasEnoughBalance || orderExceedsLimit || !liveRate}
                         className="w-full mt-6 py-4 bg-brand text-black font-bold uppercase tracking-wider disabled:opacity-50 disabled:cursor-not-allowed hover:bg-brand-hover transition-colors font-mono relative overflow-hidden"
                     >
                         <span className="relative z-10">{">"} PROCEED_TO_DETAILS</span>
@@ -297,34 +343,45 @@ export default function SellPage() {
                         </div>
                         <div className="flex justify-between border-t border-border border-dashed pt-2">
                             <span className="text-[10px] text-text-secondary uppercase">RECEIVING</span>
-                            <span className="font-bold text-brand">{formatCurrency(fiatAmount, "INR")}</span>
+                            <span className="font-bold text-brand">{formatCurrency(fiatAmount, fiatCurrency)}</span>
                         </div>
                     </div>
 
-                    {/* Payment Method - UPI Only */}
+                    {/* Payment Method - from the currency's registry */}
                     <div className="mb-6">
                         <label className="text-[10px] text-brand uppercase block mb-2 font-bold">
                             PAYMENT_METHOD
                         </label>
-                        <div className="py-3 px-4 bg-brand/10 border border-brand text-brand font-bold uppercase text-xs">
-                            UPI
+                        <div className="flex gap-2">
+                            {paymentMethods.map(m => (
+                                <button
+                                    key={m.id}
+                                    onClick={() => setPaymentMethodId(m.id)}
+                                    className={`flex-1 py-3 px-4 border font-bold uppercase text-xs transition-colors ${m.id === paymentMethod.id
+                                        ? 'bg-brand/10 border-brand text-brand'
+                                        : 'border-border text-text-secondary hover:text-white'
+                                        }`}
+                                >
+                                    {m.name}
+                                </button>
+                            ))}
                         </div>
                     </div>
 
                     {/* Payment Details Input */}
                     <div className="mb-6">
                         <label className="text-[10px] text-brand uppercase block mb-2 font-bold">
-                            {">"} ENTER_UPI_ID
+                            {">"} ENTER_{paymentMethod.detailsLabel}
                         </label>
                         <input
                             type="text"
                             value={paymentDetails}
                             onChange={(e) => setPaymentDetails(e.target.value)}
-                            placeholder="yourname@upi"
+                            placeholder={paymentMethod.detailsPlaceholder}
                             className="w-full bg-black border border-border p-4 text-white font-mono focus:border-brand outline-none placeholder:text-gray-800 text-sm"
                         />
                         <p className="text-[10px] text-text-secondary mt-1 uppercase opacity-70">
-                            Ensure VPA is valid and receiving payments
+                            Ensure the {paymentMethod.name} account is valid and receiving payments
                         </p>
                     </div>
 
@@ -337,10 +394,10 @@ export default function SellPage() {
                         </button>
                         <button
                             onClick={handleCreateOrder}
-                            disabled={!paymentDetails || isLoading}
+                            disabled={!paymentDetails || isLoading || isLocking || !liveRate}
                             className="flex-1 py-4 bg-brand text-black font-bold uppercase tracking-wider text-xs hover:bg-brand-hover transition-colors disabled:opacity-50"
                         >
-                            {isLoading ? "BROADCASTING..." : "CREATE_OFFER"}
+                            {isLocking ? "LOCKING_USDC..." : isLoading ? "BROADCASTING..." : "CREATE_OFFER"}
                         </button>
                     </div>
                 </div>
@@ -447,7 +504,7 @@ export default function SellPage() {
                         </div>
                         <div className="flex justify-between mt-2">
                             <span className="text-[10px] text-text-secondary uppercase">RECEIVED</span>
-                            <span className="font-bold text-success">{formatCurrency(fiatAmount, "INR")}</span>
+                            <span className="font-bold text-success">{formatCurrency(fiatAmount, fiatCurrency)}</span>
                         </div>
                     </div>
 
@@ -3,12 +3,15 @@
 import { useState, useEffect, useRef } from "react"
 import { ChevronLeft, Power, Check, Upload, Clock, AlertTriangle, Loader2, X, DollarSign, History, Gift, Home, ShieldAlert, ImageIcon, Calendar, ExternalLink, ChevronDown } from "lucide-react"
 import { useRouter } from "next/navigation"
+import { keccak256, stringToBytes } from "viem"
 import { BottomNav } from "@/components/app/bottom-nav"
 import { QRScanner } from "@/components/app/qr-scanner"
 import { WalletConnect } from "@/components/app/wallet-connect"
 import { useWallet } from "@/hooks/useWallet"
 import { useStaking } from "@/hooks/useStaking"
+import { useEscrow } from "@/hooks/useEscrow"
 import { formatCurrency } from "@/lib/currency-converter"
+import { type ParsedQRData, parseQRCode } from "@/lib/qr-parser"
 import { Order } from "@/app/api/orders/sse/route"
 import { useSafeNavigation } from "@/hooks/useSafeNavigation"
 
@@ -30,6 +33,7 @@ export default function SolverPage() {
     const fileInputRef = useRef<HTMLInputElement>(null)
     const { isConnected, address, balance, displayName, isLoading: walletLoading } = useWallet()
     const { stakeProfile, fetchStakeProfile } = useStaking()
+    const { acceptEscrow, claimEscrowPayment } = useEscrow()
     const [mounted, setMounted] = useState(false)
     const [isActive, setIsActiveState] = useState(false)
     const [orders, setOrders] = useState<Order[]>([])
@@ -43,7 +47,7 @@ export default function SolverPage() {
     const [showHistory, setShowHistory] = useState(false)
     const [upiId, setUpiId] = useState("") // LP can enter UPI ID manually
     const [showScanner, setShowScanner] = useState(false) // For live camera QR scanning
-    const [scannedQrData, setScannedQrData] = useState<string | null>(null) // Scanned UPI data
+    const [scannedQR, setScannedQR] = useState<ParsedQRData | null>(null) // Parsed + validated user QR
     const [lockedStake, setLockedStake] = useState(0) // USDC locked in 24hr window
     const [expandedDispute, setExpandedDispute] = useState<string | null>(null) // Expanded dispute order ID
 
@@ -97,36 +101,12 @@ export default function SolverPage() {
         sessionStorage.setItem('lp_active_status', value.toString())
     }
 
-    // Fetch active orders when LP is active
-    // Also do an immediate fetch when wallet connects, even before toggling active
+    // Live order feed when LP is active.
+    // SSE sends an active_orders snapshot on every (re)connect, then new_order / order_update
+    // events published from any server instance — no polling needed.
     useEffect(() => {
         if (!isActive || !address) return
 
-        let isMounted = true
-
-        const fetchOrders = async () => {
-            if (!isMounted) return
-            try {
-                const res = await fetch("/api/orders?status=created")
-                const data = await res.json()
-                if (data.success && isMounted) {
-                    setOrders(data.orders || [])
-                }
-            } catch (error) {
-                console.error("Failed to fetch orders:", error)
-            }
-        }
-
-        // Fetch immediately on activation / wallet connect
-        fetchOrders()
-        // Poll rapidly at first (1s), then slow down to 3s
-        let pollCount = 0
-        const interval = setInterval(() => {
-            fetchOrders()
-            pollCount++
-        }, pollCount < 6 ? 1000 : 3000) // First 6 polls at 1s, then 3s
-
-        // Also subscribe to SSE for real-time order notifications
         let eventSource: EventSource | null = null
         try {
             eventSource = new EventSource(`/api/orders/sse?solverId=${address}`)
@@ -146,7 +126,10 @@ export default function SolverPage() {
                             // Remove from available orders if no longer created
                             setOrders(prev => prev.filter(o => o.id !== data.order.id))
                         } else {
-                            setOrders(prev => prev.map(o => o.id === data.order.id ? data.order : o))
+                            // Updated in place, or released back to the pool by another LP
+                            setOrders(prev => prev.some(o => o.id === data.order.id)
+                                ? prev.map(o => o.id === data.order.id ? data.order : o)
+                                : [data.order, ...prev])
                         }
                     }
                 } catch (e) {
@@ -154,16 +137,14 @@ export default function SolverPage() {
                 }
             }
             eventSource.onerror = () => {
-                // SSE will auto-reconnect, polling is the fallback
-                console.log("[Solver] SSE connection lost, relying on polling")
+                // EventSource reconnects on its own and gets a fresh active_orders snapshot
+                console.log("[Solver] SSE connection lost, reconnecting")
             }
         } catch (e) {
-            console.log("[Solver] SSE not available, using polling only")
+            console.log("[Solver] SSE not available")
         }
 
         return () => {
-            isMounted = false
-            clearInterval(interval)
             eventSource?.close()
         }
     }, [isActive, address])
@@ -261,6 +242,15 @@ export default function SolverPage() {
 
         setIsSubmitting(true)
         try {
+            // Escrowed orders: accept on-chain first so the seller can't refund mid-payment
+            if (order.escrowId) {
+                const accepted = await acceptEscrow(order.id)
+                if (!accepted) {
+                    alert("Couldn't accept the order on the escrow. Please try again.")
+                    return
+                }
+            }
+
             const res = await fetch("/api/orders", {
                 method: "PATCH",
                 headers: { "Content-Type": "application/json" },
@@ -273,6 +263,12 @@ export default function SolverPage() {
             })
 
             const data = await res.json()
+            if (res.status === 409) {
+                // Another LP accepted it first — drop it from the feed
+                setOrders(prev => prev.filter(o => o.id !== order.id))
+                alert("Another LP accepted this order first.")
+                return
+            }
             if (data.success) {
                 setAcceptedOrder(data.order)
                 // Amount-first flow: if no QR yet, go to waiting_qr step
@@ -306,6 +302,15 @@ export default function SolverPage() {
 
         setIsSubmitting(true)
         try {
+            // Escrowed orders: claim the payment on-chain first — settlement needs it
+            if (acceptedOrder.escrowId) {
+                const claimed = await claimEscrowPayment(acceptedOrder.id, keccak256(stringToBytes(paymentProof)))
+                if (!claimed) {
+                    alert("Couldn't record the payment on the escrow. Please try again.")
+                    return
+                }
+            }
+
             const res = await fetch("/api/orders", {
                 method: "PATCH",
                 headers: { "Content-Type": "application/json" },
@@ -317,6 +322,11 @@ export default function SolverPage() {
             })
 
             const data = await res.json()
+            if (res.status === 409) {
+                // Order changed underneath us (released / cancelled) — polling will resync the step
+                alert("This order was updated in the meantime. Refreshing its status.")
+                return
+            }
             if (data.success) {
                 setAcceptedOrder(data.order)
                 // DAO validation — go to pending (verifying) step
@@ -329,6 +339,19 @@ export default function SolverPage() {
         }
     }
 
+    // Why the scanned QR shouldn't be paid (parser errors + mismatch with the order)
+    const scanIssues: string[] = []
+    if (scannedQR && acceptedOrder) {
+        scanIssues.push(...(scannedQR.errors || []))
+        if (scannedQR.type === "generic") scanIssues.push("Not a recognised payment QR")
+        if (scannedQR.currency && scannedQR.currency !== acceptedOrder.fiatCurrency) {
+            scanIssues.push(`QR is for ${scannedQR.currency}, order is ${acceptedOrder.fiatCurrency}`)
+        }
+        if (scannedQR.amount !== undefined && Math.abs(scannedQR.amount - acceptedOrder.amountFiat) >= 0.01) {
+            scanIssues.push(`QR amount ${formatCurrency(scannedQR.amount, acceptedOrder.fiatCurrency)} ≠ order amount`)
+        }
+    }
+
     if (!mounted) {
         return (
             <div className="pb-24 pt-6 px-4 max-w-md mx-auto min-h-screen">
@@ -763,7 +786,7 @@ export default function SolverPage() {
                     <button
                         onClick={async () => {
                             try {
-                                await fetch('/api/orders', {
+                                const res = await fetch('/api/orders', {
                                     method: 'PATCH',
                                     headers: { 'Content-Type': 'application/json' },
                                     body: JSON.stringify({
@@ -771,6 +794,11 @@ export default function SolverPage() {
                                         action: 'cancel',
                                     }),
                                 })
+                                if (res.status === 409) {
+                                    // User moved the order on (e.g. added their QR) — stay on it
+                                    alert('The user just updated this order. Refreshing its status.')
+                                    return
+                                }
                             } catch (e) {
                                 console.error('Failed to cancel order:', e)
                             }
@@ -800,13 +828,34 @@ export default function SolverPage() {
                         <p className="text-[10px] text-text-secondary uppercase mb-2 border-b border-border border-dashed pb-2">TARGET_PAYMENT_GATEWAY</p>
 
                         {acceptedOrder.qrImage ? (
-                            <div className="bg-white p-4 inline-block mx-auto mb-4 border-2 border-brand">
-                                <img src={acceptedOrder.qrImage} alt="Payment QR" className="max-h-64 object-contain" />
-                            </div>
-                        ) : scannedQrData ? (
+                            <>
+                                <div className="bg-white p-4 inline-block mx-auto mb-4 border-2 border-brand">
+                                    <img src={acceptedOrder.qrImage} alt="Payment QR" className="max-h-64 object-contain" />
+                                </div>
+                                {acceptedOrder.qrPayee && !scannedQR && (
+                                    <div className="p-3 mb-4 border text-left bg-brand/5 border-brand/30">
+                                        <p className="text-[10px] font-bold uppercase mb-2 text-brand">
+                                            DECODED_PAYEE · {acceptedOrder.qrPayee.scheme || acceptedOrder.qrPayee.type.toUpperCase()}
+                                        </p>
+                                        {acceptedOrder.qrPayee.recipient && (
+                                            <div className="flex justify-between text-[10px] gap-2">
+                                                <span className="text-text-secondary shrink-0">PAYEE</span>
+                                                <span className="text-white break-all text-right">{acceptedOrder.qrPayee.recipient}</span>
+                                            </div>
+                                        )}
+                                        {acceptedOrder.qrPayee.recipientName && (
+                                            <div className="flex justify-between text-[10px] gap-2">
+                                                <span className="text-text-secondary shrink-0">NAME</span>
+                                                <span className="text-white text-right">{acceptedOrder.qrPayee.recipientName}</span>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </>
+                        ) : scannedQR ? (
                             <div className="bg-surface p-4 border border-brand/50 mb-4 text-left">
-                                <p className="text-[10px] text-brand mb-1">DECODED_UPI_STRING:</p>
-                                <code className="text-xs break-all text-white">{scannedQrData}</code>
+                                <p className="text-[10px] text-brand mb-1">DECODED_QR_STRING:</p>
+                                <code className="text-xs break-all text-white">{scannedQR.rawData}</code>
                             </div>
                         ) : (
                             <div className="py-8 text-center border border-border border-dashed mb-4">
@@ -820,6 +869,51 @@ export default function SolverPage() {
                             </div>
                         )}
 
+                        {/* Scanned payee — validated before the LP pays */}
+                        {scannedQR && (
+                            <div className={`p-3 mb-4 border text-left ${scanIssues.length > 0 ? "bg-red-500/10 border-red-500/50" : "bg-brand/5 border-brand/30"}`}>
+                                <p className={`text-[10px] font-bold uppercase mb-2 ${scanIssues.length > 0 ? "text-red-400" : "text-brand"}`}>
+                                    {scanIssues.length > 0 ? "PAYEE_CHECK_FAILED" : "PAYEE_VERIFIED"} · {scannedQR.scheme || scannedQR.type.toUpperCase()}
+                                </p>
+                                {scannedQR.recipient && (
+                                    <div className="flex justify-between text-[10px] gap-2">
+                                        <span className="text-text-secondary shrink-0">{scannedQR.upi ? "VPA" : "PAYEE"}</span>
+                                        <span className="text-white break-all text-right">{scannedQR.recipient}</span>
+                                    </div>
+                                )}
+                                {scannedQR.recipientName && (
+                                    <div className="flex justify-between text-[10px] gap-2">
+                                        <span className="text-text-secondary shrink-0">NAME</span>
+                                        <span className="text-white text-right">{scannedQR.recipientName}</span>
+                                    </div>
+                                )}
+                                {scannedQR.amount !== undefined && (
+                                    <div className="flex justify-between text-[10px] gap-2">
+                                        <span className="text-text-secondary shrink-0">QR_AMOUNT</span>
+                                        <span className="text-white text-right">
+                                            {formatCurrency(scannedQR.amount, scannedQR.currency || acceptedOrder.fiatCurrency)}
+                                            {scannedQR.upi?.minAmount !== undefined && ` (min ${scannedQR.upi.minAmount})`}
+                                        </span>
+                                    </div>
+                                )}
+                                {scannedQR.upi?.merchantCode && (
+                                    <div className="flex justify-between text-[10px] gap-2">
+                                        <span className="text-text-secondary shrink-0">MCC</span>
+                                        <span className="text-white text-right">{scannedQR.upi.merchantCode}</span>
+                                    </div>
+                                )}
+                                {scannedQR.reference && (
+                                    <div className="flex justify-between text-[10px] gap-2">
+                                        <span className="text-text-secondary shrink-0">REF</span>
+                                        <span className="text-white break-all text-right">{scannedQR.reference}</span>
+                                    </div>
+                                )}
+                                {scanIssues.map(issue => (
+                                    <p key={issue} className="text-[10px] text-red-400 mt-1">{">"} {issue}</p>
+                                ))}
+                            </div>
+                        )}
+
                         <div className="flex justify-between items-center text-xs border-t border-border border-dashed pt-2">
                             <span className="text-text-secondary">AMOUNT_DUE:</span>
                             <span className="font-bold text-xl">{formatCurrency(acceptedOrder.amountFiat, acceptedOrder.fiatCurrency)}</span>
@@ -946,7 +1040,7 @@ export default function SolverPage() {
                         <p className="text-[10px] text-yellow-400 uppercase">
                             {">"} Community validators checking payment proof<br />
                             {">"} Once 2/3 approve, USDC released instantly<br />
-                            {">"} Auto-approved in 1 hour if no quorum
+                            {">"} No quorum in 1 hour: small low-risk trades auto-approve, others go to more validators or the admin
                         </p>
                     </div>
 
@@ -998,11 +1092,12 @@ export default function SolverPage() {
                 <QRScanner
                     onScan={async (data) => {
                         console.log("[Solver] Scanned:", data)
-                        setScannedQrData(data)
+                        const parsed = parseQRCode(data)
+                        setScannedQR(parsed)
                         setShowScanner(false)
 
-                        // If we scanned a UPI string, generate a QR for display
-                        if (data.startsWith("upi://") || data.includes("@")) {
+                        // If we scanned a valid payment QR, generate a QR for display
+                        if (parsed.type !== "generic" && !parsed.errors) {
                             try {
                                 const QRCode = (await import('qrcode')).default
                                 const qrDataUrl = await QRCode.toDataURL(data, {
@@ -100,6 +100,25 @@ interface Stats {
     autoApproved: number
 }
 
+interface DriftEntry {
+    key: string
+    kind: string
+    orderId?: string
+    escrowId?: string
+    orderStatus?: string
+    chainStatus?: string
+    detail: string
+    detectedAt: number
+}
+
+interface DriftReport {
+    drift: DriftEntry[]
+    byKind: Record<string, number>
+    checkpoint: number | null
+    latestBlock: number | null
+    lag: number | null
+}
+
 interface ValidatorInfo {
     address: string
     totalReviews: number
@@ -109,6 +128,22 @@ interface ValidatorInfo {
     accuracy: number
 }
 
+interface SlashAppeal {
+    validator: string
+    entry: {
+        id: string
+        taskId: string
+        orderId: string
+        decision?: 'approve' | 'flag'
+        percent: number
+        amount: number
+        at: number
+        appeal?: { note?: string; filedAt: number }
+    }
+    finalOutcome: 'approve' | 'flag' | null
+    reversible: boolean
+}
+
 export default function AdminPage() {
     const { isConnected, address, disconnect } = useWallet()
     const router = useRouter()
@@ -118,6 +153,7 @@ export default function AdminPage() {
     const [recentActivity, setRecentActivity] = useState<ActivityEntry[]>([])
     const [escalatedCases, setEscalatedCases] = useState<EscalatedCase[]>([])
     const [topValidators, setTopValidators] = useState<ValidatorInfo[]>([])
+    const [slashAppeals, setSlashAppeals] = useState<SlashAppeal[]>([])
     const [isLoading, setIsLoading] = useState(true)
     const [resolving, setResolving] = useState(false)
     const [copied, setCopied] = useState(false)
@@ -125,7 +161,9 @@ export default function AdminPage() {
     const [disputedOrders, setDisputedOrders] = useState<any[]>([])
     const [revenueData, setRevenueData] = useState<any>(null)
     const [revenueLoading, setRevenueLoading] = useState(false)
-    const [tab, setTab] = useState<'profile' | 'wallet' | 'monitor' | 'disputes' | 'activity' | 'validators' | 'revenue'>('monitor')
+    const [driftData, setDriftData] = useState<DriftReport | null>(null)
+    const [driftLoading, setDriftLoading] = useState(false)
+    const [tab, setTab] = useState<'profile' | 'wallet' | 'monitor' | 'disputes' | 'activity' | 'validators' | 'revenue' | 'drift'>('monitor')
 
     useEffect(() => {
         setMounted(true)
@@ -148,6 +186,7 @@ export default function AdminPage() {
                 setRecentActivity(data.recentActivity || [])
                 setEscalatedCases(data.escalatedCases || [])
                 setTopValidators(data.topValidators || [])
+                setSlashAppeals(data.slashAppeals || [])
                 setAllValidations(data.allValidations || [])
                 setDisputedOrders(data.disputedOrders || [])
             }
@@ -178,6 +217,20 @@ export default function AdminPage() {
         }
     }, [tab, address, isAuthorized, revenueData])
 
+    // Fetch on-chain drift report when tab is selected
+    const fetchDrift = useCallback(() => {
+        setDriftLoading(true)
+        fetch('/api/admin/drift')
+            .then(r => r.json())
+            .then(data => { if (data.success) setDriftData(data) })
+            .catch(console.error)
+            .finally(() => setDriftLoading(false))
+    }, [])
+
+    useEffect(() => {
+        if (tab === 'drift' && isAuthorized && !driftData) fetchDrift()
+    }, [tab, isAuthorized, driftData, fetchDrift])
+
     const resolveDispute = async (orderId: string, resolution: 'approve' | 'refund' | 'schedule_meet') => {
         if (!address) return
         setResolving(true)
@@ -235,6 +288,33 @@ export default function AdminPage() {
         }
     }
 
+    const reviewSlash = async (appeal: SlashAppeal, resolution: 'reverse' | 'reject') => {
+        if (!address) return
+        setResolving(true)
+        try {
+            const res = await fetch('/api/admin', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    action: 'review_slash',
+                    validator: appeal.validator,
+                    entryId: appeal.entry.id,
+                    resolution,
+                })
+            })
+            const data = await res.json()
+            if (data.success) {
+                fetchData()
+            } else {
+                alert(data.error || 'Failed')
+            }
+        } catch (err) {
+            alert('Network error')
+        } finally {
+            setResolving(false)
+        }
+    }
+
     const copyAddress = () => {
         if (address) {
             navigator.clipboard.writeText(address)
@@ -329,6 +409,7 @@ export default function AdminPage() {
                         { key: 'revenue', label: 'Revenue', icon: <DollarSign className="w-3 h-3" /> },
                         { key: 'monitor', label: 'Monitor', icon: <ClipboardCheck className="w-3 h-3" />, count: allValidations.filter(v => v.status === 'pending').length },
                         { key: 'disputes', label: 'Disputes', icon: <ShieldAlert className="w-3 h-3" />, count: disputedOrders.length },
+                        { key: 'drift', label: 'Drift', icon: <AlertTriangle className="w-3 h-3" />, count: driftData?.drift.length || 0 },
                         { key: 'activity', label: 'Activity', icon: <Activity className="w-3 h-3" />, count: recentActivity.length },
                         { key: 'validators', label: 'Validators', icon: <Users className="w-3 h-3" />, count: topValidators.length },
                         { key: 'profile', label: 'Profile', icon: <User className="w-3 h-3" /> },
@@ -353,7 +434,7 @@ export default function AdminPage() {
                     ))}
                 </div>
 
-                {isLoading && tab !== 'profile' && tab !== 'wallet' && tab !== 'revenue' ? (
+                {isLoading && tab !== 'profile' && tab !== 'wallet' && tab !== 'revenue' && tab !== 'drift' ? (
                     <div className="p-12 text-center">
                         <Loader2 className="w-8 h-8 animate-spin text-brand mx-auto" />
                     </div>
@@ -562,6 +643,87 @@ export default function AdminPage() {
                             </div>
                         )}
 
+                        {/* ===== ON-CHAIN DRIFT TAB ===== */}
+                        {tab === 'drift' && (
+                            <div className="space-y-4">
+                                {driftLoading && !driftData ? (
+                                    <div className="p-12 text-center">
+                                        <Loader2 className="w-8 h-8 animate-spin text-brand mx-auto mb-2" />
+                                        <p className="text-text-secondary text-sm">Loading drift report...</p>
+                                    </div>
+                                ) : !driftData ? (
+                                    <div className="bg-surface border border-border p-8 text-center">
+                                        <AlertTriangle className="w-12 h-12 text-text-secondary mx-auto mb-4" />
+                                        <h3 className="font-bold text-text-primary mb-2">No Data</h3>
+                                        <button onClick={fetchDrift} className="text-brand text-sm hover:underline">Retry</button>
+                                    </div>
+                                ) : (
+                                    <>
+                                        {/* Indexer status */}
+                                        <div className="grid grid-cols-3 gap-3">
+                                            <div className="bg-surface border border-border p-4">
+                                                <div className="text-xs text-text-secondary mb-1">Indexed To Block</div>
+                                                <div className="text-xl font-bold text-text-primary font-mono">{driftData.checkpoint ?? '—'}</div>
+                                            </div>
+                                            <div className="bg-surface border border-border p-4">
+                                                <div className="text-xs text-text-secondary mb-1">Chain Head</div>
+                                                <div className="text-xl font-bold text-text-primary font-mono">{driftData.latestBlock ?? '—'}</div>
+                                            </div>
+                                            <div className={`bg-surface border p-4 ${driftData.lag !== null && driftData.lag > 1000 ? 'border-yellow-500/30' : 'border-border'}`}>
+                                                <div className="text-xs text-text-secondary mb-1">Lag (blocks)</div>
+                                                <div className="text-xl font-bold text-text-primary font-mono">{driftData.lag ?? '—'}</div>
+                                            </div>
+                                        </div>
+
+                                        {driftData.drift.length === 0 ? (
+                                            <div className="bg-surface border border-border p-8 text-center">
+                                                <CheckCircle className="w-12 h-12 text-green-400 mx-auto mb-4" />
+                                                <h3 className="font-bold text-text-primary mb-2">No Drift</h3>
+                                                <p className="text-text-secondary text-sm">Every indexed order matches its on-chain escrow.</p>
+                                            </div>
+                                        ) : (
+                                            <div className="bg-surface border border-border p-4">
+                                                <h3 className="text-sm font-bold text-text-primary mb-3 flex items-center gap-2">
+                                                    <AlertTriangle className="w-4 h-4 text-yellow-400" />
+                                                    Off-chain vs On-chain ({driftData.drift.length})
+                                                </h3>
+                                                <div className="flex flex-wrap gap-1.5 mb-3">
+                                                    {Object.entries(driftData.byKind).map(([kind, count]) => (
+                                                        <span key={kind} className="px-2 py-0.5 bg-background border border-border text-[10px] font-mono text-text-secondary">
+                                                            {kind}: {count}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                                <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+                                                    {driftData.drift.map(d => (
+                                                        <div key={d.key} className="border border-yellow-500/20 bg-yellow-500/5 p-3 text-xs">
+                                                            <div className="flex items-center gap-2 mb-1">
+                                                                <Badge className="text-[9px] px-1 py-0 bg-yellow-500/20 text-yellow-400">{d.kind}</Badge>
+                                                                <span className="text-brand font-mono truncate">{d.orderId || d.escrowId}</span>
+                                                                <span className="ml-auto text-text-secondary">{new Date(d.detectedAt).toLocaleString()}</span>
+                                                            </div>
+                                                            <div className="text-text-primary">{d.detail}</div>
+                                                            <div className="text-text-secondary font-mono mt-1">
+                                                                off-chain: {d.orderStatus || '—'} · on-chain: {d.chainStatus || '—'}
+                                                            </div>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+
+                                        <button
+                                            onClick={fetchDrift}
+                                            className="w-full py-2 text-sm text-text-secondary hover:text-brand border border-border hover:border-brand transition-colors flex items-center justify-center gap-2"
+                                        >
+                                            <RefreshCw className={`w-3 h-3 ${driftLoading ? 'animate-spin' : ''}`} />
+                                            Refresh Drift Report
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        )}
+
                         {/* ===== VALIDATION MONITOR TAB ===== */}
                         {tab === 'monitor' && (
                             <div className="space-y-4">
@@ -1072,6 +1234,45 @@ export default function AdminPage() {
                         {/* ===== VALIDATORS TAB ===== */}
                         {tab === 'validators' && (
                             <div className="space-y-2">
+                                {/* Slash appeals */}
+                                {slashAppeals.map(a => (
+                                    <div key={`${a.validator}-${a.entry.id}`} className="bg-surface border border-yellow-500/30 p-3 space-y-2">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <div className="min-w-0">
+                                                <div className="text-[10px] text-yellow-400 uppercase">Slash appeal</div>
+                                                <div className="font-mono text-text-primary text-sm truncate">{a.validator}</div>
+                                            </div>
+                                            <div className="text-right shrink-0">
+                                                <div className="text-red-400 font-bold text-sm">-${a.entry.amount.toFixed(2)}</div>
+                                                <div className="text-[10px] text-text-secondary">{a.entry.percent}% of stake</div>
+                                            </div>
+                                        </div>
+                                        <div className="text-xs text-text-secondary">
+                                            Order #{a.entry.orderId.slice(0, 8)} &bull; voted <span className="text-text-primary">{a.entry.decision}</span> &bull; final outcome:{' '}
+                                            <span className={a.reversible ? 'text-green-400' : 'text-text-primary'}>{a.finalOutcome || 'not resolved yet'}</span>
+                                        </div>
+                                        {a.entry.appeal?.note && (
+                                            <div className="text-xs text-text-secondary italic">&ldquo;{a.entry.appeal.note}&rdquo;</div>
+                                        )}
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={() => reviewSlash(a, 'reverse')}
+                                                disabled={resolving || !a.reversible}
+                                                className="flex-1 py-2 bg-green-600 hover:bg-green-500 text-white text-xs font-bold rounded disabled:opacity-40"
+                                            >
+                                                Reverse slash
+                                            </button>
+                                            <button
+                                                onClick={() => reviewSlash(a, 'reject')}
+                                                disabled={resolving}
+                                                className="flex-1 py-2 bg-border hover:bg-border/70 text-text-primary text-xs font-bold rounded disabled:opacity-40"
+                                            >
+                                                Reject appeal
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+
                                 {topValidators.length === 0 ? (
                                     <div className="bg-surface border border-border p-8 text-center">
                                         <Users className="w-12 h-12 text-text-secondary mx-auto mb-4" />
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getDriftReport, getIndexerStatus } from "@/lib/escrow-indexer"
+import { authorize } from "@/lib/policy"
+
+/**
+ * Drift Report API
+ *
+ * GET /api/admin/drift
+ *
+ * Orders whose off-chain status disagrees with the on-chain escrow
+ * (see lib/escrow-indexer.ts), plus how far the indexer has caught up.
+ */
+export async function GET(request: NextRequest) {
+    // Auth check — only core team (signed-in wallet)
+    const auth = await authorize(request, "admin:view")
+    if (!auth.allowed) return auth.response
+
+    try {
+        const [drift, status] = await Promise.all([
+            getDriftReport(),
+            getIndexerStatus(),
+        ])
+
+        const byKind: Record<string, number> = {}
+        for (const d of drift) {
+            byKind[d.kind] = (byKind[d.kind] || 0) + 1
+        }
+
+        return NextResponse.json({
+            success: true,
+            drift,
+            byKind,
+            checkpoint: status.checkpoint,
+            latestBlock: status.latestBlock,
+            lag: status.checkpoint !== null && status.latestBlock !== null
+                ? status.latestBlock - status.checkpoint
+                : null,
+        })
+    } catch (error) {
+        console.error("[Admin] Drift report error:", error)
+        return NextResponse.json(
+            { success: false, error: "Failed to load drift report" },
+            { status: 500 }
+        )
+    }
+}
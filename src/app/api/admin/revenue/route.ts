@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { getAllOrders } from "@/lib/order-store"
 import { getAllValidationTasks } from "@/lib/validation-store"
+import { authorize } from "@/lib/policy"
 
 /**
  * Revenue & Platform Analytics API
@@ -21,10 +22,6 @@ import { getAllValidationTasks } from "@/lib/validation-store"
  * NEXT_PUBLIC_FEE_COLLECTOR in .env should match the contract deployer/owner.
  */
 
-const CORE_TEAM = (
-    process.env.NEXT_PUBLIC_CORE_TEAM || ""
-).split(',').map(a => a.trim().toLowerCase()).filter(Boolean)
-
 const FEE_COLLECTOR = process.env.NEXT_PUBLIC_FEE_COLLECTOR || "0xC7d7722a69bE1301A558418b6Da0aceEe4856857"
 const PLATFORM_FEE_BPS = 50 // 0.5% — matches contract's platformFeeBps
 const VALIDATOR_REWARD = 0.05 // $0.05 per review
@@ -32,13 +29,9 @@ const SMALL_ORDER_FEE = 0.125 // flat fee for orders < $10
 const SMALL_ORDER_THRESHOLD = 10
 
 export async function GET(request: NextRequest) {
-    const { searchParams } = new URL(request.url)
-    const address = searchParams.get("address")
-
-    // Auth check — only core team
-    if (!address || !CORE_TEAM.includes(address.toLowerCase())) {
-        return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 403 })
-    }
+    // Auth check — only core team (signed-in wallet)
+    const auth = await authorize(request, "admin:view")
+    if (!auth.allowed) return auth.response
 
     try {
         const [allOrders, allTasks] = await Promise.all([
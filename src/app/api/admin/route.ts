@@ -1,56 +1,75 @@
 import { NextRequest, NextResponse } from "next/server"
-import { getOrder, setOrder, getAllOrders } from "@/lib/order-store"
+import { getOrder, compareAndSetOrder, getAllOrders } from "@/lib/order-store"
+import { transitionOrder } from "@/lib/order-state-machine"
+import { broadcastOrderUpdate } from "../orders/sse/route"
 import {
     type ValidationTask,
     getAllValidationTasks,
     getValidationTask,
-    setValidationTask,
+    updateValidationTask,
     getAllValidatorProfiles,
+    getValidatorProfile,
+    compareAndSetValidatorProfile,
 } from "@/lib/validation-store"
+import { authorize } from "@/lib/policy"
+import { getFinalOutcome, rejectSlashAppeal, reverseSlash } from "@/lib/validator-slashing"
 
 /**
  * Admin API — Hidden endpoint for core team
  * 
  * Admin monitors the validation pipeline and ONLY intervenes on escalated cases.
  * Normal flow: Validators approve/flag → auto-complete or escalate.
- * Admin role: Resolve escalated (flagged) cases, monitor stats, view activity log.
+ * Admin role: Resolve escalated (flagged) cases, monitor stats, view activity log,
+ * and review validator slash appeals (validator-slashing.ts).
  * 
- * GET: Escalated cases + activity log + stats
- * POST: Resolve an escalated case (approve, slash, schedule_meet)
+ * GET: Escalated cases + activity log + stats + pending slash appeals
+ * POST: Resolve an escalated case (approve, slash, schedule_meet) or review a slash (reverse, reject)
+ *
+ * Admin = signed-in wallet with the policy's admin role (core team).
  */
 
-const CORE_TEAM = (
-    process.env.NEXT_PUBLIC_CORE_TEAM ||
-    process.env.NEXT_PUBLIC_DAO_ADMINS ||
-    "0x8889A923bc9EA775b387eAd56e21DCD351Cad618"
-).split(',').map(a => a.trim().toLowerCase())
+/**
+ * 409 when the order / validator moved on while the admin was deciding — nothing is written
+ */
+function conflictResponse() {
+    return NextResponse.json(
+        { success: false, error: 'Updated by someone else in the meantime. Refresh and try again.', conflict: true },
+        { status: 409 }
+    )
+}
 
-function isAdmin(address: string): boolean {
-    return CORE_TEAM.includes(address.toLowerCase())
+/**
+ * Close an escalated task with the admin's ruling. Retried on a conflict,
+ * and only while the task is still escalated — `task` is updated in place.
+ */
+async function resolveEscalatedTask(task: ValidationTask, status: 'approved' | 'flagged') {
+    const written = await updateValidationTask(task.id, current => {
+        if (current.status !== 'escalated') return false
+        current.status = status
+        current.resolvedAt = Date.now()
+        current.resolvedBy = 'admin'
+        return true
+    })
+    if (written) Object.assign(task, written)
+    else console.warn(`[Admin] Task ${task.id} was no longer escalated — ruling not recorded on it`)
 }
 
 // ─── GET /api/admin ─────────────────────────────────────
 export async function GET(request: NextRequest) {
-    const { searchParams } = new URL(request.url)
-    const address = searchParams.get('address')
-
-    if (!address || !isAdmin(address)) {
-        return NextResponse.json(
-            { success: false, error: 'Unauthorized' },
-            { status: 403 }
-        )
-    }
+    const auth = await authorize(request, 'admin:view')
+    if (!auth.allowed) return auth.response
 
-    // Fetch ALL tasks (including resolved) from Redis
-    const [allTasks, allOrders, allProfiles] = await Promise.all([
+    // Fetch ALL tasks (including resolved) from Redis.
+    // Orders: only disputed / mediation are needed — read straight from the status indexes.
+    const [allTasks, disputed, inMediation, allProfiles] = await Promise.all([
         getAllValidationTasks({ includeResolved: true }),
-        getAllOrders(),
+        getAllOrders({ status: 'disputed' }),
+        getAllOrders({ status: 'mediation' }),
         getAllValidatorProfiles(),
     ])
 
     // Disputed orders (raised by users — NOT from validation escalation)
-    const disputedOrders = allOrders
-        .filter(o => o.status === 'disputed' || o.status === 'mediation')
+    const disputedOrders = [...disputed, ...inMediation]
         .sort((a, b) => b.createdAt - a.createdAt)
         .map(o => ({
             id: o.id,
@@ -122,6 +141,22 @@ export async function GET(request: NextRequest) {
             flagsCount: task.votes.filter(v => v.decision === 'flag').length,
         }))
 
+    // Slash appeals waiting on review — with what the order finally resolved to
+    const tasksById = new Map(allTasks.map(t => [t.id, t]))
+    const slashAppeals = await Promise.all(allProfiles.flatMap(profile =>
+        (profile.slashLedger || [])
+            .filter(entry => entry.appeal?.status === 'pending')
+            .map(async entry => {
+                const finalOutcome = getFinalOutcome(await getOrder(entry.orderId), tasksById.get(entry.taskId) || null)
+                return {
+                    validator: profile.address,
+                    entry,
+                    finalOutcome,
+                    reversible: finalOutcome !== null && finalOutcome === entry.decision,
+                }
+            })
+    ))
+
     // Top validators
     const topValidators = allProfiles
         .sort((a, b) => b.totalReviews - a.totalReviews)
@@ -148,20 +183,18 @@ export async function GET(request: NextRequest) {
         recentActivity,
         topValidators,
         allValidations,
+        slashAppeals,
     })
 }
 
 // ─── POST /api/admin ────────────────────────────────────
 export async function POST(request: NextRequest) {
-    const body = await request.json()
-    const { address, action, taskId, orderId, resolution, notes } = body
+    const auth = await authorize(request, 'admin:resolve')
+    if (!auth.allowed) return auth.response
+    const address = auth.address
 
-    if (!address || !isAdmin(address)) {
-        return NextResponse.json(
-            { success: false, error: 'Unauthorized' },
-            { status: 403 }
-        )
-    }
+    const body = await request.json()
+    const { action, taskId, orderId, resolution, notes } = body
 
     switch (action) {
         case 'resolve_dispute': {
@@ -176,34 +209,45 @@ export async function POST(request: NextRequest) {
             if (order.status !== 'disputed' && order.status !== 'mediation') {
                 return NextResponse.json({ success: false, error: 'Order is not in dispute or mediation' }, { status: 400 })
             }
+            const expectedVersion = order.version || 0
 
             if (resolution === 'approve') {
                 // Side with LP — complete the order
-                const now = Date.now()
-                order.status = 'completed'
-                order.completedAt = now
-                order.settledAt = now
-                order.disputePeriodEndsAt = now + 24 * 60 * 60 * 1000
-                await setOrder(order)
+                const result = transitionOrder(order, 'resolve', { actor: 'admin', by: address, note: notes })
+                if (!result.success) {
+                    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+                }
+                if (!(await compareAndSetOrder(order, expectedVersion))) return conflictResponse()
+                await broadcastOrderUpdate(order, 'resolve')
                 console.log(`[Admin] Dispute resolved: approved order ${orderId} by ${address.slice(0, 10)}`)
                 return NextResponse.json({ success: true, message: 'Dispute resolved — order completed.' })
             }
 
             if (resolution === 'refund') {
                 // Side with user — cancel and refund
-                order.status = 'cancelled'
-                await setOrder(order)
+                const result = transitionOrder(order, 'refund', { actor: 'admin', by: address, note: notes })
+                if (!result.success) {
+                    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+                }
+                if (!(await compareAndSetOrder(order, expectedVersion))) return conflictResponse()
+                await broadcastOrderUpdate(order, 'refund')
                 console.log(`[Admin] Dispute resolved: refunded order ${orderId} by ${address.slice(0, 10)}`)
                 return NextResponse.json({ success: true, message: 'Dispute resolved — order cancelled, user refunded.' })
             }
 
             if (resolution === 'schedule_meet') {
                 const meetLink = `https://meet.jit.si/uwu-dispute-${orderId.slice(0, 12)}-${Date.now()}`
-                order.status = 'mediation'
-                order.meetLink = meetLink
-                order.mediationScheduledAt = Date.now()
-                order.mediationEmail = 'info@abstractstudio.in'
-                await setOrder(order)
+                const result = transitionOrder(order, 'schedule_mediation', {
+                    actor: 'admin',
+                    by: address,
+                    note: notes,
+                    patch: { meetLink, mediationEmail: 'info@abstractstudio.in' },
+                })
+                if (!result.success) {
+                    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+                }
+                if (!(await compareAndSetOrder(order, expectedVersion))) return conflictResponse()
+                await broadcastOrderUpdate(order, 'schedule_mediation')
                 console.log(`[Admin] Mediation scheduled for disputed order ${orderId} — Meet: ${meetLink}`)
                 return NextResponse.json({
                     success: true,
@@ -229,21 +273,13 @@ export async function POST(request: NextRequest) {
             }
 
             if (resolution === 'approve') {
-                task.status = 'approved'
-                task.resolvedAt = Date.now()
-                task.resolvedBy = 'admin'
-
                 const order = await getOrder(task.orderId)
-                if (order && (order.status === 'verifying' || order.status === 'disputed')) {
-                    const now = Date.now()
-                    order.status = 'completed'
-                    order.completedAt = now
-                    order.settledAt = now
-                    order.disputePeriodEndsAt = now + 24 * 60 * 60 * 1000
-                    order.stakeLockExpiresAt = now + 24 * 60 * 60 * 1000
-                    await setOrder(order)
+                const expectedVersion = order?.version || 0
+                if (order && transitionOrder(order, 'resolve', { actor: 'admin', by: address, note: notes }).success) {
+                    if (!(await compareAndSetOrder(order, expectedVersion))) return conflictResponse()
+                    await broadcastOrderUpdate(order, 'resolve')
                 }
-                await setValidationTask(task)
+                await resolveEscalatedTask(task, 'approved')
                 console.log(`[Admin] Approved escalated task ${taskId} by ${address.slice(0, 10)}`)
 
                 return NextResponse.json({
@@ -254,16 +290,13 @@ export async function POST(request: NextRequest) {
             }
 
             if (resolution === 'slash') {
-                task.status = 'flagged'
-                task.resolvedAt = Date.now()
-                task.resolvedBy = 'admin'
-
                 const order = await getOrder(task.orderId)
-                if (order) {
-                    order.status = 'cancelled'
-                    await setOrder(order)
+                const expectedVersion = order?.version || 0
+                if (order && transitionOrder(order, 'refund', { actor: 'admin', by: address, note: notes }).success) {
+                    if (!(await compareAndSetOrder(order, expectedVersion))) return conflictResponse()
+                    await broadcastOrderUpdate(order, 'refund')
                 }
-                await setValidationTask(task)
+                await resolveEscalatedTask(task, 'flagged')
                 console.log(`[Admin] Slashed LP for task ${taskId} by ${address.slice(0, 10)}`)
 
                 return NextResponse.json({
@@ -284,6 +317,43 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ success: false, error: 'Invalid resolution type' }, { status: 400 })
         }
 
+        case 'review_slash': {
+            // Reverse a validator's minority-vote slash, or reject their appeal
+            const { validator, entryId } = body
+            const profile = validator ? await getValidatorProfile(validator) : null
+            if (!profile) {
+                return NextResponse.json({ success: false, error: 'Validator not found' }, { status: 404 })
+            }
+            const expectedVersion = profile.version || 0
+
+            let result
+            if (resolution === 'reverse') {
+                const entry = (profile.slashLedger || []).find(e => e.id === entryId)
+                const finalOutcome = entry
+                    ? getFinalOutcome(await getOrder(entry.orderId), await getValidationTask(entry.taskId))
+                    : null
+                result = reverseSlash(profile, entryId, finalOutcome, address, notes)
+            } else if (resolution === 'reject') {
+                result = rejectSlashAppeal(profile, entryId, address, notes)
+            } else {
+                return NextResponse.json({ success: false, error: 'Invalid resolution type' }, { status: 400 })
+            }
+
+            if (!result.ok) {
+                return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+            }
+            if (!(await compareAndSetValidatorProfile(profile, expectedVersion))) return conflictResponse()
+            console.log(`[Admin] Slash ${entryId} on ${profile.address.slice(0, 10)} ${resolution === 'reverse' ? 'reversed' : 'appeal rejected'} by ${address.slice(0, 10)}`)
+
+            return NextResponse.json({
+                success: true,
+                message: resolution === 'reverse'
+                    ? `Slash reversed. $${result.entry.amount.toFixed(2)} returned to the validator's stake.`
+                    : 'Appeal rejected. The slash stands.',
+                entry: result.entry,
+            })
+        }
+
         default:
             return NextResponse.json({ success: false, error: 'Unknown action' }, { status: 400 })
     }
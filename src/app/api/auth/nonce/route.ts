@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { issueNonce } from "@/lib/auth"
+
+/**
+ * GET /api/auth/nonce
+ *
+ * Single-use nonce for the SIWE sign-in message (valid 5 minutes)
+ */
+export async function GET() {
+    try {
+        const nonce = await issueNonce()
+        return NextResponse.json({ success: true, nonce })
+    } catch (error) {
+        console.error('[Auth] Failed to issue nonce:', error)
+        return NextResponse.json(
+            { success: false, error: "Failed to issue nonce" },
+            { status: 500 }
+        )
+    }
+}
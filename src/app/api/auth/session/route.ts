@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server"
+import { verifySiweLogin } from "@/lib/auth"
+import {
+    SESSION_COOKIE,
+    SESSION_TTL_SECONDS,
+    createSessionToken,
+    getSessionAddress,
+} from "@/lib/session"
+
+/**
+ * Wallet Session API
+ *
+ * GET: Current signed-in address (or null)
+ * POST: Sign in — { message, signature } from the SIWE flow → session cookie
+ * DELETE: Sign out
+ */
+
+// ─── GET /api/auth/session ──────────────────────────────
+export async function GET(request: NextRequest) {
+    return NextResponse.json({ success: true, address: getSessionAddress(request) })
+}
+
+// ─── POST /api/auth/session ─────────────────────────────
+export async function POST(request: NextRequest) {
+    try {
+        const { message, signature } = await request.json()
+
+        if (typeof message !== "string" || typeof signature !== "string" || !signature.startsWith("0x")) {
+            return NextResponse.json(
+                { success: false, error: "Missing message or signature" },
+                { status: 400 }
+            )
+        }
+
+        const domain = request.headers.get("host") || request.nextUrl.host
+        const result = await verifySiweLogin(message, signature as `0x${string}`, domain)
+        if (!result.success) {
+            return NextResponse.json({ success: false, error: result.error }, { status: 401 })
+        }
+
+        const token = await createSessionToken(result.address)
+        if (!token) {
+            return NextResponse.json(
+                { success: false, error: "Sign-in is not configured on this server" },
+                { status: 503 }
+            )
+        }
+
+        console.log(`[Auth] Signed in: ${result.address.slice(0, 10)}...`)
+
+        const response = NextResponse.json({ success: true, address: result.address, token })
+        response.cookies.set(SESSION_COOKIE, token, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === "production",
+            sameSite: "lax",
+            path: "/",
+            maxAge: SESSION_TTL_SECONDS,
+        })
+        return response
+    } catch (error) {
+        console.error('[Auth] Sign-in failed:', error)
+        return NextResponse.json(
+            { success: false, error: "Sign-in failed" },
+            { status: 500 }
+        )
+    }
+}
+
+// ─── DELETE /api/auth/session ───────────────────────────
+export async function DELETE() {
+    const response = NextResponse.json({ success: true })
+    response.cookies.delete(SESSION_COOKIE)
+    return response
+}
@@ -1,19 +1,23 @@
 import { NextRequest, NextResponse } from "next/server"
 import {
     getValidatorProfile,
-    setValidatorProfile,
+    compareAndSetValidatorProfile,
+    updateValidatorProfile,
     getAllValidatorProfiles,
     type ValidatorProfile,
 } from "@/lib/validation-store"
+import { getSessionAddress, unauthorizedResponse } from "@/lib/session"
+import { getVaultPosition, isVaultConfigured, needsVaultSync } from "@/lib/validator-vault"
 
 /**
  * DAO Validator Registration API
  * 
- * POST: Register as a DAO validator ($100 USDC minimum stake)
+ * POST: Register as a DAO validator ($100 USDC minimum stake in ValidatorVault)
  * GET:  Check validator status / get all validators
  * 
  * Sybil resistance: stake-only. $100 per identity = $300 to control majority.
- * Slashing: 100% slash on ONE wrong vote (against consensus).
+ * Stake is read from ValidatorVault — the request body can't set it.
+ * Slashing: graduated, enforced on the vault by the validation worker.
  */
 
 const MIN_DAO_STAKE = 100 // $100 USDC minimum
@@ -25,7 +29,7 @@ export async function GET(request: NextRequest) {
 
     if (address) {
         // Get single validator profile
-        const profile = await getValidatorProfile(address)
+        let profile = await getValidatorProfile(address)
         if (!profile) {
             return NextResponse.json({
                 success: true,
@@ -36,14 +40,24 @@ export async function GET(request: NextRequest) {
 
         // Release expired locks
         const now = Date.now()
-        const activeLocks = profile.lockedOrders?.filter(l => l.lockedUntil > now) || []
-        const releasedAmount = (profile.lockedOrders?.filter(l => l.lockedUntil <= now) || [])
-            .reduce((sum, l) => sum + l.amount, 0)
-
-        if (releasedAmount > 0) {
-            profile.lockedOrders = activeLocks
-            profile.lockedAmount = activeLocks.reduce((sum, l) => sum + l.amount, 0)
-            await setValidatorProfile(profile)
+        if (profile.lockedOrders?.some(l => l.lockedUntil <= now)) {
+            profile = await updateValidatorProfile(profile.address, current => {
+                const activeLocks = (current.lockedOrders || []).filter(l => l.lockedUntil > now)
+                if (activeLocks.length === (current.lockedOrders || []).length) return false
+                current.lockedOrders = activeLocks
+                current.lockedAmount = activeLocks.reduce((sum, l) => sum + l.amount, 0)
+                return true
+            }) || profile
+        }
+
+        // Top-ups / unstakes on the vault — unless a slash is still on its way there
+        const vault = await getVaultPosition(profile.address)
+        if (vault && !needsVaultSync(profile) && vault.staked !== profile.staked) {
+            profile = await updateValidatorProfile(profile.address, current => {
+                if (needsVaultSync(current) || current.staked === vault.staked) return false
+                current.staked = vault.staked
+                return true
+            }) || profile
         }
 
         const availableStake = profile.staked - profile.lockedAmount
@@ -55,6 +69,7 @@ export async function GET(request: NextRequest) {
                 ...profile,
                 availableStake,
             },
+            vault,
         })
     }
 
@@ -81,15 +96,9 @@ export async function GET(request: NextRequest) {
 // ─── POST /api/dao/register ─────────────────────────────
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json()
-        const { address, stakeAmount } = body
-
-        if (!address) {
-            return NextResponse.json(
-                { success: false, error: "Address required" },
-                { status: 400 }
-            )
-        }
+        // Register the signed-in wallet — never an address from the body
+        const address = getSessionAddress(request)
+        if (!address) return unauthorizedResponse()
 
         const addr = address.toLowerCase()
 
@@ -102,21 +111,33 @@ export async function POST(request: NextRequest) {
             )
         }
 
-        // Validate stake amount
-        const stake = Number(stakeAmount)
-        if (!stake || stake < MIN_DAO_STAKE) {
+        // Stake has to be in the vault — never the client's word for it
+        if (!isVaultConfigured()) {
+            return NextResponse.json(
+                { success: false, error: "Validator vault not configured" },
+                { status: 503 }
+            )
+        }
+        const vault = await getVaultPosition(addr)
+        if (!vault) {
+            return NextResponse.json(
+                { success: false, error: "Could not read validator vault" },
+                { status: 502 }
+            )
+        }
+        const stake = vault.staked
+        if (stake < MIN_DAO_STAKE) {
             return NextResponse.json(
-                { success: false, error: `Minimum stake is $${MIN_DAO_STAKE} USDC` },
+                { success: false, error: `Stake at least $${MIN_DAO_STAKE} USDC in the validator vault first` },
                 { status: 400 }
             )
         }
 
-        // For hackathon: trust the client-declared stake.
-        // Production: read from on-chain staking contract.
         const profile: ValidatorProfile = {
             address: addr,
             totalReviews: 0,
-            totalEarned: 0,
+            totalEarned: existing?.totalEarned || 0, // The vault credits cumulative earnings
+            vaultEarnedSynced: existing?.vaultEarnedSynced,
             approvals: 0,
             flags: 0,
             accuracy: 100,
@@ -125,10 +146,18 @@ export async function POST(request: NextRequest) {
             lockedOrders: [],
             isSlashed: false,
             isActive: true,
+            cooldownUntil: existing?.cooldownUntil,
+            slashLedger: existing?.slashLedger, // History survives re-registration
             registeredAt: Date.now(),
         }
 
-        await setValidatorProfile(profile)
+        // Lost a race with another write to the old profile — nothing is kept
+        if (!(await compareAndSetValidatorProfile(profile, existing?.version || 0))) {
+            return NextResponse.json(
+                { success: false, error: "Validator profile changed meanwhile — try again", conflict: true },
+                { status: 409 }
+            )
+        }
 
         console.log(`[DAO] Validator registered: ${addr} with $${stake} stake`)
 
@@ -136,6 +165,7 @@ export async function POST(request: NextRequest) {
             success: true,
             message: `Registered as DAO validator with $${stake} USDC stake`,
             profile,
+            vault,
         })
     } catch (error) {
         console.error("[DAO] Registration error:", error)
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { FraudDetector, type OrderAnalysisData, type UserHistory } from '@/lib/fraud-detection'
 import { getRedis, useRedis } from '@/lib/redis'
+import { getSessionAddress, unauthorizedResponse } from '@/lib/session'
 
 /**
  * Fraud Analysis API
@@ -31,7 +32,7 @@ const defaultHistory = (now = Date.now()): UserHistory => ({
     walletCreatedAt: now - 7 * 24 * 60 * 60 * 1000,
 })
 
-async function getUserHistory(userAddress: string): Promise<UserHistory> {
+export async function getUserHistory(userAddress: string): Promise<UserHistory> {
     const addr = userAddress.toLowerCase()
     if (!useRedis()) return memFraud.get(addr) || defaultHistory()
     try {
@@ -128,12 +129,16 @@ export async function resetDailyCounters() {
 
 export async function POST(request: NextRequest) {
     try {
+        // Analyse the signed-in wallet's own trade
+        const userAddress = getSessionAddress(request)
+        if (!userAddress) return unauthorizedResponse()
+
         const body = await request.json()
-        const { orderData, userAddress } = body
+        const { orderData } = body
 
-        if (!orderData || !userAddress) {
+        if (!orderData) {
             return NextResponse.json(
-                { success: false, error: 'Missing orderData or userAddress' },
+                { success: false, error: 'Missing orderData' },
                 { status: 400 }
             )
         }
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { runEscrowIndexer } from "@/lib/escrow-indexer"
+import { cronUnauthorizedResponse, isCronRequest } from "@/lib/session"
+
+/**
+ * Escrow Indexer API
+ *
+ * GET /api/indexer
+ * Indexer pass (run on a schedule): follow P2PEscrowV5 events from the
+ * checkpoint, update matching orders, refresh the drift report. Scheduled in
+ * vercel.json; only the scheduler (CRON_SECRET) may call it.
+ */
+export async function GET(request: Request) {
+    if (!isCronRequest(request)) return cronUnauthorizedResponse()
+
+    try {
+        const result = await runEscrowIndexer()
+        return NextResponse.json({ success: true, ...result })
+    } catch (error) {
+        console.error("[EscrowIndexer] Error:", error)
+        return NextResponse.json(
+            { success: false, error: "Indexer run failed" },
+            { status: 500 }
+        )
+    }
+}
@@ -1,89 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
-import { createPublicClient, http } from "viem"
-import { CONTRACT_ADDRESSES, opbnbTestnet } from "@/lib/web3-config"
-import { getRedis, useRedis } from "@/lib/redis"
-
-// BNB Chain (opBNB Testnet) for on-chain reads
-const publicClient = createPublicClient({
-    chain: opbnbTestnet,
-    transport: http(),
-})
-
-// ABI for reading LP stakes from P2PEscrowV5
-const STAKING_READ_ABI = [
-    {
-        inputs: [{ name: "", type: "address" }],
-        name: "lpStakes",
-        outputs: [
-            { name: "amount", type: "uint256" },
-            { name: "lockedInOrders", type: "uint256" },
-            { name: "totalTrades", type: "uint256" },
-            { name: "totalDisputes", type: "uint256" },
-            { name: "disputesLost", type: "uint256" },
-            { name: "memberSince", type: "uint256" },
-            { name: "avgCompletionTime", type: "uint256" },
-            { name: "cooldownUntil", type: "uint256" },
-            { name: "lastOrderTime", type: "uint256" },
-            { name: "dailyVolume", type: "uint256" },
-            { name: "dailyVolumeDate", type: "uint256" },
-            { name: "unstakeRequestTime", type: "uint256" },
-            { name: "unstakeAmount", type: "uint256" },
-            { name: "isActive", type: "bool" },
-            { name: "isBanned", type: "bool" }
-        ],
-        stateMutability: "view",
-        type: "function"
-    }
-] as const
-
-// Minimum stake required to be LP (50 USDC = 50 * 1e6)
-const MIN_LP_STAKE = BigInt(50_000_000)
-
-// Redis key helpers
-const LP_KEY = (addr: string) => `lp:${addr.toLowerCase()}`
-const LP_INDEX = "lp:index" // set of all LP addresses
-
-// In-memory fallback
-type LPRecord = {
-    address: string
-    stake: number
-    rate: number
-    minOrder: number
-    maxOrder: number
-    paymentMethods: string[]
-    isActive: boolean
-    completedOrders: number
-    rating: number
-    registeredAt: number
-}
-const globalForLPs = globalThis as unknown as { _uwuLPs?: Map<string, LPRecord> }
-if (!globalForLPs._uwuLPs) {
-    globalForLPs._uwuLPs = new Map()
-}
-const memLPs = globalForLPs._uwuLPs
-
-async function getLP(address: string): Promise<LPRecord | null> {
-    const addr = address.toLowerCase()
-    if (!useRedis()) return memLPs.get(addr) || null
-    try {
-        return await getRedis().get<LPRecord>(LP_KEY(addr))
-    } catch {
-        return memLPs.get(addr) || null
-    }
-}
-
-async function setLP(record: LPRecord): Promise<void> {
-    const addr = record.address.toLowerCase()
-    memLPs.set(addr, record)
-    if (!useRedis()) return
-    try {
-        const redis = getRedis()
-        await redis.set(LP_KEY(addr), record, { ex: 30 * 86400 }) // 30-day TTL
-        await redis.sadd(LP_INDEX, addr)
-    } catch (e) {
-        console.error('[LP] Redis set failed:', e)
-    }
-}
+import { CONTRACT_ADDRESSES } from "@/lib/web3-config"
+import { MIN_LP_STAKE, authorize, readLPStake } from "@/lib/policy"
+import { type LPRecord, getLP, parseLPPricing, setLP } from "@/lib/lp-store"
+import { getRate } from "@/lib/rate-oracle"
+import { isSupportedFiat } from "@/lib/platform-config"
 
 /**
  * Verify on-chain stake for LP registration
@@ -93,18 +13,14 @@ async function verifyOnChainStake(address: string): Promise<{ valid: boolean; st
         console.log("[LP] Verifying on-chain stake for:", address)
         console.log("[LP] Contract address:", CONTRACT_ADDRESSES.P2P_ESCROW)
         
-        const result = await publicClient.readContract({
-            address: CONTRACT_ADDRESSES.P2P_ESCROW as `0x${string}`,
-            abi: STAKING_READ_ABI,
-            functionName: "lpStakes",
-            args: [address as `0x${string}`],
-        })
-
-        // V5 LPStake struct: result[0] = amount
-        const stakeAmount = result[0]
+        const { amount: stakeAmount, isBanned } = await readLPStake(address)
         const stakeInUsdc = Number(stakeAmount) / 1_000_000
         console.log("[LP] On-chain stake amount:", stakeInUsdc, "USDC (raw:", stakeAmount.toString(), ")")
 
+        if (isBanned) {
+            return { valid: false, stake: stakeInUsdc, error: "This address is banned from providing liquidity." }
+        }
+
         if (stakeAmount < MIN_LP_STAKE) {
             return {
                 valid: false,
@@ -124,26 +40,60 @@ async function verifyOnChainStake(address: string): Promise<{ valid: boolean; st
     }
 }
 
+/**
+ * Check pricing + order range from the request (fixed rates are checked
+ * against the oracle mid)
+ */
+async function validatePricing(
+    currency: string,
+    pricing: unknown,
+    minOrder: number,
+    maxOrder: number
+): Promise<{ valid: true; pricing: LPRecord["pricing"] } | { valid: false; error: string }> {
+    if (!isSupportedFiat(currency)) {
+        return { valid: false, error: `Unsupported currency: ${currency}` }
+    }
+    if (!(minOrder > 0) || !(maxOrder >= minOrder)) {
+        return { valid: false, error: "Order range must satisfy 0 < minOrder ≤ maxOrder" }
+    }
+    const mid = await getRate(currency)
+    const parsed = parseLPPricing(pricing, mid.ok ? mid.rate.rate : null)
+    if ("error" in parsed) return { valid: false, error: parsed.error }
+    return { valid: true, pricing: parsed.pricing }
+}
+
 /**
  * POST /api/lp/register - Register as a Liquidity Provider
  */
 export async function POST(request: NextRequest) {
     try {
+        // Register the signed-in wallet
+        const auth = await authorize(request, "lp:register")
+        if (!auth.allowed) return auth.response
+        const address = auth.address
+
         const body = await request.json()
-        const { address, rate, minOrder, maxOrder, paymentMethods } = body
+        const {
+            currency = "INR",
+            pricing = { mode: "spread", spreadBps: 0 },
+            minOrder = 10,
+            maxOrder = 1000,
+            paymentMethods,
+        } = body
 
-        if (!address) {
+        // Check if already registered
+        const existing = await getLP(address)
+        if (existing) {
             return NextResponse.json(
-                { success: false, error: "Address is required" },
+                { success: false, error: "Already registered as LP" },
                 { status: 400 }
             )
         }
 
-        // Check if already registered
-        const existing = await getLP(address)
-        if (existing) {
+        const priceCheck = await validatePricing(currency, pricing, Number(minOrder), Number(maxOrder))
+        if (!priceCheck.valid) {
             return NextResponse.json(
-                { success: false, error: "Already registered as LP" },
+                { success: false, error: priceCheck.error },
                 { status: 400 }
             )
         }
@@ -167,9 +117,10 @@ export async function POST(request: NextRequest) {
         const lpRecord: LPRecord = {
             address: address.toLowerCase(),
             stake: stakeVerification.stake,
-            rate: rate || 83.50,
-            minOrder: minOrder || 10,
-            maxOrder: maxOrder || 1000,
+            currency,
+            pricing: priceCheck.pricing,
+            minOrder: Number(minOrder),
+            maxOrder: Number(maxOrder),
             paymentMethods: paymentMethods || ['UPI'],
             isActive: true,
             completedOrders: 0,
@@ -178,7 +129,7 @@ export async function POST(request: NextRequest) {
         }
         await setLP(lpRecord)
 
-        console.log(`[LP] Registered new LP: ${address} with stake: ${stakeVerification.stake} USDC`)
+        console.log(`[LP] Registered new LP: ${address} with stake: ${stakeVerification.stake} USDC, pricing:`, lpRecord.pricing)
 
         return NextResponse.json({
             success: true,
@@ -222,15 +173,13 @@ export async function GET(request: NextRequest) {
  */
 export async function PATCH(request: NextRequest) {
     try {
-        const body = await request.json()
-        const { address, rate, minOrder, maxOrder, paymentMethods, isActive } = body
+        // LPs can only update their own settings
+        const auth = await authorize(request, "lp:update")
+        if (!auth.allowed) return auth.response
+        const address = auth.address
 
-        if (!address) {
-            return NextResponse.json(
-                { success: false, error: "Address is required" },
-                { status: 400 }
-            )
-        }
+        const body = await request.json()
+        const { currency, pricing, minOrder, maxOrder, paymentMethods, isActive } = body
 
         const lp = await getLP(address)
         if (!lp) {
@@ -240,10 +189,24 @@ export async function PATCH(request: NextRequest) {
             )
         }
 
+        // Pricing and range are validated together
+        if (currency !== undefined || pricing !== undefined || minOrder !== undefined || maxOrder !== undefined) {
+            const next = {
+                currency: currency ?? lp.currency,
+                minOrder: minOrder !== undefined ? Number(minOrder) : lp.minOrder,
+                maxOrder: maxOrder !== undefined ? Number(maxOrder) : lp.maxOrder,
+            }
+            const priceCheck = await validatePricing(next.currency, pricing ?? lp.pricing, next.minOrder, next.maxOrder)
+            if (!priceCheck.valid) {
+                return NextResponse.json(
+                    { success: false, error: priceCheck.error },
+                    { status: 400 }
+                )
+            }
+            Object.assign(lp, next, { pricing: priceCheck.pricing })
+        }
+
         // Update fields
-        if (rate !== undefined) lp.rate = rate
-        if (minOrder !== undefined) lp.minOrder = minOrder
-        if (maxOrder !== undefined) lp.maxOrder = maxOrder
         if (paymentMethods !== undefined) lp.paymentMethods = paymentMethods
         if (isActive !== undefined) lp.isActive = isActive
 
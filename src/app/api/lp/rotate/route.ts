@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getOrder } from '@/lib/order-store'
+import { authorize } from '@/lib/policy'
 
 /**
  * POST /api/lp/rotate
@@ -9,6 +11,8 @@ import { NextRequest, NextResponse } from 'next/server'
  * - oldLP: string (address)
  * - newLP: string (address)
  * - reason: 'unresponsive' | 'declined' | 'timeout'
+ *
+ * Only the order's user (or core team) may rotate its LP.
  */
 export async function POST(request: NextRequest) {
     try {
@@ -22,6 +26,17 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        const order = await getOrder(orderId)
+        if (!order) {
+            return NextResponse.json(
+                { error: 'Order not found' },
+                { status: 404 }
+            )
+        }
+
+        const auth = await authorize(request, 'lp:rotate', { order })
+        if (!auth.allowed) return auth.response
+
         // In production, this would:
         // 1. Call smart contract's rotateLP() function
         // 2. Update order record in database
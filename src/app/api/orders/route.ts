@@ -1,10 +1,34 @@
 import { NextRequest, NextResponse } from "next/server"
 import { broadcastOrder, broadcastOrderUpdate } from "./sse/route"
-import { type Order, getOrder, setOrder, getAllOrders, deleteOrdersForUser } from "@/lib/order-store"
+import {
+    type Order,
+    DEFAULT_PAGE_SIZE,
+    MAX_PAGE_SIZE,
+    formatOrderCursor,
+    parseOrderCursor,
+    getOrder,
+    setOrder,
+    compareAndSetOrder,
+    queryOrders,
+    deleteOrdersForUser,
+} from "@/lib/order-store"
+import { type TransitionResult, canTransition, transitionOrder } from "@/lib/order-state-machine"
 import { createPublicClient, http, formatUnits } from "viem"
 import { CONTRACT_ADDRESSES, USDC_ADDRESS, opbnbTestnet } from "@/lib/web3-config"
 import { createValidationTask } from "../validations/route"
+import { getUserHistory } from "../fraud/analyze/route"
+import { FraudDetector } from "@/lib/fraud-detection"
 import { uploadBase64ToIPFS } from "@/lib/ipfs-upload-helper"
+import { type QRPayee, decodeOrderQRImage } from "@/lib/qr-image-decoder"
+import { EscrowStatus, generateOrderId } from "@/lib/escrow-abi"
+import { type VerifiedEscrow, isEscrowConfigured, readEscrowState, verifyEscrowCreation } from "@/lib/escrow-verification"
+import { type PolicyAction, authorize, getPaymentDetailAccess, redactPaymentDetails } from "@/lib/policy"
+import { getSessionAddress } from "@/lib/session"
+import { getFiatConfig, getPaymentMethodForCurrency, isSupportedFiat, roundFiat } from "@/lib/platform-config"
+import { formatCurrency } from "@/lib/currency-converter"
+import { getRate } from "@/lib/rate-oracle"
+import { checkRateQuote, redeemRateQuote, releaseRateQuote } from "@/lib/rate-lock"
+import { getBestLPPrice } from "@/lib/lp-store"
 
 /**
  * Orders API
@@ -13,7 +37,10 @@ import { uploadBase64ToIPFS } from "@/lib/ipfs-upload-helper"
  * POST: Create new sell order
  * PATCH: Update order status
  *
- * SECURITY: All amounts are verified on-chain before order creation
+ * SECURITY: All amounts are verified on-chain before order creation —
+ * sell orders only go live once their EscrowCreated log checks out.
+ * Mutations act as the signed-in wallet (session) — never as a body field —
+ * and are checked against the central policy (policy.ts).
  */
 
 // BNB Chain (opBNB Testnet) for on-chain verification
@@ -54,34 +81,6 @@ const STAKING_ABI = [
 
 const ORDER_EXPIRY_MINUTES = 15
 
-// Exchange rate cache (fetched from CoinGecko)
-let cachedExchangeRate = 83.50
-let lastRateFetch = 0
-const RATE_CACHE_MS = 60000 // 1 minute
-
-async function getExchangeRateINR(): Promise<number> {
-    const now = Date.now()
-    if (now - lastRateFetch < RATE_CACHE_MS) {
-        return cachedExchangeRate
-    }
-
-    try {
-        const response = await fetch(
-            'https://api.coingecko.com/api/v3/simple/price?ids=usd-coin&vs_currencies=inr',
-            { signal: AbortSignal.timeout(3000) }
-        )
-        if (response.ok) {
-            const data = await response.json()
-            cachedExchangeRate = data['usd-coin']?.inr || 83.50
-            lastRateFetch = now
-            console.log('[Orders] Live INR rate:', cachedExchangeRate)
-        }
-    } catch (error) {
-        console.warn('[Orders] Failed to fetch live rate, using cached:', error)
-    }
-    return cachedExchangeRate
-}
-
 /**
  * Verify user's USDC balance on-chain
  */
@@ -138,43 +137,128 @@ async function verifyOnChainBalance(
     }
 }
 
+// A quoted order's escrow must lock the quoted rate (parseRate rounding aside)
+const QUOTED_RATE_TOLERANCE = 0.0001
+
+type OrderRate =
+    | { ok: true; rate: number; midRate: number; source: string; quoteId?: string }
+    | { ok: false; error: string; status: number }
+
 /**
- * Generate a unique order ID
+ * The rate an order is priced at: the caller's unexpired, unused quote if
+ * they sent one, otherwise the best LP price at the oracle's current mid
  */
-function generateOrderId(): string {
-    return `order_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+async function resolveOrderRate(quoteId: string | undefined, owner: string, currency: string, amountUsdc: number): Promise<OrderRate> {
+    if (quoteId) {
+        const check = await checkRateQuote(quoteId, { owner, currency })
+        if (!check.valid) return { ok: false, error: check.error, status: check.status }
+        const { quote } = check
+        return {
+            ok: true,
+            rate: quote.rate,
+            midRate: quote.midRate,
+            source: quote.lp ? `quote:lp:${quote.lp}` : `quote:${quote.source}`,
+            quoteId,
+        }
+    }
+    const result = await getRate(currency)
+    if (!result.ok) return { ok: false, error: result.error, status: 503 }
+    const mid = result.rate.rate
+    const best = await getBestLPPrice(currency, mid, amountUsdc)
+    return {
+        ok: true,
+        rate: best?.rate ?? mid,
+        midRate: mid,
+        source: best ? `lp:${best.address}` : result.rate.sources.map(s => s.provider).join("+"),
+    }
+}
+
+/**
+ * Case-insensitive address comparison
+ */
+function sameAddress(a?: string | null, b?: string | null): boolean {
+    return !!a && !!b && a.toLowerCase() === b.toLowerCase()
+}
+
+/**
+ * Policy action for a PATCH action (cancel on a matched order = LP release)
+ */
+function patchPolicyAction(action: string, order: Order): PolicyAction | null {
+    switch (action) {
+        case "match": return "order:match"
+        case "payment_sent": return "order:payment_sent"
+        case "complete": return "order:complete"
+        case "dispute": return "order:dispute"
+        case "cancel": return order.status === "matched" ? "order:release" : "order:cancel"
+        case "add_qr": return "order:add_qr"
+        default: return null
+    }
 }
 
 /**
  * GET /api/orders
  * 
  * Query params:
+ * - orderId: Fetch a single order
  * - status: Filter by order status
  * - type: Filter by order type (buy/sell)
  * - userId: Filter by user ID
  * - solverId: Filter by solver ID
+ * - limit: Page size (default 50, max 200)
+ * - cursor: `nextCursor` from the previous page ("<createdAt>:<orderId>")
+ *
+ * Payment details (QR, payee, LP proof) are only returned to the order's
+ * user, its LP, its validator committee and the core team (policy.ts).
  */
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
+    const orderId = searchParams.get("orderId")
     const status = searchParams.get("status")
     const type = searchParams.get("type")
     const userId = searchParams.get("userId")
     const solverId = searchParams.get("solverId")
+    const cursorParam = searchParams.get("cursor")
+    const limitParam = searchParams.get("limit")
 
-    let orders = await getAllOrders({
-        status: status || undefined,
-        type: type || undefined,
-        userId: userId || undefined,
-        solverId: solverId || undefined,
-    })
+    const cursor = cursorParam ? parseOrderCursor(cursorParam) : undefined
+    if (cursor === null) {
+        return NextResponse.json(
+            { success: false, error: "Invalid cursor" },
+            { status: 400 }
+        )
+    }
+    const limit = Math.min(
+        Math.max(Number(limitParam) || DEFAULT_PAGE_SIZE, 1),
+        MAX_PAGE_SIZE
+    )
+
+    let orders: Order[]
+    let nextCursor: string | null = null
+
+    if (orderId) {
+        const order = await getOrder(orderId)
+        orders = order ? [order] : []
+    } else {
+        const page = await queryOrders({
+            status: status || undefined,
+            type: type || undefined,
+            userId: userId || undefined,
+            solverId: solverId || undefined,
+        }, { cursor, limit })
+        orders = page.orders
+        nextCursor = page.nextCursor && formatOrderCursor(page.nextCursor)
+    }
 
     // Check for expired orders and update status
     const now = Date.now()
     for (const order of orders) {
         if (order.status === "created" && order.expiresAt < now) {
-            order.status = "expired"
-            await setOrder(order)
-            broadcastOrderUpdate(order, "expired")
+            const expectedVersion = order.version || 0
+            transitionOrder(order, "expire", { actor: "timer", now })
+            // Skip if an LP matched it in the meantime — the next read picks up their write
+            if (await compareAndSetOrder(order, expectedVersion)) {
+                await broadcastOrderUpdate(order, "expired")
+            }
         }
     }
 
@@ -183,13 +267,14 @@ export async function GET(request: NextRequest) {
         orders = orders.filter(o => o.status === status)
     }
 
-    // Sort by createdAt descending
-    orders.sort((a, b) => b.createdAt - a.createdAt)
+    const canSeePayment = await getPaymentDetailAccess(getSessionAddress(request))
+    const visibleOrders = orders.map(o => canSeePayment(o) ? o : redactPaymentDetails(o))
 
     return NextResponse.json({
         success: true,
-        orders,
-        count: orders.length,
+        orders: visibleOrders,
+        count: visibleOrders.length,
+        nextCursor,
     })
 }
 
@@ -203,25 +288,42 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
     try {
+        // The order belongs to whoever is signed in
+        const auth = await authorize(request, "order:create")
+        if (!auth.allowed) return auth.response
+        const userId = auth.address
+        const userAddress = auth.address
+
         const body = await request.json()
         const {
-            userId,
-            userAddress,
             type = "sell",
-            amountUsdc,
             fiatCurrency,
             paymentMethod,
             paymentDetails,
             qrImage,
+            orderId: escrowOrderId,
+            escrowTxHash,
+            quoteId,
         } = body
+        let { amountUsdc } = body
 
-        // Validation
-        if (!userId || !userAddress) {
+        // Sell orders lock USDC first: the client creates the escrow for its own
+        // order ID, then sends the tx hash here
+        const requireEscrow = type === "sell" && isEscrowConfigured()
+        if (requireEscrow && (!escrowTxHash || !escrowOrderId)) {
             return NextResponse.json(
-                { success: false, error: "Missing userId or userAddress" },
+                { success: false, error: "Lock USDC in escrow first (missing orderId / escrowTxHash)" },
                 { status: 400 }
             )
         }
+        if (requireEscrow && await getOrder(escrowOrderId)) {
+            return NextResponse.json(
+                { success: false, error: "An order already exists for this escrow" },
+                { status: 409 }
+            )
+        }
+
+        // Validation
         if (!amountUsdc || amountUsdc <= 0) {
             return NextResponse.json(
                 { success: false, error: "Invalid amountUsdc" },
@@ -241,11 +343,26 @@ export async function POST(request: NextRequest) {
                 { status: 400 }
             )
         }
+        if (!isSupportedFiat(fiatCurrency)) {
+            return NextResponse.json(
+                { success: false, error: `Unsupported fiatCurrency: ${fiatCurrency}` },
+                { status: 400 }
+            )
+        }
+        const method = getPaymentMethodForCurrency(fiatCurrency, paymentMethod)
+        if (!method) {
+            return NextResponse.json(
+                { success: false, error: `${paymentMethod} does not pay out in ${fiatCurrency}` },
+                { status: 400 }
+            )
+        }
+        const fiatConfig = getFiatConfig(fiatCurrency)
 
         // RUN ALL VERIFICATION IN PARALLEL to stay under Vercel timeout
-        const [exchangeRate, balanceCheck, tierCheckRaw] = await Promise.all([
-            getExchangeRateINR(),
-            type === "sell"
+        const [rateResult, balanceCheck, tierCheckRaw] = await Promise.all([
+            resolveOrderRate(quoteId || undefined, userAddress, fiatCurrency, amountUsdc),
+            // Escrowed orders are checked against the lock itself, not the balance
+            type === "sell" && !requireEscrow
                 ? verifyOnChainBalance(userAddress, amountUsdc)
                 : Promise.resolve({ valid: true, balance: amountUsdc } as const),
             // Tier check needs exchange rate, but we can fetch rate + do the RPC in parallel,
@@ -262,8 +379,46 @@ export async function POST(request: NextRequest) {
             ).catch(() => null),
         ])
 
-        const serverCalculatedFiat = amountUsdc * exchangeRate
-        console.log(`[Orders] Using live rate: ₹${exchangeRate.toFixed(2)} per USDC`)
+        // No quote / oracle rate, no order — never price off a fallback
+        if (!rateResult.ok) {
+            return NextResponse.json(
+                { success: false, error: rateResult.error },
+                { status: rateResult.status }
+            )
+        }
+        const exchangeRate = rateResult.rate
+
+        // Escrow: amount and rate come from the EscrowCreated log
+        let escrow: VerifiedEscrow | null = null
+        if (requireEscrow) {
+            const verification = await verifyEscrowCreation(escrowTxHash, {
+                orderId: escrowOrderId,
+                sender: userAddress,
+                amountUsdc,
+                referenceRate: exchangeRate,
+                maxRateDeviation: rateResult.quoteId ? QUOTED_RATE_TOLERANCE : undefined,
+                fiatCurrency,
+            })
+            if (!verification.valid) {
+                return NextResponse.json(
+                    { success: false, error: verification.error },
+                    { status: verification.status }
+                )
+            }
+            escrow = verification.escrow
+            amountUsdc = escrow.amountUsdc
+        }
+
+        const orderRate = escrow ? escrow.lockedRate : exchangeRate
+        const serverCalculatedFiat = roundFiat(amountUsdc * orderRate, fiatCurrency)
+        console.log(`[Orders] Using ${escrow ? "escrow" : rateResult.quoteId ? "quoted" : "live"} rate: ${formatCurrency(orderRate, fiatCurrency)} per USDC`)
+
+        if (serverCalculatedFiat < fiatConfig.minAmount) {
+            return NextResponse.json(
+                { success: false, error: `Order is below the ${method.name} minimum of ${formatCurrency(fiatConfig.minAmount, fiatCurrency)}` },
+                { status: 400 }
+            )
+        }
 
         // Check balance result
         if (type === "sell" && !balanceCheck.valid) {
@@ -280,22 +435,22 @@ export async function POST(request: NextRequest) {
         // Apply tier limit from the parallel RPC call
         if (tierCheckRaw !== null) {
             const tradingLimit = Number((tierCheckRaw as any)[2]) / 1_000_000
-            const tradingLimitFiat = tradingLimit === 0 ? 5000 : tradingLimit * exchangeRate
+            const tradingLimitFiat = tradingLimit === 0 ? fiatConfig.defaultLimit : tradingLimit * exchangeRate
             if (serverCalculatedFiat > tradingLimitFiat) {
                 return NextResponse.json(
                     {
                         success: false,
-                        error: `Order exceeds tier limit. Max: ₹${tradingLimitFiat.toFixed(0)}, Requested: ₹${serverCalculatedFiat.toFixed(0)}`,
+                        error: `Order exceeds tier limit. Max: ${formatCurrency(tradingLimitFiat, fiatCurrency)}, Requested: ${formatCurrency(serverCalculatedFiat, fiatCurrency)}`,
                         tierLimit: tradingLimitFiat
                     },
                     { status: 400 }
                 )
             }
         } else {
-            // Timeout / error — apply default 5000 INR limit
-            if (serverCalculatedFiat > 5000) {
+            // Timeout / error — apply the currency's default limit
+            if (serverCalculatedFiat > fiatConfig.defaultLimit) {
                 return NextResponse.json(
-                    { success: false, error: `Order exceeds default limit. Max: ₹5000` },
+                    { success: false, error: `Order exceeds default limit. Max: ${formatCurrency(fiatConfig.defaultLimit, fiatCurrency)}` },
                     { status: 400 }
                 )
             }
@@ -303,7 +458,20 @@ export async function POST(request: NextRequest) {
 
         // Create the order with SERVER-CALCULATED amounts
         const now = Date.now()
-        const orderId = generateOrderId()
+        const orderId = escrow ? escrow.orderId : generateOrderId()
+
+        // The QR must decode to a payment QR for this order before it's stored
+        let qrPayee: QRPayee | undefined
+        if (qrImage) {
+            const decoded = decodeOrderQRImage(qrImage, { amountFiat: serverCalculatedFiat, fiatCurrency })
+            if (!decoded.success) {
+                return NextResponse.json(
+                    { success: false, error: decoded.error },
+                    { status: 400 }
+                )
+            }
+            qrPayee = decoded.payee
+        }
 
         // Upload QR image to IPFS (falls back to base64 if Pinata not configured)
         let storedQrImage = qrImage || undefined
@@ -315,6 +483,15 @@ export async function POST(request: NextRequest) {
             }
         }
 
+        // Fraud risk at creation — decides the DAO fallback if validators never reach a majority
+        const risk = await new FraudDetector().analyzeTrade({
+            amountUsdc,
+            paymentMethod: method.id,
+            fiatCurrency,
+            userAddress,
+            ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0] || undefined,
+        }, await getUserHistory(userAddress))
+
         const order: Order = {
             id: orderId,
             type: type as "buy" | "sell",
@@ -324,20 +501,58 @@ export async function POST(request: NextRequest) {
             amountUsdc,
             amountFiat: serverCalculatedFiat, // NEVER trust client-sent fiat amount
             fiatCurrency,
-            paymentMethod,
+            paymentMethod: method.name,
             paymentDetails: paymentDetails || "",
             qrImage: storedQrImage,
+            qrPayee,
             createdAt: now,
             expiresAt: now + ORDER_EXPIRY_MINUTES * 60 * 1000,
+            lockedRate: orderRate,
+            midRate: rateResult.midRate,
+            rateSource: escrow ? `escrow:${rateResult.source}` : rateResult.source,
+            quoteId: rateResult.quoteId,
+            riskScore: risk.riskScore,
+            riskLevel: risk.riskLevel,
+            ...(escrow && {
+                escrowId: escrow.escrowId,
+                escrowTxHash,
+                escrowLp: escrow.lp,
+            }),
         }
 
-        console.log(`[Orders] Creating order: ${amountUsdc} USDC = ₹${serverCalculatedFiat.toFixed(2)} (verified on-chain)`)
+        // One quote, one order — burn it now that the order is accepted, and
+        // hand it back below if the order can't be stored
+        if (rateResult.quoteId && !(await redeemRateQuote(rateResult.quoteId, orderId))) {
+            return NextResponse.json(
+                { success: false, error: "Rate quote was already used for another order" },
+                { status: 409 }
+            )
+        }
 
-        // Store the order in Redis FIRST (shared across all Vercel instances)
-        await setOrder(order)
+        console.log(`[Orders] Creating order: ${amountUsdc} USDC = ${formatCurrency(serverCalculatedFiat, fiatCurrency)} (${escrow ? `escrow ${escrowTxHash}` : "verified on-chain"})`)
+
+        // Store the order in Redis FIRST (shared across all Vercel instances).
+        // Escrowed orders are create-if-absent — one escrow, one order.
+        let stored = false
+        try {
+            if (escrow) {
+                stored = await compareAndSetOrder(order, 0)
+            } else {
+                await setOrder(order)
+                stored = true
+            }
+        } finally {
+            if (!stored && rateResult.quoteId) await releaseRateQuote(rateResult.quoteId, orderId)
+        }
+        if (!stored) {
+            return NextResponse.json(
+                { success: false, error: "An order already exists for this escrow" },
+                { status: 409 }
+            )
+        }
 
-        // Broadcast to all connected solvers (on this instance)
-        broadcastOrder(order)
+        // Broadcast to all connected solvers (on every instance)
+        await broadcastOrder(order)
 
         return NextResponse.json({
             success: true,
@@ -361,7 +576,7 @@ export async function POST(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
     try {
         const body = await request.json()
-        const { orderId, action, solverId, solverAddress, lpPaymentProof } = body
+        const { orderId, action, lpPaymentProof, reason } = body
 
         if (!orderId || !action) {
             return NextResponse.json(
@@ -378,122 +593,147 @@ export async function PATCH(request: NextRequest) {
             )
         }
 
+        const policyAction = patchPolicyAction(action, order)
+        if (!policyAction) {
+            return NextResponse.json(
+                { success: false, error: "Invalid action" },
+                { status: 400 }
+            )
+        }
+        const auth = await authorize(request, policyAction, { order })
+        if (!auth.allowed) return auth.response
+        const sessionAddress = auth.address
+
+        // Admins can act on an order they're not part of (policy decides when)
+        const isUser = sameAddress(sessionAddress, order.userAddress) || sameAddress(sessionAddress, order.userId)
+        const isLP = sameAddress(sessionAddress, order.solverAddress)
+
+        // Version we read — the write below only lands if nobody changed it since
+        const expectedVersion = order.version || 0
+        let result: TransitionResult
+        let needsValidation = false
+
         switch (action) {
-            case "match":
-                // Solver accepts the order
-                if (!solverId || !solverAddress) {
-                    return NextResponse.json(
-                        { success: false, error: "Missing solverId or solverAddress" },
-                        { status: 400 }
-                    )
-                }
-                if (order.status !== "created") {
-                    return NextResponse.json(
-                        { success: false, error: "Order cannot be matched" },
-                        { status: 400 }
-                    )
+            case "match": {
+                // An escrow the seller can still refund isn't safe to pay against —
+                // the LP accepts it on-chain first (P2PEscrowV5.acceptEscrow)
+                if (order.escrowId && isEscrowConfigured()) {
+                    const escrowState = await readEscrowState(order.escrowId as `0x${string}`)
+                    if (!escrowState) {
+                        return NextResponse.json(
+                            { success: false, error: "Could not read the escrow — retry shortly" },
+                            { status: 503 }
+                        )
+                    }
+                    if (escrowState.status !== EscrowStatus.LOCKED || !escrowState.accepted) {
+                        return NextResponse.json(
+                            { success: false, error: "Accept the escrow on-chain first" },
+                            { status: 400 }
+                        )
+                    }
                 }
-                order.status = "matched"
-                order.solverId = solverId
-                order.solverAddress = solverAddress
-                order.matchedAt = Date.now()
+
+                // Solver accepts the order — as the signed-in wallet
+                result = transitionOrder(order, "match", {
+                    actor: "lp",
+                    by: sessionAddress,
+                    patch: { solverId: sessionAddress, solverAddress: sessionAddress },
+                })
                 break
+            }
 
-            case "payment_sent":
+            case "payment_sent": {
                 // Solver has sent fiat payment with proof
                 // DAO VALIDATION: order goes to "verifying" → validators review → then completed
-                if (order.status !== "matched" && order.status !== "payment_pending") {
+                if (!canTransition(order, "payment_sent", "lp")) {
                     return NextResponse.json(
                         { success: false, error: "Order not in matched or payment_pending state" },
                         { status: 400 }
                     )
                 }
 
+                // The relayer can only release a payment claimed on the escrow
+                // (P2PEscrowV5.claimPaymentSent) — without it settlement would never go through
+                if (order.escrowId && isEscrowConfigured()) {
+                    const escrowState = await readEscrowState(order.escrowId as `0x${string}`)
+                    if (!escrowState) {
+                        return NextResponse.json(
+                            { success: false, error: "Could not read the escrow — retry shortly" },
+                            { status: 503 }
+                        )
+                    }
+                    if (!escrowState.paymentClaimed) {
+                        return NextResponse.json(
+                            { success: false, error: "Claim the payment on the escrow first" },
+                            { status: 400 }
+                        )
+                    }
+                }
+
+                let proofUrl = order.lpPaymentProof
                 if (lpPaymentProof) {
                     // Upload LP payment proof to IPFS
                     const ipfsProof = await uploadBase64ToIPFS(lpPaymentProof, `${orderId}_lp_proof`)
-                    order.lpPaymentProof = ipfsProof ? ipfsProof.url : lpPaymentProof
+                    proofUrl = ipfsProof ? ipfsProof.url : lpPaymentProof
                     if (ipfsProof) {
                         console.log(`[Orders] LP proof uploaded to IPFS: ${ipfsProof.cid}`)
                     }
                 }
 
+                result = transitionOrder(order, "payment_sent", {
+                    actor: "lp",
+                    by: order.solverAddress,
+                    patch: { lpPaymentProof: proofUrl },
+                })
+                if (!result.success) break
+
                 if (process.env.NEXT_PUBLIC_SIMULATE_DAO_VERIFICATION === "true") {
                     console.log(`[Orders] Simulating DAO verification for order ${order.id}. Marking as completed.`)
-                    order.status = "completed"
-                    order.paymentSentAt = Date.now()
-                    order.completedAt = Date.now()
-                } else {
-                    // Enter verifying state — DAO validators will review
-                    order.status = "verifying"
-                    order.paymentSentAt = Date.now()
-
-                    // Create validation task for DAO review
-                    await createValidationTask({
-                        id: order.id,
-                        qrImage: order.qrImage,
-                        userAddress: order.userAddress,
-                        lpPaymentProof: order.lpPaymentProof,
-                        solverAddress: order.solverAddress,
-                        amountUsdc: order.amountUsdc,
-                        amountFiat: order.amountFiat || 0,
-                        fiatCurrency: order.fiatCurrency || 'INR',
-                        paymentMethod: order.paymentMethod || 'UPI',
+                    result = transitionOrder(order, "complete", {
+                        actor: "validator",
+                        by: "simulation",
+                        note: "Simulated DAO verification",
                     })
+                } else {
+                    // Validation task is created once the write below has landed
+                    needsValidation = true
                 }
                 break
+            }
 
             case "complete":
                 // User confirms payment received, USDC released
                 // Can also be triggered by DAO validation
-                if (order.status !== "payment_sent" && order.status !== "verifying") {
-                    return NextResponse.json(
-                        { success: false, error: "Payment not in payment_sent or verifying state" },
-                        { status: 400 }
-                    )
-                }
-                order.status = "completed"
-                order.completedAt = Date.now()
+                result = transitionOrder(order, "complete", { actor: isUser ? "user" : "admin", by: sessionAddress })
                 break
 
-            case "dispute":
+            case "dispute": {
                 // Either party raises a dispute
                 // Allow disputes on completed orders within 24hr window
-                const canDispute = ["matched", "payment_sent", "payment_pending", "verifying"].includes(order.status) ||
-                    (order.status === "completed" && order.disputePeriodEndsAt && order.disputePeriodEndsAt > Date.now())
-
-                if (!canDispute) {
-                    return NextResponse.json(
-                        { success: false, error: "Cannot dispute this order - dispute window has closed" },
-                        { status: 400 }
-                    )
+                result = transitionOrder(order, "dispute", {
+                    actor: isLP ? "lp" : "user",
+                    by: sessionAddress,
+                    patch: reason ? { disputeReason: reason } : undefined,
+                })
+                if (result.success) {
+                    console.log(`[Orders] Order ${order.id} disputed — will appear in admin panel for review`)
                 }
-                order.status = "disputed"
-                console.log(`[Orders] Order ${order.id} disputed — will appear in admin panel for review`)
                 break
+            }
 
             case "cancel":
                 // Cancel order - users can cancel created orders, LPs can release matched orders
-                if (order.status === "created") {
-                    order.status = "cancelled"
-                } else if (order.status === "matched") {
+                if (order.status === "matched") {
                     // LP releasing the order back to pool
-                    order.status = "created"
-                    order.solverId = undefined
-                    order.solverAddress = undefined
-                    order.matchedAt = undefined
-                    broadcastOrderUpdate(order, "released")
+                    result = transitionOrder(order, "release", { actor: "lp", by: sessionAddress })
                 } else {
-                    return NextResponse.json(
-                        { success: false, error: "Cannot cancel order in this status" },
-                        { status: 400 }
-                    )
+                    result = transitionOrder(order, "cancel", { actor: isUser ? "user" : "admin", by: sessionAddress })
                 }
                 break
 
-            case "add_qr":
+            case "add_qr": {
                 // User adds their UPI QR after LP match
-                if (order.status !== "matched") {
+                if (!canTransition(order, "add_qr", "user")) {
                     return NextResponse.json(
                         { success: false, error: "Can only add QR after LP match" },
                         { status: 400 }
@@ -506,14 +746,25 @@ export async function PATCH(request: NextRequest) {
                         { status: 400 }
                     )
                 }
+                const decoded = decodeOrderQRImage(addedQrImage, order)
+                if (!decoded.success) {
+                    return NextResponse.json(
+                        { success: false, error: decoded.error },
+                        { status: 400 }
+                    )
+                }
                 // Upload QR to IPFS
                 const ipfsQr = await uploadBase64ToIPFS(addedQrImage, `${orderId}_qr_added`)
-                order.qrImage = ipfsQr ? ipfsQr.url : addedQrImage
                 if (ipfsQr) {
                     console.log(`[Orders] QR image uploaded to IPFS: ${ipfsQr.cid}`)
                 }
-                order.status = "payment_pending"
+                result = transitionOrder(order, "add_qr", {
+                    actor: "user",
+                    by: order.userAddress,
+                    patch: { qrImage: ipfsQr ? ipfsQr.url : addedQrImage, qrPayee: decoded.payee },
+                })
                 break
+            }
 
             default:
                 return NextResponse.json(
@@ -522,11 +773,42 @@ export async function PATCH(request: NextRequest) {
                 )
         }
 
-        // Update in Redis store (shared across all Vercel instances)
-        await setOrder(order)
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            )
+        }
+
+        // Compare-and-set in Redis (shared across all Vercel instances).
+        // Losing the race (e.g. two LPs accepting at once) → 409, nothing written.
+        const written = await compareAndSetOrder(order, expectedVersion)
+        if (!written) {
+            return NextResponse.json(
+                { success: false, error: "Order was updated by someone else. Refresh and try again.", conflict: true },
+                { status: 409 }
+            )
+        }
+
+        if (needsValidation) {
+            // Create validation task for DAO review
+            await createValidationTask({
+                id: order.id,
+                qrImage: order.qrImage,
+                qrPayee: order.qrPayee,
+                userAddress: order.userAddress,
+                lpPaymentProof: order.lpPaymentProof,
+                solverAddress: order.solverAddress,
+                amountUsdc: order.amountUsdc,
+                amountFiat: order.amountFiat || 0,
+                fiatCurrency: order.fiatCurrency,
+                paymentMethod: order.paymentMethod || 'UPI',
+                riskScore: order.riskScore,
+            })
+        }
 
-        // Broadcast update to all solvers (on this instance)
-        broadcastOrderUpdate(order, action)
+        // Broadcast update to all solvers (on every instance) — once per write
+        await broadcastOrderUpdate(order, order.status === "created" ? "released" : action)
 
         return NextResponse.json({
             success: true,
@@ -545,18 +827,16 @@ export async function PATCH(request: NextRequest) {
 /**
  * DELETE /api/orders
  * 
- * Clear orders for a user (for development/testing)
+ * Clear a user's orders (for development/testing).
+ * ?userId= defaults to the signed-in wallet; anyone else's needs admin.
  */
 export async function DELETE(request: NextRequest) {
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get("userId")
+    const requested = searchParams.get("userId")
 
-    if (!userId) {
-        return NextResponse.json(
-            { success: false, error: "Missing userId" },
-            { status: 400 }
-        )
-    }
+    const auth = await authorize(request, "orders:clear", { userId: requested || getSessionAddress(request) })
+    if (!auth.allowed) return auth.response
+    const userId = requested || auth.address
 
     // Delete all orders for this user
     const deleted = await deleteOrdersForUser(userId)
@@ -1,12 +1,19 @@
 import { NextRequest } from "next/server"
 import { getAllOrders, type Order } from "@/lib/order-store"
+import { publishOrderEvent } from "@/lib/order-bus"
+import { createOrderEventStream } from "@/lib/order-stream"
+import { getLP, isOrderProfitableForLP } from "@/lib/lp-store"
+import { type RedactedOrder, getPaymentDetailAccess, redactPaymentDetails } from "@/lib/policy"
+import { getSessionAddress } from "@/lib/session"
 
 // Re-export the Order type so other files can import from here
 export type { Order } from "@/lib/order-store"
 
 /**
  * SSE connections are per-instance (in-memory) — that's expected.
- * Cross-instance order delivery is handled by polling from Redis.
+ * Cross-instance delivery goes through the order bus (Redis pub/sub):
+ * each stream subscribes on connect and gets every order event published
+ * on any instance.
  */
 const globalForConnections = globalThis as unknown as {
     _uwuSolverConnections?: Map<string, ReadableStreamDefaultController>
@@ -18,6 +25,12 @@ const solverConnections: Map<string, ReadableStreamDefaultController> = globalFo
 
 /**
  * SSE Endpoint for Solver Order Feed
+ *
+ * Resumable — see order-stream.ts for the Last-Event-ID replay.
+ * Registered LPs only see open orders that are profitable at their
+ * published price (lp-store.ts); the price is read once per connection.
+ * Payment details (QR, payee, LP proof) are stripped unless the signed-in
+ * wallet may see them for that order (policy.ts).
  */
 export async function GET(request: NextRequest) {
     const solverId = request.nextUrl.searchParams.get("solverId")
@@ -26,100 +39,40 @@ export async function GET(request: NextRequest) {
         return new Response("Missing solverId parameter", { status: 400 })
     }
 
-    const stream = new ReadableStream({
-        async start(controller) {
-            solverConnections.set(solverId, controller)
+    const lp = await getLP(solverId)
+    // Updates that take an order out of "created" always go through so the
+    // client can drop it from its list
+    const visible = (order: Order) =>
+        !lp || order.status !== "created" || isOrderProfitableForLP(lp, order)
+    const canSeePayment = await getPaymentDetailAccess(getSessionAddress(request))
+    const redact = (order: Order): Order | RedactedOrder => canSeePayment(order) ? order : redactPaymentDetails(order)
 
-            // Send initial connection message
-            const connectMessage = JSON.stringify({
-                type: "connected",
-                message: "Connected to order feed",
-                timestamp: Date.now(),
-            })
-            controller.enqueue(`data: ${connectMessage}\n\n`)
-
-            // Send current active orders FROM REDIS (not in-memory!)
-            try {
-                const activeOrders = await getAllOrders({ status: "created" })
-                if (activeOrders.length > 0) {
-                    const ordersMessage = JSON.stringify({
-                        type: "active_orders",
-                        orders: activeOrders.slice(0, 50),
-                    })
-                    controller.enqueue(`data: ${ordersMessage}\n\n`)
-                }
-            } catch (error) {
-                console.error("[SSE] Failed to fetch active orders:", error)
-            }
-
-            // Keep-alive ping every 30 seconds
-            const pingInterval = setInterval(() => {
-                try {
-                    controller.enqueue(`data: ${JSON.stringify({ type: "ping", timestamp: Date.now() })}\n\n`)
-                } catch {
-                    clearInterval(pingInterval)
-                }
-            }, 30000)
-
-            // Cleanup on disconnect
-            request.signal.addEventListener("abort", () => {
-                clearInterval(pingInterval)
-                solverConnections.delete(solverId)
-                controller.close()
-            })
-        },
-    })
-
-    return new Response(stream, {
-        headers: {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache, no-transform",
-            "Connection": "keep-alive",
-            "X-Accel-Buffering": "no",
+    return createOrderEventStream(request, {
+        label: `solver ${solverId}`,
+        filter: visible,
+        redact,
+        // Current active orders FROM REDIS (not in-memory!)
+        snapshot: async () => {
+            const activeOrders = await getAllOrders({ status: "created" })
+            return { type: "active_orders", orders: activeOrders.filter(visible).slice(0, 50).map(redact) }
         },
+        onOpen: (controller) => { solverConnections.set(solverId, controller) },
+        onClose: () => { solverConnections.delete(solverId) },
     })
 }
 
 /**
- * Broadcast a new order to all connected solvers ON THIS INSTANCE
- * Cross-instance delivery is handled by solver polling from Redis
+ * Broadcast a new order to all connected solvers on every instance
  */
-export function broadcastOrder(order: Order) {
-    const message = JSON.stringify({
-        type: "new_order",
-        order,
-        timestamp: Date.now(),
-    })
-
-    solverConnections.forEach((controller, solverId) => {
-        try {
-            controller.enqueue(`data: ${message}\n\n`)
-        } catch (error) {
-            console.error(`Failed to send to solver ${solverId}:`, error)
-            solverConnections.delete(solverId)
-        }
-    })
+export async function broadcastOrder(order: Order) {
+    await publishOrderEvent({ type: "new_order", order })
 }
 
 /**
- * Broadcast order update to all connected solvers ON THIS INSTANCE
+ * Broadcast order update to all connected solvers on every instance
  */
-export function broadcastOrderUpdate(order: Order, updateType: string) {
-    const message = JSON.stringify({
-        type: "order_update",
-        updateType,
-        order,
-        timestamp: Date.now(),
-    })
-
-    solverConnections.forEach((controller, solverId) => {
-        try {
-            controller.enqueue(`data: ${message}\n\n`)
-        } catch (error) {
-            console.error(`Failed to send update to solver ${solverId}:`, error)
-            solverConnections.delete(solverId)
-        }
-    })
+export async function broadcastOrderUpdate(order: Order, updateType: string) {
+    await publishOrderEvent({ type: "order_update", updateType, order })
 }
 
 export { solverConnections }
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server"
+import { queryOrders, type Order } from "@/lib/order-store"
+import { createOrderEventStream } from "@/lib/order-stream"
+import { getSessionAddress } from "@/lib/session"
+
+/**
+ * SSE Endpoint for a User's Own Orders
+ *
+ * Pushes every transition on orders the user created — matched, QR added,
+ * LP proof uploaded / verifying, completed, disputed, mediation link —
+ * so the scan, sell and orders pages don't have to poll.
+ *
+ * Authenticated: only orders whose userId / userAddress match the signed-in
+ * wallet are sent; the snapshot is its latest 50 orders. Resumable like the
+ * LP feed.
+ */
+export async function GET(request: NextRequest) {
+    const address = getSessionAddress(request)?.toLowerCase()
+
+    if (!address) {
+        return new Response("Sign in with your wallet first", { status: 401 })
+    }
+
+    const isMine = (order: Order) =>
+        order.userId?.toLowerCase() === address || order.userAddress?.toLowerCase() === address
+
+    return createOrderEventStream(request, {
+        label: `user ${address.slice(0, 10)}`,
+        filter: isMine,
+        snapshot: async () => {
+            const { orders } = await queryOrders({ userId: address }, { limit: 50 })
+            return { type: "my_orders", orders: orders.filter(isMine) }
+        },
+    })
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { keccak256, stringToBytes } from 'viem'
 import { getRedis, useRedis } from '@/lib/redis'
+import { getOrder, compareAndSetOrder } from '@/lib/order-store'
+import { transitionOrder } from '@/lib/order-state-machine'
+import { getSessionAddress, unauthorizedResponse } from '@/lib/session'
+import { authorize } from '@/lib/policy'
+import { broadcastOrderUpdate } from '../../orders/sse/route'
 
 /**
  * Payment Verification API (Redis-backed)
@@ -52,8 +57,21 @@ async function setVerification(record: VerificationRecord): Promise<void> {
     }
 }
 
+/**
+ * 409 when the order changed under us — the verification isn't applied
+ */
+function conflictResponse() {
+    return NextResponse.json(
+        { success: false, error: 'Order was updated by someone else. Refresh and try again.', conflict: true },
+        { status: 409 }
+    )
+}
+
 export async function POST(request: NextRequest) {
     try {
+        const callerAddress = getSessionAddress(request)
+        if (!callerAddress) return unauthorizedResponse()
+
         const body = await request.json()
         const { orderId, utr, timestamp, result } = body
 
@@ -94,16 +112,16 @@ export async function POST(request: NextRequest) {
             // In production, this would call the escrow contract
             console.log(`[PaymentVerify] Auto-releasing escrow for order ${orderId}`)
 
-            // Update order status
+            // Update order status — only the order's own user can confirm receipt
             try {
-                await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/orders`, {
-                    method: 'PATCH',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        orderId,
-                        action: 'complete',
-                    }),
-                })
+                const order = await getOrder(orderId)
+                const expectedVersion = order?.version || 0
+                const isUser = !!order && [order.userAddress, order.userId]
+                    .some(a => a?.toLowerCase() === callerAddress.toLowerCase())
+                if (order && isUser && transitionOrder(order, 'complete', { actor: 'user', by: callerAddress, note: `UTR verified (${record.confidence}%)` }).success) {
+                    if (!(await compareAndSetOrder(order, expectedVersion))) return conflictResponse()
+                    await broadcastOrderUpdate(order, 'complete')
+                }
             } catch (e) {
                 console.error('[PaymentVerify] Failed to update order:', e)
             }
@@ -159,12 +177,16 @@ export async function GET(request: NextRequest) {
 
 /**
  * PATCH /api/payment/verify
- * Manual review decision
+ * Manual review decision (core team, signed in)
  */
 export async function PATCH(request: NextRequest) {
     try {
+        const auth = await authorize(request, 'payment:review')
+        if (!auth.allowed) return auth.response
+        const reviewerAddress = auth.address
+
         const body = await request.json()
-        const { orderId, action, reviewerAddress } = body
+        const { orderId, action } = body
 
         if (!orderId || !action) {
             return NextResponse.json(
@@ -192,31 +214,28 @@ export async function PATCH(request: NextRequest) {
         record.reviewedAt = Date.now()
         record.reviewedBy = reviewerAddress
 
+        // The reviewer acts on the order directly (the orders API only
+        // accepts the order's own user / LP)
+        const order = await getOrder(orderId)
+        const expectedVersion = order?.version || 0
+
         if (action === 'approve') {
             record.verified = true
             record.autoRelease = true
 
             // Release escrow
-            await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/orders`, {
-                method: 'PATCH',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    orderId,
-                    action: 'complete',
-                }),
-            })
+            if (order && transitionOrder(order, 'complete', { actor: 'validator', by: reviewerAddress, note: 'Manual payment review' }).success) {
+                if (!(await compareAndSetOrder(order, expectedVersion))) return conflictResponse()
+                await broadcastOrderUpdate(order, 'complete')
+            }
         } else if (action === 'reject') {
             record.verified = false
 
             // Create dispute
-            await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/orders`, {
-                method: 'PATCH',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    orderId,
-                    action: 'dispute',
-                }),
-            })
+            if (order && transitionOrder(order, 'dispute', { actor: 'validator', by: reviewerAddress, note: 'Manual payment review' }).success) {
+                if (!(await compareAndSetOrder(order, expectedVersion))) return conflictResponse()
+                await broadcastOrderUpdate(order, 'dispute')
+            }
         }
 
         await setVerification(record)
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRateQuote } from '@/lib/rate-lock'
+import { isSupportedFiat } from '@/lib/platform-config'
+import { getSessionAddress, unauthorizedResponse } from '@/lib/session'
+
+/**
+ * Rate Quote API
+ * POST /api/rates/quote { currency, amountUsdc? }
+ *
+ * Locks the best LP price (for this size, if given) for the signed-in
+ * wallet for 5 minutes. Send the returned quote.id as `quoteId` to
+ * POST /api/orders to get this rate.
+ */
+
+export async function POST(request: NextRequest) {
+    const address = getSessionAddress(request)
+    if (!address) return unauthorizedResponse()
+
+    let currency: string
+    let amountUsdc: number | undefined
+    try {
+        const body = await request.json()
+        currency = String(body.currency || '').toUpperCase()
+        amountUsdc = Number(body.amountUsdc) > 0 ? Number(body.amountUsdc) : undefined
+    } catch {
+        return NextResponse.json(
+            { success: false, error: 'Invalid JSON body' },
+            { status: 400 }
+        )
+    }
+    if (!isSupportedFiat(currency)) {
+        return NextResponse.json(
+            { success: false, error: `Unsupported currency: ${currency || '(none)'}` },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const quote = await createRateQuote(currency, address, amountUsdc)
+        return NextResponse.json({ success: true, quote })
+    } catch (error) {
+        // lockRate throws when the oracle refuses to quote
+        console.warn('[Rates] Quote refused:', error)
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Rate unavailable' },
+            { status: 503 }
+        )
+    }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRates } from '@/lib/rate-oracle'
+import { PLATFORM_CONFIG } from '@/lib/platform-config'
+
+/**
+ * Rates API
+ * GET /api/rates?currencies=INR,BRL
+ *
+ * Oracle medians for the client converter. Currencies the oracle refuses
+ * to quote are listed under `unavailable` with the reason — the client
+ * must not price them.
+ */
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url)
+        const requested = searchParams.get('currencies')
+        const currencies = requested
+            ? requested.split(',').map(c => c.trim().toUpperCase()).filter(Boolean)
+            : Object.keys(PLATFORM_CONFIG.fiatCurrencies)
+
+        const results = await getRates(currencies)
+        const rates: Record<string, { rate: number; sources: string[]; computedAt: number }> = {}
+        const unavailable: Record<string, { reason: string; error: string }> = {}
+        for (const [currency, result] of results) {
+            if (result.ok) {
+                rates[currency] = {
+                    rate: result.rate.rate,
+                    sources: result.rate.sources.map(s => s.provider),
+                    computedAt: result.rate.computedAt,
+                }
+            } else {
+                unavailable[currency] = { reason: result.reason, error: result.error }
+            }
+        }
+
+        return NextResponse.json(
+            { success: Object.keys(rates).length > 0, rates, unavailable },
+            { status: Object.keys(rates).length > 0 ? 200 : 503 }
+        )
+    } catch (error) {
+        console.error('[Rates] Error:', error)
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch rates' },
+            { status: 500 }
+        )
+    }
+}
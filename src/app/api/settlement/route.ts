@@ -1,11 +1,16 @@
 import { NextResponse } from "next/server"
-import { broadcastOrderUpdate } from "../orders/sse/route"
-import { type Order, getOrder, setOrder, getAllOrders } from "@/lib/order-store"
+import { getOrder } from "@/lib/order-store"
+import { canTransition } from "@/lib/order-state-machine"
+import { runSettlementWorker, settleOrderOnChain } from "@/lib/settlement-worker"
+import { authorize, can, forbiddenResponse } from "@/lib/policy"
+import { cronUnauthorizedResponse, isCronRequest } from "@/lib/session"
 
 /**
  * Settlement API
  * 
  * Handles settlement of orders after 24hr dispute period.
+ * The on-chain release (relayer → P2PEscrowV5.releaseEscrow) lives in
+ * lib/settlement-worker.ts; orders are `settled` only once it confirms.
  * 
  * CORRECT FLOW:
  * - User (buyer) pays USDC to LP for INR
@@ -14,90 +19,40 @@ import { type Order, getOrder, setOrder, getAllOrders } from "@/lib/order-store"
  * - LP profit is built into the exchange rate (not a separate reward)
  */
 
-const DISPUTE_PERIOD_MS = 24 * 60 * 60 * 1000 // 24 hours
-
-interface SettlementResult {
-    orderId: string
-    success: boolean
-    usdcTransferred: number
-    error?: string
-}
-
-/**
- * Process settlement for an order
- * User's USDC -> LP (for the INR the LP already paid)
- */
-async function settleOrder(order: Order): Promise<SettlementResult> {
-    try {
-        console.log(`[Settlement] Processing order ${order.id}`)
-        console.log(`[Settlement] User: ${order.userId} -> LP: ${order.solverId}`)
-        console.log(`[Settlement] USDC: ${order.amountUsdc} transferred to LP`)
-
-        // Simulate blockchain transaction delay
-        await new Promise(resolve => setTimeout(resolve, 500))
-
-        // Update order status
-        order.status = "settled"
-        order.settledAt = Date.now()
-        await setOrder(order)
-
-        // Broadcast update
-        broadcastOrderUpdate(order, "settled")
-
-        console.log(`[Settlement] Order ${order.id} settled - ${order.amountUsdc} USDC sent to LP`)
-
-        return {
-            orderId: order.id,
-            success: true,
-            usdcTransferred: order.amountUsdc,
-        }
-    } catch (error) {
-        console.error(`[Settlement] Failed to settle order ${order.id}:`, error)
-        return {
-            orderId: order.id,
-            success: false,
-            usdcTransferred: 0,
-            error: String(error),
-        }
-    }
-}
-
 /**
  * GET /api/settlement
- * Check and settle all eligible orders
+ * Worker pass (run on a schedule — vercel.json, CRON_SECRET): release every
+ * order whose dispute window has closed
  */
-export async function GET() {
-    const now = Date.now()
-    const results: SettlementResult[] = []
+export async function GET(request: Request) {
+    if (!isCronRequest(request)) return cronUnauthorizedResponse()
 
-    const allOrders = await getAllOrders()
-    for (const order of allOrders) {
-        // Check if order is ready for settlement
-        if (
-            order.status === "payment_sent" &&
-            order.disputePeriodEndsAt &&
-            order.disputePeriodEndsAt <= now
-        ) {
-            const result = await settleOrder(order)
-            results.push(result)
-        }
-    }
+    const results = await runSettlementWorker()
 
     return NextResponse.json({
         success: true,
         settled: results.filter(r => r.success).length,
+        pending: results.filter(r => r.pending).length,
         results,
     })
 }
 
 /**
  * POST /api/settlement
- * Manually settle a specific order (for testing or admin use)
+ * Manually settle a specific order (core team only; skipDispute likewise)
  */
 export async function POST(request: Request) {
     try {
+        const auth = await authorize(request, "settlement:settle")
+        if (!auth.allowed) return auth.response
+
         const { orderId, skipDispute } = await request.json()
 
+        if (skipDispute) {
+            const decision = await can(auth.address, "settlement:skip_dispute")
+            if (!decision.allowed) return forbiddenResponse("settlement:skip_dispute", decision.reason)
+        }
+
         if (!orderId) {
             return NextResponse.json(
                 { success: false, error: "Missing orderId" },
@@ -114,7 +69,7 @@ export async function POST(request: Request) {
         }
 
         // Check order status
-        if (order.status !== "payment_sent") {
+        if (!canTransition(order, "settle", "admin")) {
             return NextResponse.json(
                 { success: false, error: `Cannot settle order with status: ${order.status}` },
                 { status: 400 }
@@ -136,18 +91,24 @@ export async function POST(request: Request) {
             )
         }
 
-        const result = await settleOrder(order)
+        const result = await settleOrderOnChain(orderId, "admin", auth.address)
 
         if (result.success) {
             return NextResponse.json({
                 success: true,
                 message: `Order settled. ${result.usdcTransferred} USDC transferred to LP.`,
                 usdcTransferred: result.usdcTransferred,
+                txHash: result.txHash,
                 order: await getOrder(orderId),
             })
+        } else if (result.pending) {
+            return NextResponse.json(
+                { success: false, pending: true, error: result.error, txHash: result.txHash },
+                { status: 202 }
+            )
         } else {
             return NextResponse.json(
-                { success: false, error: result.error },
+                { success: false, error: result.error, txHash: result.txHash },
                 { status: 500 }
             )
         }
@@ -1,29 +1,46 @@
 import { NextResponse } from "next/server"
+import { createSessionToken } from "@/lib/session"
 
 /**
  * Test API - Flow Simulation
  * 
  * This endpoint simulates a complete User → Solver → Complete flow
  * for testing and verification purposes.
+ *
+ * The orders API acts as the signed-in wallet, so the test mints session
+ * tokens for the test user / solver — which is why it's disabled in production.
  */
 
+const TEST_USER_ADDRESS = "0x1234567890abcdef1234567890abcdef12345678"
+const TEST_SOLVER_ADDRESS = "0xabcdef1234567890abcdef1234567890abcdef12"
+
 export async function GET() {
+    if (process.env.NODE_ENV === "production") {
+        return NextResponse.json({ success: false, error: "Not available in production" }, { status: 404 })
+    }
+
     const results: Record<string, any> = {
         timestamp: new Date().toISOString(),
         tests: [],
     }
 
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+    const userHeaders = {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${await createSessionToken(TEST_USER_ADDRESS)}`,
+    }
+    const solverHeaders = {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${await createSessionToken(TEST_SOLVER_ADDRESS)}`,
+    }
 
     try {
         // Test 1: Create a sell order
         console.log("[Test] Creating sell order...")
         const createOrderResponse = await fetch(`${baseUrl}/api/orders`, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: userHeaders,
             body: JSON.stringify({
-                userId: "test_user_001",
-                userAddress: "0x1234567890abcdef1234567890abcdef12345678",
                 type: "sell",
                 amountUsdc: 50,
                 amountFiat: 4521,
@@ -51,12 +68,10 @@ export async function GET() {
         console.log("[Test] Solver matching order...")
         const matchResponse = await fetch(`${baseUrl}/api/orders`, {
             method: "PATCH",
-            headers: { "Content-Type": "application/json" },
+            headers: solverHeaders,
             body: JSON.stringify({
                 orderId,
                 action: "match",
-                solverId: "solver_test_001",
-                solverAddress: "0xabcdef1234567890abcdef1234567890abcdef12",
             }),
         })
         const matchResult = await matchResponse.json()
@@ -72,7 +87,7 @@ export async function GET() {
         console.log("[Test] Solver marking payment sent...")
         const paymentResponse = await fetch(`${baseUrl}/api/orders`, {
             method: "PATCH",
-            headers: { "Content-Type": "application/json" },
+            headers: solverHeaders,
             body: JSON.stringify({
                 orderId,
                 action: "payment_sent",
@@ -91,7 +106,7 @@ export async function GET() {
         console.log("[Test] User confirming payment received...")
         const completeResponse = await fetch(`${baseUrl}/api/orders`, {
             method: "PATCH",
-            headers: { "Content-Type": "application/json" },
+            headers: userHeaders,
             body: JSON.stringify({
                 orderId,
                 action: "complete",
@@ -109,7 +124,7 @@ export async function GET() {
 
         // Test 5: Query orders
         console.log("[Test] Querying orders...")
-        const queryResponse = await fetch(`${baseUrl}/api/orders?userId=test_user_001`)
+        const queryResponse = await fetch(`${baseUrl}/api/orders?userId=${TEST_USER_ADDRESS}`)
         const queryResult = await queryResponse.json()
 
         results.tests.push({
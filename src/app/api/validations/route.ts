@@ -1,30 +1,57 @@
 import { NextRequest, NextResponse } from "next/server"
-import { getOrder, setOrder } from "@/lib/order-store"
 import {
     type ValidationTask,
     type ValidationVote,
     getNextTaskId,
     getValidationTask,
     setValidationTask,
+    compareAndSetValidationTask,
     getAllValidationTasks,
     getValidatorProfile,
-    setValidatorProfile,
+    compareAndSetValidatorProfile,
+    updateValidatorProfile,
     getAllValidatorProfiles,
 } from "@/lib/validation-store"
+import { getSessionAddress, unauthorizedResponse } from "@/lib/session"
+import { authorize } from "@/lib/policy"
+import type { QRPayee } from "@/lib/qr-image-decoder"
+import { type VoteDecision, getVotingPhase, voteCommitHash } from "@/lib/vote-commit"
+import { fileSlashAppeal, isCoolingOff } from "@/lib/validator-slashing"
+import { getCommitteeSeed, refreshCommittee } from "@/lib/validator-committee"
+import { getRiskLevel } from "@/lib/platform-config"
+import {
+    COMMITTEE_SIZE,
+    COMMITTEE_RESPONSE_MS,
+    COMMIT_WINDOW_MS,
+    REVEAL_WINDOW_MS,
+    VALIDATION_TIMEOUT_MS,
+    advanceTask,
+} from "@/lib/validation-worker"
 
 /**
  * DAO Validation API (Redis-backed)
  * 
- * Dynamic majority model: threshold = total eligible validators.
- * Majority (ceil(N/2)) approve → LP gets paid. Majority flag → escalated.
- * Validators earn $0.05 USDC per review.
+ * Committee model (validator-committee.ts): each task draws a stake-weighted
+ * committee of N validators; threshold = N. Majority (ceil(N/2)) approve →
+ * LP gets paid. Majority flag → escalated. Members who don't commit within
+ * the response window are replaced by the next draw.
+ * Validators earn $0.05 USDC per revealed review, claimable from
+ * ValidatorVault once the worker syncs it (validator-vault.ts).
+ *
+ * Commit-reveal (vote-commit.ts): validators commit a hash during the
+ * commit window, reveal during the reveal window, and the tally runs once
+ * reveals close. Until then no one — not even the API — shows a count.
+ *
+ * Tallies, seat redraws and the no-majority fallback (auto-approve,
+ * extend or escalate by the order's risk) run in validation-worker.ts on
+ * a schedule — GET here no longer sweeps.
+ *
+ * Task and profile writes are compare-and-set: a commit or reveal that
+ * raced another write gets a 409 and nothing of it is kept.
  */
 
 // ─── Config ─────────────────────────────────────────────
-const FALLBACK_THRESHOLD = Number(process.env.NEXT_PUBLIC_VALIDATION_THRESHOLD || "3")
-const MIN_THRESHOLD = 1
 const VALIDATOR_REWARD = Number(process.env.NEXT_PUBLIC_VALIDATOR_REWARD || "0.05")
-const VALIDATION_TIMEOUT_MS = 60 * 60 * 1000 // 1 hour auto-approve
 
 /**
  * Create a validation task for an order entering "verifying" status.
@@ -33,6 +60,7 @@ const VALIDATION_TIMEOUT_MS = 60 * 60 * 1000 // 1 hour auto-approve
 export async function createValidationTask(order: {
     id: string
     qrImage?: string
+    qrPayee?: QRPayee
     userAddress: string
     lpPaymentProof?: string
     solverAddress?: string
@@ -40,21 +68,10 @@ export async function createValidationTask(order: {
     amountFiat: number
     fiatCurrency: string
     paymentMethod: string
+    riskScore?: number             // Fraud score at order creation — picks the fallback
 }): Promise<ValidationTask> {
     const taskId = await getNextTaskId()
-
-    // Count eligible validators (all registered, excluding order parties)
-    const allValidators = await getAllValidatorProfiles()
-    const eligible = allValidators.filter(v => {
-        const vAddr = v.address.toLowerCase()
-        return vAddr !== order.userAddress.toLowerCase() &&
-            vAddr !== (order.solverAddress || '').toLowerCase()
-    })
-
-    // Threshold = total eligible validators (min 1, fallback to env config if 0)
-    const threshold = eligible.length >= MIN_THRESHOLD
-        ? eligible.length
-        : FALLBACK_THRESHOLD
+    const now = Date.now()
 
     const task: ValidationTask = {
         id: taskId,
@@ -62,6 +79,7 @@ export async function createValidationTask(order: {
         status: 'pending',
         evidence: {
             userQrImage: order.qrImage,
+            userQrPayee: order.qrPayee,
             userAddress: order.userAddress,
             lpScreenshot: order.lpPaymentProof,
             lpAddress: order.solverAddress || '',
@@ -71,158 +89,105 @@ export async function createValidationTask(order: {
             paymentMethod: order.paymentMethod,
         },
         votes: [],
-        threshold,
-        createdAt: Date.now(),
-        deadline: Date.now() + VALIDATION_TIMEOUT_MS,
+        commits: [],
+        committee: [],
+        committeeSize: COMMITTEE_SIZE,
+        committeeSeed: await getCommitteeSeed(taskId),
+        threshold: COMMITTEE_SIZE,
+        risk: order.riskScore !== undefined
+            ? { score: order.riskScore, level: getRiskLevel(order.riskScore) }
+            : undefined,
+        createdAt: now,
+        commitDeadline: now + COMMIT_WINDOW_MS,
+        revealDeadline: now + VALIDATION_TIMEOUT_MS,
+        deadline: now + VALIDATION_TIMEOUT_MS,
     }
 
+    // Draw the committee (seats stay empty until enough validators qualify)
+    refreshCommittee(task, await getAllValidatorProfiles(), COMMITTEE_RESPONSE_MS, now)
+
     await setValidationTask(task)
-    console.log(`[Validation] Created task ${taskId} for order ${order.id} — threshold: ${threshold} validators (${eligible.length} eligible)`)
+    console.log(`[Validation] Created task ${taskId} for order ${order.id} — committee: ${task.committee.length}/${COMMITTEE_SIZE} seated (seed block ${task.committeeSeed.blockNumber ?? 'n/a'})`)
     return task
 }
 
 /**
- * Check and resolve timed-out validations
+ * Strip sealed ballots (and the committee roster) from a pending task —
+ * tallies stay hidden until the reveal phase closes
  */
-async function checkTimeouts() {
-    const now = Date.now()
-    const pendingTasks = await getAllValidationTasks({ status: 'pending', includeResolved: false })
-
-    for (const task of pendingTasks) {
-        if (now > task.deadline) {
-            task.status = 'auto_approved'
-            task.resolvedAt = now
-            task.resolvedBy = 'timeout'
-            await setValidationTask(task)
-            await completeOrder(task.orderId)
-            console.log(`[Validation] Auto-approved task ${task.id} (timeout)`)
-        }
+function hideBallots(task: ValidationTask, address?: string | null) {
+    const addr = address?.toLowerCase()
+    const closed = task.status !== 'pending'
+    const commits = task.commits || []
+    const myVote = addr ? task.votes.find(v => v.validator.toLowerCase() === addr) : undefined
+    const mySeat = addr ? (task.committee || []).find(m => !m.replacedAt && m.validator === addr) : undefined
+    return {
+        ...task,
+        votes: closed ? task.votes : [],
+        commits: closed ? commits : [],
+        committee: closed ? task.committee : [], // Who sits on a live committee stays private
+        myRespondBy: mySeat?.respondBy ?? null,
+        phase: getVotingPhase(task),
+        myCommitted: !!addr && commits.some(c => c.validator.toLowerCase() === addr),
+        myVote: myVote?.decision || null,
+        votesCount: commits.length,
+        revealsCount: commits.filter(c => c.revealedAt).length,
+        approvesCount: closed ? task.votes.filter(v => v.decision === 'approve').length : null,
+        flagsCount: closed ? task.votes.filter(v => v.decision === 'flag').length : null,
     }
 }
 
 /**
- * Complete order after validation approval
- */
-async function completeOrder(orderId: string) {
-    const order = await getOrder(orderId)
-    if (!order || order.status !== 'verifying') return
-
-    const now = Date.now()
-    order.status = 'completed'
-    order.completedAt = now
-    order.settledAt = now
-    order.disputePeriodEndsAt = now + 24 * 60 * 60 * 1000
-    order.stakeLockExpiresAt = now + 24 * 60 * 60 * 1000
-    await setOrder(order)
-    console.log(`[Validation] Order ${orderId} completed after DAO approval`)
-}
-
-/**
- * Freeze order after validation flagging (escalate to admin)
+ * 409 when the task or profile changed under us — the vote isn't recorded
  */
-async function freezeOrder(orderId: string) {
-    const order = await getOrder(orderId)
-    if (!order) return
-
-    order.status = 'disputed'
-    await setOrder(order)
-    console.log(`[Validation] Order ${orderId} frozen — escalated to admin`)
+function conflictResponse() {
+    return NextResponse.json(
+        { success: false, error: 'Task was updated by someone else. Refresh and try again.', conflict: true },
+        { status: 409 }
+    )
 }
 
 /**
  * Credit validator reward (only if registered and active)
  */
 async function creditValidator(address: string) {
-    const addr = address.toLowerCase()
-    const profile = await getValidatorProfile(addr)
-    if (!profile) return // unregistered — skipped
-    if (profile.isSlashed) return // slashed — no rewards
-
-    profile.totalReviews++
-    profile.totalEarned += VALIDATOR_REWARD
-    profile.lastReviewAt = Date.now()
-    await setValidatorProfile(profile)
-}
+    await updateValidatorProfile(address, profile => {
+        if (profile.isSlashed) return false // slashed — no rewards
 
-/**
- * Update validator accuracy + FULL SLASH on wrong vote.
- * One wrong vote = 100% stake slashed, validator banned.
- */
-async function updateAccuracy(task: ValidationTask) {
-    const isApproved = task.status === 'approved' || task.status === 'auto_approved'
-
-    for (const vote of task.votes) {
-        const addr = vote.validator.toLowerCase()
-        const profile = await getValidatorProfile(addr)
-        if (!profile) continue
-
-        const votedCorrectly = isApproved
-            ? vote.decision === 'approve'
-            : vote.decision === 'flag'
-
-        if (vote.decision === 'approve') profile.approvals++
-        else profile.flags++
-
-        const totalDecisions = profile.approvals + profile.flags
-        const correct = votedCorrectly
-            ? Math.round(profile.accuracy * (totalDecisions - 1) / 100) + 1
-            : Math.round(profile.accuracy * (totalDecisions - 1) / 100)
-        profile.accuracy = totalDecisions > 0 ? Math.round((correct / totalDecisions) * 100) : 100
-
-        // FULL SLASH: one wrong vote = 100% stake gone, banned
-        if (!votedCorrectly) {
-            console.log(`[Validation] SLASHING validator ${addr} — voted ${vote.decision} but majority was ${isApproved ? 'approve' : 'flag'}`)
-            profile.staked = 0
-            profile.lockedAmount = 0
-            profile.lockedOrders = []
-            profile.isSlashed = true
-            profile.isActive = false
-        } else {
-            // Release the lock for this order (correct vote)
-            profile.lockedOrders = (profile.lockedOrders || []).filter(
-                l => l.orderId !== task.orderId
-            )
-            profile.lockedAmount = profile.lockedOrders.reduce((sum, l) => sum + l.amount, 0)
-        }
-
-        await setValidatorProfile(profile)
-    }
+        profile.totalReviews++
+        profile.totalEarned += VALIDATOR_REWARD
+        profile.lastReviewAt = Date.now()
+        return true
+    })
 }
 
-
 // ─── GET /api/validations ───────────────────────────────
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
-    const address = searchParams.get('address')
     const includeResolved = searchParams.get('resolved') === 'true'
 
-    // Run timeout checks
-    await checkTimeouts()
+    // Validators only see the tasks they sit on — membership comes from the session
+    const address = getSessionAddress(request)
+    if (!address) return unauthorizedResponse()
 
     const tasks = await getAllValidationTasks({
-        excludeAddress: address || undefined,
+        excludeAddress: address,
+        committeeMember: address,
         includeResolved,
     })
 
-    // Mark which ones this validator already voted on + strip large images
+    // Mark this validator's own ballot, hide everyone else's + strip large images
     const tasksWithMeta = tasks.map(t => ({
-        ...t,
+        ...hideBallots(t, address),
         evidence: {
             ...t.evidence,
             userQrImage: t.evidence.userQrImage ? '[has_image]' : undefined,
+            userQrPayee: undefined, // Payee details are evidence too — detail view only
             lpScreenshot: t.evidence.lpScreenshot ? '[has_image]' : undefined,
         },
-        myVote: address
-            ? t.votes.find(v => v.validator.toLowerCase() === address.toLowerCase())?.decision || null
-            : null,
-        votesCount: t.votes.length,
-        approvesCount: t.votes.filter(v => v.decision === 'approve').length,
-        flagsCount: t.votes.filter(v => v.decision === 'flag').length,
     }))
 
-    const profile = address
-        ? await getValidatorProfile(address)
-        : null
+    const profile = await getValidatorProfile(address)
 
     return NextResponse.json({
         success: true,
@@ -230,9 +195,13 @@ export async function GET(request: NextRequest) {
         count: tasksWithMeta.length,
         profile,
         config: {
-            threshold: FALLBACK_THRESHOLD,
+            threshold: COMMITTEE_SIZE,
+            committeeSize: COMMITTEE_SIZE,
+            responseWindowMs: COMMITTEE_RESPONSE_MS,
             rewardPerReview: VALIDATOR_REWARD,
             timeoutMs: VALIDATION_TIMEOUT_MS,
+            commitWindowMs: COMMIT_WINDOW_MS,
+            revealWindowMs: REVEAL_WINDOW_MS,
         }
     })
 }
@@ -247,22 +216,43 @@ export async function POST(request: NextRequest) {
         if (!task) {
             return NextResponse.json({ success: false, error: 'Task not found' }, { status: 404 })
         }
-        return NextResponse.json({ success: true, validation: task })
+        const auth = await authorize(request, 'validation:view_detail', { task })
+        if (!auth.allowed) return auth.response
+        return NextResponse.json({ success: true, validation: hideBallots(task, auth.address) })
     }
 
-    // Vote submission
-    const { taskId, validator, decision, notes } = body
+    // Appeal a minority-vote slash from the caller's own ledger
+    if (body.action === 'appeal') {
+        const auth = await authorize(request, 'validation:appeal')
+        if (!auth.allowed) return auth.response
 
-    if (!taskId || !validator || !decision) {
+        const profile = await getValidatorProfile(auth.address)
+        if (!profile) {
+            return NextResponse.json({ success: false, error: 'Validator profile not found' }, { status: 404 })
+        }
+        const expectedVersion = profile.version || 0
+        const result = fileSlashAppeal(profile, String(body.entryId || ''), typeof body.note === 'string' ? body.note : undefined)
+        if (!result.ok) {
+            return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+        }
+        if (!(await compareAndSetValidatorProfile(profile, expectedVersion))) return conflictResponse()
+        console.log(`[Validation] Appeal filed by ${auth.address.slice(0, 8)}... on slash ${result.entry.id}`)
+        return NextResponse.json({ success: true, entry: result.entry })
+    }
+
+    // Commit / reveal — the validator is the signed-in wallet
+    if (!getSessionAddress(request)) return unauthorizedResponse()
+
+    const { action, taskId } = body
+    if (action !== 'commit' && action !== 'reveal') {
         return NextResponse.json(
-            { success: false, error: 'Missing taskId, validator, or decision' },
+            { success: false, error: 'Votes are commit-reveal: send action "commit" with a commitHash, then "reveal" with decision + salt' },
             { status: 400 }
         )
     }
-
-    if (!['approve', 'flag'].includes(decision)) {
+    if (!taskId) {
         return NextResponse.json(
-            { success: false, error: 'Decision must be "approve" or "flag"' },
+            { success: false, error: 'Missing taskId' },
             { status: 400 }
         )
     }
@@ -274,49 +264,76 @@ export async function POST(request: NextRequest) {
             { status: 404 }
         )
     }
+    task.commits = task.commits || []
 
-    if (task.status !== 'pending') {
+    // Lapsed seats go before the membership check
+    if (refreshCommittee(task, await getAllValidatorProfiles(), COMMITTEE_RESPONSE_MS)) {
+        if (!(await compareAndSetValidationTask(task, task.version || 0))) return conflictResponse()
+    }
+
+    // Live committee seat — and not a party to the order
+    const auth = await authorize(request, 'validation:vote', { task })
+    if (!auth.allowed) return auth.response
+    const addr = auth.address.toLowerCase()
+
+    const now = Date.now()
+    const phase = getVotingPhase(task, now)
+    if (phase === 'closed') {
         return NextResponse.json(
             { success: false, error: 'Task already resolved' },
             { status: 400 }
         )
     }
 
-    const addr = validator.toLowerCase()
+    if (action === 'commit') {
+        return commitVote(task, addr, body.commitHash, phase, now)
+    }
+    return revealVote(task, addr, body, phase, now)
+}
 
-    // Can't vote on own order
-    if (addr === task.evidence.userAddress.toLowerCase() || addr === task.evidence.lpAddress.toLowerCase()) {
+/**
+ * Phase 1 — lock stake and record the sealed ballot
+ */
+async function commitVote(task: ValidationTask, addr: string, commitHash: unknown, phase: string, now: number) {
+    const expectedVersion = task.version || 0
+    if (phase !== 'commit') {
         return NextResponse.json(
-            { success: false, error: 'Cannot validate your own order' },
-            { status: 403 }
+            { success: false, error: 'Commit phase is closed' },
+            { status: 400 }
+        )
+    }
+    if (typeof commitHash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(commitHash)) {
+        return NextResponse.json(
+            { success: false, error: 'commitHash must be a 32-byte hex string' },
+            { status: 400 }
         )
     }
 
-    // Can't vote twice
-    if (task.votes.some(v => v.validator.toLowerCase() === addr)) {
+    // Can't commit twice
+    if (task.commits.some(c => c.validator.toLowerCase() === addr)) {
         return NextResponse.json(
             { success: false, error: 'Already voted on this task' },
             { status: 400 }
         )
     }
 
-    // ── Stake check: validator must be registered, not slashed, have enough available stake ──
+    // ── Stake check: validator must have enough available stake ──
     const validatorProfile = await getValidatorProfile(addr)
-    if (!validatorProfile || !validatorProfile.isActive) {
+    if (!validatorProfile) {
         return NextResponse.json(
-            { success: false, error: 'Not registered as DAO validator. Stake $100 USDC to join.' },
-            { status: 403 }
+            { success: false, error: 'Validator profile not found' },
+            { status: 404 }
         )
     }
-    if (validatorProfile.isSlashed) {
+    const expectedProfileVersion = validatorProfile.version || 0
+    if (isCoolingOff(validatorProfile, now)) {
         return NextResponse.json(
-            { success: false, error: 'Your stake has been slashed. You can no longer validate.' },
+            { success: false, error: `Cooling off after a slash until ${new Date(validatorProfile.cooldownUntil!).toLocaleString()}` },
             { status: 403 }
         )
     }
 
     // Release expired locks before checking available
-    const now = Date.now()
     const activeLocks = (validatorProfile.lockedOrders || []).filter(l => l.lockedUntil > now)
     validatorProfile.lockedOrders = activeLocks
     validatorProfile.lockedAmount = activeLocks.reduce((sum, l) => sum + l.amount, 0)
@@ -332,57 +349,110 @@ export async function POST(request: NextRequest) {
     }
 
     // Lock the txn amount for 24hrs (dispute window)
-    validatorProfile.lockedOrders.push({
-        orderId: task.orderId,
-        amount: txnAmount,
-        lockedUntil: now + 24 * 60 * 60 * 1000,
-    })
+    const lock = { orderId: task.orderId, amount: txnAmount, lockedUntil: now + 24 * 60 * 60 * 1000 }
+    validatorProfile.lockedOrders.push(lock)
     validatorProfile.lockedAmount += txnAmount
-    await setValidatorProfile(validatorProfile)
+    if (!(await compareAndSetValidatorProfile(validatorProfile, expectedProfileVersion))) return conflictResponse()
+
+    task.commits.push({ validator: addr, commitHash: commitHash.toLowerCase(), committedAt: now })
+    if (!(await compareAndSetValidationTask(task, expectedVersion))) {
+        // The ballot didn't land — hand the stake lock back
+        await updateValidatorProfile(addr, profile => {
+            profile.lockedOrders = (profile.lockedOrders || []).filter(
+                l => l.orderId !== lock.orderId || l.lockedUntil !== lock.lockedUntil
+            )
+            profile.lockedAmount = profile.lockedOrders.reduce((sum, l) => sum + l.amount, 0)
+            return true
+        })
+        return conflictResponse()
+    }
+
+    console.log(`[Validation] Commit on ${task.id} by ${addr.slice(0, 8)}... (${task.commits.length}/${task.threshold}) — locked $${txnAmount} for 24hrs`)
+
+    return NextResponse.json({
+        success: true,
+        task: {
+            id: task.id,
+            status: task.status,
+            phase: getVotingPhase(task, now),
+            votesCount: task.commits.length,
+            threshold: task.threshold,
+            revealDeadline: task.revealDeadline,
+        },
+    })
+}
+
+/**
+ * Phase 2 — open the ballot; the tally runs once every committer has
+ * revealed or the reveal window closes
+ */
+async function revealVote(
+    task: ValidationTask,
+    addr: string,
+    body: { decision?: unknown; salt?: unknown; notes?: unknown },
+    phase: string,
+    now: number
+) {
+    const expectedVersion = task.version || 0
+    if (phase !== 'reveal') {
+        return NextResponse.json(
+            { success: false, error: phase === 'commit' ? 'Reveal phase has not started yet' : 'Reveal phase is closed' },
+            { status: 400 }
+        )
+    }
+
+    const { decision, salt, notes } = body
+    if (decision !== 'approve' && decision !== 'flag') {
+        return NextResponse.json(
+            { success: false, error: 'Decision must be "approve" or "flag"' },
+            { status: 400 }
+        )
+    }
+    if (typeof salt !== 'string' || !salt) {
+        return NextResponse.json(
+            { success: false, error: 'Missing salt' },
+            { status: 400 }
+        )
+    }
+
+    const commit = task.commits.find(c => c.validator.toLowerCase() === addr)
+    if (!commit) {
+        return NextResponse.json(
+            { success: false, error: 'No committed vote to reveal' },
+            { status: 400 }
+        )
+    }
+    if (commit.revealedAt) {
+        return NextResponse.json(
+            { success: false, error: 'Vote already revealed' },
+            { status: 400 }
+        )
+    }
+    if (voteCommitHash(task.id, addr, decision as VoteDecision, salt) !== commit.commitHash) {
+        return NextResponse.json(
+            { success: false, error: 'Reveal does not match the committed hash' },
+            { status: 400 }
+        )
+    }
 
     // Record vote
     const vote: ValidationVote = {
         validator: addr,
         decision,
-        notes,
+        notes: typeof notes === 'string' ? notes : undefined,
         votedAt: now,
     }
+    commit.revealedAt = now
     task.votes.push(vote)
+    if (!(await compareAndSetValidationTask(task, expectedVersion))) return conflictResponse()
 
-    // Credit reward immediately
+    // Credit reward once the ballot is open
     await creditValidator(addr)
 
-    console.log(`[Validation] Vote on ${taskId}: ${decision} by ${addr.slice(0, 8)}... (${task.votes.length}/${task.threshold}) — locked $${txnAmount} for 24hrs`)
-
-    // Check if majority of all validators reached
-    let resolved = false
-    const approves = task.votes.filter(v => v.decision === 'approve').length
-    const flags = task.votes.filter(v => v.decision === 'flag').length
-    const majorityNeeded = Math.ceil(task.threshold / 2) // e.g. 3 validators → need 2, 5 → need 3
-
-    if (approves >= majorityNeeded) {
-        // Majority approved — resolve immediately
-        task.status = 'approved'
-        task.resolvedAt = Date.now()
-        task.resolvedBy = 'dao'
-        await completeOrder(task.orderId)
-        resolved = true
-        console.log(`[Validation] Task ${taskId} APPROVED by majority (${approves}/${task.votes.length} approves, needed ${majorityNeeded})`)
-    } else if (flags >= majorityNeeded) {
-        // Majority flagged — escalate immediately
-        task.status = 'escalated'
-        task.resolvedAt = Date.now()
-        task.resolvedBy = 'dao'
-        await freezeOrder(task.orderId)
-        resolved = true
-        console.log(`[Validation] Task ${taskId} ESCALATED by majority (${flags}/${task.votes.length} flags, needed ${majorityNeeded})`)
-    }
-
-    if (resolved) {
-        await updateAccuracy(task)
-    }
+    console.log(`[Validation] Reveal on ${task.id}: ${decision} by ${addr.slice(0, 8)}... (${task.votes.length}/${task.commits.length} revealed)`)
 
-    await setValidationTask(task)
+    // Last reveal closes the ballot — the worker may get there first; only one tallies
+    const resolved = await advanceTask(task, now)
 
     return NextResponse.json({
         success: true,
@@ -390,9 +460,10 @@ export async function POST(request: NextRequest) {
         task: {
             id: task.id,
             status: task.status,
-            votesCount: task.votes.length,
-            approvesCount: task.votes.filter(v => v.decision === 'approve').length,
-            flagsCount: task.votes.filter(v => v.decision === 'flag').length,
+            phase: getVotingPhase(task, now),
+            votesCount: task.commits.length,
+            approvesCount: resolved ? task.votes.filter(v => v.decision === 'approve').length : null,
+            flagsCount: resolved ? task.votes.filter(v => v.decision === 'flag').length : null,
             threshold: task.threshold,
             resolved,
         },
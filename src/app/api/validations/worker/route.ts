@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { runValidationWorker } from "@/lib/validation-worker"
+import { cronUnauthorizedResponse, isCronRequest } from "@/lib/session"
+
+/**
+ * Validation Worker API
+ *
+ * GET /api/validations/worker
+ * Worker pass (run on a schedule): redraw missed committee seats, tally
+ * closed tasks, apply the risk-based fallback to tasks without a majority,
+ * then push rewards and slashes to ValidatorVault. Scheduled in vercel.json;
+ * only the scheduler (CRON_SECRET) may call it.
+ */
+export async function GET(request: Request) {
+    if (!isCronRequest(request)) return cronUnauthorizedResponse()
+
+    try {
+        const result = await runValidationWorker()
+        return NextResponse.json({ success: true, ...result })
+    } catch (error) {
+        console.error("[Validation] Worker error:", error)
+        return NextResponse.json(
+            { success: false, error: "Validation worker run failed" },
+            { status: 500 }
+        )
+    }
+}
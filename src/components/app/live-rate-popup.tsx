@@ -24,7 +24,7 @@ export function LiveRatePopup({ isOpen, onClose }: LiveRatePopupProps) {
 
         try {
             const rates = await fetchLiveRates()
-            setRate(rates.INR)
+            setRate(rates.INR ?? null)
             setLastUpdated(new Date())
         } catch (err) {
             console.error("Failed to fetch rates:", err)
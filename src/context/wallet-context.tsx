@@ -3,7 +3,8 @@
 import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react"
 import { useActiveAccount, useConnect, useDisconnect } from "thirdweb/react"
 import { getContract, readContract } from "thirdweb"
-import { inAppWallet } from "thirdweb/wallets"
+import { inAppWallet, type Account } from "thirdweb/wallets"
+import { createSiweMessage } from "viem/siwe"
 import { thirdwebClient, defaultChain } from "@/lib/thirdweb-config"
 
 // USDC on BNB Chain - set in .env
@@ -32,6 +33,8 @@ const USDC_BALANCE_ABI = [
  * 3. We use THAT wallet address (from useActiveAccount)
  * 4. Balance is fetched from USDC contract on BNB chain
  * 5. Wallet address is the user's identity
+ * 6. The wallet signs a SIWE message → server session cookie, so API
+ *    routes know who is calling without trusting request bodies
  */
 
 interface WalletState {
@@ -41,10 +44,12 @@ interface WalletState {
     isLoading: boolean
     isBalanceLoading: boolean
     isFirstTimeUser: boolean         // True if this is user's first login
+    isAuthenticated: boolean         // Server session bound to this address
 }
 
 interface WalletContextType extends WalletState {
     connect: (method: "google" | "apple" | "email", email?: string) => Promise<boolean>
+    signIn: () => Promise<boolean>
     disconnect: () => void
     refreshBalance: () => Promise<void>
     markOnboardingComplete: () => void
@@ -64,6 +69,40 @@ const setOnboardingComplete = (address: string) => {
     localStorage.setItem(`${ONBOARDING_KEY_PREFIX}${address.toLowerCase()}`, 'true')
 }
 
+/**
+ * Make sure the server session belongs to this account — sign in (SIWE) if not.
+ * In-app wallets sign without a prompt, so this is invisible to the user.
+ */
+async function ensureSession(account: Account): Promise<boolean> {
+    const current = await fetch('/api/auth/session').then(r => r.json()).catch(() => null)
+    if (current?.address?.toLowerCase() === account.address.toLowerCase()) return true
+
+    const { nonce } = await fetch('/api/auth/nonce').then(r => r.json())
+    const message = createSiweMessage({
+        address: account.address as `0x${string}`,
+        chainId: defaultChain.id,
+        domain: window.location.host,
+        uri: window.location.origin,
+        version: '1',
+        nonce,
+        statement: 'Sign in to uWu P2P',
+        issuedAt: new Date(),
+    })
+    const signature = await account.signMessage({ message })
+
+    const res = await fetch('/api/auth/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature }),
+    })
+    const data = await res.json()
+    if (!data.success) {
+        console.error('[Wallet] Sign-in rejected:', data.error)
+        return false
+    }
+    return true
+}
+
 // Check if ANY user has onboarded before (not wallet-specific)
 function hasAnyPreviousSession(): boolean {
     if (typeof window === 'undefined') return false
@@ -95,6 +134,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         isLoading: hasAnyPreviousSession(),
         isBalanceLoading: false,
         isFirstTimeUser: false,
+        isAuthenticated: false,
     })
 
     // Grace period: keep isLoading=true for up to 3s to allow Thirdweb auto-reconnect
@@ -190,11 +230,35 @@ export function WalletProvider({ children }: { children: ReactNode }) {
                 balance: 0,
                 isBalanceLoading: false,
                 isFirstTimeUser: false,
+                isAuthenticated: false,
                 isLoading: reconnectGraceExpired.current ? false : prev.isLoading,
             }))
         }
     }, [account?.address, fetchUsdcBalance])
 
+    // Sign in (server session) — separate from the sync above so balance isn't held up
+    useEffect(() => {
+        if (!account) return
+        let cancelled = false
+        ensureSession(account)
+            .catch(error => {
+                console.error('[Wallet] Sign-in failed:', error)
+                return false
+            })
+            .then(ok => {
+                if (!cancelled) setState(prev => ({ ...prev, isAuthenticated: ok }))
+            })
+        return () => { cancelled = true }
+    }, [account])
+
+    // Manual retry (e.g. after the session expired)
+    const signIn = useCallback(async (): Promise<boolean> => {
+        if (!account) return false
+        const ok = await ensureSession(account).catch(() => false)
+        setState(prev => ({ ...prev, isAuthenticated: ok }))
+        return ok
+    }, [account])
+
     // Connect via Thirdweb embedded wallet
     const connect = useCallback(async (method: "google" | "apple" | "email", email?: string): Promise<boolean> => {
         setState(prev => ({ ...prev, isLoading: true }))
@@ -235,6 +299,8 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     // Disconnect
     const disconnect = useCallback(() => {
         thirdwebDisconnect(inAppWallet())
+        // End the server session too
+        fetch('/api/auth/session', { method: 'DELETE' }).catch(() => {})
         // Clear LP active status on logout
         if (typeof window !== 'undefined') {
             sessionStorage.removeItem('lp_active_status')
@@ -246,6 +312,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             isLoading: false,
             isBalanceLoading: false,
             isFirstTimeUser: false,
+            isAuthenticated: false,
         })
     }, [thirdwebDisconnect])
 
@@ -271,6 +338,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             value={{
                 ...state,
                 connect,
+                signIn,
                 disconnect,
                 refreshBalance,
                 markOnboardingComplete,
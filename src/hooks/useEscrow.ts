@@ -2,10 +2,10 @@
 
 import { useState, useCallback, useEffect } from 'react'
 import { useWallet } from './useWallet'
-import { getContract, prepareContractCall, sendTransaction, waitForReceipt } from 'thirdweb'
+import { getContract, prepareContractCall, readContract, sendTransaction, waitForReceipt } from 'thirdweb'
 import { thirdwebClient, defaultChain } from '@/lib/thirdweb-config'
 import { CONTRACT_ADDRESSES, USDC_ADDRESS } from '@/lib/web3-config'
-import { P2P_ESCROW_ABI, USDC_ABI, orderIdToBytes32, parseUsdc, formatUsdc, EscrowStatus } from '@/lib/escrow-abi'
+import { P2P_ESCROW_ABI, USDC_ABI, orderIdToBytes32, parseUsdc, parseRate, formatUsdc, escrowFeeUsdc, generateOrderId, EscrowStatus, SELL_ESCROW_LOCK_SECONDS } from '@/lib/escrow-abi'
 import { useActiveAccount } from 'thirdweb/react'
 import { getExchangeRate } from '@/lib/currency-converter'
 
@@ -113,6 +113,7 @@ export function useEscrow() {
         try {
             // Calculate USDC amount based on live exchange rate
             const exchangeRate = getExchangeRate(currency)
+            if (!exchangeRate) throw new Error(`No ${currency} rate available — try again shortly`)
             const amountUsdc = amountFiat / exchangeRate
 
             // Generate order ID
@@ -168,6 +169,7 @@ export function useEscrow() {
         try {
             // Calculate fiat amount using live exchange rate
             const exchangeRate = getExchangeRate(currency)
+            if (!exchangeRate) throw new Error(`No ${currency} rate available — try again shortly`)
             const amountFiat = amountUsdc * exchangeRate
 
             // Generate order ID
@@ -191,7 +193,7 @@ export function useEscrow() {
             const tx = prepareContractCall({
                 contract: escrowContract,
                 method: "createEscrow",
-                params: [orderIdBytes, parsedAmount, lpAddress, lpAddress, expiresAt],
+                params: [orderIdBytes, parsedAmount, lpAddress, expiresAt, parseRate(exchangeRate)],
             })
 
             const result = await sendTransaction({
@@ -234,6 +236,128 @@ export function useEscrow() {
         }
     }
 
+    /**
+     * Lock USDC for a new sell order: approve → createEscrow at the locked rate.
+     * Returns the order ID + tx hash that POST /api/orders verifies before
+     * the order goes live.
+     */
+    const lockSellEscrow = async (
+        amountUsdc: number,
+        lockedRate: number
+    ): Promise<{ orderId: string; escrowTxHash: string } | null> => {
+        if (!account) return null
+
+        setIsProcessing(true)
+        try {
+            const orderId = generateOrderId()
+            const escrowContract = getEscrowContract()
+            const parsedAmount = parseUsdc(amountUsdc)
+
+            // The contract assigns the LP by rotation — release pays them
+            const lpAddress = await readContract({
+                contract: escrowContract,
+                method: "getNextLP",
+                params: [parsedAmount],
+            })
+            if (/^0x0+$/.test(lpAddress)) {
+                throw new Error('No active LP can take this amount')
+            }
+
+            // createEscrow pulls amount + fee
+            const approvalTx = await approveUsdc(amountUsdc + escrowFeeUsdc(amountUsdc))
+            if (!approvalTx) {
+                throw new Error('USDC approval failed')
+            }
+
+            console.log('[BNB] Locking escrow for', orderId)
+            // Must outlast validation + the dispute window — see SELL_ESCROW_LOCK_SECONDS
+            const expiresAt = BigInt(Math.floor(Date.now() / 1000) + SELL_ESCROW_LOCK_SECONDS)
+            const tx = prepareContractCall({
+                contract: escrowContract,
+                method: "createEscrow",
+                params: [orderIdToBytes32(orderId), parsedAmount, lpAddress, expiresAt, parseRate(lockedRate)],
+            })
+
+            const result = await sendTransaction({ transaction: tx, account })
+            const receipt = await waitForReceipt({
+                client: thirdwebClient,
+                chain: defaultChain,
+                transactionHash: result.transactionHash,
+            })
+
+            console.log('[BNB] Escrow locked:', receipt.transactionHash)
+            return { orderId, escrowTxHash: receipt.transactionHash }
+        } catch (error) {
+            console.error('Failed to lock escrow:', error)
+            return null
+        } finally {
+            setIsProcessing(false)
+        }
+    }
+
+    /**
+     * LP accepts a sell order's escrow before paying fiat — the seller can't
+     * refund it after this until it expires, so PATCH match checks for it.
+     */
+    const acceptEscrow = async (orderId: string): Promise<boolean> => {
+        if (!account) return false
+
+        setIsProcessing(true)
+        try {
+            const tx = prepareContractCall({
+                contract: getEscrowContract(),
+                method: "acceptEscrow",
+                params: [orderIdToBytes32(orderId)],
+            })
+            const result = await sendTransaction({ transaction: tx, account })
+            const receipt = await waitForReceipt({
+                client: thirdwebClient,
+                chain: defaultChain,
+                transactionHash: result.transactionHash,
+            })
+
+            console.log('[BNB] Escrow accepted:', receipt.transactionHash)
+            return true
+        } catch (error) {
+            console.error('Failed to accept escrow:', error)
+            return false
+        } finally {
+            setIsProcessing(false)
+        }
+    }
+
+    /**
+     * LP claims on the escrow that the fiat was paid. The relayer can only
+     * release a claimed escrow (24h after the claim), so PATCH payment_sent
+     * checks for it. `proofRef` is recorded on-chain as the UTR / proof.
+     */
+    const claimEscrowPayment = async (orderId: string, proofRef: string): Promise<boolean> => {
+        if (!account) return false
+
+        setIsProcessing(true)
+        try {
+            const tx = prepareContractCall({
+                contract: getEscrowContract(),
+                method: "claimPaymentSent",
+                params: [orderIdToBytes32(orderId), proofRef],
+            })
+            const result = await sendTransaction({ transaction: tx, account })
+            const receipt = await waitForReceipt({
+                client: thirdwebClient,
+                chain: defaultChain,
+                transactionHash: result.transactionHash,
+            })
+
+            console.log('[BNB] Payment claimed on escrow:', receipt.transactionHash)
+            return true
+        } catch (error) {
+            console.error('Failed to claim payment on escrow:', error)
+            return false
+        } finally {
+            setIsProcessing(false)
+        }
+    }
+
     /**
      * Confirm payment sent (buyer confirms they sent fiat)
      */
@@ -422,8 +546,11 @@ export function useEscrow() {
         // Order creation
         createBuyOrder,
         createSellOrder,
+        lockSellEscrow,
 
         // Order actions
+        acceptEscrow,
+        claimEscrowPayment,
         confirmPaymentSent,
         confirmPaymentReceived,
         cancelOrder,
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect, useCallback, useRef } from "react"
+import { useWallet } from "@/hooks/useWallet"
 
 /**
  * Order Type matching the API
@@ -8,7 +9,7 @@ import { useState, useEffect, useCallback, useRef } from "react"
 export interface Order {
     id: string
     type: "buy" | "sell"
-    status: "created" | "matched" | "payment_pending" | "payment_sent" | "completed" | "disputed" | "cancelled" | "expired" | "settled" | "verifying"
+    status: "created" | "matched" | "payment_pending" | "payment_sent" | "completed" | "disputed" | "mediation" | "cancelled" | "expired" | "settled" | "verifying"
     userId: string
     userAddress: string
     amountUsdc: number
@@ -27,14 +28,16 @@ export interface Order {
     disputePeriodEndsAt?: number // 24hrs after completion - user can dispute
     stakeLockExpiresAt?: number  // 24hrs after completion - LP stake unlocks
     completedAt?: number
-    settledAt?: number         // When USDC released to LP (now immediate)
+    settledAt?: number         // When releaseEscrow confirmed on-chain
+    settlementTxHash?: string  // releaseEscrow tx hash
+    version?: number           // Bumped on every write — newer wins on the client
 }
 
 /**
  * SSE Message Types
  */
 interface SSEMessage {
-    type: "connected" | "active_orders" | "new_order" | "order_update" | "ping"
+    type: "connected" | "active_orders" | "my_orders" | "new_order" | "order_update" | "ping"
     message?: string
     orders?: Order[]
     order?: Order
@@ -42,38 +45,70 @@ interface SSEMessage {
     timestamp: number
 }
 
+// Reconnect backoff: 1s, 2s, 4s … capped at 30s (plus jitter so clients don't stampede)
+const SSE_RETRY_BASE_MS = 1000
+const SSE_RETRY_MAX_MS = 30000
+
 /**
- * Hook for subscribing to real-time order updates via SSE
- * 
- * Used by solvers to receive new orders and order updates in real-time
+ * Keep the newer copy of an order (by version) — replayed / duplicated
+ * events must never roll an order back.
  */
-export function useOrderSSE(solverId?: string) {
-    const [orders, setOrders] = useState<Order[]>([])
+function upsertOrder(prev: Order[], incoming: Order, prepend: boolean): Order[] {
+    const existing = prev.find(o => o.id === incoming.id)
+    if (!existing) return prepend ? [incoming, ...prev] : prev
+    if ((incoming.version || 0) < (existing.version || 0)) return prev
+    return prev.map(o => o.id === incoming.id ? incoming : o)
+}
+
+/**
+ * Resumable EventSource shared by the order streams.
+ *
+ * Tracks the last event ID and resumes from it on reconnect, so orders
+ * published while the connection was down are replayed, not missed.
+ * Reconnects with exponential backoff; replayed and late events are
+ * applied by order version, never by arrival.
+ */
+function useResumableOrderStream(path: string | null, onMessage: (data: SSEMessage) => void) {
     const [isConnected, setIsConnected] = useState(false)
     const [lastUpdate, setLastUpdate] = useState<number | null>(null)
     const [error, setError] = useState<Error | null>(null)
 
     const eventSourceRef = useRef<EventSource | null>(null)
     const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+    const lastEventIdRef = useRef<number | null>(null)
+    const retryCountRef = useRef(0)
+    const onMessageRef = useRef(onMessage)
+
+    useEffect(() => {
+        onMessageRef.current = onMessage
+    }, [onMessage])
 
     /**
      * Connect to SSE endpoint
      */
     const connect = useCallback(() => {
-        if (!solverId) return
+        if (!path) return
 
         // Close existing connection
         if (eventSourceRef.current) {
             eventSourceRef.current.close()
         }
+        if (reconnectTimeoutRef.current) {
+            clearTimeout(reconnectTimeoutRef.current)
+            reconnectTimeoutRef.current = null
+        }
 
         try {
-            const eventSource = new EventSource(`/api/orders/sse?solverId=${solverId}`)
+            // A fresh EventSource doesn't send Last-Event-ID — pass it explicitly
+            const separator = path.includes("?") ? "&" : "?"
+            const resume = lastEventIdRef.current !== null ? `${separator}lastEventId=${lastEventIdRef.current}` : ""
+            const eventSource = new EventSource(`${path}${resume}`)
             eventSourceRef.current = eventSource
 
             eventSource.onopen = () => {
                 setIsConnected(true)
                 setError(null)
+                retryCountRef.current = 0
             }
 
             eventSource.onmessage = (event) => {
@@ -81,34 +116,17 @@ export function useOrderSSE(solverId?: string) {
                     const data: SSEMessage = JSON.parse(event.data)
                     setLastUpdate(data.timestamp)
 
-                    switch (data.type) {
-                        case "connected":
-                            console.log("SSE connected:", data.message)
-                            break
-
-                        case "active_orders":
-                            if (data.orders) {
-                                setOrders(data.orders)
-                            }
-                            break
-
-                        case "new_order":
-                            if (data.order) {
-                                setOrders(prev => [data.order!, ...prev])
-                            }
-                            break
-
-                        case "order_update":
-                            if (data.order) {
-                                setOrders(prev =>
-                                    prev.map(o => o.id === data.order!.id ? data.order! : o)
-                                )
-                            }
-                            break
-
-                        case "ping":
-                            // Keep-alive, no action needed
-                            break
+                    // Resume from the highest ID seen. A lower ID is a late event the server
+                    // read back after a gap — still applied; upsertOrder drops stale copies
+                    const eventId = event.lastEventId ? Number(event.lastEventId) : NaN
+                    if (Number.isFinite(eventId) && (lastEventIdRef.current === null || eventId > lastEventIdRef.current)) {
+                        lastEventIdRef.current = eventId
+                    }
+
+                    if (data.type === "connected") {
+                        console.log("SSE connected:", data.message)
+                    } else if (data.type !== "ping") {
+                        onMessageRef.current(data)
                     }
                 } catch (e) {
                     console.error("Failed to parse SSE message:", e)
@@ -119,16 +137,19 @@ export function useOrderSSE(solverId?: string) {
                 setIsConnected(false)
                 setError(new Error("Connection lost"))
 
-                // Attempt reconnect after 5 seconds
+                // Take over from the browser's fixed-interval retry and back off instead
+                eventSource.close()
+                const delay = Math.min(SSE_RETRY_BASE_MS * 2 ** retryCountRef.current, SSE_RETRY_MAX_MS)
+                retryCountRef.current++
                 reconnectTimeoutRef.current = setTimeout(() => {
                     connect()
-                }, 5000)
+                }, delay + Math.random() * 500)
             }
         } catch (e) {
             console.error("Failed to create EventSource:", e)
             setError(e as Error)
         }
-    }, [solverId])
+    }, [path])
 
     /**
      * Disconnect from SSE
@@ -145,6 +166,56 @@ export function useOrderSSE(solverId?: string) {
         setIsConnected(false)
     }, [])
 
+    // Auto-connect when there's something to connect to; new path = new stream
+    useEffect(() => {
+        lastEventIdRef.current = null
+        if (path) {
+            connect()
+        }
+
+        return () => {
+            disconnect()
+        }
+    }, [path, connect, disconnect])
+
+    return { isConnected, lastUpdate, error, connect, disconnect }
+}
+
+/**
+ * Hook for subscribing to real-time order updates via SSE
+ * 
+ * Used by solvers to receive new orders and order updates in real-time
+ */
+export function useOrderSSE(solverId?: string) {
+    const [orders, setOrders] = useState<Order[]>([])
+
+    const handleMessage = useCallback((data: SSEMessage) => {
+        switch (data.type) {
+            case "active_orders":
+                if (data.orders) {
+                    setOrders(data.orders)
+                }
+                break
+
+            case "new_order":
+                if (data.order) {
+                    setOrders(prev => upsertOrder(prev, data.order!, true))
+                }
+                break
+
+            case "order_update":
+                if (data.order) {
+                    setOrders(prev => upsertOrder(prev, data.order!, false))
+                }
+                break
+        }
+    }, [])
+
+    const { isConnected, lastUpdate, error, connect, disconnect } = useResumableOrderStream(
+        solverId ? `/api/orders/sse?solverId=${solverId}` : null,
+        handleMessage,
+    )
+
     /**
      * Match an order (solver accepts)
      */
@@ -193,17 +264,6 @@ export function useOrderSSE(solverId?: string) {
         }
     }, [])
 
-    // Auto-connect when solverId is provided
-    useEffect(() => {
-        if (solverId) {
-            connect()
-        }
-
-        return () => {
-            disconnect()
-        }
-    }, [solverId, connect, disconnect])
-
     // Filter active orders (not matched, completed, cancelled, or expired)
     const activeOrders = orders.filter(o => o.status === "created")
     const myMatchedOrders = orders.filter(o => o.solverId === solverId && ["matched", "payment_sent", "payment_pending"].includes(o.status))
@@ -230,33 +290,95 @@ export function useOrderSSE(solverId?: string) {
 }
 
 /**
- * Hook for users to manage their orders
+ * Hook for a user's own orders, pushed in real-time via SSE
+ *
+ * Streams every transition on orders the user created (matched, proof
+ * uploaded, verifying, completed, disputed, mediation link) — replaces
+ * polling on the scan, sell and orders pages.
  */
-export function useUserOrders(userId?: string) {
+export function useMyOrderStream(address?: string) {
+    // The stream is bound to the server session — wait for sign-in
+    const { isAuthenticated } = useWallet()
     const [orders, setOrders] = useState<Order[]>([])
     const [isLoading, setIsLoading] = useState(false)
-    const [error, setError] = useState<Error | null>(null)
+    const [hasSnapshot, setHasSnapshot] = useState(false)
+
+    const handleMessage = useCallback((data: SSEMessage) => {
+        switch (data.type) {
+            case "my_orders":
+                if (data.orders) {
+                    setOrders(data.orders)
+                }
+                setHasSnapshot(true)
+                break
+
+            case "new_order":
+            case "order_update":
+                if (data.order) {
+                    setOrders(prev => upsertOrder(prev, data.order!, true))
+                }
+                break
+        }
+    }, [])
+
+    const { isConnected, lastUpdate, error, connect, disconnect } = useResumableOrderStream(
+        address && isAuthenticated ? "/api/orders/stream" : null,
+        handleMessage,
+    )
+
+    /**
+     * Apply an order returned by our own API call without waiting for the stream
+     */
+    const applyOrder = useCallback((order?: Order) => {
+        if (order) {
+            setOrders(prev => upsertOrder(prev, order, true))
+        }
+    }, [])
 
     /**
-     * Fetch user's orders
+     * One-off full reload (manual refresh)
      */
-    const fetchOrders = useCallback(async () => {
-        if (!userId) return
+    const refetch = useCallback(async () => {
+        if (!address) return
 
         setIsLoading(true)
         try {
-            const response = await fetch(`/api/orders?userId=${userId}`)
+            const response = await fetch(`/api/orders?userId=${address}`)
             const data = await response.json()
 
             if (data.success) {
                 setOrders(data.orders)
             }
         } catch (e) {
-            setError(e as Error)
+            console.error("Failed to fetch orders:", e)
         } finally {
             setIsLoading(false)
         }
-    }, [userId])
+    }, [address])
+
+    return {
+        orders,
+        getOrder: (orderId: string) => orders.find(o => o.id === orderId),
+        applyOrder,
+        refetch,
+        isLoading,
+        hasSnapshot,
+        isConnected,
+        lastUpdate,
+        error,
+        connect,
+        disconnect,
+    }
+}
+
+/**
+ * Hook for users to manage their orders
+ *
+ * Order state comes from the user's order stream (useMyOrderStream);
+ * action responses are applied immediately.
+ */
+export function useUserOrders(userId?: string) {
+    const { orders, applyOrder, refetch, isLoading, error } = useMyOrderStream(userId)
 
     /**
      * Create a new sell order
@@ -268,6 +390,9 @@ export function useUserOrders(userId?: string) {
         paymentMethod: string
         paymentDetails?: string
         userAddress: string
+        orderId?: string         // Escrow order ID (useEscrow.lockSellEscrow)
+        escrowTxHash?: string
+        quoteId?: string         // Rate quote the order is priced at (useRateQuote)
     }) => {
         if (!userId) return null
 
@@ -285,7 +410,7 @@ export function useUserOrders(userId?: string) {
             const data = await response.json()
 
             if (data.success) {
-                setOrders(prev => [data.order, ...prev])
+                applyOrder(data.order)
                 return data.order
             }
             return null
@@ -293,7 +418,7 @@ export function useUserOrders(userId?: string) {
             console.error("Failed to create order:", e)
             return null
         }
-    }, [userId])
+    }, [userId, applyOrder])
 
     /**
      * Confirm payment received (release USDC to solver)
@@ -312,16 +437,14 @@ export function useUserOrders(userId?: string) {
             const data = await response.json()
 
             if (data.success) {
-                setOrders(prev =>
-                    prev.map(o => o.id === orderId ? data.order : o)
-                )
+                applyOrder(data.order)
             }
             return data.success
         } catch (e) {
             console.error("Failed to confirm payment:", e)
             return false
         }
-    }, [])
+    }, [applyOrder])
 
     /**
      * Raise a dispute
@@ -340,16 +463,14 @@ export function useUserOrders(userId?: string) {
             const data = await response.json()
 
             if (data.success) {
-                setOrders(prev =>
-                    prev.map(o => o.id === orderId ? data.order : o)
-                )
+                applyOrder(data.order)
             }
             return data.success
         } catch (e) {
             console.error("Failed to raise dispute:", e)
             return false
         }
-    }, [])
+    }, [applyOrder])
 
     /**
      * Cancel an order
@@ -368,31 +489,20 @@ export function useUserOrders(userId?: string) {
             const data = await response.json()
 
             if (data.success) {
-                setOrders(prev =>
-                    prev.map(o => o.id === orderId ? data.order : o)
-                )
+                applyOrder(data.order)
             }
             return data.success
         } catch (e) {
             console.error("Failed to cancel order:", e)
             return false
         }
-    }, [])
-
-    // Fetch orders on mount and poll for updates
-    useEffect(() => {
-        fetchOrders()
-
-        // Poll every 3s to pick up status changes from solvers
-        const interval = setInterval(fetchOrders, 3000)
-        return () => clearInterval(interval)
-    }, [fetchOrders])
+    }, [applyOrder])
 
     return {
         orders,
         isLoading,
         error,
-        refetch: fetchOrders,
+        refetch,
         createSellOrder,
         confirmPaymentReceived,
         raiseDispute,
@@ -0,0 +1,84 @@
+"use client"
+
+import { useState, useCallback, useEffect } from 'react'
+import { fetchLiveRates } from '@/lib/currency-converter'
+import type { RateQuote } from '@/lib/rate-lock'
+
+// Re-quote this long before the current quote expires
+const REQUOTE_MARGIN_MS = 30_000
+
+/**
+ * Rate for the order form: a persisted quote (POST /api/rates/quote) once
+ * the wallet is signed in, the oracle's live rate before that. Orders send
+ * quote.id so the server prices them at exactly the rate shown here.
+ */
+export function useRateQuote(currency: string, address: string | undefined) {
+    const [liveRate, setLiveRate] = useState<number | null>(null)
+    const [quote, setQuote] = useState<RateQuote | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const refreshQuote = useCallback(async (): Promise<RateQuote | null> => {
+        if (!address) return null
+        try {
+            const response = await fetch('/api/rates/quote', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ currency }),
+            })
+            const data = await response.json()
+            if (!data.success) {
+                setQuote(null)
+                setError(data.error || 'Rate unavailable')
+                return null
+            }
+            setQuote(data.quote)
+            setError(null)
+            return data.quote
+        } catch (err) {
+            console.error('Failed to fetch rate quote:', err)
+            setQuote(null)
+            setError('Rate unavailable')
+            return null
+        }
+    }, [currency, address])
+
+    // Live rate for display (signed out, or while the quote loads)
+    useEffect(() => {
+        fetchLiveRates()
+            .then(rates => setLiveRate(rates[currency] ?? null))
+            .catch(() => setLiveRate(null))
+    }, [currency])
+
+    // Keep a fresh quote for the selected currency
+    useEffect(() => {
+        if (!address) return
+        let timer: ReturnType<typeof setTimeout>
+        let cancelled = false
+        const requote = async () => {
+            const next = await refreshQuote()
+            if (cancelled) return
+            const delay = next ? Math.max(next.expiresAt - Date.now() - REQUOTE_MARGIN_MS, 5_000) : 30_000
+            timer = setTimeout(requote, delay)
+        }
+        requote()
+        return () => {
+            cancelled = true
+            clearTimeout(timer)
+        }
+    }, [address, refreshQuote])
+
+    // Ignore a quote left over from the previous currency
+    const current = quote?.currency === currency ? quote : null
+
+    /** Is the quote still good for at least the re-quote margin? */
+    const isQuoteFresh = (q: RateQuote | null = current): q is RateQuote =>
+        !!q && q.currency === currency && q.expiresAt - Date.now() > REQUOTE_MARGIN_MS
+
+    return {
+        rate: current?.rate ?? liveRate,
+        quote: current,
+        error,
+        refreshQuote,
+        isQuoteFresh,
+    }
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useState, useCallback } from 'react'
+import { useActiveAccount } from 'thirdweb/react'
+import { getContract, prepareContractCall, sendTransaction, waitForReceipt, readContract } from 'thirdweb'
+import { thirdwebClient, defaultChain } from '@/lib/thirdweb-config'
+import { CONTRACT_ADDRESSES, USDC_ADDRESS } from '@/lib/web3-config'
+import { USDC_ABI, VALIDATOR_VAULT_ABI, parseUsdc, formatUsdc } from '@/lib/escrow-abi'
+
+/**
+ * Validator stake + rewards in ValidatorVault
+ *
+ * Rewards are credited by the app's validation worker; this hook only
+ * reads balances and sends the validator's own txs (stake, claim, unstake).
+ */
+export interface VaultPosition {
+    staked: number
+    unbonding: number
+    unbondingReleaseAt: number  // ms, 0 = nothing unbonding
+    claimable: number
+    totalEarned: number
+    totalClaimed: number
+    totalSlashed: number
+}
+
+type VaultTx = Parameters<typeof sendTransaction>[0]['transaction']
+
+export function useValidatorVault() {
+    const account = useActiveAccount()
+    const [position, setPosition] = useState<VaultPosition | null>(null)
+    const [isLoading, setIsLoading] = useState(false)
+    const [error, setError] = useState<Error | null>(null)
+
+    const getVaultContract = useCallback(() => {
+        return getContract({
+            client: thirdwebClient,
+            chain: defaultChain,
+            address: CONTRACT_ADDRESSES.VALIDATOR_VAULT,
+            abi: VALIDATOR_VAULT_ABI,
+        })
+    }, [])
+
+    /**
+     * Fetch stake / claimable balances from the vault
+     */
+    const fetchPosition = useCallback(async () => {
+        if (!account?.address) return null
+
+        try {
+            const v = await readContract({
+                contract: getVaultContract(),
+                method: "getValidator",
+                params: [account.address],
+            })
+            const next: VaultPosition = {
+                staked: formatUsdc(v.stake),
+                unbonding: formatUsdc(v.unbonding),
+                unbondingReleaseAt: Number(v.unbondingReleaseAt) * 1000,
+                claimable: formatUsdc(v.claimable),
+                totalEarned: formatUsdc(v.totalEarned),
+                totalClaimed: formatUsdc(v.totalClaimed),
+                totalSlashed: formatUsdc(v.totalSlashed),
+            }
+            setPosition(next)
+            return next
+        } catch (err) {
+            // Vault not deployed / not configured — treat as no stake
+            console.warn('[Vault] Could not read position:', err instanceof Error ? err.message : err)
+            const empty: VaultPosition = {
+                staked: 0, unbonding: 0, unbondingReleaseAt: 0,
+                claimable: 0, totalEarned: 0, totalClaimed: 0, totalSlashed: 0,
+            }
+            setPosition(empty)
+            return empty
+        }
+    }, [account?.address, getVaultContract])
+
+    /**
+     * Send txs in order, wait for each, refresh balances
+     */
+    const run = useCallback(async (label: string, buildTxs: () => VaultTx[]): Promise<boolean> => {
+        if (!account) return false
+
+        setIsLoading(true)
+        setError(null)
+        try {
+            for (const tx of buildTxs()) {
+                const result = await sendTransaction({ transaction: tx, account })
+                await waitForReceipt({
+                    client: thirdwebClient,
+                    chain: defaultChain,
+                    transactionHash: result.transactionHash,
+                })
+                console.log(`[Vault] ${label} confirmed:`, result.transactionHash)
+            }
+            await fetchPosition()
+            return true
+        } catch (err) {
+            console.error(`[Vault] ${label} failed:`, err)
+            setError(err instanceof Error ? err : new Error(String(err)))
+            return false
+        } finally {
+            setIsLoading(false)
+        }
+    }, [account, fetchPosition])
+
+    /**
+     * Approve + stake USDC
+     */
+    const stake = useCallback((amount: number) => run('Stake', () => {
+        const parsedAmount = parseUsdc(amount)
+        const usdcContract = getContract({
+            client: thirdwebClient,
+            chain: defaultChain,
+            address: USDC_ADDRESS,
+            abi: USDC_ABI,
+        })
+        return [
+            prepareContractCall({
+                contract: usdcContract,
+                method: "approve",
+                params: [CONTRACT_ADDRESSES.VALIDATOR_VAULT, parsedAmount],
+            }),
+            prepareContractCall({
+                contract: getVaultContract(),
+                method: "stake",
+                params: [parsedAmount],
+            }),
+        ]
+    }), [run, getVaultContract])
+
+    /**
+     * Withdraw all credited rewards
+     */
+    const claimRewards = useCallback(() => run('Claim', () => [
+        prepareContractCall({ contract: getVaultContract(), method: "claimRewards", params: [] }),
+    ]), [run, getVaultContract])
+
+    /**
+     * Start unbonding — still slashable until it's withdrawn
+     */
+    const requestUnstake = useCallback((amount: number) => run('Unstake request', () => [
+        prepareContractCall({ contract: getVaultContract(), method: "requestUnstake", params: [parseUsdc(amount)] }),
+    ]), [run, getVaultContract])
+
+    const withdrawUnstaked = useCallback(() => run('Withdraw', () => [
+        prepareContractCall({ contract: getVaultContract(), method: "withdrawUnstaked", params: [] }),
+    ]), [run, getVaultContract])
+
+    const clearError = useCallback(() => setError(null), [])
+
+    return {
+        position,
+        isLoading,
+        error,
+        clearError,
+        fetchPosition,
+        stake,
+        claimRewards,
+        requestUnstake,
+        withdrawUnstaked,
+    }
+}
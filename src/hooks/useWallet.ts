@@ -25,6 +25,7 @@ export function useWallet() {
         isLoading: context.isLoading,
         isBalanceLoading: context.isBalanceLoading,
         isFirstTimeUser: context.isFirstTimeUser,
+        isAuthenticated: context.isAuthenticated,   // Server session (SIWE) bound to this address
 
         // Names
         uwuName: null as string | null,
@@ -33,6 +34,7 @@ export function useWallet() {
 
         // Actions
         connect: context.connect,
+        signIn: context.signIn,
         disconnect: context.disconnect,
         refreshBalance: context.refreshBalance,
         markOnboardingComplete: context.markOnboardingComplete,
@@ -0,0 +1,100 @@
+import { createPublicClient, http, getAddress } from "viem"
+import { generateSiweNonce, parseSiweMessage } from "viem/siwe"
+import { opbnbTestnet } from "@/lib/web3-config"
+import { getRedis, useRedis } from "@/lib/redis"
+
+/**
+ * Sign-In With Ethereum (EIP-4361)
+ *
+ * 1. Client asks for a nonce (GET /api/auth/nonce)
+ * 2. Thirdweb wallet signs a SIWE message containing it
+ * 3. POST /api/auth/session verifies it here and sets the session cookie
+ *
+ * Nonces are single-use and expire after 5 minutes. Signatures are checked
+ * with viem's verifySiweMessage, which also handles smart-contract wallets
+ * (ERC-1271 / ERC-6492) via the opBNB RPC.
+ */
+
+const NONCE_TTL_SECONDS = 300
+const NONCE_KEY = (nonce: string) => `auth:nonce:${nonce}`
+
+// opBNB Testnet — sessions are bound to the chain the app runs on
+const publicClient = createPublicClient({
+    chain: opbnbTestnet,
+    transport: http(),
+})
+
+// ─── In-memory fallback (dev only) ─────────────────────
+const globalForAuth = globalThis as unknown as { _uwuAuthNonces?: Map<string, number> }
+if (!globalForAuth._uwuAuthNonces) {
+    globalForAuth._uwuAuthNonces = new Map()
+}
+const memoryNonces = globalForAuth._uwuAuthNonces
+
+/**
+ * Issue a single-use login nonce
+ */
+export async function issueNonce(): Promise<string> {
+    const nonce = generateSiweNonce()
+    if (useRedis()) {
+        await getRedis().set(NONCE_KEY(nonce), 1, { ex: NONCE_TTL_SECONDS })
+    } else {
+        memoryNonces.set(nonce, Date.now() + NONCE_TTL_SECONDS * 1000)
+    }
+    return nonce
+}
+
+/**
+ * Burn a nonce — true only the first time, and only before it expires
+ */
+async function consumeNonce(nonce: string): Promise<boolean> {
+    if (useRedis()) {
+        return (await getRedis().getdel(NONCE_KEY(nonce))) !== null
+    }
+    const expiresAt = memoryNonces.get(nonce)
+    memoryNonces.delete(nonce)
+    return !!expiresAt && expiresAt > Date.now()
+}
+
+export type SiweLoginResult =
+    | { success: true; address: string }
+    | { success: false; error: string }
+
+/**
+ * Verify a signed SIWE message for this host.
+ * Returns the checksummed address that signed it.
+ */
+export async function verifySiweLogin(message: string, signature: `0x${string}`, domain: string): Promise<SiweLoginResult> {
+    const fields = parseSiweMessage(message)
+    if (!fields.address || !fields.nonce || !fields.domain) {
+        return { success: false, error: "Malformed sign-in message" }
+    }
+    if (fields.domain !== domain) {
+        return { success: false, error: "Sign-in message is for a different site" }
+    }
+    if (fields.chainId !== opbnbTestnet.id) {
+        return { success: false, error: "Sign-in message is for a different chain" }
+    }
+
+    // Burn the nonce before checking the signature — a nonce is never usable twice
+    if (!(await consumeNonce(fields.nonce))) {
+        return { success: false, error: "Sign-in nonce expired or already used" }
+    }
+
+    try {
+        const valid = await publicClient.verifySiweMessage({
+            message,
+            signature,
+            domain,
+            nonce: fields.nonce,
+        })
+        if (!valid) {
+            return { success: false, error: "Invalid signature" }
+        }
+    } catch (error) {
+        console.error('[Auth] SIWE verification failed:', error)
+        return { success: false, error: "Could not verify signature" }
+    }
+
+    return { success: true, address: getAddress(fields.address) }
+}
@@ -2,86 +2,71 @@ import { SUPPORTED_CURRENCIES } from './web3-config'
 
 /**
  * Currency conversion utility
- * Fetches real-time exchange rates and converts between fiat and USDC
+ * Reads oracle rates from /api/rates and converts between fiat and USDC.
+ * There are no fallback rates: a currency the oracle refuses to quote is
+ * missing from the result and can't be converted.
  */
 
-// Fallback rates if API fails
-const FALLBACK_RATES: Record<string, number> = {
-    INR: 83.50, // 1 USDC = 83.50 INR
-    USD: 1.00,  // 1 USDC = 1 USD
-    BRL: 5.62,  // 1 USDC = 5.62 BRL
-    EUR: 0.94,  // 1 USDC = 0.94 EUR
-}
-
 // Cache for rates
-let cachedRates: Record<string, number> = { ...FALLBACK_RATES }
+let cachedRates: Record<string, number> = {}
 let lastFetchTime = 0
-const CACHE_DURATION = 60000 // 1 minute
+const CACHE_DURATION = 30000 // Matches the oracle's own cache
 
 /**
- * Fetch live USDC exchange rates from CoinGecko
+ * Fetch oracle USDC exchange rates (fiat per USDC)
  */
 export async function fetchLiveRates(): Promise<Record<string, number>> {
     const now = Date.now()
-    
+
     // Return cached if fresh
     if (now - lastFetchTime < CACHE_DURATION && Object.keys(cachedRates).length > 0) {
         return cachedRates
     }
-    
+
     try {
-        // CoinGecko free API - USDC price in various currencies
-        const response = await fetch(
-            'https://api.coingecko.com/api/v3/simple/price?ids=usd-coin&vs_currencies=inr,usd,brl,eur',
-            { 
-                next: { revalidate: 60 },
-                signal: AbortSignal.timeout(5000)
-            }
-        )
-        
-        if (!response.ok) throw new Error('Rate fetch failed')
-        
+        const response = await fetch('/api/rates', { signal: AbortSignal.timeout(8000) })
         const data = await response.json()
-        
-        if (data['usd-coin']) {
-            cachedRates = {
-                INR: data['usd-coin'].inr || FALLBACK_RATES.INR,
-                USD: data['usd-coin'].usd || FALLBACK_RATES.USD,
-                BRL: data['usd-coin'].brl || FALLBACK_RATES.BRL,
-                EUR: data['usd-coin'].eur || FALLBACK_RATES.EUR,
-            }
-            lastFetchTime = now
-            console.log('[CurrencyConverter] Live rates fetched:', cachedRates)
+
+        const rates: Record<string, number> = {}
+        for (const [code, entry] of Object.entries((data.rates || {}) as Record<string, { rate: number }>)) {
+            rates[code] = entry.rate
         }
-        
-        return cachedRates
+        if (data.unavailable && Object.keys(data.unavailable).length > 0) {
+            console.warn('[CurrencyConverter] Oracle is not quoting:', data.unavailable)
+        }
+
+        cachedRates = rates
+        lastFetchTime = now
+        return rates
     } catch (error) {
-        console.warn('[CurrencyConverter] Failed to fetch live rates, using fallback:', error)
-        return FALLBACK_RATES
+        console.warn('[CurrencyConverter] Failed to fetch oracle rates:', error)
+        cachedRates = {}
+        return {}
     }
 }
 
 /**
- * Get current cached rate (sync) - use fetchLiveRates() first for fresh data
+ * Get current cached rate (sync) - use fetchLiveRates() first for fresh data.
+ * Null when the oracle isn't quoting this currency.
  */
-export function getExchangeRate(currencyCode: string): number {
-    return cachedRates[currencyCode] || FALLBACK_RATES[currencyCode] || 1
+export function getExchangeRate(currencyCode: string): number | null {
+    return cachedRates[currencyCode] || null
 }
 
 /**
- * Convert fiat amount to USDC
+ * Convert fiat amount to USDC (0 without a rate)
  */
 export function fiatToUsdc(amount: number, currencyCode: string): number {
     const rate = getExchangeRate(currencyCode)
-    return amount / rate
+    return rate ? amount / rate : 0
 }
 
 /**
- * Convert USDC amount to fiat
+ * Convert USDC amount to fiat (0 without a rate)
  */
 export function usdcToFiat(amount: number, currencyCode: string): number {
     const rate = getExchangeRate(currencyCode)
-    return amount * rate
+    return rate ? amount * rate : 0
 }
 
 /**
@@ -6,6 +6,8 @@
  * 
  * Functions:
  * - createEscrow: Lock USDC in escrow for an order
+ * - acceptEscrow: LP takes the order on (sender can't refund until expiry)
+ * - claimPaymentSent: LP claims the fiat payment (starts the relayer's release delay)
  * - releaseEscrow: Release USDC to recipient
  * - refundEscrow: Refund USDC to sender
  * - getEscrow: View escrow details
@@ -36,11 +38,40 @@ export const P2P_ESCROW_ABI = [
             { "name": "orderId", "type": "bytes32" },
             { "name": "amount", "type": "uint256" },
             { "name": "recipient", "type": "address" },
-            { "name": "lp", "type": "address" },
-            { "name": "expiresAt", "type": "uint256" }
+            { "name": "expiresAt", "type": "uint256" },
+            { "name": "lockedRate", "type": "uint256" }
         ],
         "name": "createEscrow",
-        "outputs": [{ "name": "", "type": "bytes32" }],
+        "outputs": [
+            { "name": "", "type": "bytes32" },
+            { "name": "", "type": "address" }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [{ "name": "orderAmount", "type": "uint256" }],
+        "name": "getNextLP",
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            { "name": "orderId", "type": "bytes32" }
+        ],
+        "name": "acceptEscrow",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            { "name": "orderId", "type": "bytes32" },
+            { "name": "utrProof", "type": "string" }
+        ],
+        "name": "claimPaymentSent",
+        "outputs": [],
         "stateMutability": "nonpayable",
         "type": "function"
     },
@@ -93,7 +124,9 @@ export const P2P_ESCROW_ABI = [
         "inputs": [
             { "indexed": true, "name": "orderId", "type": "bytes32" },
             { "indexed": true, "name": "sender", "type": "address" },
-            { "indexed": false, "name": "amount", "type": "uint256" }
+            { "indexed": true, "name": "lp", "type": "address" },
+            { "indexed": false, "name": "amount", "type": "uint256" },
+            { "indexed": false, "name": "lockedRate", "type": "uint256" }
         ],
         "name": "EscrowCreated",
         "type": "event"
@@ -162,6 +195,129 @@ export const USDC_ABI = [
     }
 ] as const
 
+/**
+ * ValidatorVault ABI — DAO validator stake + rewards (contracts/solidity/contracts/ValidatorVault.sol)
+ *
+ * Validators: stake / requestUnstake / withdrawUnstaked / claimRewards
+ * Operator (app): syncRewards / slash / reverseSlash
+ */
+export const VALIDATOR_VAULT_ABI = [
+    {
+        "inputs": [{ "name": "amount", "type": "uint256" }],
+        "name": "stake",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [{ "name": "amount", "type": "uint256" }],
+        "name": "requestUnstake",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "withdrawUnstaked",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "claimRewards",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            { "name": "validator", "type": "address" },
+            { "name": "totalEarned", "type": "uint256" }
+        ],
+        "name": "syncRewards",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            { "name": "slashId", "type": "bytes32" },
+            { "name": "validator", "type": "address" },
+            { "name": "amount", "type": "uint256" }
+        ],
+        "name": "slash",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [{ "name": "slashId", "type": "bytes32" }],
+        "name": "reverseSlash",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [{ "name": "validator", "type": "address" }],
+        "name": "getValidator",
+        "outputs": [
+            {
+                "components": [
+                    { "name": "stake", "type": "uint256" },
+                    { "name": "unbonding", "type": "uint256" },
+                    { "name": "unbondingReleaseAt", "type": "uint256" },
+                    { "name": "claimable", "type": "uint256" },
+                    { "name": "totalEarned", "type": "uint256" },
+                    { "name": "totalClaimed", "type": "uint256" },
+                    { "name": "totalSlashed", "type": "uint256" }
+                ],
+                "name": "",
+                "type": "tuple"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [{ "name": "slashId", "type": "bytes32" }],
+        "name": "getSlash",
+        "outputs": [
+            {
+                "components": [
+                    { "name": "validator", "type": "address" },
+                    { "name": "fromStake", "type": "uint256" },
+                    { "name": "fromUnbonding", "type": "uint256" },
+                    { "name": "slashedAt", "type": "uint256" },
+                    { "name": "reversed", "type": "bool" }
+                ],
+                "name": "",
+                "type": "tuple"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "minStake",
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    { "inputs": [], "name": "InvalidAmount", "type": "error" },
+    { "inputs": [], "name": "InsufficientStake", "type": "error" },
+    { "inputs": [], "name": "NotOperator", "type": "error" },
+    { "inputs": [], "name": "UnstakePending", "type": "error" },
+    { "inputs": [{ "name": "releaseAt", "type": "uint256" }], "name": "UnstakeNotReady", "type": "error" },
+    { "inputs": [], "name": "NothingToClaim", "type": "error" },
+    { "inputs": [], "name": "InsufficientRewardPool", "type": "error" },
+    { "inputs": [], "name": "SlashExists", "type": "error" },
+    { "inputs": [], "name": "SlashNotFound", "type": "error" },
+    { "inputs": [], "name": "SlashAlreadyReversed", "type": "error" },
+    { "inputs": [], "name": "InsufficientSlashedPool", "type": "error" }
+] as const
+
 /**
  * Escrow Status Enum
  */
@@ -174,6 +330,46 @@ export enum EscrowStatus {
     DISPUTED = 5
 }
 
+/**
+ * New order ID — short enough (< 32 bytes) to round-trip through orderIdToBytes32
+ */
+export function generateOrderId(): string {
+    return `order_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * How long a sell order's escrow stays locked before anyone can refund it.
+ * Covers the 15 min to match, the LP's fiat payment, up to 1h of DAO
+ * validation, the 24h dispute window and the relayer's release, with room
+ * to spare — a seller who wants out before an LP accepts can still refund.
+ */
+export const SELL_ESCROW_LOCK_SECONDS = 48 * 60 * 60
+
+/**
+ * Shortest lock POST /api/orders accepts for a sell order's escrow
+ */
+export const MIN_SELL_ESCROW_LOCK_SECONDS = 26 * 60 * 60
+
+/**
+ * Fee createEscrow pulls on top of the amount (P2PEscrowV5 defaults:
+ * 0.5% + 0.12 USDC under 10 USDC) — approve amount + fee
+ */
+export function escrowFeeUsdc(amountUsdc: number): number {
+    const fee = amountUsdc * 0.005
+    return amountUsdc < 10 ? fee + 0.12 : fee
+}
+
+/**
+ * Locked rate as stored on-chain (INR per USDC * 1e6) ↔ number
+ */
+export function parseRate(rate: number): bigint {
+    return BigInt(Math.round(rate * 1_000_000))
+}
+
+export function formatRate(rate: bigint): number {
+    return Number(rate) / 1_000_000
+}
+
 /**
  * Helper to convert order ID string to bytes32
  */
@@ -188,6 +384,15 @@ export function orderIdToBytes32(orderId: string): `0x${string}` {
     return `0x${hash.toString(16).padStart(64, '0')}` as `0x${string}`
 }
 
+/**
+ * Inverse of orderIdToBytes32 — recover the order ID from an on-chain escrow ID
+ */
+export function bytes32ToOrderId(escrowId: string): string {
+    const hex = escrowId.replace(/^0x/, '').replace(/^(00)+/, '')
+    const bytes = (hex.match(/.{2}/g) || []).map(b => parseInt(b, 16))
+    return new TextDecoder().decode(new Uint8Array(bytes))
+}
+
 /**
  * Parse USDC amount (6 decimals)
  * Uses Math.round to avoid floating-point precision loss
@@ -0,0 +1,477 @@
+import { createPublicClient, http, parseAbi, type Log } from "viem"
+import { CONTRACT_ADDRESSES, opbnbTestnet } from "@/lib/web3-config"
+import { bytes32ToOrderId, formatUsdc } from "@/lib/escrow-abi"
+import { getRedis, useRedis } from "@/lib/redis"
+import { type Order, type OrderStatus, getOrder, updateOrder, getAllOrders } from "@/lib/order-store"
+import { type OrderEvent, canTransition, transitionOrder } from "@/lib/order-state-machine"
+import { publishOrderEvent } from "@/lib/order-bus"
+
+/**
+ * Escrow Indexer
+ *
+ * WHY: The off-chain Order (Redis) and the on-chain Escrow (P2PEscrowV5)
+ * were never reconciled — an order could say `completed` while its USDC
+ * sat locked forever, or be refunded on-chain while the UI showed it live.
+ *
+ * Each pass follows the escrow contract from the last checkpointed block:
+ * 1. getLogs for the escrow events, a bounded block range at a time
+ * 2. persist each event (idempotent — re-indexing a range is harmless)
+ * 3. fold it into the escrow's on-chain state and update the matching order
+ * 4. advance the checkpoint
+ * Then a drift sweep compares orders with on-chain state and records
+ * mismatches for the admin drift report.
+ *
+ * Env:
+ *   ESCROW_INDEXER_RPC_URL       optional RPC override
+ *   ESCROW_INDEXER_START_BLOCK   first block to index when there is no checkpoint
+ */
+
+export type EscrowEventName =
+    | "EscrowCreated"
+    | "EscrowReleased"
+    | "EscrowRefunded"
+    | "DisputeRaised"
+    | "LPSlashed"
+    | "AutoDisputeTriggered"
+
+export interface IndexedEscrowEvent {
+    name: EscrowEventName
+    escrowId?: string          // bytes32 orderId on-chain (absent for LPSlashed)
+    orderId?: string           // Off-chain order ID decoded from escrowId
+    args: Record<string, string>
+    blockNumber: number
+    txHash: string
+    logIndex: number
+}
+
+export type EscrowChainStatus = "locked" | "released" | "refunded" | "disputed"
+
+export interface EscrowChainState {
+    escrowId: string
+    orderId: string
+    status: EscrowChainStatus
+    amountUsdc?: number
+    sender?: string
+    lp?: string
+    lastEvent: EscrowEventName
+    txHash: string
+    blockNumber: number
+}
+
+export type DriftKind =
+    | "completed_not_released"   // Dispute window long closed, USDC still locked
+    | "settled_not_released"     // Marked settled off-chain, no EscrowReleased
+    | "released_not_settled"     // Released on-chain, order still open off-chain
+    | "refunded_not_cancelled"   // Refunded on-chain, order still live off-chain
+    | "disputed_not_disputed"    // Dispute on-chain the order doesn't know about
+    | "cancelled_but_locked"     // Order cancelled / expired, USDC still in escrow
+    | "unknown_escrow"           // Escrow with no matching order
+
+export interface DriftRecord {
+    key: string                  // orderId, or escrowId for unknown escrows
+    kind: DriftKind
+    orderId?: string
+    escrowId?: string
+    orderStatus?: OrderStatus
+    chainStatus?: EscrowChainStatus
+    detail: string
+    detectedAt: number
+}
+
+export interface IndexerRunResult {
+    fromBlock: number
+    toBlock: number
+    latestBlock: number
+    events: number
+    ordersUpdated: number
+    drift: number
+}
+
+const CHECKPOINT_KEY = "escrow:index:checkpoint"
+const EVENTS_KEY = "escrow:index:events"          // sorted set by block number
+const STATE_KEY = "escrow:index:state"            // hash escrowId → EscrowChainState
+const DRIFT_KEY = "escrow:index:drift"            // hash key → DriftRecord
+
+const MAX_BLOCK_RANGE = BigInt(5_000)             // Public RPCs cap eth_getLogs ranges
+const MAX_RANGES_PER_RUN = 5
+const CONFIRMATIONS = BigInt(3)                   // Stay behind the head to avoid reorgs
+const DEFAULT_LOOKBACK = BigInt(50_000)           // No checkpoint + no start block
+const EVENT_LOG_SIZE = 10_000
+const RELEASE_GRACE_MS = 60 * 60 * 1000           // Settlement worker gets an hour before it's drift
+
+const ESCROW_EVENTS_ABI = parseAbi([
+    "event EscrowCreated(bytes32 indexed orderId, address indexed sender, address indexed lp, uint256 amount, uint256 lockedRate)",
+    "event EscrowReleased(bytes32 indexed orderId, address indexed recipient, uint256 amount)",
+    "event EscrowRefunded(bytes32 indexed orderId, address indexed sender, uint256 amount)",
+    "event DisputeRaised(bytes32 indexed orderId, address indexed raiser, string reason)",
+    "event LPSlashed(address indexed lp, uint256 amount, string reason)",
+    "event AutoDisputeTriggered(bytes32 indexed orderId, string reason)",
+])
+
+const publicClient = createPublicClient({
+    chain: opbnbTestnet,
+    transport: http(process.env.ESCROW_INDEXER_RPC_URL || undefined),
+})
+
+// ─── In-memory fallback (dev only) ─────────────────────
+const globalForIndexer = globalThis as unknown as {
+    _uwuEscrowIndex?: {
+        checkpoint: number | null
+        events: IndexedEscrowEvent[]
+        state: Map<string, EscrowChainState>
+        drift: Map<string, DriftRecord>
+    }
+}
+if (!globalForIndexer._uwuEscrowIndex) {
+    globalForIndexer._uwuEscrowIndex = { checkpoint: null, events: [], state: new Map(), drift: new Map() }
+}
+const memoryIndex = globalForIndexer._uwuEscrowIndex
+
+// ─── Storage ────────────────────────────────────────────
+
+async function getCheckpoint(): Promise<number | null> {
+    if (!useRedis()) return memoryIndex.checkpoint
+    const value = await getRedis().get<number>(CHECKPOINT_KEY)
+    return value ?? null
+}
+
+async function setCheckpoint(block: number): Promise<void> {
+    memoryIndex.checkpoint = block
+    if (!useRedis()) return
+    await getRedis().set(CHECKPOINT_KEY, block)
+}
+
+async function persistEvents(events: IndexedEscrowEvent[]): Promise<void> {
+    if (events.length === 0) return
+    if (!useRedis()) {
+        const seen = new Set(memoryIndex.events.map(e => `${e.txHash}:${e.logIndex}`))
+        memoryIndex.events.push(...events.filter(e => !seen.has(`${e.txHash}:${e.logIndex}`)))
+        memoryIndex.events.splice(0, Math.max(0, memoryIndex.events.length - EVENT_LOG_SIZE))
+        return
+    }
+    // Members are deterministic, so re-indexing a range doesn't duplicate
+    const pipeline = getRedis().pipeline()
+    for (const event of events) {
+        pipeline.zadd(EVENTS_KEY, { score: event.blockNumber, member: event })
+    }
+    pipeline.zremrangebyrank(EVENTS_KEY, 0, -(EVENT_LOG_SIZE + 1))
+    await pipeline.exec()
+}
+
+async function getChainStates(): Promise<Map<string, EscrowChainState>> {
+    if (!useRedis()) return new Map(memoryIndex.state)
+    const all = await getRedis().hgetall<Record<string, EscrowChainState>>(STATE_KEY)
+    return new Map(Object.entries(all || {}))
+}
+
+async function setChainState(state: EscrowChainState): Promise<void> {
+    memoryIndex.state.set(state.escrowId, state)
+    if (!useRedis()) return
+    await getRedis().hset(STATE_KEY, { [state.escrowId]: state })
+}
+
+/**
+ * Current drift records, newest first
+ */
+export async function getDriftReport(): Promise<DriftRecord[]> {
+    let records: DriftRecord[]
+    if (!useRedis()) {
+        records = [...memoryIndex.drift.values()]
+    } else {
+        const all = await getRedis().hgetall<Record<string, DriftRecord>>(DRIFT_KEY)
+        records = Object.values(all || {})
+    }
+    return records.sort((a, b) => b.detectedAt - a.detectedAt)
+}
+
+/**
+ * Replace the drift set with what the latest sweep found. Keeps the
+ * original detectedAt for drift that is still there.
+ */
+async function saveDrift(found: DriftRecord[]): Promise<void> {
+    const previous = new Map((await getDriftReport()).map(d => [d.key, d]))
+    const next = found.map(d => {
+        const prev = previous.get(d.key)
+        return prev && prev.kind === d.kind ? { ...d, detectedAt: prev.detectedAt } : d
+    })
+
+    memoryIndex.drift = new Map(next.map(d => [d.key, d]))
+    if (!useRedis()) return
+
+    const redis = getRedis()
+    const stale = [...previous.keys()].filter(k => !memoryIndex.drift.has(k))
+    if (stale.length > 0) await redis.hdel(DRIFT_KEY, ...stale)
+    if (next.length > 0) await redis.hset(DRIFT_KEY, Object.fromEntries(next.map(d => [d.key, d])))
+}
+
+/**
+ * Indexed events for one order, oldest first
+ */
+export async function getEscrowEventsForOrder(orderId: string): Promise<IndexedEscrowEvent[]> {
+    const events = useRedis()
+        ? await getRedis().zrange<IndexedEscrowEvent[]>(EVENTS_KEY, 0, -1)
+        : memoryIndex.events
+    return events.filter(e => e.orderId === orderId)
+}
+
+export async function getIndexerStatus(): Promise<{ checkpoint: number | null; latestBlock: number | null }> {
+    const checkpoint = await getCheckpoint()
+    const latestBlock = await publicClient.getBlockNumber().then(Number).catch(() => null)
+    return { checkpoint, latestBlock }
+}
+
+// ─── Decoding ───────────────────────────────────────────
+
+type EscrowLog = Log<bigint, number, false, undefined, true, typeof ESCROW_EVENTS_ABI>
+
+function toIndexedEvent(log: EscrowLog): IndexedEscrowEvent {
+    const args: Record<string, string> = {}
+    for (const [key, value] of Object.entries(log.args as Record<string, unknown>)) {
+        args[key] = typeof value === "bigint" ? value.toString() : String(value)
+    }
+    const escrowId = log.eventName === "LPSlashed" ? undefined : args.orderId
+    return {
+        name: log.eventName,
+        escrowId,
+        orderId: escrowId ? bytes32ToOrderId(escrowId) : undefined,
+        args,
+        blockNumber: Number(log.blockNumber),
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+    }
+}
+
+// ─── Applying events ────────────────────────────────────
+
+const CHAIN_STATUS_BY_EVENT: Partial<Record<EscrowEventName, EscrowChainStatus>> = {
+    EscrowCreated: "locked",
+    EscrowReleased: "released",
+    EscrowRefunded: "refunded",
+    DisputeRaised: "disputed",
+    AutoDisputeTriggered: "disputed",
+}
+
+/**
+ * Fold an event into the escrow's on-chain state
+ */
+function nextChainState(prev: EscrowChainState | undefined, event: IndexedEscrowEvent): EscrowChainState | null {
+    const status = CHAIN_STATUS_BY_EVENT[event.name]
+    if (!status || !event.escrowId || !event.orderId) return null
+    return {
+        escrowId: event.escrowId,
+        orderId: event.orderId,
+        status,
+        amountUsdc: event.args.amount ? formatUsdc(BigInt(event.args.amount)) : prev?.amountUsdc,
+        sender: event.args.sender || prev?.sender,
+        lp: event.args.lp || prev?.lp,
+        lastEvent: event.name,
+        txHash: event.txHash,
+        blockNumber: event.blockNumber,
+    }
+}
+
+/**
+ * Move the off-chain order along when the chain is ahead of it.
+ * A refunded escrow expires a still-`created` order, so LPs stop seeing
+ * (and paying against) it. Anything the state machine won't allow is left
+ * for the drift sweep.
+ */
+async function applyToOrder(event: IndexedEscrowEvent): Promise<boolean> {
+    if (!event.orderId) return false
+
+    const transition: OrderEvent | null =
+        event.name === "EscrowReleased" ? "settle"
+        : event.name === "DisputeRaised" || event.name === "AutoDisputeTriggered" ? "dispute"
+        : event.name === "EscrowRefunded" ? "expire"
+        : null
+    let transitioned = false
+
+    // Re-run on a fresh copy if another writer got in first (updateOrder)
+    const order = await updateOrder(event.orderId, current => {
+        const patch: Partial<Order> = {}
+        switch (event.name) {
+            case "EscrowReleased":
+                if (!current.settlementTxHash) patch.settlementTxHash = event.txHash
+                break
+            case "DisputeRaised":
+            case "AutoDisputeTriggered":
+                patch.disputeReason = current.disputeReason || event.args.reason
+                if (!current.disputeTxHash) patch.disputeTxHash = event.txHash
+                break
+            case "EscrowRefunded":
+                if (!current.refundTxHash) patch.refundTxHash = event.txHash
+                break
+        }
+
+        // No transition (or already there) — still record the tx hash on the order
+        if (!transition || !canTransition(current, transition, "timer")) {
+            const keys = (Object.keys(patch) as (keyof Order)[]).filter(k => k.endsWith("TxHash") && patch[k] !== undefined)
+            for (const key of keys) Object.assign(current, { [key]: patch[key] })
+            transitioned = false
+            return keys.length > 0
+        }
+
+        transitioned = transitionOrder(current, transition, {
+            actor: "timer",
+            by: "escrow-indexer",
+            note: `${event.name} ${event.txHash}`,
+            patch,
+        }).success
+        return transitioned
+    })
+    if (!order) return false
+
+    if (transitioned && transition) {
+        await publishOrderEvent({ type: "order_update", updateType: transition, order })
+        console.log(`[EscrowIndexer] Order ${order.id} → ${order.status} (${event.name})`)
+    }
+    return true
+}
+
+// ─── Drift ──────────────────────────────────────────────
+
+/**
+ * Compare one order with its on-chain escrow. null = consistent.
+ */
+export function detectDrift(order: Order | null, chain: EscrowChainState | undefined, now: number = Date.now()): Omit<DriftRecord, "detectedAt"> | null {
+    if (!order) {
+        if (!chain) return null
+        return {
+            key: chain.escrowId,
+            kind: "unknown_escrow",
+            escrowId: chain.escrowId,
+            orderId: chain.orderId,
+            chainStatus: chain.status,
+            detail: `Escrow ${chain.lastEvent} on-chain (${chain.amountUsdc ?? "?"} USDC) but no order ${chain.orderId}`,
+        }
+    }
+
+    const base = { key: order.id, orderId: order.id, escrowId: chain?.escrowId, orderStatus: order.status, chainStatus: chain?.status }
+    const released = chain?.status === "released"
+
+    switch (order.status) {
+        case "completed":
+            if (released) return { ...base, kind: "released_not_settled", detail: `Released in ${chain!.txHash} but order is still completed` }
+            if (order.disputePeriodEndsAt && order.disputePeriodEndsAt + RELEASE_GRACE_MS < now) {
+                return { ...base, kind: "completed_not_released", detail: "Dispute window closed over an hour ago; no EscrowReleased on-chain" }
+            }
+            break
+        case "settled":
+            if (!released) return { ...base, kind: "settled_not_released", detail: "Order is settled but no EscrowReleased was indexed" }
+            break
+        case "cancelled":
+        case "expired":
+            if (chain && (chain.status === "locked" || chain.status === "disputed")) {
+                return { ...base, kind: "cancelled_but_locked", detail: `Order is ${order.status} but escrow is still ${chain.status}` }
+            }
+            break
+        default:
+            if (released) return { ...base, kind: "released_not_settled", detail: `Released in ${chain!.txHash} but order is ${order.status}` }
+    }
+
+    if (chain?.status === "refunded" && order.status !== "cancelled" && order.status !== "expired") {
+        return { ...base, kind: "refunded_not_cancelled", detail: `Refunded in ${chain.txHash} but order is ${order.status}` }
+    }
+    if (chain?.status === "disputed" && order.status !== "disputed" && order.status !== "mediation") {
+        return { ...base, kind: "disputed_not_disputed", detail: `${chain.lastEvent} in ${chain.txHash} but order is ${order.status}` }
+    }
+    return null
+}
+
+/**
+ * Sweep orders that should have on-chain counterparts + every known escrow
+ */
+async function sweepDrift(now: number): Promise<DriftRecord[]> {
+    const [states, completed, settled, cancelled, expired] = await Promise.all([
+        getChainStates(),
+        getAllOrders({ status: "completed" }),
+        getAllOrders({ status: "settled" }),
+        getAllOrders({ status: "cancelled" }),
+        getAllOrders({ status: "expired" }),
+    ])
+    const stateByOrder = new Map([...states.values()].map(s => [s.orderId, s]))
+
+    const found: DriftRecord[] = []
+    const checked = new Set<string>()
+    const check = (order: Order | null, chain: EscrowChainState | undefined) => {
+        const drift = detectDrift(order, chain, now)
+        if (drift) found.push({ ...drift, detectedAt: now })
+    }
+
+    for (const order of [...completed, ...settled, ...cancelled, ...expired]) {
+        checked.add(order.id)
+        check(order, stateByOrder.get(order.id))
+    }
+    for (const chain of states.values()) {
+        if (checked.has(chain.orderId)) continue
+        check(await getOrder(chain.orderId), chain)
+    }
+    return found
+}
+
+// ─── Run ────────────────────────────────────────────────
+
+/**
+ * One indexer pass — called on a schedule (GET /api/indexer)
+ */
+export async function runEscrowIndexer(now: number = Date.now()): Promise<IndexerRunResult> {
+    const latest = await publicClient.getBlockNumber()
+    const safeHead = latest > CONFIRMATIONS ? latest - CONFIRMATIONS : BigInt(0)
+
+    const checkpoint = await getCheckpoint()
+    const startBlock = process.env.ESCROW_INDEXER_START_BLOCK
+        ? BigInt(process.env.ESCROW_INDEXER_START_BLOCK)
+        : (safeHead > DEFAULT_LOOKBACK ? safeHead - DEFAULT_LOOKBACK : BigInt(0))
+    let fromBlock = checkpoint !== null ? BigInt(checkpoint) + BigInt(1) : startBlock
+    const firstBlock = fromBlock
+
+    let events = 0
+    let ordersUpdated = 0
+    const states = await getChainStates()
+
+    for (let i = 0; i < MAX_RANGES_PER_RUN && fromBlock <= safeHead; i++) {
+        const toBlock = fromBlock + MAX_BLOCK_RANGE - BigInt(1) < safeHead ? fromBlock + MAX_BLOCK_RANGE - BigInt(1) : safeHead
+
+        const logs = await publicClient.getLogs({
+            address: CONTRACT_ADDRESSES.P2P_ESCROW as `0x${string}`,
+            events: ESCROW_EVENTS_ABI,
+            fromBlock,
+            toBlock,
+            strict: true,
+        })
+        const indexed = logs
+            .map(log => toIndexedEvent(log as EscrowLog))
+            .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+        await persistEvents(indexed)
+        for (const event of indexed) {
+            const state = nextChainState(event.escrowId ? states.get(event.escrowId) : undefined, event)
+            if (state) {
+                states.set(state.escrowId, state)
+                await setChainState(state)
+            }
+            if (await applyToOrder(event)) ordersUpdated++
+        }
+
+        // Checkpoint only after the whole range is applied — a crash re-indexes it
+        await setCheckpoint(Number(toBlock))
+        events += indexed.length
+        fromBlock = toBlock + BigInt(1)
+    }
+
+    const drift = await sweepDrift(now)
+    await saveDrift(drift)
+
+    if (events > 0 || drift.length > 0) {
+        console.log(`[EscrowIndexer] Blocks ${firstBlock}-${fromBlock - BigInt(1)}: ${events} events, ${ordersUpdated} orders updated, ${drift.length} drift`)
+    }
+
+    return {
+        fromBlock: Number(firstBlock),
+        toBlock: Number(fromBlock - BigInt(1)),
+        latestBlock: Number(latest),
+        events,
+        ordersUpdated,
+        drift: drift.length,
+    }
+}
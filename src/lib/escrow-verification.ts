@@ -0,0 +1,218 @@
+import {
+    WaitForTransactionReceiptTimeoutError,
+    createPublicClient,
+    http,
+    parseAbi,
+    parseEventLogs,
+} from "viem"
+import { CONTRACT_ADDRESSES, opbnbTestnet } from "@/lib/web3-config"
+import { MIN_SELL_ESCROW_LOCK_SECONDS, bytes32ToOrderId, formatRate, formatUsdc, orderIdToBytes32 } from "@/lib/escrow-abi"
+import { MIN_LP_STAKE, readLPStake } from "@/lib/policy"
+import { formatCurrency } from "@/lib/currency-converter"
+
+/**
+ * Escrow Creation Check
+ *
+ * WHY: POST /api/orders only looked at the seller's USDC balance — a
+ * balance isn't a lock. A sell order now goes live only after the server
+ * has read the EscrowCreated log from the tx the client sends and checked
+ * it against the order (amount, sender, LP, lockedRate).
+ *
+ * The recipient isn't in the event, so it's read back with getEscrow():
+ * releaseEscrow pays the recipient, and it must be the LP the contract
+ * assigned — otherwise one LP could fill the order and another get paid.
+ * So is the expiry: after it anyone can refund, so a short lock would let
+ * the seller take the USDC back while the LP's payment is still in review.
+ */
+
+// Locked rate may differ from the server's live rate by this much (2%)
+const MAX_RATE_DEVIATION = 0.02
+const RECEIPT_TIMEOUT_MS = 5_000 // Stay inside the 10s function limit
+
+const ESCROW_CREATED_ABI = parseAbi([
+    "event EscrowCreated(bytes32 indexed orderId, address indexed sender, address indexed lp, uint256 amount, uint256 lockedRate)",
+])
+
+// V5 getEscrow — escrow-abi.ts still has the pre-V5 shape
+const GET_ESCROW_ABI = parseAbi([
+    "function getEscrow(bytes32 orderId) view returns (address sender, address recipient, address lp, uint256 amount, uint8 status, uint256 lockedRate, uint256 createdAt, bool paymentClaimed, uint256 expiresAt, bool accepted)",
+])
+
+const publicClient = createPublicClient({
+    chain: opbnbTestnet,
+    transport: http(),
+})
+
+export interface VerifiedEscrow {
+    escrowId: `0x${string}`
+    orderId: string
+    sender: string
+    lp: string
+    recipient: string         // Paid on release — always the assigned LP
+    amountUsdc: number
+    lockedRate: number        // Fiat per USDC, in the order's currency
+    blockNumber: number
+}
+
+export type EscrowVerification =
+    | { valid: true; escrow: VerifiedEscrow }
+    | { valid: false; error: string; status: 400 | 409 }
+
+export interface EscrowExpectation {
+    orderId: string           // Client-generated ID the escrow was created for
+    sender: string            // Session address — must have locked the funds
+    amountUsdc?: number       // If sent, must match the locked amount
+    referenceRate: number     // Server's live / quoted rate for the lockedRate check
+    maxRateDeviation?: number // Defaults to MAX_RATE_DEVIATION
+    fiatCurrency: string      // Currency both rates are quoted in
+}
+
+/**
+ * Is an escrow contract configured at all? (dev without contracts skips the check)
+ */
+export function isEscrowConfigured(): boolean {
+    return CONTRACT_ADDRESSES.P2P_ESCROW !== "0x0000000000000000000000000000000000000000"
+}
+
+/**
+ * Verify the EscrowCreated log in `txHash` matches what the order claims
+ */
+export async function verifyEscrowCreation(txHash: string, expected: EscrowExpectation): Promise<EscrowVerification> {
+    if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+        return { valid: false, error: "Invalid escrow tx hash", status: 400 }
+    }
+
+    let receipt
+    try {
+        receipt = await publicClient.waitForTransactionReceipt({
+            hash: txHash as `0x${string}`,
+            timeout: RECEIPT_TIMEOUT_MS,
+        })
+    } catch (error) {
+        if (error instanceof WaitForTransactionReceiptTimeoutError) {
+            return { valid: false, error: "Escrow transaction not confirmed yet — retry shortly", status: 409 }
+        }
+        console.error('[Escrow] Receipt lookup failed:', error)
+        return { valid: false, error: "Could not read escrow transaction", status: 400 }
+    }
+
+    if (receipt.status !== "success") {
+        return { valid: false, error: "Escrow transaction reverted", status: 400 }
+    }
+
+    const [log] = parseEventLogs({
+        abi: ESCROW_CREATED_ABI,
+        eventName: "EscrowCreated",
+        logs: receipt.logs.filter(l => l.address.toLowerCase() === CONTRACT_ADDRESSES.P2P_ESCROW.toLowerCase()),
+    })
+    if (!log) {
+        return { valid: false, error: "No EscrowCreated event from the escrow contract in this transaction", status: 400 }
+    }
+
+    const { orderId: escrowId, sender, lp, amount, lockedRate } = log.args
+
+    // Order ID ↔ escrow ID
+    if (escrowId !== orderIdToBytes32(expected.orderId) || bytes32ToOrderId(escrowId) !== expected.orderId) {
+        return { valid: false, error: "Escrow was created for a different order", status: 400 }
+    }
+
+    // Sender — the signed-in wallet locked the funds
+    if (sender.toLowerCase() !== expected.sender.toLowerCase()) {
+        return { valid: false, error: "Escrow was funded by a different wallet", status: 400 }
+    }
+
+    // Amount
+    const amountUsdc = formatUsdc(amount)
+    if (expected.amountUsdc !== undefined && Math.abs(amountUsdc - expected.amountUsdc) > 0.000001) {
+        return { valid: false, error: `Escrow holds ${amountUsdc} USDC, order says ${expected.amountUsdc}`, status: 400 }
+    }
+    if (amountUsdc <= 0) {
+        return { valid: false, error: "Escrow amount is zero", status: 400 }
+    }
+
+    // LP — the contract assigned a staked, unbanned LP
+    try {
+        const stake = await readLPStake(lp)
+        if (stake.amount < MIN_LP_STAKE || stake.isBanned) {
+            return { valid: false, error: "Escrow LP is not an active staked LP", status: 400 }
+        }
+    } catch (error) {
+        console.error('[Escrow] LP stake lookup failed:', error)
+        return { valid: false, error: "Could not verify escrow LP", status: 400 }
+    }
+
+    // Recipient — release must pay the LP that fills the order
+    let recipient: string
+    let createdAt: bigint
+    let expiresAt: bigint
+    try {
+        [, recipient, , , , , createdAt, , expiresAt] = await publicClient.readContract({
+            address: CONTRACT_ADDRESSES.P2P_ESCROW as `0x${string}`,
+            abi: GET_ESCROW_ABI,
+            functionName: "getEscrow",
+            args: [escrowId],
+            blockNumber: receipt.blockNumber,
+        })
+    } catch (error) {
+        console.error('[Escrow] Escrow lookup failed:', error)
+        return { valid: false, error: "Could not read escrow recipient", status: 400 }
+    }
+    if (recipient.toLowerCase() !== lp.toLowerCase()) {
+        return { valid: false, error: "Escrow pays out to a different address than its LP", status: 400 }
+    }
+
+    // Expiry — the lock must outlast matching, validation and the dispute window
+    if (expiresAt - createdAt < BigInt(MIN_SELL_ESCROW_LOCK_SECONDS)) {
+        return { valid: false, error: `Escrow must stay locked for at least ${MIN_SELL_ESCROW_LOCK_SECONDS / 3600} hours`, status: 400 }
+    }
+
+    // Locked rate — within maxRateDeviation of the live / quoted rate
+    const rate = formatRate(lockedRate)
+    const maxDeviation = expected.maxRateDeviation ?? MAX_RATE_DEVIATION
+    const deviation = Math.abs(rate - expected.referenceRate) / expected.referenceRate
+    if (!(rate > 0) || deviation > maxDeviation) {
+        return {
+            valid: false,
+            error: `Locked rate ${formatCurrency(rate, expected.fiatCurrency)} is more than ${maxDeviation * 100}% from the reference rate ${formatCurrency(expected.referenceRate, expected.fiatCurrency)}`,
+            status: 400,
+        }
+    }
+
+    return {
+        valid: true,
+        escrow: {
+            escrowId,
+            orderId: expected.orderId,
+            sender,
+            lp,
+            recipient,
+            amountUsdc,
+            lockedRate: rate,
+            blockNumber: Number(receipt.blockNumber),
+        },
+    }
+}
+
+export interface EscrowState {
+    status: number            // EscrowStatus (escrow-abi.ts)
+    paymentClaimed: boolean   // claimPaymentSent — starts the relayer's release delay
+    accepted: boolean         // acceptEscrow — sender can no longer refund before expiry
+}
+
+/**
+ * Current on-chain state of an escrow — null if it couldn't be read
+ */
+export async function readEscrowState(escrowId: `0x${string}`): Promise<EscrowState | null> {
+    try {
+        const [, , , , status, , , paymentClaimed, , accepted] = await publicClient.readContract({
+            address: CONTRACT_ADDRESSES.P2P_ESCROW as `0x${string}`,
+            abi: GET_ESCROW_ABI,
+            functionName: "getEscrow",
+            args: [escrowId],
+        })
+        return { status, paymentClaimed, accepted }
+    } catch (error) {
+        console.error('[Escrow] Escrow lookup failed:', error)
+        return null
+    }
+}
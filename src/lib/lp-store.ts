@@ -0,0 +1,181 @@
+import { getRedis, useRedis } from "@/lib/redis"
+import { PLATFORM_CONFIG } from "@/lib/platform-config"
+import type { Order } from "@/lib/order-store"
+
+/**
+ * Redis-backed LP Store + LP pricing
+ *
+ * Same pattern as order-store.ts. Each LP publishes the price they pay
+ * for USDC — a spread under the oracle mid, or a fixed fiat/USDC rate —
+ * plus the order sizes they take. Quotes (rate-lock.ts) give users the
+ * best LP price, and the solver feed only shows an LP the orders that
+ * are profitable at their own price.
+ */
+
+// ─── Types ──────────────────────────────────────────────
+
+export type LPPricing =
+    | { mode: "spread"; spreadBps: number }   // Pays mid × (1 − spreadBps / 10000)
+    | { mode: "fixed"; rate: number }         // Pays this many fiat per USDC
+
+export interface LPRecord {
+    address: string
+    stake: number
+    currency: string         // Fiat the LP pays out in
+    pricing: LPPricing
+    minOrder: number         // USDC
+    maxOrder: number         // USDC
+    paymentMethods: string[]
+    isActive: boolean
+    completedOrders: number
+    rating: number
+    registeredAt: number
+}
+
+export type LPPrice = { rate: number; address: string }
+
+// Redis key helpers
+const LP_KEY = (addr: string) => `lp:${addr.toLowerCase()}`
+const LP_INDEX = "lp:index" // set of all LP addresses
+
+// Rates are rounded to 6 decimals on-chain — don't hide an order over that
+const PRICE_EPSILON = 1e-6
+
+// ─── In-memory fallback (dev only) ─────────────────────
+const globalForLPs = globalThis as unknown as { _uwuLPs?: Map<string, LPRecord> }
+if (!globalForLPs._uwuLPs) {
+    globalForLPs._uwuLPs = new Map()
+}
+const memLPs = globalForLPs._uwuLPs
+
+// ─── Store ──────────────────────────────────────────────
+
+export async function getLP(address: string): Promise<LPRecord | null> {
+    const addr = address.toLowerCase()
+    if (!useRedis()) return memLPs.get(addr) || null
+    try {
+        return withDefaults(await getRedis().get<LPRecord>(LP_KEY(addr)))
+    } catch {
+        return memLPs.get(addr) || null
+    }
+}
+
+export async function setLP(record: LPRecord): Promise<void> {
+    const addr = record.address.toLowerCase()
+    memLPs.set(addr, record)
+    if (!useRedis()) return
+    try {
+        const redis = getRedis()
+        await redis.set(LP_KEY(addr), record, { ex: 30 * 86400 }) // 30-day TTL
+        await redis.sadd(LP_INDEX, addr)
+    } catch (e) {
+        console.error('[LP] Redis set failed:', e)
+    }
+}
+
+export async function getAllLPs(): Promise<LPRecord[]> {
+    if (!useRedis()) return Array.from(memLPs.values())
+    try {
+        const redis = getRedis()
+        const addrs = await redis.smembers(LP_INDEX) as string[]
+        if (addrs.length === 0) return []
+
+        const pipeline = redis.pipeline()
+        for (const addr of addrs) pipeline.get<LPRecord>(LP_KEY(addr))
+        const results = await pipeline.exec<(LPRecord | null)[]>()
+        return results
+            .map(withDefaults)
+            .filter((lp): lp is LPRecord => lp !== null)
+    } catch (e) {
+        console.error('[LP] Failed to get all LPs:', e)
+        return Array.from(memLPs.values())
+    }
+}
+
+/**
+ * Records saved before LP pricing existed take the oracle mid in INR
+ */
+function withDefaults(lp: LPRecord | null): LPRecord | null {
+    if (!lp) return null
+    return {
+        ...lp,
+        currency: lp.currency || "INR",
+        pricing: lp.pricing || { mode: "spread", spreadBps: PLATFORM_CONFIG.lpPricing.defaultSpreadBps },
+    }
+}
+
+// ─── Pricing ────────────────────────────────────────────
+
+/**
+ * Validate an LP's pricing input. Fixed rates must sit within
+ * maxSpreadBps of the current mid so a typo can't publish a silly price.
+ */
+export function parseLPPricing(input: unknown, midRate: number | null): { pricing: LPPricing } | { error: string } {
+    const { maxSpreadBps } = PLATFORM_CONFIG.lpPricing
+    const raw = (input || {}) as { mode?: string; spreadBps?: unknown; rate?: unknown }
+
+    if (raw.mode === "spread") {
+        const spreadBps = Number(raw.spreadBps)
+        if (!Number.isFinite(spreadBps) || spreadBps < 0 || spreadBps > maxSpreadBps) {
+            return { error: `Spread must be between 0 and ${maxSpreadBps / 100}%` }
+        }
+        return { pricing: { mode: "spread", spreadBps: Math.round(spreadBps) } }
+    }
+
+    if (raw.mode === "fixed") {
+        const rate = Number(raw.rate)
+        if (!Number.isFinite(rate) || rate <= 0) {
+            return { error: "Fixed rate must be a positive number" }
+        }
+        if (midRate === null) {
+            return { error: "No market rate right now to check the fixed rate against — try again shortly" }
+        }
+        if (Math.abs(rate - midRate) / midRate > maxSpreadBps / 10000) {
+            return { error: `Fixed rate must be within ${maxSpreadBps / 100}% of the market rate (${midRate.toFixed(2)})` }
+        }
+        return { pricing: { mode: "fixed", rate } }
+    }
+
+    return { error: "Pricing mode must be 'spread' or 'fixed'" }
+}
+
+/**
+ * Fiat per USDC this LP pays, given the oracle mid
+ */
+export function getLPRate(lp: LPRecord, midRate: number): number {
+    return lp.pricing.mode === "fixed"
+        ? lp.pricing.rate
+        : midRate * (1 - lp.pricing.spreadBps / 10000)
+}
+
+/**
+ * Best (highest) price any active LP pays in `currency`. Fixed prices that
+ * have drifted more than maxSpreadBps from the mid are skipped as stale.
+ */
+export async function getBestLPPrice(currency: string, midRate: number, amountUsdc?: number): Promise<LPPrice | null> {
+    const { maxSpreadBps } = PLATFORM_CONFIG.lpPricing
+    let best: LPPrice | null = null
+
+    for (const lp of await getAllLPs()) {
+        if (!lp.isActive || lp.currency !== currency) continue
+        if (amountUsdc !== undefined && (amountUsdc < lp.minOrder || amountUsdc > lp.maxOrder)) continue
+
+        const rate = getLPRate(lp, midRate)
+        if (Math.abs(rate - midRate) / midRate > maxSpreadBps / 10000) continue
+        if (!best || rate > best.rate) best = { rate, address: lp.address }
+    }
+    return best
+}
+
+/**
+ * Would this LP make money filling `order` at their own price?
+ * Orders priced before LP pricing (no lockedRate) are shown to everyone.
+ */
+export function isOrderProfitableForLP(lp: LPRecord, order: Order): boolean {
+    if (order.fiatCurrency !== lp.currency) return false
+    if (order.amountUsdc < lp.minOrder || order.amountUsdc > lp.maxOrder) return false
+    if (!order.lockedRate) return true
+
+    const lpRate = getLPRate(lp, order.midRate ?? order.lockedRate)
+    return order.lockedRate <= lpRate * (1 + PRICE_EPSILON)
+}
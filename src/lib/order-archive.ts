@@ -0,0 +1,240 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type postgres from "postgres"
+import type { Order, OrderCursor, OrderFilters } from "@/lib/order-store"
+
+/**
+ * Durable Order Archive
+ *
+ * WHY: Redis drops orders 24h after they turn terminal. Trust scores,
+ * revenue analytics and LP history need them longer. Once an order is
+ * completed (awaiting settlement) or terminal, order-store.ts copies it
+ * here, and reads fall through to the archive when Redis no longer has it.
+ *
+ * Backend is picked from ORDER_ARCHIVE_URL:
+ * - postgres://… / postgresql://…  → Postgres (any Postgres-compatible DB: Neon, Supabase, RDS)
+ * - file:./path/to/archive.jsonl    → append-only JSONL file (local dev)
+ * - unset                           → file at .data/order-archive.jsonl in dev, disabled in production
+ */
+
+export interface OrderArchive {
+    name: string
+    put(order: Order): Promise<void>
+    get(id: string): Promise<Order | null>
+    delete(id: string): Promise<void>
+    /** Newest first (same createdAt by ID descending), after the cursor */
+    query(filters: OrderFilters, page: { cursor?: OrderCursor; limit?: number }): Promise<Order[]>
+}
+
+const DEFAULT_FILE_PATH = ".data/order-archive.jsonl"
+
+// ─── File adapter (local dev) ───────────────────────────
+
+/**
+ * Append-only JSONL file. The latest line for an order ID wins;
+ * deletes are `{ id, deleted: true }` tombstones.
+ * Loaded into memory once per process — fine for dev volumes.
+ */
+function createFileArchive(filePath: string): OrderArchive {
+    const resolved = path.resolve(process.cwd(), filePath)
+    let cache: Map<string, Order> | null = null
+
+    async function load(): Promise<Map<string, Order>> {
+        if (cache) return cache
+        const orders = new Map<string, Order>()
+        try {
+            const content = await fs.readFile(resolved, "utf8")
+            for (const line of content.split("\n")) {
+                if (!line.trim()) continue
+                try {
+                    const entry = JSON.parse(line) as Order & { deleted?: boolean }
+                    if (entry.deleted) orders.delete(entry.id)
+                    else orders.set(entry.id, entry)
+                } catch {
+                    // Skip a torn last line from an interrupted write
+                }
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+        }
+        cache = orders
+        return orders
+    }
+
+    return {
+        name: `file:${filePath}`,
+
+        async put(order) {
+            const orders = await load()
+            await fs.mkdir(path.dirname(resolved), { recursive: true })
+            await fs.appendFile(resolved, JSON.stringify(order) + "\n")
+            orders.set(order.id, order)
+        },
+
+        async get(id) {
+            const orders = await load()
+            return orders.get(id) || null
+        },
+
+        async delete(id) {
+            const orders = await load()
+            if (!orders.has(id)) return
+            await fs.appendFile(resolved, JSON.stringify({ id, deleted: true }) + "\n")
+            orders.delete(id)
+        },
+
+        async query(filters, { cursor, limit }) {
+            const orders = await load()
+            const matched = Array.from(orders.values())
+                .filter(o => matchesFilters(o, filters))
+                .filter(o => !cursor || o.createdAt < cursor.createdAt || (o.createdAt === cursor.createdAt && o.id < cursor.id))
+                .sort((a, b) => b.createdAt - a.createdAt || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0))
+            return limit === undefined ? matched : matched.slice(0, limit)
+        },
+    }
+}
+
+// ─── Postgres adapter (production) ──────────────────────
+
+/**
+ * One row per order. Filter columns are denormalised out of the JSON
+ * so the user / solver / status lookups can use indexes.
+ */
+function createPostgresArchive(url: string): OrderArchive {
+    let sqlPromise: Promise<postgres.Sql> | null = null
+
+    function getSql(): Promise<postgres.Sql> {
+        if (!sqlPromise) {
+            sqlPromise = (async () => {
+                const { default: connect } = await import("postgres")
+                const sql = connect(url, { max: 1, idle_timeout: 20 })
+                await sql`
+                    create table if not exists order_archive (
+                        id text primary key,
+                        status text not null,
+                        type text not null,
+                        user_id text,
+                        user_address text,
+                        solver_id text,
+                        solver_address text,
+                        created_at bigint not null,
+                        archived_at bigint not null,
+                        data jsonb not null
+                    )
+                `
+                await sql`create index if not exists order_archive_user_idx on order_archive (user_address, created_at desc)`
+                await sql`create index if not exists order_archive_solver_idx on order_archive (solver_address, created_at desc)`
+                await sql`create index if not exists order_archive_status_idx on order_archive (status, created_at desc)`
+                return sql
+            })()
+            // Let the next call retry if the connection / migration failed
+            sqlPromise.catch(() => { sqlPromise = null })
+        }
+        return sqlPromise
+    }
+
+    return {
+        name: "postgres",
+
+        async put(order) {
+            const sql = await getSql()
+            await sql`
+                insert into order_archive (
+                    id, status, type, user_id, user_address, solver_id, solver_address, created_at, archived_at, data
+                ) values (
+                    ${order.id},
+                    ${order.status},
+                    ${order.type},
+                    ${order.userId?.toLowerCase() ?? null},
+                    ${order.userAddress?.toLowerCase() ?? null},
+                    ${order.solverId ?? null},
+                    ${order.solverAddress?.toLowerCase() ?? null},
+                    ${order.createdAt},
+                    ${Date.now()},
+                    ${sql.json(order as unknown as postgres.JSONValue)}
+                )
+                on conflict (id) do update set
+                    status = excluded.status,
+                    solver_id = excluded.solver_id,
+                    solver_address = excluded.solver_address,
+                    archived_at = excluded.archived_at,
+                    data = excluded.data
+            `
+        },
+
+        async get(id) {
+            const sql = await getSql()
+            const rows = await sql<{ data: Order }[]>`select data from order_archive where id = ${id}`
+            return rows[0]?.data || null
+        },
+
+        async delete(id) {
+            const sql = await getSql()
+            await sql`delete from order_archive where id = ${id}`
+        },
+
+        async query(filters, { cursor, limit }) {
+            const sql = await getSql()
+            const uid = filters.userId?.toLowerCase()
+            const rows = await sql<{ data: Order }[]>`
+                select data from order_archive
+                where true
+                ${filters.status ? sql`and status = ${filters.status}` : sql``}
+                ${filters.type ? sql`and type = ${filters.type}` : sql``}
+                ${uid ? sql`and (user_id = ${uid} or user_address = ${uid} or solver_address = ${uid})` : sql``}
+                ${filters.solverId ? sql`and solver_id = ${filters.solverId}` : sql``}
+                ${cursor ? sql`and (created_at, id) < (${cursor.createdAt}, ${cursor.id})` : sql``}
+                order by created_at desc, id desc
+                ${limit !== undefined ? sql`limit ${limit}` : sql``}
+            `
+            return rows.map(r => r.data)
+        },
+    }
+}
+
+// ─── Adapter selection ──────────────────────────────────
+
+const globalForArchive = globalThis as unknown as { _uwuOrderArchive?: OrderArchive | null }
+
+/**
+ * Get the configured archive (null = archiving disabled)
+ */
+export function getOrderArchive(): OrderArchive | null {
+    if (globalForArchive._uwuOrderArchive !== undefined) return globalForArchive._uwuOrderArchive
+
+    const url = process.env.ORDER_ARCHIVE_URL
+    let archive: OrderArchive | null = null
+
+    if (url?.startsWith("postgres://") || url?.startsWith("postgresql://")) {
+        archive = createPostgresArchive(url)
+    } else if (url?.startsWith("file:")) {
+        archive = createFileArchive(url.slice("file:".length))
+    } else if (url) {
+        console.warn(`[OrderArchive] ⚠️  Unsupported ORDER_ARCHIVE_URL scheme — archiving disabled`)
+    } else if (process.env.NODE_ENV !== "production") {
+        archive = createFileArchive(DEFAULT_FILE_PATH)
+    } else {
+        console.warn('[OrderArchive] ⚠️  ORDER_ARCHIVE_URL missing — terminal orders will be lost after the 24h Redis TTL')
+    }
+
+    if (archive) console.log(`[OrderArchive] Using ${archive.name}`)
+    globalForArchive._uwuOrderArchive = archive
+    return archive
+}
+
+// ─── Helpers ────────────────────────────────────────────
+
+function matchesFilters(order: Order, filters: OrderFilters): boolean {
+    if (filters.status && order.status !== filters.status) return false
+    if (filters.type && order.type !== filters.type) return false
+    if (filters.userId) {
+        const uid = filters.userId.toLowerCase()
+        if (
+            order.userId?.toLowerCase() !== uid &&
+            order.userAddress?.toLowerCase() !== uid &&
+            order.solverAddress?.toLowerCase() !== uid
+        ) return false
+    }
+    if (filters.solverId && order.solverId !== filters.solverId) return false
+    return true
+}
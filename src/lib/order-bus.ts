@@ -0,0 +1,187 @@
+import { getRedis, useRedis } from "@/lib/redis"
+import type { Order } from "@/lib/order-store"
+
+/**
+ * Order Event Bus
+ *
+ * WHY: SSE connections live in one serverless instance's memory, but an
+ * order can be created / updated on any instance. Every order event is
+ * published once to the bus; each instance subscribes once and fans the
+ * event out to the LP streams it holds.
+ *
+ * - Redis (Upstash) pub/sub when UPSTASH env vars are set
+ * - In-process stand-in otherwise (local dev: one instance, so it's enough)
+ *
+ * Every event gets a monotonically increasing ID and is kept in a bounded
+ * log, so a reconnecting LP (SSE Last-Event-ID) can replay what it missed.
+ */
+
+export interface OrderBusEvent {
+    id: number
+    type: "new_order" | "order_update"
+    order: Order
+    updateType?: string
+    timestamp: number
+}
+
+type OrderBusListener = (event: OrderBusEvent) => void
+
+interface OrderBus {
+    publish(event: OrderBusEvent): Promise<void>
+    subscribe(listener: OrderBusListener): () => void
+}
+
+const ORDER_EVENTS_CHANNEL = "order:events"
+const ORDER_EVENTS_SEQ = "order:events:seq"   // INCR counter → event IDs
+const ORDER_EVENTS_LOG = "order:events:log"   // sorted set of events scored by ID
+const EVENT_LOG_SIZE = 200                    // Replay window — older reconnects get a fresh snapshot
+
+// ─── Per-instance listener registry ─────────────────────
+const globalForBus = globalThis as unknown as {
+    _uwuOrderBusListeners?: Set<OrderBusListener>
+    _uwuOrderBusSubscribed?: boolean
+    _uwuOrderEventSeq?: number
+    _uwuOrderEventLog?: OrderBusEvent[]
+}
+if (!globalForBus._uwuOrderBusListeners) {
+    globalForBus._uwuOrderBusListeners = new Set()
+}
+if (!globalForBus._uwuOrderEventLog) {
+    globalForBus._uwuOrderEventLog = []
+}
+const listeners = globalForBus._uwuOrderBusListeners
+const memoryLog = globalForBus._uwuOrderEventLog
+
+function dispatch(event: OrderBusEvent) {
+    listeners.forEach(listener => {
+        try {
+            listener(event)
+        } catch (error) {
+            console.error('[OrderBus] Listener failed:', error)
+        }
+    })
+}
+
+// ─── In-process bus (dev) ───────────────────────────────
+const memoryBus: OrderBus = {
+    async publish(event) {
+        dispatch(event)
+    },
+    subscribe(listener) {
+        listeners.add(listener)
+        return () => { listeners.delete(listener) }
+    },
+}
+
+// ─── Redis pub/sub bus ──────────────────────────────────
+const redisBus: OrderBus = {
+    async publish(event) {
+        try {
+            await getRedis().publish(ORDER_EVENTS_CHANNEL, event)
+        } catch (error) {
+            // Don't lose the event for streams on this instance
+            console.error('[OrderBus] Publish failed, delivering locally only:', error)
+            dispatch(event)
+        }
+    },
+    subscribe(listener) {
+        listeners.add(listener)
+        ensureRedisSubscription()
+        return () => { listeners.delete(listener) }
+    },
+}
+
+/**
+ * One Redis subscription per instance, opened on the first SSE client.
+ * Our own publishes come back through it too, so local streams are
+ * delivered exactly once.
+ */
+function ensureRedisSubscription() {
+    if (globalForBus._uwuOrderBusSubscribed) return
+    globalForBus._uwuOrderBusSubscribed = true
+
+    const subscriber = getRedis().subscribe<OrderBusEvent>(ORDER_EVENTS_CHANNEL)
+    subscriber.on("message", ({ message }) => dispatch(message))
+    subscriber.on("error", (error) => {
+        console.error('[OrderBus] Subscription error — will resubscribe on next client:', error)
+        globalForBus._uwuOrderBusSubscribed = false
+        subscriber.unsubscribe().catch(() => {})
+    })
+}
+
+export function getOrderBus(): OrderBus {
+    return useRedis() ? redisBus : memoryBus
+}
+
+/**
+ * Publish an order event to every LP stream on every instance.
+ * Assigns the event ID and records it in the replay log first.
+ */
+export async function publishOrderEvent(event: Omit<OrderBusEvent, "id" | "timestamp">): Promise<void> {
+    const fullEvent: OrderBusEvent = { ...event, id: await nextEventId(), timestamp: Date.now() }
+    await appendToLog(fullEvent)
+    await getOrderBus().publish(fullEvent)
+}
+
+/**
+ * Latest event ID handed out (0 if none yet)
+ */
+export async function getLatestOrderEventId(): Promise<number> {
+    if (!useRedis()) return globalForBus._uwuOrderEventSeq || 0
+    try {
+        return Number(await getRedis().get<number>(ORDER_EVENTS_SEQ)) || 0
+    } catch (error) {
+        console.error('[OrderBus] Failed to read event sequence:', error)
+        return 0
+    }
+}
+
+/**
+ * Events after `lastEventId`, oldest first.
+ * `complete` is false when the log no longer reaches back that far
+ * (or the ID is from the future) — the caller should send a fresh snapshot.
+ */
+export async function getOrderEventsSince(lastEventId: number): Promise<{ events: OrderBusEvent[]; complete: boolean }> {
+    let events: OrderBusEvent[]
+    if (!useRedis()) {
+        events = memoryLog.filter(e => e.id > lastEventId)
+    } else {
+        try {
+            events = await getRedis().zrange<OrderBusEvent[]>(ORDER_EVENTS_LOG, `(${lastEventId}`, "+inf", { byScore: true })
+        } catch (error) {
+            console.error('[OrderBus] Failed to read event log:', error)
+            return { events: [], complete: false }
+        }
+    }
+
+    const latest = await getLatestOrderEventId()
+    const firstId = events.length > 0 ? events[0].id : latest + 1
+    return { events, complete: firstId === lastEventId + 1 }
+}
+
+// ─── Helpers ────────────────────────────────────────────
+
+async function nextEventId(): Promise<number> {
+    if (!useRedis()) {
+        globalForBus._uwuOrderEventSeq = (globalForBus._uwuOrderEventSeq || 0) + 1
+        return globalForBus._uwuOrderEventSeq
+    }
+    return getRedis().incr(ORDER_EVENTS_SEQ)
+}
+
+async function appendToLog(event: OrderBusEvent): Promise<void> {
+    if (!useRedis()) {
+        memoryLog.push(event)
+        if (memoryLog.length > EVENT_LOG_SIZE) memoryLog.splice(0, memoryLog.length - EVENT_LOG_SIZE)
+        return
+    }
+    try {
+        const pipeline = getRedis().pipeline()
+        pipeline.zadd(ORDER_EVENTS_LOG, { score: event.id, member: event })
+        pipeline.zremrangebyrank(ORDER_EVENTS_LOG, 0, -(EVENT_LOG_SIZE + 1))
+        await pipeline.exec()
+    } catch (error) {
+        // Live delivery still works — only replay for this event is lost
+        console.error('[OrderBus] Failed to append to event log:', error)
+    }
+}
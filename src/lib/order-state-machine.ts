@@ -0,0 +1,232 @@
+import type { Order, OrderStatus, OrderHistoryEntry } from "@/lib/order-store"
+
+/**
+ * Order State Machine
+ *
+ * Single source of truth for how an order's status may change.
+ * Every route (orders, validations, settlement, admin) goes through
+ * transitionOrder() instead of writing order.status directly, so an
+ * illegal jump (e.g. payment_pending → completed) is rejected the same
+ * way everywhere and every change lands in order.history.
+ *
+ *   created ──match──▶ matched ──add_qr──▶ payment_pending
+ *      │                  │ ▲                    │
+ *      │               release                   │
+ *      │                  └──────payment_sent────┴──▶ verifying ──complete──▶ completed ──settle──▶ settled
+ *      ├──cancel──▶ cancelled                            │                       │
+ *      └──expire──▶ expired                           dispute ◀──(24h window)────┘
+ *                                                        ▼
+ *                        disputed ──schedule_mediation──▶ mediation
+ *                            └────── resolve / refund (admin) ──┘
+ */
+
+export type OrderActor = OrderHistoryEntry["actor"]
+
+export type OrderEvent =
+    | "match"
+    | "release"
+    | "add_qr"
+    | "payment_sent"
+    | "complete"
+    | "dispute"
+    | "cancel"
+    | "expire"
+    | "resolve"
+    | "refund"
+    | "schedule_mediation"
+    | "settle"
+
+const DISPUTE_WINDOW_MS = 24 * 60 * 60 * 1000 // 24 hours after completion
+
+export interface TransitionContext {
+    actor: OrderActor
+    by?: string                 // Address / id of whoever triggered it
+    note?: string
+    now?: number
+    patch?: Partial<Order>      // Extra fields written with the transition (solver info, meet link, ...)
+}
+
+export type TransitionResult =
+    | { success: true; order: Order }
+    | { success: false; error: string; status: 400 | 403 }
+
+interface TransitionRule {
+    from: OrderStatus[]
+    to: OrderStatus
+    actors: OrderActor[]
+    /** Extra precondition — return an error message to reject */
+    guard?: (order: Order, ctx: TransitionContext, now: number) => string | null
+    /** Side effects applied after the status change */
+    effect?: (order: Order, ctx: TransitionContext, now: number) => void
+}
+
+/**
+ * Completion opens the 24h dispute window and the LP stake lock.
+ * USDC stays in escrow until the settlement worker releases it on-chain.
+ */
+function markCompleted(order: Order, _ctx: TransitionContext, now: number) {
+    order.completedAt = now
+    order.disputePeriodEndsAt = now + DISPUTE_WINDOW_MS
+    order.stakeLockExpiresAt = now + DISPUTE_WINDOW_MS
+}
+
+export const ORDER_TRANSITIONS: Record<OrderEvent, TransitionRule> = {
+    match: {
+        from: ["created"],
+        to: "matched",
+        actors: ["lp"],
+        guard: (order, ctx) => {
+            if (!ctx.patch?.solverId || !ctx.patch?.solverAddress) return "Missing solverId or solverAddress"
+            // Escrowed orders release to the LP the contract assigned
+            return order.escrowLp && order.escrowLp.toLowerCase() !== ctx.patch.solverAddress.toLowerCase()
+                ? "This order's escrow pays a different LP"
+                : null
+        },
+        effect: (order, _ctx, now) => {
+            order.matchedAt = now
+        },
+    },
+    release: {
+        // LP hands a matched order back to the pool
+        from: ["matched"],
+        to: "created",
+        actors: ["lp"],
+        effect: (order) => {
+            order.solverId = undefined
+            order.solverAddress = undefined
+            order.matchedAt = undefined
+        },
+    },
+    add_qr: {
+        from: ["matched"],
+        to: "payment_pending",
+        actors: ["user"],
+    },
+    payment_sent: {
+        // LP uploaded payment proof — DAO validators review next
+        from: ["matched", "payment_pending"],
+        to: "verifying",
+        actors: ["lp"],
+        effect: (order, _ctx, now) => {
+            order.paymentSentAt = now
+        },
+    },
+    complete: {
+        from: ["payment_sent", "verifying"],
+        to: "completed",
+        actors: ["user", "validator", "admin", "timer"],
+        effect: markCompleted,
+    },
+    dispute: {
+        from: ["matched", "payment_pending", "payment_sent", "verifying", "completed"],
+        to: "disputed",
+        // timer = dispute raised on-chain, picked up by the escrow indexer
+        actors: ["user", "lp", "validator", "timer"],
+        guard: (order, _ctx, now) => {
+            if (order.status !== "completed") return null
+            return order.disputePeriodEndsAt && order.disputePeriodEndsAt > now
+                ? null
+                : "Cannot dispute this order - dispute window has closed"
+        },
+    },
+    cancel: {
+        from: ["created"],
+        to: "cancelled",
+        actors: ["user", "admin"],
+    },
+    expire: {
+        from: ["created"],
+        to: "expired",
+        actors: ["timer"],
+    },
+    resolve: {
+        // Admin sides with the LP on a dispute or escalated validation
+        from: ["disputed", "mediation", "verifying"],
+        to: "completed",
+        actors: ["admin"],
+        effect: markCompleted,
+    },
+    refund: {
+        // Admin sides with the user — escrow goes back to them
+        from: ["disputed", "mediation", "verifying"],
+        to: "cancelled",
+        actors: ["admin"],
+    },
+    schedule_mediation: {
+        from: ["disputed", "mediation"],
+        to: "mediation",
+        actors: ["admin"],
+        effect: (order, _ctx, now) => {
+            order.mediationScheduledAt = now
+        },
+    },
+    settle: {
+        // Only after releaseEscrow is confirmed (settlement-worker.ts)
+        from: ["payment_sent", "completed"],
+        to: "settled",
+        actors: ["timer", "admin"],
+        effect: (order, _ctx, now) => {
+            order.settledAt = now
+        },
+    },
+}
+
+/**
+ * Check whether an event is currently allowed for an order (no mutation)
+ */
+export function canTransition(order: Order, event: OrderEvent, actor: OrderActor): boolean {
+    const rule = ORDER_TRANSITIONS[event]
+    return !!rule && rule.from.includes(order.status) && rule.actors.includes(actor)
+}
+
+/**
+ * Apply an event to an order.
+ *
+ * Mutates the order in place (status, side-effect fields, history) and
+ * returns it. Callers are responsible for persisting with
+ * compareAndSetOrder() / updateOrder().
+ */
+export function transitionOrder(order: Order, event: OrderEvent, ctx: TransitionContext): TransitionResult {
+    const rule = ORDER_TRANSITIONS[event]
+    if (!rule) {
+        return { success: false, error: `Unknown order event: ${event}`, status: 400 }
+    }
+
+    if (!rule.actors.includes(ctx.actor)) {
+        return { success: false, error: `${ctx.actor} cannot ${event} an order`, status: 403 }
+    }
+
+    if (!rule.from.includes(order.status)) {
+        return {
+            success: false,
+            error: `Cannot ${event} order in status ${order.status}`,
+            status: 400,
+        }
+    }
+
+    const now = ctx.now ?? Date.now()
+    const guardError = rule.guard?.(order, ctx, now)
+    if (guardError) {
+        return { success: false, error: guardError, status: 400 }
+    }
+
+    const from = order.status
+    if (ctx.patch) Object.assign(order, ctx.patch)
+    order.status = rule.to
+    rule.effect?.(order, ctx, now)
+
+    order.history = [
+        ...(order.history || []),
+        {
+            event,
+            from,
+            to: rule.to,
+            actor: ctx.actor,
+            by: ctx.by,
+            note: ctx.note,
+            at: now,
+        },
+    ]
+
+    return { success: true, order }
+}
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { OrderArchive } from "@/lib/order-archive"
+import { type Order, type OrderCursor, deleteOrder, getAllOrders, queryOrders, setOrder } from "@/lib/order-store"
+
+/**
+ * queryOrders — hot store (memory in tests) merged with the archive
+ *
+ * The archive is swapped for an in-memory fake through the same globalThis
+ * slot getOrderArchive() caches it in.
+ */
+
+const archived = new Map<string, Order>()
+
+const fakeArchive: OrderArchive = {
+    name: "test",
+    put: async (order) => { archived.set(order.id, structuredClone(order)) },
+    get: async (id) => archived.get(id) ?? null,
+    delete: async (id) => { archived.delete(id) },
+    query: async (filters, { cursor, limit }) => {
+        const rows = [...archived.values()]
+            .filter(o => !filters.status || o.status === filters.status)
+            .filter(o => !cursor || o.createdAt < cursor.createdAt || (o.createdAt === cursor.createdAt && o.id < cursor.id))
+            .sort((a, b) => b.createdAt - a.createdAt || (a.id < b.id ? 1 : -1))
+        return limit === undefined ? rows : rows.slice(0, limit)
+    },
+}
+;(globalThis as unknown as { _uwuOrderArchive?: OrderArchive })._uwuOrderArchive = fakeArchive
+
+function order(id: string, createdAt: number, status: Order["status"] = "disputed"): Order {
+    return {
+        id, type: "sell", status, createdAt, expiresAt: createdAt + 900_000,
+        userId: "0xuser", userAddress: "0xuser", amountUsdc: 10, amountFiat: 900,
+        fiatCurrency: "INR", paymentMethod: "UPI", paymentDetails: "user@upi",
+    }
+}
+
+beforeEach(async () => {
+    for (const o of await getAllOrders()) await deleteOrder(o.id)
+    archived.clear()
+})
+
+describe("queryOrders", () => {
+    it("lists an archived order newer than a live one", async () => {
+        await setOrder(order("hot-old", 100))
+        await setOrder(order("hot-mid", 200))
+        archived.set("arch-new", order("arch-new", 300, "settled"))
+
+        const first = await queryOrders({}, { limit: 2 })
+        expect(first.orders.map(o => o.id)).toEqual(["arch-new", "hot-mid"])
+        expect(first.nextCursor).toEqual({ createdAt: 200, id: "hot-mid" })
+
+        const second = await queryOrders({}, { cursor: first.nextCursor!, limit: 2 })
+        expect(second.orders.map(o => o.id)).toEqual(["hot-old"])
+        expect(second.nextCursor).toBeNull()
+    })
+
+    it("interleaves both stores across pages without gaps or repeats", async () => {
+        for (const t of [100, 300, 500]) await setOrder(order(`hot-${t}`, t))
+        for (const t of [200, 400, 600]) archived.set(`arch-${t}`, order(`arch-${t}`, t, "settled"))
+
+        const ids: string[] = []
+        let cursor: OrderCursor | undefined
+        do {
+            const page = await queryOrders({}, { cursor, limit: 2 })
+            ids.push(...page.orders.map(o => o.id))
+            cursor = page.nextCursor ?? undefined
+        } while (cursor)
+
+        expect(ids).toEqual(["arch-600", "hot-500", "arch-400", "hot-300", "arch-200", "hot-100"])
+    })
+
+    it("returns the hot copy of an order that is in both", async () => {
+        const live = order("both", 100, "completed")     // setOrder archives completed orders too
+        await setOrder(live)
+        archived.set("both", { ...order("both", 100, "completed"), paymentDetails: "stale@upi" })
+
+        const { orders } = await queryOrders({}, { limit: 10 })
+        expect(orders).toHaveLength(1)
+        expect(orders[0].paymentDetails).toBe("user@upi")
+    })
+})
@@ -1,4 +1,7 @@
 import { getRedis, useRedis } from "@/lib/redis"
+import { getOrderArchive } from "@/lib/order-archive"
+import type { QRPayee } from "@/lib/qr-image-decoder"
+import type { RiskLevel } from "@/lib/platform-config"
 
 /**
  * Redis-backed Order Store
@@ -9,12 +12,34 @@ import { getRedis, useRedis } from "@/lib/redis"
  * 
  * Free tier: 10K commands/day — plenty for a hackathon.
  * Setup: https://console.upstash.com → Create Redis DB → copy REST URL + Token
+ *
+ * Redis is the hot store. Orders that can still move (incl. `completed`,
+ * waiting out its dispute window before settlement) never expire there;
+ * terminal orders get a 24h TTL. Completed and terminal orders are also
+ * copied to the durable archive (order-archive.ts) and reads fall through to it.
  */
 
+export type OrderStatus =
+    | "created" | "matched" | "payment_pending" | "payment_sent" | "completed" | "disputed"
+    | "mediation" | "cancelled" | "expired" | "settled" | "verifying"
+
+/**
+ * One entry per status transition, appended by the order state machine.
+ */
+export interface OrderHistoryEntry {
+    event: string
+    from: OrderStatus
+    to: OrderStatus
+    actor: "user" | "lp" | "validator" | "admin" | "timer"
+    by?: string          // Address / id of whoever triggered it
+    note?: string
+    at: number
+}
+
 export interface Order {
     id: string
     type: "buy" | "sell"
-    status: "created" | "matched" | "payment_pending" | "payment_sent" | "completed" | "disputed" | "mediation" | "cancelled" | "expired" | "settled" | "verifying"
+    status: OrderStatus
     userId: string
     userAddress: string
     amountUsdc: number
@@ -23,6 +48,7 @@ export interface Order {
     paymentMethod: string
     paymentDetails: string
     qrImage?: string
+    qrPayee?: QRPayee                // Decoded from qrImage on upload (qr-image-decoder.ts)
     lpPaymentProof?: string
     createdAt: number
     expiresAt: number
@@ -34,10 +60,27 @@ export interface Order {
     stakeLockExpiresAt?: number
     completedAt?: number
     settledAt?: number
+    // On-chain escrow (P2PEscrowV5) — see escrow-verification.ts
+    escrowId?: string                // bytes32 orderId passed to createEscrow
+    escrowTxHash?: string            // createEscrow tx, verified before the order went live
+    escrowLp?: string                // LP the contract assigned
+    lockedRate?: number              // fiatCurrency per USDC the order is priced at (escrow / quote / oracle)
+    midRate?: number                 // Oracle mid when priced — LP spreads are measured from it
+    rateSource?: string              // Where lockedRate came from, e.g. "quote:coingecko+binance_p2p"
+    quoteId?: string                 // Rate quote redeemed for this order (rate-lock.ts)
+    riskScore?: number               // Fraud score at creation (fraud-detection.ts) — picks the DAO fallback
+    riskLevel?: RiskLevel
+    refundTxHash?: string            // EscrowRefunded (indexer)
+    disputeTxHash?: string           // DisputeRaised / AutoDisputeTriggered (indexer)
+    settlementTxHash?: string        // releaseEscrow tx (settlement-worker.ts)
+    settlementSubmittedAt?: number
+    settlementError?: string         // Last failed settlement attempt
     meetLink?: string
     mediationScheduledAt?: number
     mediationEmail?: string
     disputeReason?: string
+    history?: OrderHistoryEntry[]
+    version?: number     // Bumped on every write — used for compare-and-set
 }
 
 // ─── In-memory fallback (dev only) ─────────────────────
@@ -48,8 +91,126 @@ if (!globalForMemory._uwuOrdersFallback) {
 const memoryStore = globalForMemory._uwuOrdersFallback
 
 // Redis key helpers
-const ORDER_KEY = (id: string) => `order:${id}`
+const ORDER_KEY_PREFIX = "order:"
+const ORDER_KEY = (id: string) => `${ORDER_KEY_PREFIX}${id}`
 const ORDER_INDEX_KEY = "order:index" // sorted set of order IDs by createdAt
+// Secondary sorted-set indexes (also scored by createdAt), maintained by the Lua scripts below
+const ORDER_STATUS_INDEX = (status: string) => `${ORDER_KEY_PREFIX}status:${status}`
+const ORDER_USER_INDEX = (userId: string) => `${ORDER_KEY_PREFIX}user:${userId.toLowerCase()}`
+const ORDER_SOLVER_INDEX = (solverId: string) => `${ORDER_KEY_PREFIX}solver:${solverId}`
+const TERMINAL_ORDER_TTL_SECONDS = 86400 // 24h once terminal — older orders live on in the archive
+
+// Orders that can't change any more → expire from Redis.
+// (Admin refunds land in "cancelled".)
+export const TERMINAL_STATUSES: OrderStatus[] = ["settled", "cancelled", "expired"]
+
+// Copied to the durable archive: terminal orders, plus completed ones so an
+// order awaiting settlement survives a lost Redis key
+export const ARCHIVED_STATUSES: OrderStatus[] = [...TERMINAL_STATUSES, "completed"]
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 200
+const SCAN_BATCH = 200 // IDs fetched per round-trip when walking an index
+const UPDATE_ATTEMPTS = 5 // updateOrder re-reads this many times before giving up
+
+/**
+ * Lua helper shared by the write/delete scripts: every secondary index
+ * an order belongs to. Must mirror ORDER_STATUS_INDEX / ORDER_USER_INDEX /
+ * ORDER_SOLVER_INDEX above. `p` is ORDER_KEY_PREFIX.
+ */
+const INDEX_KEYS_LUA = `
+local function indexKeys(p, o)
+    local keys = { p .. 'status:' .. o.status }
+    if o.userId then keys[#keys + 1] = p .. 'user:' .. string.lower(o.userId) end
+    if o.userAddress then keys[#keys + 1] = p .. 'user:' .. string.lower(o.userAddress) end
+    if o.solverAddress then keys[#keys + 1] = p .. 'user:' .. string.lower(o.solverAddress) end
+    if o.solverId then keys[#keys + 1] = p .. 'solver:' .. o.solverId end
+    return keys
+end
+`
+
+/**
+ * Lua write: store the order and move it between secondary indexes
+ * (status change, LP release, ...) in one atomic step.
+ *
+ * If ARGV[1] is non-empty it's a compare-and-set: only write if the stored
+ * version still matches, so two solvers racing on the same order can't both win.
+ *
+ * KEYS[1] = order key, KEYS[2] = main index key
+ * ARGV = expectedVersion | '', orderJson, ttl (0 = no expiry), createdAt, orderId, keyPrefix
+ */
+const WRITE_SCRIPT = INDEX_KEYS_LUA + `
+local current = redis.call('GET', KEYS[1])
+local prev = nil
+if current then prev = cjson.decode(current) end
+if ARGV[1] ~= '' then
+    local version = 0
+    if prev then version = tonumber(prev.version) or 0 end
+    if version ~= tonumber(ARGV[1]) then
+        return 0
+    end
+end
+local order = cjson.decode(ARGV[2])
+local score = tonumber(ARGV[4])
+local id = ARGV[5]
+if tonumber(ARGV[3]) > 0 then
+    redis.call('SET', KEYS[1], ARGV[2], 'EX', tonumber(ARGV[3]))
+else
+    redis.call('SET', KEYS[1], ARGV[2])
+end
+redis.call('ZADD', KEYS[2], score, id)
+local keep = {}
+for _, key in ipairs(indexKeys(ARGV[6], order)) do
+    keep[key] = true
+    redis.call('ZADD', key, score, id)
+end
+if prev then
+    for _, key in ipairs(indexKeys(ARGV[6], prev)) do
+        if not keep[key] then redis.call('ZREM', key, id) end
+    end
+end
+return 1
+`
+
+/**
+ * Lua delete: drop the order and every index entry pointing at it.
+ *
+ * KEYS[1] = order key, KEYS[2] = main index key
+ * ARGV = orderId, keyPrefix
+ */
+const DELETE_SCRIPT = INDEX_KEYS_LUA + `
+local current = redis.call('GET', KEYS[1])
+if current then
+    for _, key in ipairs(indexKeys(ARGV[2], cjson.decode(current))) do
+        redis.call('ZREM', key, ARGV[1])
+    end
+end
+redis.call('DEL', KEYS[1])
+redis.call('ZREM', KEYS[2], ARGV[1])
+return 1
+`
+
+export interface OrderFilters {
+    status?: string
+    type?: string
+    userId?: string
+    solverId?: string
+}
+
+/**
+ * Position in a newest-first walk. createdAt alone isn't unique — orders
+ * created in the same millisecond are ordered by ID (descending, like the
+ * Redis sorted sets), so the pair is.
+ */
+export interface OrderCursor {
+    createdAt: number
+    id: string
+}
+
+export interface OrderPage {
+    orders: Order[]
+    nextCursor: OrderCursor | null   // Last order on the page — pass back as `cursor` for the next page
+}
 
 // ─── Order Store API ────────────────────────────────────
 
@@ -58,15 +219,17 @@ const ORDER_INDEX_KEY = "order:index" // sorted set of order IDs by createdAt
  */
 export async function getOrder(id: string): Promise<Order | null> {
     if (!useRedis()) {
-        return memoryStore.get(id) || null
+        // Copy so in-flight mutations don't leak into the store before compareAndSetOrder
+        const order = memoryStore.get(id)
+        return order ? { ...order } : await getArchivedOrder(id)
     }
 
     try {
         const order = await getRedis().get<Order>(ORDER_KEY(id))
-        return order
+        return order || await getArchivedOrder(id)
     } catch (error) {
         console.error('[OrderStore] Failed to get order:', error)
-        return memoryStore.get(id) || null
+        return memoryStore.get(id) || await getArchivedOrder(id)
     }
 }
 
@@ -74,84 +237,241 @@ export async function getOrder(id: string): Promise<Order | null> {
  * Save/update an order
  */
 export async function setOrder(order: Order): Promise<void> {
+    order.version = (order.version || 0) + 1
+
     // Always update memory (for SSE broadcast on same instance)
     memoryStore.set(order.id, order)
 
-    if (!useRedis()) return
+    if (useRedis()) {
+        try {
+            // Store order data (TTL once terminal) + keep all indexes in sync
+            await writeOrder(order, '')
+        } catch (error) {
+            console.error('[OrderStore] Failed to set order:', error)
+        }
+    }
+
+    await maybeArchive(order)
+}
+
+/**
+ * Compare-and-set an order.
+ *
+ * Writes `order` only if the stored copy is still at `expectedVersion`
+ * (the version read before mutating). Returns false on conflict — the
+ * caller lost a race and should re-read / report 409.
+ */
+export async function compareAndSetOrder(order: Order, expectedVersion: number): Promise<boolean> {
+    const nextVersion = expectedVersion + 1
+
+    if (!useRedis()) {
+        // Single-threaded: no await between check and write, so this is atomic
+        const current = memoryStore.get(order.id)
+        if ((current?.version || 0) !== expectedVersion) return false
+        order.version = nextVersion
+        memoryStore.set(order.id, order)
+        await maybeArchive(order)
+        return true
+    }
 
     try {
-        const redis = getRedis()
-        // Store order data with 24h TTL (orders older than that are useless)
-        await redis.set(ORDER_KEY(order.id), order, { ex: 86400 })
-        // Add to sorted index by createdAt for range queries
-        await redis.zadd(ORDER_INDEX_KEY, { score: order.createdAt, member: order.id })
+        const written = await writeOrder({ ...order, version: nextVersion }, expectedVersion)
+        if (!written) return false
+
+        order.version = nextVersion
+        memoryStore.set(order.id, order)
+        await maybeArchive(order)
+        return true
     } catch (error) {
-        console.error('[OrderStore] Failed to set order:', error)
+        // Fail closed — better a retry than a double-match
+        console.error('[OrderStore] Failed to compare-and-set order:', error)
+        return false
     }
 }
 
+/**
+ * Read-modify-write an order under compare-and-set.
+ *
+ * For background writers (workers, indexer) that can't hand a 409 back to
+ * anyone: on a conflict the order is re-read and `mutate` re-applied to
+ * the fresh copy. `mutate` returns false to leave the order alone (e.g.
+ * the transition no longer applies). Returns the written order, or null
+ * if it's missing, was skipped, or kept conflicting.
+ */
+export async function updateOrder(id: string, mutate: (order: Order) => boolean): Promise<Order | null> {
+    for (let attempt = 0; attempt < UPDATE_ATTEMPTS; attempt++) {
+        const order = await getOrder(id)
+        if (!order) return null
+
+        const expectedVersion = order.version || 0
+        if (!mutate(order)) return null
+        if (await compareAndSetOrder(order, expectedVersion)) return order
+    }
+    console.warn(`[OrderStore] Gave up updating order ${id} after ${UPDATE_ATTEMPTS} conflicting writes`)
+    return null
+}
+
 /**
  * Delete an order
  */
 export async function deleteOrder(id: string): Promise<void> {
     memoryStore.delete(id)
 
-    if (!useRedis()) return
+    if (useRedis()) {
+        try {
+            await getRedis().eval<string[], number>(
+                DELETE_SCRIPT,
+                [ORDER_KEY(id), ORDER_INDEX_KEY],
+                [id, ORDER_KEY_PREFIX]
+            )
+        } catch (error) {
+            console.error('[OrderStore] Failed to delete order:', error)
+        }
+    }
 
     try {
-        const redis = getRedis()
-        await redis.del(ORDER_KEY(id))
-        await redis.zrem(ORDER_INDEX_KEY, id)
+        await getOrderArchive()?.delete(id)
     } catch (error) {
-        console.error('[OrderStore] Failed to delete order:', error)
+        console.error('[OrderStore] Failed to delete archived order:', error)
     }
 }
 
 /**
  * Get all orders (with optional filters)
  */
-export async function getAllOrders(filters?: {
-    status?: string
-    type?: string
-    userId?: string
-    solverId?: string
-}): Promise<Order[]> {
+export async function getAllOrders(filters?: OrderFilters): Promise<Order[]> {
+    const { orders } = await queryOrders(filters)
+    return orders
+}
+
+/**
+ * Get one page of orders, newest first.
+ *
+ * Walks the most selective secondary index for the filters
+ * (solver → user → status → everything) instead of loading the whole table.
+ * The archive is read from the same cursor and merged in (createdAt, id)
+ * order — an archived order can be newer than one still live in Redis,
+ * e.g. a long-running dispute. The hot copy wins when an order is in both.
+ * Omit `limit` to read every matching order.
+ */
+export async function queryOrders(
+    filters?: OrderFilters,
+    page?: { cursor?: OrderCursor; limit?: number }
+): Promise<OrderPage> {
+    const hot = await queryHotOrders(filters, page)
+    const limit = page?.limit
+
+    // The filter can't match an archived order
+    const archive = getOrderArchive()
+    if (!archive || (filters?.status && !ARCHIVED_STATUSES.includes(filters.status as OrderStatus))) {
+        return hot
+    }
+
+    try {
+        // +1 to know whether there's a next page, plus slack for duplicates of hot orders
+        const archiveLimit = limit === undefined ? undefined : limit + 1 + hot.orders.length
+        const archived = await archive.query(filters || {}, { cursor: page?.cursor, limit: archiveLimit })
+
+        // Each source is only complete up to its last row if it has more
+        const bounds: OrderCursor[] = []
+        if (hot.nextCursor) bounds.push(hot.nextCursor)
+        if (archiveLimit !== undefined && archived.length === archiveLimit) {
+            bounds.push(toCursor(archived[archived.length - 1]))
+        }
+        const bound = bounds.sort(compareNewestFirst)[0]
+
+        const seen = new Set(hot.orders.map(o => o.id))
+        const merged = [...hot.orders, ...archived.filter(o => !seen.has(o.id))]
+            .filter(o => !bound || !isBefore(o, bound))
+            .sort(compareNewestFirst)
+
+        if (limit === undefined || (merged.length <= limit && !bound)) {
+            return { orders: merged, nextCursor: null }
+        }
+        const pageOrders = merged.slice(0, limit)
+        const last = pageOrders[pageOrders.length - 1]
+        return { orders: pageOrders, nextCursor: last ? toCursor(last) : null }
+    } catch (error) {
+        console.error('[OrderStore] Failed to read order archive:', error)
+        return hot
+    }
+}
+
+/**
+ * Hot-store half of queryOrders (Redis, or memory in dev)
+ */
+async function queryHotOrders(
+    filters?: OrderFilters,
+    page?: { cursor?: OrderCursor; limit?: number }
+): Promise<OrderPage> {
+    const limit = page?.limit
+    const cursor = page?.cursor
+
     if (!useRedis()) {
-        let orders = Array.from(memoryStore.values())
-        return applyFilters(orders, filters)
+        return paginate(memoryOrders(filters, cursor), limit)
     }
 
     try {
         const redis = getRedis()
-        // Get all order IDs from sorted set (most recent first)
-        const orderIds = await redis.zrange(ORDER_INDEX_KEY, 0, -1, { rev: true }) as string[]
+        const indexKey = pickIndex(filters)
+        const orders: Order[] = []
+        // Inclusive max — same-millisecond orders at the boundary are told apart by ID below
+        let after = cursor
+        let max: number | "+inf" = cursor ? cursor.createdAt : "+inf"
+        let offset = 0
 
-        if (orderIds.length === 0) return []
+        // Keep walking until we have one more than the page (tells us there's a next page)
+        while (limit === undefined || orders.length <= limit) {
+            // Flat [id, score, id, score, ...] — most recent first, same score by ID descending
+            const raw = await redis.zrange(indexKey, max, "-inf", {
+                byScore: true,
+                rev: true,
+                withScores: true,
+                offset,
+                count: SCAN_BATCH,
+            }) as (string | number)[]
+            if (raw.length === 0) break
 
-        // Fetch all orders in parallel using pipeline
-        const pipeline = redis.pipeline()
-        for (const id of orderIds) {
-            pipeline.get<Order>(ORDER_KEY(id))
-        }
-        const results = await pipeline.exec<(Order | null)[]>()
+            const entries: OrderCursor[] = []
+            for (let i = 0; i < raw.length; i += 2) entries.push({ id: String(raw[i]), createdAt: Number(raw[i + 1]) })
+            const orderIds = entries.filter(e => !after || isBefore(e, after)).map(e => e.id)
+
+            // Fetch this batch in parallel using pipeline
+            const pipeline = redis.pipeline()
+            for (const id of orderIds) {
+                pipeline.get<Order>(ORDER_KEY(id))
+            }
+            const results = orderIds.length > 0 ? await pipeline.exec<(Order | null)[]>() : []
+
+            // Clean up expired from the index we walked
+            const expiredIds = orderIds.filter((_, i) => results[i] === null)
+            if (expiredIds.length > 0) {
+                const cleanupPipeline = redis.pipeline()
+                for (const id of expiredIds) {
+                    cleanupPipeline.zrem(indexKey, id)
+                }
+                cleanupPipeline.exec().catch(() => {})
+            }
 
-        let orders = results.filter((o): o is Order => o !== null)
+            orders.push(...applyFilters(results.filter((o): o is Order => o !== null), filters))
 
-        // Clean up expired from index
-        const expiredIds = orderIds.filter((_, i) => results[i] === null)
-        if (expiredIds.length > 0) {
-            const cleanupPipeline = redis.pipeline()
-            for (const id of expiredIds) {
-                cleanupPipeline.zrem(ORDER_INDEX_KEY, id)
+            if (entries.length < SCAN_BATCH) break
+            const last = entries[entries.length - 1]
+            if (entries[0].createdAt === last.createdAt) {
+                // A whole batch in one millisecond — step past it by offset within the same range
+                offset += entries.length
+            } else {
+                offset = 0
+                after = last
+                max = last.createdAt
             }
-            cleanupPipeline.exec().catch(() => {})
         }
 
-        return applyFilters(orders, filters)
+        return paginate(orders, limit)
     } catch (error) {
-        console.error('[OrderStore] Failed to get all orders:', error)
+        console.error('[OrderStore] Failed to query orders:', error)
         // Fallback to memory
-        return applyFilters(Array.from(memoryStore.values()), filters)
+        return paginate(memoryOrders(filters, cursor), limit)
     }
 }
 
@@ -159,10 +479,16 @@ export async function getAllOrders(filters?: {
  * Delete all orders for a user
  */
 export async function deleteOrdersForUser(userId: string): Promise<number> {
-    const allOrders = await getAllOrders()
+    const [asUser, asSolver] = await Promise.all([
+        getAllOrders({ userId }),
+        getAllOrders({ solverId: userId }),
+    ])
+    const seen = new Set<string>()
     let deleted = 0
 
-    for (const order of allOrders) {
+    for (const order of [...asUser, ...asSolver]) {
+        if (seen.has(order.id)) continue
+        seen.add(order.id)
         if (order.userId === userId || order.solverId === userId) {
             await deleteOrder(order.id)
             deleted++
@@ -174,12 +500,104 @@ export async function deleteOrdersForUser(userId: string): Promise<number> {
 
 // ─── Helpers ────────────────────────────────────────────
 
-function applyFilters(orders: Order[], filters?: {
-    status?: string
-    type?: string
-    userId?: string
-    solverId?: string
-}): Order[] {
+async function maybeArchive(order: Order): Promise<void> {
+    // Also on the way out of an archived status (completed → disputed), so the copy isn't stale
+    const leaving = order.history?.[order.history.length - 1]?.from
+    if (!ARCHIVED_STATUSES.includes(order.status) && !(leaving && ARCHIVED_STATUSES.includes(leaving))) return
+    const archive = getOrderArchive()
+    if (!archive) return
+
+    try {
+        await archive.put(order)
+    } catch (error) {
+        // Redis copy is still there (24h once terminal) — the next write retries
+        console.error(`[OrderStore] Failed to archive order ${order.id}:`, error)
+    }
+}
+
+async function getArchivedOrder(id: string): Promise<Order | null> {
+    const archive = getOrderArchive()
+    if (!archive) return null
+
+    try {
+        return await archive.get(id)
+    } catch (error) {
+        console.error('[OrderStore] Failed to read order archive:', error)
+        return null
+    }
+}
+
+async function writeOrder(order: Order, expectedVersion: number | ''): Promise<boolean> {
+    const written = await getRedis().eval<(string | number)[], number>(
+        WRITE_SCRIPT,
+        [ORDER_KEY(order.id), ORDER_INDEX_KEY],
+        [
+            String(expectedVersion),
+            JSON.stringify(order),
+            TERMINAL_STATUSES.includes(order.status) ? TERMINAL_ORDER_TTL_SECONDS : 0,
+            order.createdAt,
+            order.id,
+            ORDER_KEY_PREFIX,
+        ]
+    )
+    return written === 1
+}
+
+function pickIndex(filters?: OrderFilters): string {
+    if (filters?.solverId) return ORDER_SOLVER_INDEX(filters.solverId)
+    if (filters?.userId) return ORDER_USER_INDEX(filters.userId)
+    if (filters?.status) return ORDER_STATUS_INDEX(filters.status)
+    return ORDER_INDEX_KEY
+}
+
+function memoryOrders(filters?: OrderFilters, cursor?: OrderCursor): Order[] {
+    return applyFilters(Array.from(memoryStore.values()), filters)
+        .filter(o => !cursor || isBefore(o, cursor))
+        .sort(compareNewestFirst)
+}
+
+function paginate(orders: Order[], limit?: number): OrderPage {
+    if (limit === undefined || orders.length <= limit) {
+        return { orders, nextCursor: null }
+    }
+    const pageOrders = orders.slice(0, limit)
+    return { orders: pageOrders, nextCursor: toCursor(pageOrders[pageOrders.length - 1]) }
+}
+
+function toCursor(order: Order): OrderCursor {
+    return { createdAt: order.createdAt, id: order.id }
+}
+
+/**
+ * Does `a` come after `cursor` in a newest-first walk?
+ */
+function isBefore(a: OrderCursor, cursor: OrderCursor): boolean {
+    return a.createdAt < cursor.createdAt || (a.createdAt === cursor.createdAt && a.id < cursor.id)
+}
+
+/**
+ * Newest first, same millisecond by ID descending — the Redis index order
+ */
+function compareNewestFirst(a: OrderCursor, b: OrderCursor): number {
+    return b.createdAt - a.createdAt || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+}
+
+/**
+ * `nextCursor` on the wire: "<createdAt>:<id>"
+ */
+export function formatOrderCursor(cursor: OrderCursor): string {
+    return `${cursor.createdAt}:${cursor.id}`
+}
+
+export function parseOrderCursor(value: string): OrderCursor | null {
+    const sep = value.indexOf(":")
+    if (sep <= 0) return null
+    const createdAt = Number(value.slice(0, sep))
+    const id = value.slice(sep + 1)
+    return Number.isFinite(createdAt) && id ? { createdAt, id } : null
+}
+
+function applyFilters(orders: Order[], filters?: OrderFilters): Order[] {
     if (!filters) return orders
 
     if (filters.status) {
@@ -191,7 +609,7 @@ function applyFilters(orders: Order[], filters?: {
     if (filters.userId) {
         const uid = filters.userId.toLowerCase()
         orders = orders.filter(o =>
-            o.userId === filters.userId ||
+            o.userId?.toLowerCase() === uid ||
             o.userAddress?.toLowerCase() === uid ||
             o.solverAddress?.toLowerCase() === uid
         )
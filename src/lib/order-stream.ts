@@ -0,0 +1,188 @@
+import type { NextRequest } from "next/server"
+import type { Order } from "@/lib/order-store"
+import type { RedactedOrder } from "@/lib/policy"
+import {
+    type OrderBusEvent,
+    getOrderBus,
+    getOrderEventsSince,
+    getLatestOrderEventId,
+} from "@/lib/order-bus"
+
+/**
+ * Resumable Order Event Stream (SSE)
+ *
+ * WHY: The LP feed and the per-user stream both need the same plumbing —
+ * subscribe to the order bus, replay from Last-Event-ID, fall back to a
+ * snapshot, buffer live events while catching up, keep-alive pings.
+ *
+ * Every order event carries an `id:` line. On reconnect the browser sends
+ * Last-Event-ID (or the client passes ?lastEventId= when it opens a fresh
+ * EventSource) and missed events are replayed from the bus log. If the log
+ * no longer reaches back that far, a fresh snapshot is sent instead, tagged
+ * with the current event ID.
+ *
+ * IDs come from one INCR, but two instances can publish out of order. An
+ * event that arrives ahead of a gap is held back; if the gap hasn't filled
+ * after GAP_WAIT_MS it's read back from the event log, and only IDs the
+ * log doesn't have either are skipped. A skipped event that turns up later
+ * is still sent with its own ID — clients resume from the highest ID they
+ * have seen and apply orders by version.
+ */
+
+const GAP_WAIT_MS = 2_000
+const MAX_SKIPPED_IDS = 100
+
+export interface OrderStreamOptions {
+    /** Used in logs */
+    label: string
+    /** Only events for which this returns true are sent (default: all) */
+    filter?: (order: Order) => boolean
+    /** Applied to every order before it's sent, e.g. to strip fields this viewer may not see */
+    redact?: (order: Order) => Order | RedactedOrder
+    /** Builds the snapshot message sent on fresh connect / too-far-behind reconnect */
+    snapshot: () => Promise<Record<string, unknown>>
+    onOpen?: (controller: ReadableStreamDefaultController) => void
+    onClose?: () => void
+}
+
+export function createOrderEventStream(request: NextRequest, options: OrderStreamOptions): Response {
+    const { label, filter, redact, snapshot, onOpen, onClose } = options
+
+    const lastEventIdRaw = request.headers.get("last-event-id") || request.nextUrl.searchParams.get("lastEventId")
+    const lastEventId = lastEventIdRaw ? Number(lastEventIdRaw) : NaN
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            onOpen?.(controller)
+
+            // Send initial connection message
+            const connectMessage = JSON.stringify({
+                type: "connected",
+                message: "Connected to order feed",
+                timestamp: Date.now(),
+            })
+            controller.enqueue(`data: ${connectMessage}\n\n`)
+
+            // Events are sent in ID order, never twice
+            let lastSentId = 0
+            const held = new Map<number, OrderBusEvent>()   // Arrived ahead of a gap
+            const skipped = new Set<number>()                // Gave up waiting — still delivered if they turn up
+            let gapTimer: ReturnType<typeof setTimeout> | null = null
+
+            const write = (event: OrderBusEvent) => {
+                if (filter && !filter(event.order)) return
+                const payload = redact ? { ...event, order: redact(event.order) } : event
+                controller.enqueue(`id: ${event.id}\ndata: ${JSON.stringify(payload)}\n\n`)
+            }
+
+            const sendEvent = (event: OrderBusEvent) => {
+                if (event.id <= lastSentId) {
+                    if (skipped.delete(event.id)) write(event)
+                    return
+                }
+                held.set(event.id, event)
+                let next
+                while ((next = held.get(lastSentId + 1))) {
+                    held.delete(next.id)
+                    write(next)
+                    lastSentId = next.id
+                }
+                if (held.size > 0 && !gapTimer) gapTimer = setTimeout(fillGap, GAP_WAIT_MS)
+            }
+
+            // Gap still open — take what the event log has, skip the rest
+            const fillGap = async () => {
+                gapTimer = null
+                if (held.size === 0) return
+                try {
+                    const { events } = await getOrderEventsSince(lastSentId)
+                    for (const event of events) {
+                        if (event.id > lastSentId) held.set(event.id, event)
+                    }
+                    const upTo = Math.max(...held.keys())
+                    for (let id = lastSentId + 1; id <= upTo; id++) {
+                        const event = held.get(id)
+                        if (event) write(event)
+                        else skipped.add(id)
+                    }
+                    if (skipped.size > MAX_SKIPPED_IDS) {
+                        [...skipped].slice(0, skipped.size - MAX_SKIPPED_IDS).forEach(id => skipped.delete(id))
+                    }
+                    held.clear()
+                    lastSentId = upTo
+                } catch (error) {
+                    console.error(`[SSE] Failed to fill event gap for ${label}:`, error)
+                }
+            }
+
+            // Subscribe BEFORE replaying so nothing published meanwhile is lost —
+            // live events are buffered until the replay / snapshot is out
+            let buffered: OrderBusEvent[] | null = []
+            const unsubscribe = getOrderBus().subscribe((event: OrderBusEvent) => {
+                try {
+                    if (buffered) buffered.push(event)
+                    else sendEvent(event)
+                } catch (error) {
+                    console.error(`[SSE] Failed to send to ${label}:`, error)
+                    unsubscribe()
+                    onClose?.()
+                }
+            })
+
+            try {
+                const replay = Number.isInteger(lastEventId) && lastEventId >= 0
+                    ? await getOrderEventsSince(lastEventId)
+                    : null
+
+                if (replay?.complete) {
+                    lastSentId = lastEventId
+                    replay.events.forEach(sendEvent)
+                    console.log(`[SSE] Replayed events to ${label} from #${lastEventId}`)
+                } else {
+                    // Read the ID first: anything after it is delivered live / from the buffer
+                    const snapshotId = await getLatestOrderEventId()
+                    const message = await snapshot()
+                    controller.enqueue(`id: ${snapshotId}\ndata: ${JSON.stringify(message)}\n\n`)
+                    lastSentId = snapshotId
+                }
+            } catch (error) {
+                console.error(`[SSE] Failed to send replay / snapshot to ${label}:`, error)
+            }
+
+            try {
+                const pending = buffered
+                buffered = null
+                pending.forEach(sendEvent)
+            } catch (error) {
+                console.error(`[SSE] Failed to send to ${label}:`, error)
+            }
+
+            // Keep-alive ping every 30 seconds
+            const pingInterval = setInterval(() => {
+                try {
+                    controller.enqueue(`data: ${JSON.stringify({ type: "ping", timestamp: Date.now() })}\n\n`)
+                } catch {
+                    clearInterval(pingInterval)
+                }
+            }, 30000)
+
+            // Cleanup on disconnect
+            request.signal.addEventListener("abort", () => {
+                clearInterval(pingInterval)
+                if (gapTimer) clearTimeout(gapTimer)
+                unsubscribe()
+                onClose?.()
+                controller.close()
+            })
+        },
+    })
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no",
+        },
+    })
+}
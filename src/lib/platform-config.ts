@@ -74,7 +74,8 @@ export const PLATFORM_CONFIG = {
         votesRequired: 3,
     },
 
-    // Payment methods with risk profiles (UPI only)
+    // Payment methods with risk profiles (which fiat each one pays out in
+    // is set in fiatCurrencies below)
     paymentMethods: [
         {
             id: 'upi',
@@ -83,9 +84,50 @@ export const PLATFORM_CONFIG = {
             reversible: false,
             settlementTime: 'instant',
             requiresExtraVerification: false,
+            detailsLabel: 'UPI_ID',
+            detailsPlaceholder: 'yourname@upi',
+        },
+        {
+            id: 'pix',
+            name: 'PIX',
+            riskScore: 20,
+            reversible: false,
+            settlementTime: 'instant',
+            requiresExtraVerification: false,
+            detailsLabel: 'PIX_KEY',
+            detailsPlaceholder: 'CPF, email, phone or random key',
+        },
+        {
+            id: 'sepa_instant',
+            name: 'SEPA Instant',
+            riskScore: 30,
+            reversible: false,
+            settlementTime: '10s',
+            requiresExtraVerification: false,
+            detailsLabel: 'IBAN',
+            detailsPlaceholder: 'DE89 3704 0044 0532 0130 00',
+        },
+        {
+            id: 'zelle',
+            name: 'Zelle',
+            riskScore: 40,
+            reversible: false,
+            settlementTime: 'minutes',
+            requiresExtraVerification: true,
+            detailsLabel: 'ZELLE_EMAIL_OR_PHONE',
+            detailsPlaceholder: 'you@example.com',
         },
     ],
 
+    // Per-fiat order rules. Amounts are in the currency's major unit;
+    // defaultLimit applies when the on-chain tier lookup fails.
+    fiatCurrencies: {
+        INR: { decimals: 2, minAmount: 1, defaultLimit: 5000, paymentMethods: ['upi'] },
+        BRL: { decimals: 2, minAmount: 1, defaultLimit: 300, paymentMethods: ['pix'] },
+        EUR: { decimals: 2, minAmount: 1, defaultLimit: 55, paymentMethods: ['sepa_instant'] },
+        USD: { decimals: 2, minAmount: 1, defaultLimit: 60, paymentMethods: ['zelle'] },
+    },
+
     // Fee configuration
     fees: {
         protocolFeeBps: 50,              // 0.5% total fee
@@ -106,13 +148,40 @@ export const PLATFORM_CONFIG = {
         merchantFeePercentage: 2,
     },
 
-    // Exchange rates - fetched from oracle in production
-    // These are fallback values only
-    exchangeRates: {
-        INR: 84.0,   // Will be updated via oracle
-        USD: 1.0,
-        BRL: 5.0,
-        EUR: 0.92,
+    // Rate oracle (src/lib/rate-oracle.ts). There are no fallback rates —
+    // if the sources disagree or go stale, orders are refused.
+    rates: {
+        maxDeviation: 0.02,     // Breaker trips if (max - min) / median exceeds 2%
+        // Spot (coingecko) and P2P (binance_p2p) quotes differ by the local
+        // P2P premium — where it runs high, the breaker allows for it
+        maxDeviationByCurrency: {
+            INR: 0.06,
+            BRL: 0.03,
+        } as Partial<Record<string, number>>,
+        maxAgeSeconds: 120,     // Ignore source quotes older than this
+        cacheSeconds: 30,       // Reuse the last median for this long
+        minSources: 1,          // Fresh quotes needed before quoting
+    },
+
+    // LP-published prices (src/lib/lp-store.ts)
+    lpPricing: {
+        defaultSpreadBps: 0,    // LPs without a price pay the oracle mid
+        maxSpreadBps: 500,      // Spreads / fixed rates up to 5% from the mid
+    },
+
+    // DAO validations that close without a majority (src/lib/validation-worker.ts).
+    // Each risk level picks an action; orders above its maxAmountUSDC get
+    // the next-stricter one (auto_approve → extend → escalate).
+    validationFallback: {
+        byRisk: {
+            low: { action: 'auto_approve', maxAmountUSDC: 100 },
+            medium: { action: 'extend', maxAmountUSDC: 1000 },
+            high: { action: 'extend', maxAmountUSDC: 500 },
+            critical: { action: 'escalate', maxAmountUSDC: 0 },
+        },
+        extendMinutes: 60,      // Fresh commit + reveal window on extension
+        extendCommitteeBy: 2,   // Extra seats drawn per extension
+        maxExtensions: 1,       // Then escalate to admin
     },
 
     // Production settings
@@ -125,10 +194,57 @@ export const PLATFORM_CONFIG = {
 } as const
 
 /**
- * Get payment method config by ID
+ * Get payment method config by ID (or display name — orders store "UPI")
  */
 export function getPaymentMethod(id: string) {
-    return PLATFORM_CONFIG.paymentMethods.find(m => m.id === id)
+    const key = id.toLowerCase()
+    return PLATFORM_CONFIG.paymentMethods.find(m => m.id === key || m.name.toLowerCase() === key)
+}
+
+/**
+ * Is this a fiat currency orders can be created in?
+ */
+export function isSupportedFiat(code: string): code is FiatCurrency {
+    return Object.prototype.hasOwnProperty.call(PLATFORM_CONFIG.fiatCurrencies, code)
+}
+
+/**
+ * How far a currency's rate sources may disagree before quoting pauses
+ */
+export function getMaxRateDeviation(code: string): number {
+    return PLATFORM_CONFIG.rates.maxDeviationByCurrency[code] ?? PLATFORM_CONFIG.rates.maxDeviation
+}
+
+/**
+ * Get the order rules for a fiat currency
+ */
+export function getFiatConfig(code: FiatCurrency) {
+    return PLATFORM_CONFIG.fiatCurrencies[code]
+}
+
+/**
+ * Payment methods that pay out in this currency (first one is the default)
+ */
+export function getPaymentMethodsForCurrency(code: string): PaymentMethod[] {
+    if (!isSupportedFiat(code)) return []
+    const ids: readonly string[] = PLATFORM_CONFIG.fiatCurrencies[code].paymentMethods
+    return PLATFORM_CONFIG.paymentMethods.filter(m => ids.includes(m.id))
+}
+
+/**
+ * Resolve a payment method for a currency — undefined if it doesn't pay out in it
+ */
+export function getPaymentMethodForCurrency(code: string, method: string): PaymentMethod | undefined {
+    const found = getPaymentMethod(method)
+    return found && getPaymentMethodsForCurrency(code).some(m => m.id === found.id) ? found : undefined
+}
+
+/**
+ * Round a fiat amount to the currency's minor unit
+ */
+export function roundFiat(amount: number, code: FiatCurrency): number {
+    const factor = 10 ** PLATFORM_CONFIG.fiatCurrencies[code].decimals
+    return Math.round(amount * factor) / factor
 }
 
 /**
@@ -167,4 +283,5 @@ export function calculateRequiredStake(orderAmount: number, riskScore: number):
 }
 
 export type PaymentMethod = typeof PLATFORM_CONFIG.paymentMethods[number]
+export type FiatCurrency = keyof typeof PLATFORM_CONFIG.fiatCurrencies
 export type RiskLevel = 'low' | 'medium' | 'high' | 'critical'
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest"
+import type { Order } from "@/lib/order-store"
+import { PAYMENT_DETAIL_FIELDS, getPaymentDetailAccess, redactPaymentDetails } from "@/lib/policy"
+
+/**
+ * Payment-detail redaction — what GET /api/orders and the LP feed send a
+ * viewer who isn't on the order
+ */
+
+const USER = "0x1111111111111111111111111111111111111111"
+const LP = "0x2222222222222222222222222222222222222222"
+const STRANGER = "0x3333333333333333333333333333333333333333"
+
+function disputedOrder(): Order {
+    return {
+        id: "order-1", type: "sell", status: "disputed", createdAt: 100, expiresAt: 900_100,
+        userId: USER, userAddress: USER, amountUsdc: 10, amountFiat: 900,
+        fiatCurrency: "INR", paymentMethod: "UPI", paymentDetails: "user@upi",
+        solverId: LP, solverAddress: LP,
+        qrImage: "data:image/png;base64,AAAA", qrPayee: { type: "upi", recipient: "user@upi", recipientName: "User" },
+        lpPaymentProof: "ipfs://proof", mediationEmail: "user@example.com", disputeReason: "Paid to the wrong UPI",
+    }
+}
+
+describe("payment details", () => {
+    it("omits every payment detail from a non-participant's view", async () => {
+        const order = disputedOrder()
+        const canSee = await getPaymentDetailAccess(STRANGER)
+        expect(canSee(order)).toBe(false)
+
+        const view = redactPaymentDetails(order)
+        for (const field of PAYMENT_DETAIL_FIELDS) expect(view).not.toHaveProperty(field)
+        expect(view).toMatchObject({ id: "order-1", amountUsdc: 10, status: "disputed" })
+        // The stored order is untouched
+        expect(order.paymentDetails).toBe("user@upi")
+    })
+
+    it("covers the UPI details, mediation email and dispute reason", () => {
+        expect(PAYMENT_DETAIL_FIELDS).toEqual(expect.arrayContaining(["paymentDetails", "mediationEmail", "disputeReason"]))
+    })
+
+    it("shows them to the order's user and its LP", async () => {
+        const order = disputedOrder()
+        expect((await getPaymentDetailAccess(USER))(order)).toBe(true)
+        expect((await getPaymentDetailAccess(LP))(order)).toBe(true)
+        expect((await getPaymentDetailAccess(null))(order)).toBe(false)
+    })
+})
@@ -0,0 +1,319 @@
+import { NextResponse } from "next/server"
+import { createPublicClient, http } from "viem"
+import { CONTRACT_ADDRESSES, opbnbTestnet } from "@/lib/web3-config"
+import type { Order } from "@/lib/order-store"
+import { type ValidationTask, getAllValidationTasks, getValidatorProfile } from "@/lib/validation-store"
+import { isCommitteeMember } from "@/lib/validator-committee"
+import { getSessionAddress, unauthorizedResponse } from "@/lib/session"
+
+/**
+ * Authorization Policy
+ *
+ * WHY: Authentication (session.ts) says WHO is calling; this says what they
+ * may do. One table maps each action to the roles that are allowed (and
+ * denied) — routes call authorize() instead of hand-rolling checks.
+ *
+ * Roles:
+ * - user         any signed-in wallet
+ * - lp           on-chain LP stake ≥ 50 USDC and not banned (P2PEscrowV5.lpStakes)
+ * - validator    active, non-slashed DAO validator profile
+ * - committee_member  validator holding a live seat on the resource task's committee
+ * - admin        core-team list (NEXT_PUBLIC_CORE_TEAM)
+ * - order_owner  created the order in the resource
+ * - order_lp     matched LP on the order in the resource
+ * - not_escrow_lp  the order's escrow was assigned to a different LP
+ * - self         the resource's userId is the caller
+ *
+ * Deny beats allow. Anything not in the table is denied.
+ */
+
+export type Role = "user" | "lp" | "validator" | "committee_member" | "admin" | "order_owner" | "order_lp" | "not_escrow_lp" | "self"
+
+export type PolicyAction =
+    | "order:create"
+    | "order:match"
+    | "order:add_qr"
+    | "order:payment_sent"
+    | "order:complete"
+    | "order:dispute"
+    | "order:cancel"
+    | "order:release"
+    | "orders:clear"
+    | "settlement:settle"
+    | "settlement:skip_dispute"
+    | "validation:view_detail"
+    | "validation:vote"
+    | "validation:appeal"
+    | "admin:view"
+    | "admin:resolve"
+    | "payment:review"
+    | "lp:register"
+    | "lp:update"
+    | "lp:rotate"
+
+interface PolicyRule {
+    allow: Role[]
+    deny?: Role[]
+    reason: string       // Shown in the 403 when the caller doesn't qualify
+}
+
+export const POLICY: Record<PolicyAction, PolicyRule> = {
+    "order:create": { allow: ["user"], reason: "Sign in to create orders" },
+    "order:match": { allow: ["lp"], deny: ["order_owner", "not_escrow_lp"], reason: "Only staked LPs can accept orders (not their own, nor one escrowed for another LP)" },
+    "order:add_qr": { allow: ["order_owner"], reason: "Only the order's user can add a QR" },
+    "order:payment_sent": { allow: ["order_lp"], reason: "Only the matched LP can submit payment proof" },
+    "order:complete": { allow: ["order_owner", "admin"], reason: "Only the order's user can confirm payment" },
+    "order:dispute": { allow: ["order_owner", "order_lp"], reason: "Only the order's user or LP can raise a dispute" },
+    "order:cancel": { allow: ["order_owner", "admin"], reason: "Only the order's user can cancel it" },
+    "order:release": { allow: ["order_lp"], reason: "Only the matched LP can release this order" },
+    "orders:clear": { allow: ["self", "admin"], reason: "You can only clear your own orders" },
+    "settlement:settle": { allow: ["admin"], reason: "Manual settlement is core-team only" },
+    "settlement:skip_dispute": { allow: ["admin"], reason: "Only the core team can skip the dispute window" },
+    "validation:view_detail": { allow: ["committee_member", "admin"], reason: "Only this task's validator committee can view evidence" },
+    "validation:vote": { allow: ["committee_member"], deny: ["order_owner", "order_lp"], reason: "Only this task's validator committee can vote (and not on their own orders)" },
+    "validation:appeal": { allow: ["validator"], reason: "Only DAO validators can appeal a slash" },
+    "admin:view": { allow: ["admin"], reason: "Core team only" },
+    "admin:resolve": { allow: ["admin"], reason: "Core team only" },
+    "payment:review": { allow: ["admin"], reason: "Core team only" },
+    "lp:register": { allow: ["user"], reason: "Sign in to register as LP" },
+    "lp:update": { allow: ["lp"], reason: "Only staked LPs can change LP settings" },
+    "lp:rotate": { allow: ["order_owner", "admin"], reason: "Only the order's user can rotate its LP" },
+}
+
+/**
+ * What the action is performed on — used for the relationship roles
+ */
+export interface PolicyResource {
+    order?: Order | null
+    task?: ValidationTask | null
+    userId?: string | null
+}
+
+export type PolicyDecision =
+    | { allowed: true }
+    | { allowed: false; reason: string }
+
+// ─── Role sources ───────────────────────────────────────
+
+const CORE_TEAM = (
+    process.env.NEXT_PUBLIC_CORE_TEAM ||
+    process.env.NEXT_PUBLIC_DAO_ADMINS ||
+    "0x8889A923bc9EA775b387eAd56e21DCD351Cad618"
+).split(',').map(a => a.trim().toLowerCase()).filter(Boolean)
+
+export function isCoreTeam(address: string): boolean {
+    return CORE_TEAM.includes(address.toLowerCase())
+}
+
+// Minimum stake required to be LP (50 USDC = 50 * 1e6)
+export const MIN_LP_STAKE = BigInt(50_000_000)
+
+// BNB Chain (opBNB Testnet) for on-chain reads
+const publicClient = createPublicClient({
+    chain: opbnbTestnet,
+    transport: http(),
+})
+
+// ABI for reading LP stakes from P2PEscrowV5
+const LP_STAKES_ABI = [
+    {
+        inputs: [{ name: "", type: "address" }],
+        name: "lpStakes",
+        outputs: [
+            { name: "amount", type: "uint256" },
+            { name: "lockedInOrders", type: "uint256" },
+            { name: "totalTrades", type: "uint256" },
+            { name: "totalDisputes", type: "uint256" },
+            { name: "disputesLost", type: "uint256" },
+            { name: "memberSince", type: "uint256" },
+            { name: "avgCompletionTime", type: "uint256" },
+            { name: "cooldownUntil", type: "uint256" },
+            { name: "lastOrderTime", type: "uint256" },
+            { name: "dailyVolume", type: "uint256" },
+            { name: "dailyVolumeDate", type: "uint256" },
+            { name: "unstakeRequestTime", type: "uint256" },
+            { name: "unstakeAmount", type: "uint256" },
+            { name: "isActive", type: "bool" },
+            { name: "isBanned", type: "bool" }
+        ],
+        stateMutability: "view",
+        type: "function"
+    }
+] as const
+
+/**
+ * Read an LP's stake from P2PEscrowV5 (throws on RPC failure)
+ */
+export async function readLPStake(address: string): Promise<{ amount: bigint; isBanned: boolean }> {
+    const result = await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.P2P_ESCROW as `0x${string}`,
+        abi: LP_STAKES_ABI,
+        functionName: "lpStakes",
+        args: [address as `0x${string}`],
+    })
+    // V5 LPStake struct: [0] = amount, [14] = isBanned
+    return { amount: result[0], isBanned: result[14] }
+}
+
+// LP role is read on-chain — cache briefly so every accept isn't an RPC round-trip
+const LP_ROLE_TTL_MS = 60_000
+const globalForPolicy = globalThis as unknown as { _uwuLPRoleCache?: Map<string, { isLP: boolean; at: number }> }
+if (!globalForPolicy._uwuLPRoleCache) {
+    globalForPolicy._uwuLPRoleCache = new Map()
+}
+const lpRoleCache = globalForPolicy._uwuLPRoleCache
+
+async function hasLPStake(address: string): Promise<boolean> {
+    const addr = address.toLowerCase()
+    const cached = lpRoleCache.get(addr)
+    if (cached && Date.now() - cached.at < LP_ROLE_TTL_MS) return cached.isLP
+
+    try {
+        const { amount, isBanned } = await readLPStake(addr)
+        const isLP = amount >= MIN_LP_STAKE && !isBanned
+        lpRoleCache.set(addr, { isLP, at: Date.now() })
+        return isLP
+    } catch (error) {
+        // Fail closed — and don't cache, so the next request retries
+        console.error('[Policy] LP stake lookup failed:', error)
+        return false
+    }
+}
+
+async function isActiveValidator(address: string): Promise<boolean> {
+    const profile = await getValidatorProfile(address.toLowerCase())
+    return !!profile && profile.isActive && !profile.isSlashed
+}
+
+function sameAddress(a?: string | null, b?: string | null): boolean {
+    return !!a && !!b && a.toLowerCase() === b.toLowerCase()
+}
+
+/**
+ * Does `address` hold `role` for this resource?
+ */
+async function hasRole(address: string, role: Role, resource: PolicyResource): Promise<boolean> {
+    const { order, task, userId } = resource
+    switch (role) {
+        case "user":
+            return true
+        case "admin":
+            return isCoreTeam(address)
+        case "lp":
+            return hasLPStake(address)
+        case "validator":
+            return isActiveValidator(address)
+        case "committee_member":
+            return !!task && isCommitteeMember(task, address) && isActiveValidator(address)
+        case "order_owner":
+            return (!!order && (sameAddress(address, order.userAddress) || sameAddress(address, order.userId)))
+                || (!!task && sameAddress(address, task.evidence.userAddress))
+        case "order_lp":
+            return (!!order && sameAddress(address, order.solverAddress))
+                || (!!task && sameAddress(address, task.evidence.lpAddress))
+        case "not_escrow_lp":
+            return !!order?.escrowLp && !sameAddress(address, order.escrowLp)
+        case "self":
+            return sameAddress(address, userId)
+    }
+}
+
+// ─── Checks ─────────────────────────────────────────────
+
+/**
+ * Evaluate the policy for a known address. Roles are resolved lazily,
+ * so cheap checks (ownership, core team) never hit the chain.
+ */
+export async function can(address: string, action: PolicyAction, resource: PolicyResource = {}): Promise<PolicyDecision> {
+    const rule = POLICY[action]
+    if (!rule) return { allowed: false, reason: "Unknown action" }
+
+    for (const role of rule.deny || []) {
+        if (await hasRole(address, role, resource)) return { allowed: false, reason: rule.reason }
+    }
+    for (const role of rule.allow) {
+        if (await hasRole(address, role, resource)) return { allowed: true }
+    }
+    return { allowed: false, reason: rule.reason }
+}
+
+export type AuthorizeResult =
+    | { allowed: true; address: string }
+    | { allowed: false; response: NextResponse }
+
+/**
+ * Authenticate + authorize a request in one step.
+ * 401 if not signed in, 403 (forbiddenResponse shape) if the policy denies.
+ */
+export async function authorize(request: Request, action: PolicyAction, resource: PolicyResource = {}): Promise<AuthorizeResult> {
+    const address = getSessionAddress(request)
+    if (!address) return { allowed: false, response: unauthorizedResponse() }
+
+    const decision = await can(address, action, resource)
+    if (!decision.allowed) {
+        console.log(`[Policy] Denied ${action} for ${address.slice(0, 10)}...`)
+        return { allowed: false, response: forbiddenResponse(action, decision.reason) }
+    }
+    return { allowed: true, address }
+}
+
+/**
+ * The one 403 shape every route returns
+ */
+export function forbiddenResponse(action: PolicyAction, reason: string) {
+    return NextResponse.json(
+        { success: false, error: reason, code: "forbidden", action },
+        { status: 403 }
+    )
+}
+
+// ─── Payment details ────────────────────────────────────
+
+/**
+ * Payment details on an order — the user's UPI / bank details and payment
+ * QR, the payee decoded from it, the LP's payment screenshot, and the
+ * contact email and reason from a dispute
+ *
+ * WHY: They name the user's bank account / UPI handle or reach them off
+ * the platform. Order lists and the LP feed are readable by anyone; only
+ * the order's user, its LP, the validator committee judging it and the
+ * core team get these fields.
+ */
+export const PAYMENT_DETAIL_FIELDS = [
+    "paymentDetails", "qrImage", "qrPayee", "lpPaymentProof", "mediationEmail", "disputeReason",
+] as const
+
+type PaymentDetailField = typeof PAYMENT_DETAIL_FIELDS[number]
+
+/** An order as a viewer without payment-detail access gets it */
+export type RedactedOrder = Omit<Order, PaymentDetailField> & Partial<Pick<Order, PaymentDetailField>>
+
+/**
+ * Build a per-viewer check for who may see an order's payment details.
+ * Committee seats are read once up front, so the check itself is sync and
+ * cheap enough to run on every streamed event.
+ */
+export async function getPaymentDetailAccess(address: string | null): Promise<(order: Order) => boolean> {
+    if (!address) return () => false
+    if (isCoreTeam(address)) return () => true
+
+    const committeeOrders = new Set<string>()
+    if (await isActiveValidator(address)) {
+        const tasks = await getAllValidationTasks({ committeeMember: address, includeResolved: true })
+        tasks.forEach(t => committeeOrders.add(t.orderId))
+    }
+
+    return (order: Order) =>
+        sameAddress(address, order.userAddress) || sameAddress(address, order.userId)
+        || sameAddress(address, order.solverAddress)
+        || committeeOrders.has(order.id)
+}
+
+/**
+ * Copy of the order without its payment details
+ */
+export function redactPaymentDetails(order: Order): RedactedOrder {
+    const redacted: RedactedOrder = { ...order }
+    for (const field of PAYMENT_DETAIL_FIELDS) delete redacted[field]
+    return redacted
+}
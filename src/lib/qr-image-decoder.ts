@@ -0,0 +1,158 @@
+import jsQR from "jsqr"
+import { PNG } from "pngjs"
+import * as jpeg from "jpeg-js"
+import { type ParsedQRData, parseQRCode } from "@/lib/qr-parser"
+
+/**
+ * Server-side QR Image Decoding
+ *
+ * WHY: Users upload their payment QR as a base64 image and the server used
+ * to store it blindly — a selfie or a cropped screenshot went straight to
+ * the LP. Uploads are now decoded here (pure JS: pngjs / jpeg-js + jsQR,
+ * no native deps so it runs on Vercel), run through parseQRCode, and
+ * rejected unless they carry a valid payment QR.
+ */
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+const MAX_DECODE_SIDE = 1024 // Downscale before jsQR — it's O(pixels)
+
+/** The parsed fields stored on the order next to the image */
+export type QRPayee = Pick<ParsedQRData, "type" | "scheme" | "recipient" | "recipientName" | "amount" | "currency" | "reference">
+
+export type QRImageDecodeResult =
+    | { success: true; data: string; parsed: ParsedQRData; payee: QRPayee }
+    | { success: false; error: string }
+
+interface RGBAImage {
+    data: Uint8ClampedArray
+    width: number
+    height: number
+}
+
+/**
+ * Base64 data-URI (or raw base64) → bytes
+ */
+function toBytes(image: string): Buffer | null {
+    const comma = image.indexOf(",")
+    const raw = image.startsWith("data:") ? image.slice(comma + 1) : image
+    if (!/^[A-Za-z0-9+/=\s]+$/.test(raw)) return null
+    return Buffer.from(raw, "base64")
+}
+
+/**
+ * PNG / JPEG → RGBA, sniffed from the magic bytes (the data-URI MIME is
+ * client-controlled)
+ */
+function decodePixels(bytes: Buffer): RGBAImage | null {
+    if (bytes.length > 8 && bytes.readUInt32BE(0) === 0x89504e47) {
+        const png = PNG.sync.read(bytes)
+        return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height }
+    }
+    if (bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+        const jpg = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: 40, maxMemoryUsageInMB: 256 })
+        return { data: new Uint8ClampedArray(jpg.data), width: jpg.width, height: jpg.height }
+    }
+    return null
+}
+
+/**
+ * Nearest-neighbour downscale so the longest side is at most MAX_DECODE_SIDE
+ */
+function downscale(image: RGBAImage): RGBAImage {
+    const scale = MAX_DECODE_SIDE / Math.max(image.width, image.height)
+    if (scale >= 1) return image
+
+    const width = Math.max(1, Math.round(image.width * scale))
+    const height = Math.max(1, Math.round(image.height * scale))
+    const data = new Uint8ClampedArray(width * height * 4)
+    for (let y = 0; y < height; y++) {
+        const sy = Math.min(image.height - 1, Math.floor(y / scale))
+        for (let x = 0; x < width; x++) {
+            const sx = Math.min(image.width - 1, Math.floor(x / scale))
+            const src = (sy * image.width + sx) * 4
+            data.set(image.data.subarray(src, src + 4), (y * width + x) * 4)
+        }
+    }
+    return { data, width, height }
+}
+
+/**
+ * Decode the QR in an uploaded image and require it to be a valid payment QR
+ */
+export function decodeQRImage(image: string): QRImageDecodeResult {
+    const bytes = toBytes(image)
+    if (!bytes || bytes.length === 0) {
+        return { success: false, error: "QR image must be a base64 PNG or JPEG" }
+    }
+    if (bytes.length > MAX_IMAGE_BYTES) {
+        return { success: false, error: `QR image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024}MB` }
+    }
+
+    let pixels: RGBAImage | null
+    try {
+        pixels = decodePixels(bytes)
+    } catch (error) {
+        console.warn("[QRImage] Image decode failed:", error)
+        return { success: false, error: "Could not read the QR image" }
+    }
+    if (!pixels) {
+        return { success: false, error: "Unsupported image type — upload a PNG or JPEG" }
+    }
+
+    // Try full size first (small codes in large screenshots), then downscaled
+    let code = pixels.width * pixels.height <= MAX_DECODE_SIDE * MAX_DECODE_SIDE * 4
+        ? jsQR(pixels.data, pixels.width, pixels.height, { inversionAttempts: "attemptBoth" })
+        : null
+    if (!code) {
+        const small = downscale(pixels)
+        if (small !== pixels) code = jsQR(small.data, small.width, small.height, { inversionAttempts: "attemptBoth" })
+    }
+    if (!code || !code.data) {
+        return { success: false, error: "No QR code found in the image" }
+    }
+
+    const parsed = parseQRCode(code.data)
+    if (parsed.type === "generic") {
+        return { success: false, error: "The QR code is not a payment QR (UPI, PIX, ...)" }
+    }
+    if (parsed.errors) {
+        return { success: false, error: `Invalid payment QR: ${parsed.errors.join("; ")}` }
+    }
+
+    return {
+        success: true,
+        data: code.data,
+        parsed,
+        payee: {
+            type: parsed.type,
+            scheme: parsed.scheme,
+            recipient: parsed.recipient,
+            recipientName: parsed.recipientName,
+            amount: parsed.amount,
+            currency: parsed.currency,
+            reference: parsed.reference,
+        },
+    }
+}
+
+/**
+ * Decode + check the QR is for this order (currency, and amount if the QR fixes one)
+ */
+export function decodeOrderQRImage(image: string, order: { amountFiat: number; fiatCurrency: string }): QRImageDecodeResult {
+    const result = decodeQRImage(image)
+    if (!result.success) return result
+
+    const { payee } = result
+    if (payee.currency && payee.currency !== order.fiatCurrency) {
+        return { success: false, error: `QR is for ${payee.currency}, order is in ${order.fiatCurrency}` }
+    }
+    // UPI links with mam let the payer choose anything from mam up to am
+    const minAmount = result.parsed.upi?.minAmount
+    if (minAmount !== undefined && (minAmount > order.amountFiat || (payee.amount !== undefined && payee.amount < order.amountFiat))) {
+        return { success: false, error: `QR accepts ${minAmount}–${payee.amount ?? "any"} ${order.fiatCurrency}, order is ${order.amountFiat.toFixed(2)}` }
+    }
+    if (payee.amount !== undefined && minAmount === undefined && Math.abs(payee.amount - order.amountFiat) >= 0.01) {
+        return { success: false, error: `QR asks for ${payee.amount} ${order.fiatCurrency}, order is ${order.amountFiat.toFixed(2)}` }
+    }
+    return result
+}
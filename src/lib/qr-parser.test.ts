@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest"
+import { crc16ccitt, decodeEMV, parseEMVTLV, parseQRCode } from "@/lib/qr-parser"
+
+/**
+ * BR Code fixtures
+ *
+ * The static PIX sample is the one printed in BCB's "Manual de Padrões
+ * para Iniciação do Pix" (key 123e4567-…, Fulano de Tal, CRC 1D3D).
+ * 29B1 is the published CRC-16/CCITT-FALSE check value for "123456789".
+ */
+
+const BCB_STATIC_SAMPLE =
+    "00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000" +
+    "5204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D"
+
+/** Swap in a fresh CRC after editing a payload */
+function withCRC(payloadWithoutCRC: string): string {
+    const data = `${payloadWithoutCRC}6304`
+    return data + crc16ccitt(data)
+}
+
+describe("crc16ccitt", () => {
+    it("matches the CRC-16/CCITT-FALSE check value", () => {
+        expect(crc16ccitt("123456789")).toBe("29B1")
+    })
+
+    it("matches the CRC of the BCB static sample", () => {
+        expect(crc16ccitt(BCB_STATIC_SAMPLE.slice(0, -4))).toBe("1D3D")
+    })
+
+    it("pads to 4 uppercase hex digits", () => {
+        expect(crc16ccitt("")).toBe("FFFF")
+        expect(crc16ccitt("A")).toMatch(/^[0-9A-F]{4}$/)
+    })
+})
+
+describe("parseEMVTLV", () => {
+    it("splits the BCB static sample into its top-level fields", () => {
+        expect(parseEMVTLV(BCB_STATIC_SAMPLE)).toEqual([
+            { tag: "00", value: "01" },
+            { tag: "26", value: "0014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000" },
+            { tag: "52", value: "0000" },
+            { tag: "53", value: "986" },
+            { tag: "58", value: "BR" },
+            { tag: "59", value: "Fulano de Tal" },
+            { tag: "60", value: "BRASILIA" },
+            { tag: "62", value: "0503***" },
+            { tag: "63", value: "1D3D" },
+        ])
+    })
+
+    it("splits a merchant account template", () => {
+        expect(parseEMVTLV("0014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000")).toEqual([
+            { tag: "00", value: "br.gov.bcb.pix" },
+            { tag: "01", value: "123e4567-e12b-12d1-a456-426655440000" },
+        ])
+    })
+
+    it("rejects a length that runs past the end", () => {
+        expect(parseEMVTLV("000201260599")).toBeNull()
+        expect(parseEMVTLV(BCB_STATIC_SAMPLE.slice(0, -1))).toBeNull()
+    })
+
+    it("rejects non-numeric tags and lengths", () => {
+        expect(parseEMVTLV("AB0201")).toBeNull()
+        expect(parseEMVTLV("00X201")).toBeNull()
+    })
+
+    it("returns no fields for an empty payload", () => {
+        expect(parseEMVTLV("")).toEqual([])
+    })
+})
+
+describe("decodeEMV", () => {
+    it("decodes the BCB static sample", () => {
+        const payload = decodeEMV(BCB_STATIC_SAMPLE)
+        expect(payload).not.toBeNull()
+        expect(payload!.checksumValid).toBe(true)
+        expect(payload!.errors).toEqual([])
+        expect(payload!.dynamic).toBe(false)
+        expect(payload!.accounts).toHaveLength(1)
+        expect(payload!.accounts[0].gui).toBe("br.gov.bcb.pix")
+        expect(payload!.additional).toEqual([{ tag: "05", value: "***" }])
+    })
+
+    it("flags a tampered payload", () => {
+        const tampered = BCB_STATIC_SAMPLE.replace("Fulano de Tal", "Fulano de Tax")
+        const payload = decodeEMV(tampered)
+        expect(payload!.checksumValid).toBe(false)
+        expect(payload!.errors).toContain("Invalid CRC16 checksum")
+    })
+
+    it("accepts a lowercase CRC", () => {
+        const payload = decodeEMV(BCB_STATIC_SAMPLE.slice(0, -4) + "1d3d")
+        expect(payload!.checksumValid).toBe(true)
+    })
+
+    it("returns null for non-EMV data", () => {
+        expect(decodeEMV("upi://pay?pa=merchant@upi")).toBeNull()
+    })
+})
+
+describe("parseQRCode (PIX)", () => {
+    it("reads the payee from the BCB static sample", () => {
+        const parsed = parseQRCode(BCB_STATIC_SAMPLE)
+        expect(parsed.type).toBe("pix")
+        expect(parsed.checksumValid).toBe(true)
+        expect(parsed.errors).toBeUndefined()
+        expect(parsed.recipient).toBe("123e4567-e12b-12d1-a456-426655440000")
+        expect(parsed.recipientName).toBe("Fulano de Tal")
+        expect(parsed.city).toBe("BRASILIA")
+        expect(parsed.currency).toBe("BRL")
+        expect(parsed.amount).toBeUndefined()
+        expect(parsed.pix?.txid).toBeUndefined()        // "***" = no txid
+    })
+
+    it("reads the amount and txid when present", () => {
+        const parsed = parseQRCode(withCRC(
+            "00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000" +
+            "52040000530398654041.005802BR5913Fulano de Tal6008BRASILIA62100506PED123"
+        ))
+        expect(parsed.checksumValid).toBe(true)
+        expect(parsed.amount).toBe(1)
+        expect(parsed.reference).toBe("PED123")
+        expect(parsed.pix?.txid).toBe("PED123")
+    })
+
+    it("rejects a BR Code quoted in another currency", () => {
+        const parsed = parseQRCode(withCRC(
+            "00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000" +
+            "5204000053038405802BR5913Fulano de Tal6008BRASILIA62070503***"
+        ))
+        expect(parsed.errors).toContain("Unexpected currency 840, expected BRL")
+    })
+
+    it("reports a broken TLV structure", () => {
+        const parsed = parseQRCode(BCB_STATIC_SAMPLE.slice(0, 40))
+        expect(parsed.type).toBe("generic")
+        expect(parsed.errors).toEqual(["Malformed EMV payload"])
+    })
+})
@@ -1,55 +1,505 @@
 /**
  * QR Parser utility
- * Parses various QR code formats (UPI, PIX, generic payment)
+ * Parses various QR code formats (UPI, EMVCo merchant-presented, generic payment)
+ *
+ * UPI links are checked against the NPCI linking spec (VPA syntax, mc,
+ * mode, orgid, am/mam, INR only); a signed link is only trusted if the
+ * caller passes a signature verifier. Bharat QR is EMV with a UPI template.
+ *
+ * PIX, PromptPay, QRIS, SGQR/PayNow, DuitNow and QR Ph are all EMVCo MPM
+ * payloads: TLV fields, checksummed with CRC16-CCITT in tag 63. One
+ * decoder reads the common tags; a registry of scheme interpreters picks
+ * the payee out of the scheme's merchant account template. A code with a
+ * bad checksum is still parsed but comes back with checksumValid: false —
+ * callers must not pay against it.
  */
 
+export type QRType = 'upi' | 'pix' | 'promptpay' | 'qris' | 'sgqr' | 'duitnow' | 'qrph' | 'generic'
+
 export interface ParsedQRData {
-    type: 'upi' | 'pix' | 'generic'
-    recipient?: string
+    type: QRType
+    scheme?: string              // Display name, e.g. "PromptPay"
+    recipient?: string           // VPA / PIX key / proxy or merchant ID
+    recipientName?: string       // Merchant name (EMV tag 59)
+    city?: string                // Merchant city (EMV tag 60)
+    country?: string             // EMV tag 58
     amount?: number
-    currency?: string
-    reference?: string
+    currency?: string            // ISO 4217 alpha (EMV tag 53 is numeric)
+    reference?: string           // UPI tr/tn, EMV tag 62 reference / PIX txid
+    upi?: UPIDetails
+    pix?: PixDetails
+    checksumValid?: boolean      // EMV codes only — CRC16 in tag 63
+    errors?: string[]            // Why the code can't be trusted as-is
     rawData: string
 }
 
+export interface UPIDetails {
+    vpa: string                  // pa
+    payeeName?: string           // pn
+    merchantCode?: string        // mc — 4-digit MCC, "0000" = person-to-person
+    mode?: string                // Initiation mode (01 QR, 02 secure QR, ...)
+    orgId?: string               // 6-digit org that generated the code
+    transactionRef?: string      // tr
+    note?: string                // tn
+    url?: string                 // Reference URL (url / Bharat QR 27/02)
+    minAmount?: number           // mam — payer may edit down to this
+    amountEditable: boolean      // No am, or am with mam
+    signature?: string           // sign (base64)
+    signatureVerified?: boolean  // undefined = no verifier was given
+    bharatQR: boolean
+}
+
+/**
+ * Hook for checking a signed UPI link: `payload` is the link without its
+ * sign parameter. NPCI publishes the org public keys; wire them in here.
+ */
+export type UPISignatureVerifier = (payload: string, signature: string, orgId?: string) => boolean
+
+export interface QRParseOptions {
+    verifyUPISignature?: UPISignatureVerifier
+}
+
+export interface PixDetails {
+    gui: string                  // br.gov.bcb.pix
+    key?: string                 // Static codes: the payee's PIX key
+    url?: string                 // Dynamic codes: payload location (no scheme)
+    info?: string                // Free text from the payer's bank app
+    txid?: string                // Tag 62/05, undefined for "***"
+    dynamic: boolean             // Point of initiation 12
+    merchantCategoryCode?: string
+    postalCode?: string
+}
+
+// ─── UPI ────────────────────────────────────────────────
+
+// handle@psp — NPCI allows letters, digits, '.', '-' and '_' in the handle
+const VPA_PATTERN = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{1,63}$/
+const UPI_AMOUNT_PATTERN = /^\d+(\.\d{1,2})?$/
+// Modes where the link must carry a signature (secure QR / secure intent)
+const SIGNED_UPI_MODES = ['02', '04']
+
+export function isValidVPA(vpa: string): boolean {
+    return VPA_PATTERN.test(vpa)
+}
+
+function parseUPIAmount(raw: string | null, name: string, errors: string[]): number | undefined {
+    if (raw === null || raw === '') return undefined
+    if (!UPI_AMOUNT_PATTERN.test(raw) || parseFloat(raw) <= 0) {
+        errors.push(`Invalid ${name} ${raw}`)
+        return undefined
+    }
+    return parseFloat(raw)
+}
+
 /**
  * Parse UPI QR Code (India)
  * Format: upi://pay?pa=merchant@upi&pn=MerchantName&am=100&cu=INR
  */
-function parseUPI(data: string): ParsedQRData | null {
-    if (!data.startsWith('upi://')) return null
+function parseUPI(data: string, options: QRParseOptions): ParsedQRData | null {
+    if (!data.toLowerCase().startsWith('upi://')) return null
 
+    let params: URLSearchParams
     try {
         const url = new URL(data)
-        const params = new URLSearchParams(url.search)
-
-        return {
-            type: 'upi',
-            recipient: params.get('pa') || undefined,
-            amount: params.get('am') ? parseFloat(params.get('am')!) : undefined,
-            currency: params.get('cu') || 'INR',
-            reference: params.get('tn') || params.get('tr') || undefined,
-            rawData: data,
+        if (url.hostname.toLowerCase() !== 'pay') {
+            return { type: 'upi', errors: [`Unsupported UPI action "${url.hostname}"`], rawData: data }
         }
+        params = url.searchParams
     } catch {
-        return null
+        return { type: 'upi', errors: ['Malformed UPI link'], rawData: data }
+    }
+
+    const errors: string[] = []
+    const get = (key: string) => params.get(key)?.trim() || null
+
+    const vpa = get('pa')
+    if (!vpa) errors.push('Missing payee VPA (pa)')
+    else if (!isValidVPA(vpa)) errors.push(`Invalid VPA ${vpa}`)
+
+    const currency = get('cu') || 'INR'
+    if (currency.toUpperCase() !== 'INR') errors.push(`UPI only supports INR, got ${currency}`)
+
+    const merchantCode = get('mc') || undefined
+    if (merchantCode && !/^\d{4}$/.test(merchantCode)) errors.push(`Invalid merchant code ${merchantCode}`)
+
+    const mode = get('mode') || undefined
+    if (mode && !/^\d{2}$/.test(mode)) errors.push(`Invalid mode ${mode}`)
+
+    const orgId = get('orgid') || undefined
+    if (orgId && !/^\d{6}$/.test(orgId)) errors.push(`Invalid orgid ${orgId}`)
+
+    // am = amount; mam = minimum — with mam the payer can pay anything in [mam, am]
+    const amount = parseUPIAmount(get('am'), 'amount', errors)
+    const minAmount = parseUPIAmount(get('mam'), 'minimum amount', errors)
+    if (minAmount !== undefined && amount !== undefined && minAmount > amount) {
+        errors.push(`Minimum amount ${minAmount} exceeds amount ${amount}`)
+    }
+
+    // Signature — over the link with the sign parameter removed
+    const signature = get('sign') || undefined
+    let signatureVerified: boolean | undefined
+    if (mode && SIGNED_UPI_MODES.includes(mode) && !signature) {
+        errors.push(`Mode ${mode} requires a signed link`)
+    }
+    if (signature && options.verifyUPISignature) {
+        const unsigned = data.replace(/[?&]sign=[^&]*/i, '').replace(/^(upi:\/\/pay)&/i, '$1?')
+        signatureVerified = options.verifyUPISignature(unsigned, signature, orgId)
+        if (!signatureVerified) errors.push('UPI signature does not verify')
+    }
+
+    const transactionRef = get('tr') || undefined
+    const note = get('tn') || undefined
+    return {
+        type: 'upi',
+        scheme: 'UPI',
+        recipient: vpa || undefined,
+        recipientName: get('pn') || undefined,
+        amount,
+        currency: 'INR',
+        reference: transactionRef || note,
+        upi: {
+            vpa: vpa || '',
+            payeeName: get('pn') || undefined,
+            merchantCode,
+            mode,
+            orgId,
+            transactionRef,
+            note,
+            url: get('url') || undefined,
+            minAmount,
+            amountEditable: amount === undefined || minAmount !== undefined,
+            signature,
+            signatureVerified,
+            bharatQR: false,
+        },
+        ...(errors.length > 0 && { errors }),
+        rawData: data,
+    }
+}
+
+// ─── EMV TLV ────────────────────────────────────────────
+
+export interface EMVField {
+    tag: string
+    value: string
+}
+
+/**
+ * Split an EMVCo payload into its TLV fields: 2-digit tag, 2-digit length,
+ * value. Returns null if a length runs past the end of the data.
+ */
+export function parseEMVTLV(data: string): EMVField[] | null {
+    const fields: EMVField[] = []
+    let i = 0
+    while (i < data.length) {
+        const tag = data.slice(i, i + 2)
+        const length = Number(data.slice(i + 2, i + 4))
+        if (!/^\d{2}$/.test(tag) || !/^\d{2}$/.test(data.slice(i + 2, i + 4)) || i + 4 + length > data.length) {
+            return null
+        }
+        fields.push({ tag, value: data.slice(i + 4, i + 4 + length) })
+        i += 4 + length
+    }
+    return fields
+}
+
+/**
+ * CRC16-CCITT (poly 0x1021, init 0xFFFF) as 4 uppercase hex digits —
+ * the checksum EMVCo uses in tag 63
+ */
+export function crc16ccitt(data: string): string {
+    let crc = 0xFFFF
+    for (const byte of new TextEncoder().encode(data)) {
+        crc ^= byte << 8
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF
+        }
     }
+    return crc.toString(16).toUpperCase().padStart(4, '0')
+}
+
+/**
+ * Tag 63 must be the last field; its CRC covers everything up to and
+ * including "6304"
+ */
+function verifyEMVChecksum(data: string): boolean {
+    const crcStart = data.length - 8
+    if (crcStart < 0 || data.slice(crcStart, crcStart + 4) !== '6304') return false
+    return crc16ccitt(data.slice(0, crcStart + 4)) === data.slice(crcStart + 4).toUpperCase()
+}
+
+function emvValue(fields: EMVField[], tag: string): string | undefined {
+    return fields.find(f => f.tag === tag)?.value
+}
+
+/** A merchant account information template (tags 02–51) */
+export interface EMVMerchantAccount {
+    tag: string
+    gui?: string                 // Sub-tag 00 — identifies the scheme (26–51 only)
+    fields: EMVField[]
+}
+
+/** The scheme-independent parts of an EMVCo MPM payload */
+export interface EMVPayload {
+    fields: EMVField[]
+    accounts: EMVMerchantAccount[]
+    additional: EMVField[]       // Tag 62 sub-fields
+    dynamic: boolean             // Point of initiation 12
+    checksumValid: boolean
+    errors: string[]
 }
 
 /**
- * Parse PIX QR Code (Brazil)
- * PIX codes are EMV-based, more complex parsing needed
- * For MVP, we'll handle basic format
+ * Decode an EMVCo MPM payload. null = not EMV at all.
  */
-function parsePIX(data: string): ParsedQRData | null {
-    // PIX QR codes  typically start with specific EMV tags
-    if (!data.includes('br.gov.bcb.pix')) return null
+export function decodeEMV(data: string): EMVPayload | null {
+    const fields = parseEMVTLV(data)
+    if (!fields || fields.length === 0) return null
+    // Every MPM code starts "000201" and ends with the tag 63 CRC
+    if (fields[0].tag !== '00' && !fields.some(f => f.tag === '63')) return null
+
+    const errors: string[] = []
+    if (fields[0].tag !== '00' || fields[0].value !== '01') {
+        errors.push('Missing payload format indicator')
+    }
+
+    const accounts: EMVMerchantAccount[] = []
+    for (const field of fields) {
+        const tag = Number(field.tag)
+        if (tag < 2 || tag > 51) continue
+        // 02–25 are card-network primitives; 26–51 are templates with a GUI
+        const sub = tag >= 26 ? parseEMVTLV(field.value) : null
+        accounts.push({ tag: field.tag, gui: sub ? emvValue(sub, '00') : undefined, fields: sub || [] })
+    }
+
+    const additionalRaw = emvValue(fields, '62')
+    const additional = additionalRaw ? parseEMVTLV(additionalRaw) : []
+    if (!additional) errors.push('Malformed additional data (tag 62)')
+
+    const checksumValid = verifyEMVChecksum(data)
+    if (!checksumValid) errors.push('Invalid CRC16 checksum')
 
     return {
+        fields,
+        accounts,
+        additional: additional || [],
+        dynamic: emvValue(fields, '01') === '12',
+        checksumValid,
+        errors,
+    }
+}
+
+// ISO 4217 numeric → alpha for the currencies our schemes use
+const ISO_4217_NUMERIC: Record<string, string> = {
+    '356': 'INR',
+    '360': 'IDR',
+    '458': 'MYR',
+    '608': 'PHP',
+    '702': 'SGD',
+    '764': 'THB',
+    '840': 'USD',
+    '978': 'EUR',
+    '986': 'BRL',
+}
+
+// ─── Scheme interpreters ────────────────────────────────
+
+interface EMVScheme {
+    type: QRType
+    name: string
+    currency: string             // The only currency the scheme settles in
+    guis: string[]               // Matched case-insensitively, in preference order
+    /** Pull the payee (and anything scheme-specific) out of the matched template */
+    interpret(account: EMVMerchantAccount, payload: EMVPayload): Partial<ParsedQRData>
+}
+
+/**
+ * Registry of EMV schemes — add a market by adding an entry
+ */
+const EMV_SCHEMES: EMVScheme[] = [
+    {
+        // Brazil — BCB BR Code manual
         type: 'pix',
+        name: 'PIX',
         currency: 'BRL',
+        guis: ['br.gov.bcb.pix'],
+        interpret(account, payload) {
+            const key = emvValue(account.fields, '01')
+            const url = emvValue(account.fields, '25')
+            const rawTxid = emvValue(payload.additional, '05')
+            const txid = rawTxid && rawTxid !== '***' ? rawTxid : undefined
+            return {
+                recipient: key,
+                reference: txid,
+                pix: {
+                    gui: 'br.gov.bcb.pix',
+                    key,
+                    url,
+                    info: emvValue(account.fields, '02'),
+                    txid,
+                    dynamic: payload.dynamic || !!url,
+                    merchantCategoryCode: emvValue(payload.fields, '52'),
+                    postalCode: emvValue(payload.fields, '61'),
+                },
+                ...(!key && !url && { errors: ['PIX code has neither a key nor a payload URL'] }),
+            }
+        },
+    },
+    {
+        // India — Bharat QR: NPCI RID in the UPI templates, 26/01 = VPA,
+        // 27/01 = transaction reference, 27/02 = reference URL
+        type: 'upi',
+        name: 'Bharat QR',
+        currency: 'INR',
+        guis: ['A000000524'],
+        interpret(account, payload) {
+            const vpa = emvValue(account.fields, '01')
+            const refTemplate = payload.accounts.find(a => a !== account && a.gui?.toUpperCase() === 'A000000524')
+            const transactionRef = refTemplate ? emvValue(refTemplate.fields, '01') : undefined
+            const errors: string[] = []
+            if (!vpa) errors.push('Bharat QR has no UPI VPA')
+            else if (!isValidVPA(vpa)) errors.push(`Invalid VPA ${vpa}`)
+            return {
+                recipient: vpa,
+                ...(transactionRef && { reference: transactionRef }),
+                upi: {
+                    vpa: vpa || '',
+                    payeeName: emvValue(payload.fields, '59'),
+                    merchantCode: emvValue(payload.fields, '52'),
+                    transactionRef,
+                    url: refTemplate ? emvValue(refTemplate.fields, '02') : undefined,
+                    amountEditable: emvValue(payload.fields, '54') === undefined,
+                    bharatQR: true,
+                },
+                ...(errors.length > 0 && { errors }),
+            }
+        },
+    },
+    {
+        // Thailand — 29 = credit transfer (01 mobile, 02 national/tax ID, 03 e-wallet),
+        // 30 = bill payment (01 biller ID, 02 reference 1)
+        type: 'promptpay',
+        name: 'PromptPay',
+        currency: 'THB',
+        guis: ['A000000677010111', 'A000000677010112'],
+        interpret(account) {
+            if (account.gui?.toUpperCase() === 'A000000677010112') {
+                return {
+                    recipient: emvValue(account.fields, '01'),
+                    reference: emvValue(account.fields, '02'),
+                }
+            }
+            const mobile = emvValue(account.fields, '01')
+            return {
+                // 0066812345678 → 0812345678
+                recipient: mobile ? mobile.replace(/^0066/, '0') : emvValue(account.fields, '02') || emvValue(account.fields, '03'),
+            }
+        },
+    },
+    {
+        // Indonesia — national QRIS template (tag 51): 02 = NMID
+        type: 'qris',
+        name: 'QRIS',
+        currency: 'IDR',
+        guis: ['ID.CO.QRIS.WWW'],
+        interpret(account) {
+            return { recipient: emvValue(account.fields, '02') }
+        },
+    },
+    {
+        // Singapore — PayNow (01 proxy type, 02 proxy value) or SGQR ID (01)
+        type: 'sgqr',
+        name: 'SGQR',
+        currency: 'SGD',
+        guis: ['SG.PAYNOW', 'SG.SGQR'],
+        interpret(account) {
+            if (account.gui?.toUpperCase() === 'SG.PAYNOW') {
+                return { recipient: emvValue(account.fields, '02') }
+            }
+            return { recipient: emvValue(account.fields, '01') }
+        },
+    },
+    {
+        // Malaysia — PayNet DuitNow: 01 acquirer, 02 merchant / proxy ID
+        type: 'duitnow',
+        name: 'DuitNow',
+        currency: 'MYR',
+        guis: ['A0000006150001', 'MY.COM.PAYNET'],
+        interpret(account) {
+            return { recipient: emvValue(account.fields, '02') || emvValue(account.fields, '01') }
+        },
+    },
+    {
+        // Philippines — QR Ph P2P / P2M: 01 institution BIC, 03/04 account
+        type: 'qrph',
+        name: 'QR Ph',
+        currency: 'PHP',
+        guis: ['com.p2pqrpay', 'ph.ppmi.p2m'],
+        interpret(account) {
+            return { recipient: emvValue(account.fields, '04') || emvValue(account.fields, '03') }
+        },
+    },
+]
+
+function findScheme(payload: EMVPayload): { scheme: EMVScheme; account: EMVMerchantAccount } | null {
+    for (const scheme of EMV_SCHEMES) {
+        for (const gui of scheme.guis) {
+            const account = payload.accounts.find(a => a.gui?.toLowerCase() === gui.toLowerCase())
+            if (account) return { scheme, account }
+        }
+    }
+    return null
+}
+
+/**
+ * Parse an EMVCo merchant-presented QR (PIX, PromptPay, QRIS, ...).
+ * Unknown schemes still get the common fields, typed 'generic'.
+ */
+function parseEMV(data: string): ParsedQRData | null {
+    const payload = decodeEMV(data)
+    if (!payload) {
+        // Looks like EMV but the TLV structure is broken
+        if (!data.startsWith('000201')) return null
+        return { type: 'generic', checksumValid: false, errors: ['Malformed EMV payload'], rawData: data }
+    }
+
+    const errors = [...payload.errors]
+    const match = findScheme(payload)
+
+    // Currency (tag 53) — must be the scheme's own
+    const currencyCode = emvValue(payload.fields, '53')
+    const currency = currencyCode ? ISO_4217_NUMERIC[currencyCode] : undefined
+    if (match && currency !== match.scheme.currency) {
+        errors.push(`Unexpected currency ${currencyCode ?? '(none)'}, expected ${match.scheme.currency}`)
+    }
+
+    // Amount (tag 54) — optional; absent means the payer types it in
+    const rawAmount = emvValue(payload.fields, '54')
+    let amount: number | undefined
+    if (rawAmount !== undefined) {
+        amount = /^\d+(\.\d{1,2})?$/.test(rawAmount) ? parseFloat(rawAmount) : undefined
+        if (amount === undefined) errors.push(`Invalid amount ${rawAmount}`)
+    }
+
+    // Reference — 62/05 reference label, else 62/01 bill number
+    const reference = emvValue(payload.additional, '05') || emvValue(payload.additional, '01')
+
+    const { errors: schemeErrors = [], ...specific } = match ? match.scheme.interpret(match.account, payload) : {}
+    errors.push(...schemeErrors)
+
+    return {
+        type: match ? match.scheme.type : 'generic',
+        scheme: match?.scheme.name,
+        recipientName: emvValue(payload.fields, '59'),
+        city: emvValue(payload.fields, '60'),
+        country: emvValue(payload.fields, '58'),
+        amount,
+        currency: match?.scheme.currency ?? currency,
+        reference,
+        ...specific,
+        checksumValid: payload.checksumValid,
+        ...(errors.length > 0 && { errors }),
         rawData: data,
-        // TODO: Implement full PIX EMV parsing
     }
 }
 
@@ -67,14 +517,14 @@ function parseGeneric(data: string): ParsedQRData {
 /**
  * Main QR parser function
  */
-export function parseQRCode(data: string): ParsedQRData {
+export function parseQRCode(data: string, options: QRParseOptions = {}): ParsedQRData {
     // Try UPI first
-    const upiData = parseUPI(data)
+    const upiData = parseUPI(data.trim(), options)
     if (upiData) return upiData
 
-    // Try PIX
-    const pixData = parsePIX(data)
-    if (pixData) return pixData
+    // Try EMVCo MPM (PIX, PromptPay, QRIS, SGQR, DuitNow, QR Ph)
+    const emvData = parseEMV(data)
+    if (emvData) return emvData
 
     // Fallback to generic
     return parseGeneric(data)
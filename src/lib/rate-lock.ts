@@ -1,3 +1,7 @@
+import { getRedis, useRedis } from './redis'
+import { getRate } from './rate-oracle'
+import { getBestLPPrice } from './lp-store'
+
 /**
  * Rate Lock Utility
  * 
@@ -5,21 +9,28 @@
  * - Rate manipulation during order
  * - Disputes over rate changes
  * - User/LP gaming rate fluctuations
+ *
+ * Quotes are persisted (Redis, 5-minute TTL) so the rate the user saw on
+ * the scan/sell page is the rate POST /api/orders locks onto the order —
+ * each quote can back exactly one order. The quoted rate is the best
+ * price an active LP publishes (lp-store.ts), not the raw oracle mid.
  */
 
 export interface LockedRate {
-    rate: number           // INR per USDC (e.g., 83.50)
+    rate: number           // Fiat per USDC (oracle median)
     lockedAt: number       // Timestamp when locked
-    source: string         // Rate source (e.g., 'coingecko')
+    source: string         // Oracle sources (e.g., 'coingecko+binance_p2p')
     validUntil: number     // Rate validity window
 }
 
 export interface RateQuote {
-    usdcAmount: number     // USDC amount (6 decimals)
-    inrAmount: number      // INR amount
-    rate: number           // Locked rate
-    fee: number            // Platform fee in USDC
-    totalUsdc: number      // Total USDC needed (amount + fee)
+    id: string
+    currency: string       // Fiat the rate is quoted in
+    rate: number           // Locked rate (fiat per USDC) — best LP price
+    midRate: number        // Oracle mid the LP price was derived from
+    lp?: string            // LP whose price this is (none → the mid)
+    source: string         // Oracle sources behind midRate
+    owner: string          // Session address the quote was issued to
     lockedAt: number
     expiresAt: number      // Quote expiration
 }
@@ -27,82 +38,143 @@ export interface RateQuote {
 // Rate is valid for 5 minutes after locking
 const RATE_VALIDITY_WINDOW = 5 * 60 * 1000 // 5 minutes
 
+const QUOTE_KEY = (id: string) => `rates:quote:${id}`
+const QUOTE_USED_KEY = (id: string) => `rates:quote:used:${id}`
+// Kept past expiry so a late order gets "expired", not "not found"
+const QUOTE_RETENTION_SECONDS = RATE_VALIDITY_WINDOW / 1000 + 3600
+
+// ─── In-memory fallback (dev only) ─────────────────────
+const globalForQuotes = globalThis as unknown as {
+    _uwuRateQuotes?: Map<string, RateQuote>
+    _uwuUsedQuotes?: Map<string, string>
+}
+if (!globalForQuotes._uwuRateQuotes) globalForQuotes._uwuRateQuotes = new Map()
+if (!globalForQuotes._uwuUsedQuotes) globalForQuotes._uwuUsedQuotes = new Map()
+const memQuotes = globalForQuotes._uwuRateQuotes
+const memUsedQuotes = globalForQuotes._uwuUsedQuotes
+
 // Rate precision (multiply by this for contract storage)
 export const RATE_PRECISION = 1_000000 // 6 decimals
 
 /**
- * Lock rate for an order
+ * Lock rate for an order — the oracle median at this moment. Throws when
+ * the oracle refuses to quote; there is no fallback rate.
+ */
+export async function lockRate(currency: string = 'INR'): Promise<LockedRate> {
+    const result = await getRate(currency)
+    if (!result.ok) {
+        throw new Error(`Cannot lock ${currency} rate: ${result.error}`)
+    }
+
+    const now = Date.now()
+    return {
+        rate: result.rate.rate,
+        lockedAt: now,
+        source: result.rate.sources.map(s => s.provider).join('+'),
+        validUntil: now + RATE_VALIDITY_WINDOW
+    }
+}
+
+/**
+ * Lock the best LP price and persist it as a quote the owner can create an
+ * order against until it expires. Throws when the oracle refuses to quote.
  */
-export async function lockRate(): Promise<LockedRate> {
+export async function createRateQuote(currency: string, owner: string, amountUsdc?: number): Promise<RateQuote> {
+    const code = currency.toUpperCase()
+    const lockedRate = await lockRate(code)
+    const best = await getBestLPPrice(code, lockedRate.rate, amountUsdc)
+
+    const quote: RateQuote = {
+        id: `quote_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+        currency: code,
+        rate: best?.rate ?? lockedRate.rate,
+        midRate: lockedRate.rate,
+        lp: best?.address,
+        source: lockedRate.source,
+        owner: owner.toLowerCase(),
+        lockedAt: lockedRate.lockedAt,
+        expiresAt: lockedRate.validUntil,
+    }
+
+    memQuotes.set(quote.id, quote)
+    if (useRedis()) {
+        await getRedis().set(QUOTE_KEY(quote.id), quote, { ex: QUOTE_RETENTION_SECONDS })
+    }
+    return quote
+}
+
+export async function getRateQuote(id: string): Promise<RateQuote | null> {
+    if (!useRedis()) return memQuotes.get(id) || null
     try {
-        // Fetch current rate from CoinGecko
-        const response = await fetch(
-            'https://api.coingecko.com/api/v3/simple/price?ids=usd-coin&vs_currencies=inr',
-            { next: { revalidate: 30 } } // Cache for 30 seconds
-        )
-        
-        if (!response.ok) {
-            throw new Error('Failed to fetch rate')
-        }
-        
-        const data = await response.json()
-        const rate = data['usd-coin']?.inr
-        
-        if (!rate) {
-            throw new Error('Rate not available')
-        }
-        
-        const now = Date.now()
-        
-        return {
-            rate,
-            lockedAt: now,
-            source: 'coingecko',
-            validUntil: now + RATE_VALIDITY_WINDOW
-        }
-    } catch (error) {
-        console.error('Error locking rate:', error)
-        
-        // Fallback rate (should not be used in production)
-        return {
-            rate: 83.50,
-            lockedAt: Date.now(),
-            source: 'fallback',
-            validUntil: Date.now() + RATE_VALIDITY_WINDOW
-        }
+        return await getRedis().get<RateQuote>(QUOTE_KEY(id))
+    } catch (e) {
+        console.error('[RateLock] Redis get failed:', e)
+        return memQuotes.get(id) || null
     }
 }
 
+export type QuoteCheck =
+    | { valid: true; quote: RateQuote }
+    | { valid: false; error: string; status: 400 | 403 | 404 | 409 | 410 }
+
 /**
- * Create a rate quote for an order
+ * Is this quote usable for an order by `owner` in `currency`?
+ * (Read-only — redeemRateQuote burns it once the order is accepted.)
  */
-export async function createRateQuote(
-    usdcAmount: number,
-    feePercentage: number = 0.5,
-    smallOrderThreshold: number = 10_000000,
-    smallOrderFee: number = 120000
-): Promise<RateQuote> {
-    const lockedRate = await lockRate()
-    
-    // Calculate INR amount
-    const inrAmount = (usdcAmount / 1_000000) * lockedRate.rate
-    
-    // Calculate fee
-    let fee = Math.floor((usdcAmount * feePercentage) / 100)
-    
-    // Add small order fee if applicable
-    if (usdcAmount < smallOrderThreshold) {
-        fee += smallOrderFee
+export async function checkRateQuote(id: string, expected: { owner: string; currency: string }): Promise<QuoteCheck> {
+    const quote = await getRateQuote(id)
+    if (!quote) {
+        return { valid: false, error: "Rate quote not found", status: 404 }
     }
-    
-    return {
-        usdcAmount,
-        inrAmount: Math.round(inrAmount * 100) / 100, // Round to 2 decimals
-        rate: lockedRate.rate,
-        fee,
-        totalUsdc: usdcAmount + fee,
-        lockedAt: lockedRate.lockedAt,
-        expiresAt: lockedRate.validUntil
+    if (quote.owner !== expected.owner.toLowerCase()) {
+        return { valid: false, error: "Rate quote was issued to a different wallet", status: 403 }
+    }
+    if (quote.currency !== expected.currency.toUpperCase()) {
+        return { valid: false, error: `Rate quote is for ${quote.currency}, order is in ${expected.currency}`, status: 400 }
+    }
+    if (Date.now() >= quote.expiresAt) {
+        return { valid: false, error: "Rate quote expired — request a new one", status: 410 }
+    }
+    const usedBy = useRedis()
+        ? await getRedis().get<string>(QUOTE_USED_KEY(id))
+        : memUsedQuotes.get(id)
+    if (usedBy) {
+        return { valid: false, error: "Rate quote was already used for another order", status: 409 }
+    }
+    return { valid: true, quote }
+}
+
+/**
+ * Burn a quote for `orderId` — true only for the first caller
+ */
+export async function redeemRateQuote(id: string, orderId: string): Promise<boolean> {
+    if (useRedis()) {
+        const ok = await getRedis().set(QUOTE_USED_KEY(id), orderId, { nx: true, ex: QUOTE_RETENTION_SECONDS })
+        return ok === "OK"
+    }
+    if (memUsedQuotes.has(id)) return false
+    memUsedQuotes.set(id, orderId)
+    return true
+}
+
+// Deletes the used marker only if this order still holds it
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+end
+return 0
+`
+
+/**
+ * Hand a redeemed quote back — the order it was burned for was never stored
+ */
+export async function releaseRateQuote(id: string, orderId: string): Promise<void> {
+    if (memUsedQuotes.get(id) === orderId) memUsedQuotes.delete(id)
+    if (!useRedis()) return
+    try {
+        await getRedis().eval<string[], number>(RELEASE_SCRIPT, [QUOTE_USED_KEY(id)], [orderId])
+    } catch (error) {
+        console.error('[RateLock] Failed to release quote:', error)
     }
 }
 
@@ -0,0 +1,325 @@
+import { getRedis, useRedis } from "@/lib/redis"
+import { PLATFORM_CONFIG, getMaxRateDeviation, isSupportedFiat } from "@/lib/platform-config"
+
+/**
+ * Rate Oracle — the one place fiat/USDC rates come from
+ *
+ * WHY: The orders API, the rate lock and the client converter each fetched
+ * CoinGecko on their own and quietly fell back to hard-coded rates (83.50
+ * INR) when it failed, so an outage priced orders at a stale number. Rates
+ * now come from pluggable providers (RATE_PROVIDERS), are combined with a
+ * median, and the oracle refuses to quote when sources are stale or
+ * disagree by more than the currency's limit (getMaxRateDeviation — spot
+ * and P2P books sit further apart in some markets than others).
+ */
+
+// ─── Types ──────────────────────────────────────────────
+
+/** One source's fiat-per-USDC price */
+export interface ProviderQuote {
+    currency: string
+    rate: number
+    fetchedAt: number        // When the source priced it (ms), not when we asked
+}
+
+export interface RateProvider {
+    name: string
+    fetchRates(currencies: string[]): Promise<ProviderQuote[]>
+}
+
+export interface OracleRate {
+    currency: string
+    rate: number             // Median fiat per USDC
+    sources: { provider: string; rate: number; fetchedAt: number }[]
+    computedAt: number
+}
+
+export type RateRefusal = "unsupported" | "no_sources" | "stale" | "deviation"
+
+export type RateResult =
+    | { ok: true; rate: OracleRate }
+    | { ok: false; currency: string; reason: RateRefusal; error: string }
+
+const PROVIDER_TIMEOUT_MS = 4_000
+const RATE_KEY = (currency: string) => `rates:oracle:${currency}`
+
+// In-memory cache (and the Redis-less fallback) + single-flight fetches
+const globalForOracle = globalThis as unknown as {
+    _uwuRateProviders?: RateProvider[]
+    _uwuRateCache?: Map<string, OracleRate>
+    _uwuRateInflight?: Map<string, Promise<Map<string, RateResult>>>
+}
+
+if (!globalForOracle._uwuRateCache) globalForOracle._uwuRateCache = new Map()
+if (!globalForOracle._uwuRateInflight) globalForOracle._uwuRateInflight = new Map()
+const memCache = globalForOracle._uwuRateCache
+const inflight = globalForOracle._uwuRateInflight
+
+// ─── Providers ──────────────────────────────────────────
+
+/**
+ * CoinGecko simple price for USDC
+ */
+export function createCoinGeckoProvider(): RateProvider {
+    return {
+        name: "coingecko",
+
+        async fetchRates(currencies) {
+            const vs = currencies.map(c => c.toLowerCase()).join(",")
+            const response = await fetch(
+                `https://api.coingecko.com/api/v3/simple/price?ids=usd-coin&vs_currencies=${vs}&include_last_updated_at=true`,
+                { cache: "no-store", signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) }
+            )
+            if (!response.ok) throw new Error(`CoinGecko HTTP ${response.status}`)
+
+            const data = (await response.json())["usd-coin"] as Record<string, number> | undefined
+            if (!data) return []
+            const fetchedAt = data.last_updated_at ? data.last_updated_at * 1000 : Date.now()
+
+            return currencies
+                .filter(c => data[c.toLowerCase()] > 0)
+                .map(c => ({ currency: c, rate: data[c.toLowerCase()], fetchedAt }))
+        },
+    }
+}
+
+/**
+ * Binance P2P order book — the mid of the median BUY and SELL ad prices.
+ * USDC books are thin for most fiats, so the asset is configurable
+ * (BINANCE_P2P_ASSET, default USDT as a dollar proxy).
+ */
+export function createBinanceP2PProvider(asset = process.env.BINANCE_P2P_ASSET || "USDT"): RateProvider {
+    async function side(fiat: string, tradeType: "BUY" | "SELL"): Promise<number | null> {
+        const response = await fetch("https://p2p.binance.com/bapi/c2c/v2/friendly/c2c/adv/search", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ asset, fiat, tradeType, page: 1, rows: 10, payTypes: [], publisherType: null }),
+            cache: "no-store",
+            signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+        })
+        if (!response.ok) throw new Error(`Binance P2P HTTP ${response.status}`)
+
+        const json = await response.json() as { data?: { adv?: { price?: string } }[] }
+        const prices = (json.data || [])
+            .map(ad => Number(ad.adv?.price))
+            .filter(p => Number.isFinite(p) && p > 0)
+        return prices.length > 0 ? median(prices) : null
+    }
+
+    return {
+        name: "binance_p2p",
+
+        async fetchRates(currencies) {
+            const quotes = await Promise.all(currencies.map(async currency => {
+                const [buy, sell] = await Promise.all([side(currency, "BUY"), side(currency, "SELL")])
+                if (buy === null || sell === null) return null
+                return { currency, rate: (buy + sell) / 2, fetchedAt: Date.now() }
+            }))
+            return quotes.filter((q): q is ProviderQuote => q !== null)
+        },
+    }
+}
+
+const globalForFixture = globalThis as unknown as { _uwuRateFixture?: Record<string, number> }
+
+/**
+ * Fixed rates for tests and local runs — RATE_FIXTURE='{"INR":83.4}' or
+ * setFixtureRates()
+ */
+export function createFixtureProvider(): RateProvider {
+    return {
+        name: "fixture",
+
+        async fetchRates(currencies) {
+            const rates = globalForFixture._uwuRateFixture
+                || (process.env.RATE_FIXTURE ? JSON.parse(process.env.RATE_FIXTURE) as Record<string, number> : {})
+            return currencies
+                .filter(c => rates[c] > 0)
+                .map(c => ({ currency: c, rate: rates[c], fetchedAt: Date.now() }))
+        },
+    }
+}
+
+/**
+ * Override the fixture provider's rates (and drop cached medians)
+ */
+export function setFixtureRates(rates: Record<string, number> | null): void {
+    globalForFixture._uwuRateFixture = rates || undefined
+    memCache.clear()
+}
+
+const PROVIDER_FACTORIES: Record<string, () => RateProvider> = {
+    coingecko: createCoinGeckoProvider,
+    binance_p2p: () => createBinanceP2PProvider(),
+    fixture: createFixtureProvider,
+}
+
+/**
+ * Providers named in RATE_PROVIDERS (default "coingecko,binance_p2p")
+ */
+export function getRateProviders(): RateProvider[] {
+    if (globalForOracle._uwuRateProviders) return globalForOracle._uwuRateProviders
+
+    const names = (process.env.RATE_PROVIDERS || "coingecko,binance_p2p")
+        .split(",")
+        .map(n => n.trim().toLowerCase())
+        .filter(Boolean)
+    const providers: RateProvider[] = []
+    for (const name of names) {
+        const factory = PROVIDER_FACTORIES[name]
+        if (factory) providers.push(factory())
+        else console.warn(`[RateOracle] ⚠️  Unknown rate provider "${name}" — ignored`)
+    }
+
+    console.log(`[RateOracle] Using providers: ${providers.map(p => p.name).join(", ") || "none"}`)
+    globalForOracle._uwuRateProviders = providers
+    return providers
+}
+
+// ─── Aggregation ────────────────────────────────────────
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b)
+    const mid = Math.floor(sorted.length / 2)
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Median of the fresh quotes for one currency, or why there isn't one
+ */
+function aggregate(
+    currency: string,
+    quotes: { provider: string; rate: number; fetchedAt: number }[],
+    now: number
+): RateResult {
+    const { maxAgeSeconds, minSources } = PLATFORM_CONFIG.rates
+    const maxDeviation = getMaxRateDeviation(currency)
+
+    if (quotes.length === 0) {
+        return { ok: false, currency, reason: "no_sources", error: `No rate source is quoting ${currency} right now` }
+    }
+
+    const fresh = quotes.filter(q => now - q.fetchedAt <= maxAgeSeconds * 1000)
+    if (fresh.length < minSources) {
+        return {
+            ok: false,
+            currency,
+            reason: "stale",
+            error: `${currency} rate is stale — ${fresh.length} of ${minSources} required sources updated in the last ${maxAgeSeconds}s`,
+        }
+    }
+
+    const rates = fresh.map(q => q.rate)
+    const mid = median(rates)
+    const spread = (Math.max(...rates) - Math.min(...rates)) / mid
+    if (spread > maxDeviation) {
+        console.warn(`[RateOracle] ⚠️  ${currency} breaker tripped:`, fresh.map(q => `${q.provider}=${q.rate}`).join(", "))
+        return {
+            ok: false,
+            currency,
+            reason: "deviation",
+            error: `${currency} rate sources disagree by ${(spread * 100).toFixed(2)}% (max ${maxDeviation * 100}%) — quoting paused`,
+        }
+    }
+
+    return { ok: true, rate: { currency, rate: mid, sources: fresh, computedAt: now } }
+}
+
+async function readCached(currency: string): Promise<OracleRate | null> {
+    const maxAge = PLATFORM_CONFIG.rates.cacheSeconds * 1000
+    const local = memCache.get(currency)
+    if (local && Date.now() - local.computedAt < maxAge) return local
+    if (!useRedis()) return null
+    try {
+        const cached = await getRedis().get<OracleRate>(RATE_KEY(currency))
+        if (cached && Date.now() - cached.computedAt < maxAge) {
+            memCache.set(currency, cached)
+            return cached
+        }
+    } catch (e) {
+        console.error('[RateOracle] Redis get failed:', e)
+    }
+    return null
+}
+
+async function writeCached(rate: OracleRate): Promise<void> {
+    memCache.set(rate.currency, rate)
+    if (!useRedis()) return
+    try {
+        await getRedis().set(RATE_KEY(rate.currency), rate, { ex: PLATFORM_CONFIG.rates.cacheSeconds })
+    } catch (e) {
+        console.error('[RateOracle] Redis set failed:', e)
+    }
+}
+
+/**
+ * Ask every provider for `currencies` and aggregate each one
+ */
+async function fetchFromProviders(currencies: string[]): Promise<Map<string, RateResult>> {
+    const providers = getRateProviders()
+    const settled = await Promise.allSettled(providers.map(p => p.fetchRates(currencies)))
+
+    const byCurrency = new Map<string, { provider: string; rate: number; fetchedAt: number }[]>()
+    settled.forEach((outcome, i) => {
+        if (outcome.status === "rejected") {
+            console.warn(`[RateOracle] ${providers[i].name} failed:`, outcome.reason)
+            return
+        }
+        for (const quote of outcome.value) {
+            const list = byCurrency.get(quote.currency) || []
+            list.push({ provider: providers[i].name, rate: quote.rate, fetchedAt: quote.fetchedAt })
+            byCurrency.set(quote.currency, list)
+        }
+    })
+
+    const now = Date.now()
+    const results = new Map<string, RateResult>()
+    for (const currency of currencies) {
+        const result = aggregate(currency, byCurrency.get(currency) || [], now)
+        if (result.ok) await writeCached(result.rate)
+        results.set(currency, result)
+    }
+    return results
+}
+
+// ─── Public API ─────────────────────────────────────────
+
+/**
+ * Rates for several currencies — one provider round-trip for all the
+ * uncached ones, shared by concurrent callers
+ */
+export async function getRates(currencies: string[]): Promise<Map<string, RateResult>> {
+    const results = new Map<string, RateResult>()
+    const missing: string[] = []
+
+    for (const raw of new Set(currencies.map(c => c.toUpperCase()))) {
+        if (!isSupportedFiat(raw)) {
+            results.set(raw, { ok: false, currency: raw, reason: "unsupported", error: `Unsupported currency: ${raw}` })
+            continue
+        }
+        const cached = await readCached(raw)
+        if (cached) results.set(raw, { ok: true, rate: cached })
+        else missing.push(raw)
+    }
+
+    if (missing.length > 0) {
+        const key = missing.sort().join(",")
+        let pending = inflight.get(key)
+        if (!pending) {
+            pending = fetchFromProviders(missing).finally(() => inflight.delete(key))
+            inflight.set(key, pending)
+        }
+        for (const [currency, result] of await pending) results.set(currency, result)
+    }
+
+    return results
+}
+
+/**
+ * Median fiat-per-USDC rate for one currency, or a refusal to quote
+ */
+export async function getRate(currency: string): Promise<RateResult> {
+    const code = currency.toUpperCase()
+    const results = await getRates([code])
+    return results.get(code)!
+}
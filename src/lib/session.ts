@@ -0,0 +1,159 @@
+import { NextResponse } from "next/server"
+
+/**
+ * Wallet Sessions
+ *
+ * WHY: Routes used to take identity from the body / query string
+ * (`solverAddress`, `validator`, `?address=`), so anyone could act as
+ * anyone — including the core team. After a wallet signs in (SIWE, see
+ * auth.ts) it gets a session token; src/proxy.ts verifies the token on
+ * every API request and binds the address to the request. Routes read
+ * the address with getSessionAddress() and never trust body fields.
+ *
+ * Token = base64url(payload).base64url(HMAC-SHA256(payload, AUTH_SECRET)).
+ * Web Crypto only, so it runs in the proxy as well as in route handlers.
+ */
+
+export const SESSION_COOKIE = "uwu_session"
+export const SESSION_TTL_SECONDS = 24 * 60 * 60
+
+// Set by the proxy after verifying the session — stripped from incoming requests
+export const SESSION_ADDRESS_HEADER = "x-uwu-address"
+
+interface SessionPayload {
+    sub: string      // Checksummed wallet address
+    iat: number
+    exp: number
+}
+
+const globalForSession = globalThis as unknown as { _uwuAuthSecret?: string }
+
+/**
+ * HMAC secret. Required in production — without it no session verifies.
+ * Dev gets a per-process random secret (sessions reset on restart).
+ */
+function getAuthSecret(): string | null {
+    if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET
+    if (process.env.NODE_ENV === "production") {
+        console.error('[Session] ❌ AUTH_SECRET missing — wallet sign-in is disabled')
+        return null
+    }
+    if (!globalForSession._uwuAuthSecret) {
+        console.warn('[Session] ⚠️  AUTH_SECRET missing — using a random dev secret')
+        const bytes = crypto.getRandomValues(new Uint8Array(32))
+        globalForSession._uwuAuthSecret = base64url(bytes)
+    }
+    return globalForSession._uwuAuthSecret
+}
+
+/**
+ * Issue a session token for a verified address
+ */
+export async function createSessionToken(address: string): Promise<string | null> {
+    const secret = getAuthSecret()
+    if (!secret) return null
+
+    const now = Math.floor(Date.now() / 1000)
+    const payload: SessionPayload = { sub: address, iat: now, exp: now + SESSION_TTL_SECONDS }
+    const body = base64url(new TextEncoder().encode(JSON.stringify(payload)))
+    return `${body}.${await sign(body, secret)}`
+}
+
+/**
+ * Verify a session token — returns the address, or null if invalid / expired
+ */
+export async function verifySessionToken(token: string): Promise<string | null> {
+    const secret = getAuthSecret()
+    if (!secret) return null
+
+    const [body, signature] = token.split(".")
+    if (!body || !signature) return null
+    if (!timingSafeEqual(signature, await sign(body, secret))) return null
+
+    try {
+        const payload = JSON.parse(new TextDecoder().decode(fromBase64url(body))) as SessionPayload
+        if (!payload.sub || payload.exp * 1000 < Date.now()) return null
+        return payload.sub
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Verified wallet address for this request (bound by src/proxy.ts), or null
+ */
+export function getSessionAddress(request: Request): string | null {
+    return request.headers.get(SESSION_ADDRESS_HEADER)
+}
+
+/**
+ * Standard 401 for routes that need a signed-in wallet
+ */
+export function unauthorizedResponse() {
+    return NextResponse.json(
+        { success: false, error: "Sign in with your wallet first" },
+        { status: 401 }
+    )
+}
+
+// ─── Scheduled jobs ─────────────────────────────────────
+
+/**
+ * Whether a worker route was called by the scheduler. Vercel Cron sends
+ * `Authorization: Bearer <CRON_SECRET>`; without the secret in production
+ * no request passes. Dev runs the workers unauthenticated.
+ */
+export function isCronRequest(request: Request): boolean {
+    const secret = process.env.CRON_SECRET
+    if (!secret) {
+        if (process.env.NODE_ENV === "production") {
+            console.error('[Session] ❌ CRON_SECRET missing — scheduled workers are disabled')
+            return false
+        }
+        return true
+    }
+    const bearer = request.headers.get("authorization")?.match(/^Bearer (.+)$/i)?.[1]
+    return !!bearer && timingSafeEqual(bearer, secret)
+}
+
+/**
+ * Standard 401 for worker routes called without the cron secret
+ */
+export function cronUnauthorizedResponse() {
+    return NextResponse.json(
+        { success: false, error: "Worker routes are only callable by the scheduler" },
+        { status: 401 }
+    )
+}
+
+// ─── Helpers ────────────────────────────────────────────
+
+async function sign(data: string, secret: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"]
+    )
+    const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data))
+    return base64url(new Uint8Array(signature))
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false
+    let diff = 0
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+    return diff === 0
+}
+
+function base64url(bytes: Uint8Array): string {
+    let binary = ""
+    bytes.forEach(b => { binary += String.fromCharCode(b) })
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64url(value: string): Uint8Array {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+    return Uint8Array.from(binary, c => c.charCodeAt(0))
+}
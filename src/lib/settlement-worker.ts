@@ -0,0 +1,368 @@
+import {
+    BaseError,
+    ContractFunctionRevertedError,
+    FeeCapTooLowError,
+    IntrinsicGasTooLowError,
+    NonceTooHighError,
+    NonceTooLowError,
+    TransactionNotFoundError,
+    WaitForTransactionReceiptTimeoutError,
+    createPublicClient,
+    createWalletClient,
+    http,
+    type Chain,
+    type Hash,
+} from "viem"
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts"
+import { hardhat } from "viem/chains"
+import { CONTRACT_ADDRESSES, opbnbTestnet } from "@/lib/web3-config"
+import { orderIdToBytes32 } from "@/lib/escrow-abi"
+import { getRedis, useRedis } from "@/lib/redis"
+import { type Order, getOrder, updateOrder, getAllOrders } from "@/lib/order-store"
+import { type OrderActor, canTransition, transitionOrder } from "@/lib/order-state-machine"
+import { publishOrderEvent } from "@/lib/order-bus"
+
+/**
+ * Settlement Worker
+ *
+ * WHY: Settlement used to be a 500ms setTimeout and a status flip — the
+ * USDC never moved. Now, once an order's dispute window has closed, the
+ * relayer key calls P2PEscrowV5.releaseEscrow() and the order only becomes
+ * `settled` after the receipt confirms it.
+ *
+ *   completed ──(window closed)──▶ releaseEscrow tx ──receipt ok──▶ settled
+ *                                        │
+ *                                 hash stored on the order, so a crash
+ *                                 mid-wait resumes the same tx instead
+ *                                 of sending a second one
+ *
+ * Nonce / gas errors are retried with a fresh pending nonce and bumped fees.
+ * Reverts are recorded on the order (settlementError) and left for the admin.
+ * On-chain the relayer may only release a claimed payment 24h after the
+ * claim (ReleaseTooEarly / PaymentNotClaimed) — the next run retries those.
+ *
+ * Env:
+ *   SETTLEMENT_RELAYER_PRIVATE_KEY  relayer key — must be setSettlementRelayer() on the escrow
+ *   SETTLEMENT_RPC_URL              optional RPC override (e.g. http://127.0.0.1:8545)
+ *   SETTLEMENT_CHAIN_ID             31337 to target a local Hardhat node
+ */
+
+export interface SettlementResult {
+    orderId: string
+    success: boolean
+    usdcTransferred: number
+    txHash?: string
+    pending?: boolean      // Tx sent but not confirmed yet — picked up again next run
+    error?: string
+}
+
+const MAX_SEND_ATTEMPTS = 4
+const RETRY_BASE_MS = 1_000
+const FEE_BUMP_PERCENT = BigInt(20)          // +20% per retry
+const RECEIPT_TIMEOUT_MS = 60_000
+const STUCK_TX_MS = 10 * 60 * 1000           // Tx unknown to the node after this → resend
+const SETTLE_LOCK_TTL_SECONDS = 180
+const MAX_ORDERS_PER_RUN = 10                // One relayer nonce → settle sequentially
+const CONFIRMATIONS = Number(process.env.SETTLEMENT_CONFIRMATIONS || 1)
+
+const SETTLE_LOCK_KEY = (orderId: string) => `settle:lock:${orderId}`
+
+// Only the functions/errors the worker needs from P2PEscrowV5
+const RELEASE_ESCROW_ABI = [
+    {
+        inputs: [{ name: "orderId", type: "bytes32" }],
+        name: "releaseEscrow",
+        outputs: [{ name: "", type: "bool" }],
+        stateMutability: "nonpayable",
+        type: "function",
+    },
+    { inputs: [], name: "InvalidStatus", type: "error" },
+    { inputs: [], name: "NotAuthorized", type: "error" },
+    { inputs: [], name: "PaymentNotClaimed", type: "error" },
+    { inputs: [{ name: "releasableAt", type: "uint256" }], name: "ReleaseTooEarly", type: "error" },
+] as const
+
+// ─── Clients ────────────────────────────────────────────
+
+interface RelayerClients {
+    account: PrivateKeyAccount
+    publicClient: ReturnType<typeof createPublicClient>
+    walletClient: ReturnType<typeof createWalletClient>
+    chain: Chain
+}
+
+const globalForSettlement = globalThis as unknown as {
+    _uwuRelayerClients?: RelayerClients | null
+    _uwuSettleLocks?: Map<string, number>
+}
+if (!globalForSettlement._uwuSettleLocks) {
+    globalForSettlement._uwuSettleLocks = new Map()
+}
+const memoryLocks = globalForSettlement._uwuSettleLocks
+
+/**
+ * Relayer clients, or null if no relayer key is configured
+ */
+function getRelayerClients(): RelayerClients | null {
+    if (globalForSettlement._uwuRelayerClients !== undefined) return globalForSettlement._uwuRelayerClients
+
+    const privateKey = process.env.SETTLEMENT_RELAYER_PRIVATE_KEY
+    if (!privateKey) {
+        console.warn('[Settlement] ⚠️  SETTLEMENT_RELAYER_PRIVATE_KEY missing — on-chain settlement disabled')
+        globalForSettlement._uwuRelayerClients = null
+        return null
+    }
+
+    const chain: Chain = Number(process.env.SETTLEMENT_CHAIN_ID) === hardhat.id ? hardhat : opbnbTestnet
+    const transport = http(process.env.SETTLEMENT_RPC_URL || undefined)
+    const account = privateKeyToAccount(privateKey as `0x${string}`)
+
+    globalForSettlement._uwuRelayerClients = {
+        account,
+        chain,
+        publicClient: createPublicClient({ chain, transport }),
+        walletClient: createWalletClient({ account, chain, transport }),
+    }
+    console.log(`[Settlement] Relayer ${account.address} on ${chain.name}`)
+    return globalForSettlement._uwuRelayerClients
+}
+
+// ─── Per-order lock ─────────────────────────────────────
+// Cron + a manual admin settle must never both send a release tx
+
+async function acquireSettleLock(orderId: string): Promise<boolean> {
+    if (useRedis()) {
+        const ok = await getRedis().set(SETTLE_LOCK_KEY(orderId), Date.now(), { nx: true, ex: SETTLE_LOCK_TTL_SECONDS })
+        return ok === "OK"
+    }
+    const heldUntil = memoryLocks.get(orderId)
+    if (heldUntil && heldUntil > Date.now()) return false
+    memoryLocks.set(orderId, Date.now() + SETTLE_LOCK_TTL_SECONDS * 1000)
+    return true
+}
+
+async function releaseSettleLock(orderId: string): Promise<void> {
+    memoryLocks.delete(orderId)
+    if (!useRedis()) return
+    try {
+        await getRedis().del(SETTLE_LOCK_KEY(orderId))
+    } catch (e) {
+        console.error('[Settlement] Failed to release lock:', e)
+    }
+}
+
+// ─── Sending ────────────────────────────────────────────
+
+/**
+ * Nonce races and underpriced gas fix themselves on a resend
+ */
+function isRetryableSendError(error: unknown): boolean {
+    if (!(error instanceof BaseError)) return false
+    const retryable = error.walk(e =>
+        e instanceof NonceTooLowError ||
+        e instanceof NonceTooHighError ||
+        e instanceof FeeCapTooLowError ||
+        e instanceof IntrinsicGasTooLowError
+    )
+    if (retryable) return true
+    return /replacement transaction underpriced|already known|nonce too low|transaction underpriced/i.test(error.message)
+}
+
+function describeError(error: unknown): string {
+    if (error instanceof BaseError) {
+        const revert = error.walk(e => e instanceof ContractFunctionRevertedError)
+        if (revert instanceof ContractFunctionRevertedError) {
+            return `releaseEscrow reverted: ${revert.data?.errorName || revert.reason || "unknown"}`
+        }
+        return error.shortMessage
+    }
+    return String(error)
+}
+
+/**
+ * Send releaseEscrow, retrying nonce / gas failures with a fresh pending
+ * nonce and fees bumped 20% per attempt.
+ */
+async function sendReleaseTx(clients: RelayerClients, escrowId: `0x${string}`): Promise<{ hash: Hash } | { error: string }> {
+    const { account, publicClient, walletClient, chain } = clients
+
+    for (let attempt = 0; attempt < MAX_SEND_ATTEMPTS; attempt++) {
+        try {
+            // Simulate first — a revert (already released, not authorized) is final, not retried
+            const call = {
+                address: CONTRACT_ADDRESSES.P2P_ESCROW as `0x${string}`,
+                abi: RELEASE_ESCROW_ABI,
+                functionName: "releaseEscrow",
+                args: [escrowId],
+            } as const
+            await publicClient.simulateContract({ ...call, account })
+
+            const [nonce, fees] = await Promise.all([
+                publicClient.getTransactionCount({ address: account.address, blockTag: "pending" }),
+                publicClient.estimateFeesPerGas(),
+            ])
+            const bump = (fee: bigint) => fee * (BigInt(100) + FEE_BUMP_PERCENT * BigInt(attempt)) / BigInt(100)
+
+            const hash = await walletClient.writeContract({
+                ...call,
+                account,
+                chain,
+                nonce,
+                maxFeePerGas: bump(fees.maxFeePerGas),
+                maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas),
+            })
+            return { hash }
+        } catch (error) {
+            if (!isRetryableSendError(error) || attempt === MAX_SEND_ATTEMPTS - 1) {
+                return { error: describeError(error) }
+            }
+            console.warn(`[Settlement] Send attempt ${attempt + 1} failed (${describeError(error)}) — retrying`)
+            await new Promise(resolve => setTimeout(resolve, RETRY_BASE_MS * 2 ** attempt))
+        }
+    }
+    return { error: "releaseEscrow could not be sent" }
+}
+
+// ─── Settlement ─────────────────────────────────────────
+
+/**
+ * Settle one order on-chain. Safe to call repeatedly: a stored tx hash is
+ * awaited rather than re-sent, and a per-order lock keeps callers apart.
+ */
+export async function settleOrderOnChain(orderId: string, actor: OrderActor, by?: string): Promise<SettlementResult> {
+    const failed = (error: string, txHash?: string): SettlementResult =>
+        ({ orderId, success: false, usdcTransferred: 0, error, txHash })
+
+    const clients = getRelayerClients()
+    if (!clients) return failed("Settlement relayer not configured")
+
+    if (!(await acquireSettleLock(orderId))) return failed("Settlement already in progress")
+
+    try {
+        const order = await getOrder(orderId)
+        if (!order) return failed("Order not found")
+        if (!canTransition(order, "settle", actor)) {
+            return failed(`Cannot settle order with status: ${order.status}`)
+        }
+
+        // Resume a tx from an earlier run, or send a new one
+        let hash = order.settlementTxHash as Hash | undefined
+        if (!hash) {
+            const sent = await sendReleaseTx(clients, (order.escrowId as `0x${string}` | undefined) ?? orderIdToBytes32(order.id))
+            if ("error" in sent) {
+                await updateOrder(orderId, current => {
+                    current.settlementError = sent.error
+                    return true
+                })
+                console.error(`[Settlement] Order ${orderId}: ${sent.error}`)
+                return failed(sent.error)
+            }
+            const sentHash = sent.hash
+            hash = sentHash
+            const saved = await updateOrder(orderId, current => {
+                current.settlementTxHash = sentHash
+                current.settlementSubmittedAt = Date.now()
+                current.settlementError = undefined
+                return true
+            })
+            // Still waited on below; the lock keeps this run the only sender
+            if (!saved) console.error(`[Settlement] Order ${orderId}: could not record tx ${sentHash}`)
+            console.log(`[Settlement] Order ${orderId}: releaseEscrow sent ${hash}`)
+        }
+
+        let receipt
+        try {
+            receipt = await clients.publicClient.waitForTransactionReceipt({
+                hash,
+                confirmations: CONFIRMATIONS,
+                timeout: RECEIPT_TIMEOUT_MS,
+            })
+        } catch (error) {
+            if (error instanceof WaitForTransactionReceiptTimeoutError) {
+                await forgetIfDropped(clients, orderId, hash)
+                return { orderId, success: false, usdcTransferred: 0, txHash: hash, pending: true, error: "Waiting for confirmation" }
+            }
+            throw error
+        }
+
+        // Writes below re-read the order — it may have been written while we waited
+        if (receipt.status !== "success") {
+            const error = `releaseEscrow reverted in ${hash}`
+            await updateOrder(orderId, current => {
+                current.settlementTxHash = undefined
+                current.settlementError = error
+                return true
+            })
+            console.error(`[Settlement] Order ${orderId}: tx ${hash} reverted`)
+            return failed(error, hash)
+        }
+
+        let transitionError = "Order changed while settling — the next run retries"
+        const settled = await updateOrder(orderId, current => {
+            const transition = transitionOrder(current, "settle", {
+                actor,
+                by,
+                note: `releaseEscrow ${hash} (block ${receipt.blockNumber})`,
+            })
+            if (!transition.success) transitionError = transition.error
+            return transition.success
+        })
+        if (!settled) return failed(transitionError, hash)
+        await publishOrderEvent({ type: "order_update", updateType: "settled", order: settled })
+
+        console.log(`[Settlement] Order ${orderId} settled - ${settled.amountUsdc} USDC released in ${hash}`)
+        return { orderId, success: true, usdcTransferred: settled.amountUsdc, txHash: hash }
+    } catch (error) {
+        console.error(`[Settlement] Failed to settle order ${orderId}:`, error)
+        return failed(describeError(error))
+    } finally {
+        await releaseSettleLock(orderId)
+    }
+}
+
+/**
+ * A tx the node has never heard of after STUCK_TX_MS was dropped from the
+ * mempool — clear the hash so the next run sends a fresh one.
+ */
+async function forgetIfDropped(clients: RelayerClients, orderId: string, hash: Hash): Promise<void> {
+    const order = await getOrder(orderId)
+    if (!order?.settlementSubmittedAt || Date.now() - order.settlementSubmittedAt < STUCK_TX_MS) return
+    try {
+        await clients.publicClient.getTransaction({ hash })
+    } catch (error) {
+        if (error instanceof TransactionNotFoundError) {
+            console.warn(`[Settlement] Order ${orderId}: tx ${hash} dropped — will resend`)
+            await updateOrder(orderId, current => {
+                if (current.settlementTxHash !== hash) return false
+                current.settlementTxHash = undefined
+                current.settlementError = `Tx ${hash} dropped`
+                return true
+            })
+        }
+    }
+}
+
+/**
+ * Orders whose dispute window has closed and still hold escrowed USDC
+ */
+export async function getSettleableOrders(now: number = Date.now()): Promise<Order[]> {
+    const [completed, paymentSent] = await Promise.all([
+        getAllOrders({ status: "completed" }),
+        getAllOrders({ status: "payment_sent" }),
+    ])
+    return [...completed, ...paymentSent]
+        .filter(o => o.disputePeriodEndsAt && o.disputePeriodEndsAt <= now)
+        .sort((a, b) => (a.disputePeriodEndsAt || 0) - (b.disputePeriodEndsAt || 0))
+}
+
+/**
+ * One worker pass — called on a schedule (GET /api/settlement)
+ */
+export async function runSettlementWorker(now: number = Date.now()): Promise<SettlementResult[]> {
+    const candidates = (await getSettleableOrders(now)).slice(0, MAX_ORDERS_PER_RUN)
+    const results: SettlementResult[] = []
+    for (const order of candidates) {
+        results.push(await settleOrderOnChain(order.id, "timer"))
+    }
+    return results
+}
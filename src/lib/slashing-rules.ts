@@ -7,6 +7,18 @@
  * - No progressive tiers - immediate full slash
  * - Reason: LP stake = max order value, so they must lose it all if they cheat
  * 
+ * VALIDATOR PENALTIES (Graduated, Appealable):
+ * - Vote against the majority → 10% of stake, scaled ×0.5–1.5 by the
+ *   validator's accuracy (good record = smaller slash) and ×0.5–1.5 by how
+ *   lopsided the outcome was (a 2–1 split costs less than 3–0), capped at 30%
+ * - Each minority slash starts a cool-off (24hr, doubling per slash in the
+ *   last 30 days, max 7 days) — no new committees until it ends. No bans.
+ * - Committed a vote but never revealed it → 10% of stake slashed
+ * - Reason: a hidden vote you never open lets you watch the reveals and
+ *   drop out — it must cost more than revealing a wrong vote early
+ * - Every slash goes in the profile's slash ledger; an admin can reverse a
+ *   minority-vote slash once the order is finally resolved the validator's way
+ * 
  * USER PENALTIES (3-Strike System):
  * - 1st false claim: Warning + 12hr cooldown
  * - 2nd false claim: 24hr cooldown + trust score -10
@@ -47,6 +59,24 @@ export const LP_SLASH_RULES = {
     },
 } as const
 
+// Validator slashing
+export const VALIDATOR_SLASH_RULES = {
+    // Voted against the majority — graduated, see calculateValidatorSlash
+    MINORITY_VOTE: {
+        baseSlashPercent: 10,
+        maxSlashPercent: 30,
+        cooldownHours: 24,
+        maxCooldownHours: 7 * 24,
+        recentWindowDays: 30,
+        description: 'Graduated stake slash + cool-off for voting against the majority',
+    },
+    // Commit without reveal — the ballot is void and the stake pays
+    NO_REVEAL: {
+        slashPercent: 10,
+        description: '10% of stake slashed for not revealing a committed vote',
+    },
+} as const
+
 // User penalty tiers
 export const USER_STRIKE_RULES = {
     1: {
@@ -91,6 +121,41 @@ export function calculateLPSlash(
     }
 }
 
+export interface ValidatorSlashResult extends SlashResult {
+    percent: number
+    cooldownHours: number
+}
+
+/**
+ * Graduated slash for a minority vote.
+ * accuracy: validator's accuracy (0–100) before this vote
+ * majorityShare: winning side's share of revealed votes (0.5–1)
+ * recentSlashes: minority slashes still standing in the recent window
+ */
+export function calculateValidatorSlash(
+    staked: number,
+    accuracy: number,
+    majorityShare: number,
+    recentSlashes: number
+): ValidatorSlashResult {
+    const rule = VALIDATOR_SLASH_RULES.MINORITY_VOTE
+    const accuracyFactor = 1.5 - Math.min(Math.max(accuracy, 0), 100) / 100
+    const lopsidedFactor = 2 * Math.min(Math.max(majorityShare, 0.5), 1) - 0.5
+    const percent = Math.min(
+        Math.round(rule.baseSlashPercent * accuracyFactor * lopsidedFactor * 100) / 100,
+        rule.maxSlashPercent
+    )
+    const cooldownHours = Math.min(rule.cooldownHours * 2 ** recentSlashes, rule.maxCooldownHours)
+
+    return {
+        amount: (staked * percent) / 100,
+        reason: 'MINORITY_VOTE',
+        percent,
+        cooldownHours,
+        additionalPenalty: `${cooldownHours}hr validator cool-off`,
+    }
+}
+
 /**
  * Get user penalty based on current strike count
  */
@@ -1,10 +1,19 @@
 import { getRedis, useRedis } from "@/lib/redis"
+import type { QRPayee } from "@/lib/qr-image-decoder"
+import type { RiskLevel } from "@/lib/platform-config"
+import type { VoteCommit } from "@/lib/vote-commit"
+import { type CommitteeMember, type CommitteeSeed, isCommitteeMember } from "@/lib/validator-committee"
 
 /**
  * Redis-backed Validation Store
  * 
  * Same pattern as order-store.ts — shared across all Vercel instances.
  * Stores validation tasks and validator profiles in Upstash Redis.
+ *
+ * Both carry a version, and updates go through compare-and-set (a Lua
+ * script checks the stored version before writing): a reveal, the worker
+ * and the admin can all touch one task at once, and the loser of a race
+ * re-reads instead of overwriting the winner.
  */
 
 // ─── Types ──────────────────────────────────────────────
@@ -16,12 +25,16 @@ export interface ValidationVote {
     votedAt: number
 }
 
+/** What happens to a task that closes without a majority (validation-worker.ts) */
+export type ValidationFallbackAction = 'auto_approve' | 'extend' | 'escalate'
+
 export interface ValidationTask {
     id: string
     orderId: string
     status: 'pending' | 'approved' | 'flagged' | 'escalated' | 'auto_approved'
     evidence: {
         userQrImage?: string
+        userQrPayee?: QRPayee          // Decoded from userQrImage on upload
         userAddress: string
         lpScreenshot?: string
         lpAddress: string
@@ -30,14 +43,30 @@ export interface ValidationTask {
         fiatCurrency: string
         paymentMethod: string
     }
-    votes: ValidationVote[]
-    threshold: number
+    votes: ValidationVote[]        // Revealed votes only — hidden until the tally
+    commits: VoteCommit[]          // Sealed ballots (vote-commit.ts)
+    committee: CommitteeMember[]   // Drawn validators, incl. replaced ones (validator-committee.ts)
+    committeeSize: number
+    committeeSeed: CommitteeSeed
+    threshold: number              // = committeeSize
+    risk?: { score: number; level: RiskLevel }   // Order's fraud risk — picks the fallback
+    fallbacks?: { action: ValidationFallbackAction; riskLevel: RiskLevel | null; amountUsdc: number; at: number }[]
     createdAt: number
+    commitDeadline: number
+    revealDeadline: number
     deadline: number
     resolvedAt?: number
-    resolvedBy?: string
+    resolvedBy?: string            // 'dao' | 'timeout' (auto-approved) | 'fallback' (escalated) | 'admin'
+    pendingEffects?: ResolutionEffect[]  // Set on resolution, ticked off as each one lands (validation-worker.ts)
+    version?: number               // Bumped on every write (compare-and-set)
 }
 
+/**
+ * What resolving a task still has to do outside it: move the order,
+ * slash validators who never revealed, score the revealed votes
+ */
+export type ResolutionEffect = 'order' | 'non_revealers' | 'accuracy'
+
 export interface ValidatorProfile {
     address: string
     totalReviews: number
@@ -50,9 +79,53 @@ export interface ValidatorProfile {
     staked: number           // Total USDC staked (e.g. 100)
     lockedAmount: number     // Amount currently locked in active validations
     lockedOrders: { orderId: string; amount: number; lockedUntil: number }[]  // Per-txn locks
-    isSlashed: boolean       // True = fully slashed, banned
+    missedReveals?: number   // Commits never revealed (each one slashed)
+    isSlashed: boolean       // True = banned (legacy full slash) — graduated slashes use cooldownUntil
     isActive: boolean        // Can accept validations
+    cooldownUntil?: number   // No new committees / commits until then (validator-slashing.ts)
+    slashLedger?: ValidatorSlashEntry[]
+    scoredTasks?: string[]   // Latest task IDs already in accuracy — a re-run can't count a vote twice
     registeredAt?: number    // When they registered as validator
+    // ValidatorVault mirror (validator-vault.ts)
+    vaultEarnedSynced?: number   // totalEarned last credited on-chain
+    vaultSyncedAt?: number
+    vaultSyncError?: string
+    vaultSyncFailures?: number   // Failed syncs in a row — backs off the next attempt
+    version?: number         // Bumped on every write (compare-and-set)
+}
+
+/**
+ * One slash on a validator — kept forever on the profile, reversals included
+ */
+export interface ValidatorSlashEntry {
+    id: string
+    taskId: string
+    orderId: string
+    reason: 'minority_vote' | 'no_reveal'
+    decision?: 'approve' | 'flag'   // What they voted (minority_vote)
+    percent: number
+    amount: number                  // USDC taken from stake
+    stakeBefore: number
+    accuracyBefore?: number
+    majorityShare?: number          // Winning side's share of revealed votes
+    cooldownUntil?: number
+    at: number
+    appeal?: {
+        note?: string
+        filedAt: number
+        status: 'pending' | 'granted' | 'rejected'
+        reviewedBy?: string
+        reviewedAt?: number
+        reviewNote?: string
+    }
+    reversedAt?: number
+    reversedBy?: string
+    vault?: {                       // Set once the slash is on ValidatorVault (validator-vault.ts)
+        slashId: string
+        slashTx?: string            // Missing if an earlier run's tx landed after it timed out
+        reverseTx?: string
+        reversed?: boolean
+    }
 }
 
 // ─── In-memory fallback ─────────────────────────────────
@@ -75,6 +148,42 @@ const VAL_COUNTER = "val:counter"                 // atomic counter
 const PROFILE_KEY = (addr: string) => `valprofile:${addr.toLowerCase()}`
 const PROFILE_INDEX = "valprofile:index"           // set of all profile addresses
 
+const TASK_TTL_SECONDS = 7 * 86400
+const PROFILE_TTL_SECONDS = 30 * 86400
+const UPDATE_ATTEMPTS = 5
+
+// ─── Lua scripts (atomic on Upstash) ────────────────────
+
+/**
+ * Version check + write, shared by both records.
+ *
+ * KEYS[1] = record key, KEYS[2] = index key
+ * ARGV[1] = expected version ('' = unconditional), ARGV[2] = JSON, ARGV[3] = TTL
+ */
+const CHECKED_SET_LUA = `
+if ARGV[1] ~= '' then
+    local current = redis.call('GET', KEYS[1])
+    local version = 0
+    if current then version = tonumber(cjson.decode(current).version) or 0 end
+    if version ~= tonumber(ARGV[1]) then
+        return 0
+    end
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', tonumber(ARGV[3]))
+`
+
+// ARGV[4] = createdAt score, ARGV[5] = task ID
+const TASK_WRITE_SCRIPT = CHECKED_SET_LUA + `
+redis.call('ZADD', KEYS[2], tonumber(ARGV[4]), ARGV[5])
+return 1
+`
+
+// ARGV[4] = address
+const PROFILE_WRITE_SCRIPT = CHECKED_SET_LUA + `
+redis.call('SADD', KEYS[2], ARGV[4])
+return 1
+`
+
 // ─── Validation Task CRUD ───────────────────────────────
 
 export async function getNextTaskId(): Promise<string> {
@@ -92,35 +201,82 @@ export async function getNextTaskId(): Promise<string> {
 }
 
 export async function getValidationTask(id: string): Promise<ValidationTask | null> {
-    if (!useRedis()) return memTasks.get(id) || null
+    if (!useRedis()) return memCopy(memTasks.get(id))
     try {
         return await getRedis().get<ValidationTask>(VAL_KEY(id))
     } catch (error) {
         console.error('[ValStore] Failed to get task:', error)
-        return memTasks.get(id) || null
+        return memCopy(memTasks.get(id))
     }
 }
 
+/**
+ * Write a task unconditionally — for new tasks. Updates go through
+ * compareAndSetValidationTask() / updateValidationTask().
+ */
 export async function setValidationTask(task: ValidationTask): Promise<void> {
-    memTasks.set(task.id, task)
+    task.version = (task.version || 0) + 1
+    memTasks.set(task.id, memCopy(task)!)
     if (!useRedis()) return
     try {
-        const redis = getRedis()
-        await redis.set(VAL_KEY(task.id), task, { ex: 7 * 86400 }) // 7-day TTL
-        await redis.zadd(VAL_INDEX, { score: task.createdAt, member: task.id })
+        await writeTask(task, '')
     } catch (error) {
         console.error('[ValStore] Failed to set task:', error)
     }
 }
 
+/**
+ * Write `task` only if the stored copy is still at `expectedVersion`.
+ * Returns false on conflict — re-read, or report 409.
+ */
+export async function compareAndSetValidationTask(task: ValidationTask, expectedVersion: number): Promise<boolean> {
+    const nextVersion = expectedVersion + 1
+
+    if (!useRedis()) {
+        if ((memTasks.get(task.id)?.version || 0) !== expectedVersion) return false
+        task.version = nextVersion
+        memTasks.set(task.id, memCopy(task)!)
+        return true
+    }
+
+    try {
+        if (!(await writeTask({ ...task, version: nextVersion }, expectedVersion))) return false
+        task.version = nextVersion
+        memTasks.set(task.id, memCopy(task)!)
+        return true
+    } catch (error) {
+        // Fail closed — a retry beats a lost vote
+        console.error('[ValStore] Failed to compare-and-set task:', error)
+        return false
+    }
+}
+
+/**
+ * Read-modify-write a task under compare-and-set (see updateOrder).
+ * `mutate` returns false to leave the task alone. Returns the written
+ * task, or null if it's missing, was skipped, or kept conflicting.
+ */
+export async function updateValidationTask(id: string, mutate: (task: ValidationTask) => boolean): Promise<ValidationTask | null> {
+    for (let attempt = 0; attempt < UPDATE_ATTEMPTS; attempt++) {
+        const task = await getValidationTask(id)
+        if (!task) return null
+
+        const expectedVersion = task.version || 0
+        if (!mutate(task)) return null
+        if (await compareAndSetValidationTask(task, expectedVersion)) return task
+    }
+    console.warn(`[ValStore] Gave up updating task ${id} after ${UPDATE_ATTEMPTS} conflicting writes`)
+    return null
+}
+
 export async function getAllValidationTasks(filters?: {
     status?: string
     excludeAddress?: string
+    committeeMember?: string
     includeResolved?: boolean
 }): Promise<ValidationTask[]> {
     if (!useRedis()) {
-        let tasks = Array.from(memTasks.values())
-        return applyTaskFilters(tasks, filters)
+        return applyTaskFilters(Array.from(memTasks.values(), t => memCopy(t)!), filters)
     }
     try {
         const redis = getRedis()
@@ -131,7 +287,7 @@ export async function getAllValidationTasks(filters?: {
         for (const id of ids) pipeline.get<ValidationTask>(VAL_KEY(id))
         const results = await pipeline.exec<(ValidationTask | null)[]>()
 
-        let tasks = results.filter((t): t is ValidationTask => t !== null)
+        const tasks = results.filter((t): t is ValidationTask => t !== null)
 
         // Clean up expired keys from index
         const expiredIds = ids.filter((_, i) => results[i] === null)
@@ -144,13 +300,14 @@ export async function getAllValidationTasks(filters?: {
         return applyTaskFilters(tasks, filters)
     } catch (error) {
         console.error('[ValStore] Failed to get all tasks:', error)
-        return applyTaskFilters(Array.from(memTasks.values()), filters)
+        return applyTaskFilters(Array.from(memTasks.values(), t => memCopy(t)!), filters)
     }
 }
 
 function applyTaskFilters(tasks: ValidationTask[], filters?: {
     status?: string
     excludeAddress?: string
+    committeeMember?: string
     includeResolved?: boolean
 }): ValidationTask[] {
     if (!filters) return tasks
@@ -167,6 +324,10 @@ function applyTaskFilters(tasks: ValidationTask[], filters?: {
             t.evidence.lpAddress.toLowerCase() !== addr
         )
     }
+    if (filters.committeeMember) {
+        const member = filters.committeeMember
+        tasks = tasks.filter(t => isCommitteeMember(t, member))
+    }
     return tasks
 }
 
@@ -174,30 +335,76 @@ function applyTaskFilters(tasks: ValidationTask[], filters?: {
 
 export async function getValidatorProfile(address: string): Promise<ValidatorProfile | null> {
     const addr = address.toLowerCase()
-    if (!useRedis()) return memProfiles.get(addr) || null
+    if (!useRedis()) return memCopy(memProfiles.get(addr))
     try {
         return await getRedis().get<ValidatorProfile>(PROFILE_KEY(addr))
     } catch (error) {
         console.error('[ValStore] Failed to get profile:', error)
-        return memProfiles.get(addr) || null
+        return memCopy(memProfiles.get(addr))
     }
 }
 
+/**
+ * Write a profile unconditionally — for new profiles. Updates go through
+ * compareAndSetValidatorProfile() / updateValidatorProfile().
+ */
 export async function setValidatorProfile(profile: ValidatorProfile): Promise<void> {
-    const addr = profile.address.toLowerCase()
-    memProfiles.set(addr, profile)
+    profile.version = (profile.version || 0) + 1
+    memProfiles.set(profile.address.toLowerCase(), memCopy(profile)!)
     if (!useRedis()) return
     try {
-        const redis = getRedis()
-        await redis.set(PROFILE_KEY(addr), profile, { ex: 30 * 86400 }) // 30-day TTL
-        await redis.sadd(PROFILE_INDEX, addr)
+        await writeProfile(profile, '')
     } catch (error) {
         console.error('[ValStore] Failed to set profile:', error)
     }
 }
 
+/**
+ * Write `profile` only if the stored copy is still at `expectedVersion`
+ * (0 = must not exist yet). Returns false on conflict.
+ */
+export async function compareAndSetValidatorProfile(profile: ValidatorProfile, expectedVersion: number): Promise<boolean> {
+    const addr = profile.address.toLowerCase()
+    const nextVersion = expectedVersion + 1
+
+    if (!useRedis()) {
+        if ((memProfiles.get(addr)?.version || 0) !== expectedVersion) return false
+        profile.version = nextVersion
+        memProfiles.set(addr, memCopy(profile)!)
+        return true
+    }
+
+    try {
+        if (!(await writeProfile({ ...profile, version: nextVersion }, expectedVersion))) return false
+        profile.version = nextVersion
+        memProfiles.set(addr, memCopy(profile)!)
+        return true
+    } catch (error) {
+        console.error('[ValStore] Failed to compare-and-set profile:', error)
+        return false
+    }
+}
+
+/**
+ * Read-modify-write a profile under compare-and-set. `mutate` returns
+ * false to leave it alone. Returns the written profile, or null if it's
+ * missing, was skipped, or kept conflicting.
+ */
+export async function updateValidatorProfile(address: string, mutate: (profile: ValidatorProfile) => boolean): Promise<ValidatorProfile | null> {
+    for (let attempt = 0; attempt < UPDATE_ATTEMPTS; attempt++) {
+        const profile = await getValidatorProfile(address)
+        if (!profile) return null
+
+        const expectedVersion = profile.version || 0
+        if (!mutate(profile)) return null
+        if (await compareAndSetValidatorProfile(profile, expectedVersion)) return profile
+    }
+    console.warn(`[ValStore] Gave up updating profile ${address} after ${UPDATE_ATTEMPTS} conflicting writes`)
+    return null
+}
+
 export async function getAllValidatorProfiles(): Promise<ValidatorProfile[]> {
-    if (!useRedis()) return Array.from(memProfiles.values())
+    if (!useRedis()) return Array.from(memProfiles.values(), p => memCopy(p)!)
     try {
         const redis = getRedis()
         const addrs = await redis.smembers(PROFILE_INDEX) as string[]
@@ -209,6 +416,32 @@ export async function getAllValidatorProfiles(): Promise<ValidatorProfile[]> {
         return results.filter((p): p is ValidatorProfile => p !== null)
     } catch (error) {
         console.error('[ValStore] Failed to get all profiles:', error)
-        return Array.from(memProfiles.values())
+        return Array.from(memProfiles.values(), p => memCopy(p)!)
     }
 }
+
+// ─── Helpers ────────────────────────────────────────────
+
+/** Memory-mode reads hand out copies, so edits only land via a write */
+function memCopy<T>(record: T | undefined): T | null {
+    return record ? structuredClone(record) : null
+}
+
+async function writeTask(task: ValidationTask, expectedVersion: number | ''): Promise<boolean> {
+    const written = await getRedis().eval<(string | number)[], number>(
+        TASK_WRITE_SCRIPT,
+        [VAL_KEY(task.id), VAL_INDEX],
+        [String(expectedVersion), JSON.stringify(task), TASK_TTL_SECONDS, task.createdAt, task.id]
+    )
+    return written === 1
+}
+
+async function writeProfile(profile: ValidatorProfile, expectedVersion: number | ''): Promise<boolean> {
+    const addr = profile.address.toLowerCase()
+    const written = await getRedis().eval<(string | number)[], number>(
+        PROFILE_WRITE_SCRIPT,
+        [PROFILE_KEY(addr), PROFILE_INDEX],
+        [String(expectedVersion), JSON.stringify(profile), PROFILE_TTL_SECONDS, addr]
+    )
+    return written === 1
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { OrderArchive } from "@/lib/order-archive"
+import { type Order, deleteOrder, getAllOrders, getOrder, setOrder } from "@/lib/order-store"
+import {
+    type ValidationTask,
+    type ValidatorProfile,
+    getValidationTask,
+    getValidatorProfile,
+    setValidationTask,
+    setValidatorProfile,
+} from "@/lib/validation-store"
+import { runValidationWorker } from "@/lib/validation-worker"
+
+/**
+ * Resolution effects — a task resolved by compare-and-set whose order
+ * transition and vote scoring never ran (crash, lost write) is finished by
+ * the next worker pass, and only once
+ */
+
+// Completed orders are archived — keep them out of the file archive
+const noArchive: OrderArchive = {
+    name: "test",
+    put: async () => {},
+    get: async () => null,
+    delete: async () => {},
+    query: async () => [],
+}
+;(globalThis as unknown as { _uwuOrderArchive?: OrderArchive })._uwuOrderArchive = noArchive
+
+const V1 = "0x1111111111111111111111111111111111111111"
+const V2 = "0x2222222222222222222222222222222222222222"
+const NOW = 10_000_000
+
+function verifyingOrder(id: string): Order {
+    return {
+        id, type: "sell", status: "verifying", createdAt: NOW - 3_600_000, expiresAt: NOW,
+        userId: "0xuser", userAddress: "0xuser", amountUsdc: 10, amountFiat: 900,
+        fiatCurrency: "INR", paymentMethod: "UPI", paymentDetails: "user@upi",
+        solverId: "0xlp", solverAddress: "0xlp",
+    }
+}
+
+function profile(address: string): ValidatorProfile {
+    return {
+        address, totalReviews: 1, totalEarned: 0, approvals: 0, flags: 0, accuracy: 100,
+        staked: 100, lockedAmount: 10, lockedOrders: [{ orderId: "order-1", amount: 10, lockedUntil: NOW }],
+        isSlashed: false, isActive: true,
+    }
+}
+
+// Approved by the DAO, but none of its effects have run yet
+function resolvedTask(): ValidationTask {
+    return {
+        id: "task-1", orderId: "order-1", status: "approved",
+        evidence: {
+            userAddress: "0xuser", lpAddress: "0xlp", amountUsdc: 10, amountFiat: 900,
+            fiatCurrency: "INR", paymentMethod: "UPI",
+        },
+        votes: [
+            { validator: V1, decision: "approve", votedAt: NOW - 60_000 },
+            { validator: V2, decision: "approve", votedAt: NOW - 60_000 },
+        ],
+        commits: [
+            { validator: V1, commitHash: "0x01", committedAt: NOW - 120_000, revealedAt: NOW - 60_000 },
+            { validator: V2, commitHash: "0x02", committedAt: NOW - 120_000, revealedAt: NOW - 60_000 },
+        ],
+        committee: [],
+        committeeSize: 2,
+        committeeSeed: { seed: "0x00", blockNumber: null, blockHash: null },
+        threshold: 2,
+        createdAt: NOW - 3_600_000,
+        commitDeadline: NOW - 1_200_000,
+        revealDeadline: NOW,
+        deadline: NOW,
+        resolvedAt: NOW,
+        resolvedBy: "dao",
+        pendingEffects: ["order", "non_revealers", "accuracy"],
+    }
+}
+
+beforeEach(async () => {
+    for (const o of await getAllOrders()) await deleteOrder(o.id)
+})
+
+describe("runValidationWorker", () => {
+    it("finishes the effects a resolved task left outstanding, once", async () => {
+        await setOrder(verifyingOrder("order-1"))
+        await setValidatorProfile(profile(V1))
+        await setValidatorProfile(profile(V2))
+        await setValidationTask(resolvedTask())
+
+        const first = await runValidationWorker(NOW + 60_000)
+        expect(first.effectsRecovered).toBe(1)
+        expect((await getOrder("order-1"))?.status).toBe("completed")
+        expect((await getValidationTask("task-1"))?.pendingEffects).toEqual([])
+        const scored = await getValidatorProfile(V1)
+        expect(scored).toMatchObject({ approvals: 1, lockedAmount: 0, scoredTasks: ["task-1"] })
+
+        // Nothing left — a second pass changes nothing
+        const second = await runValidationWorker(NOW + 120_000)
+        expect(second.effectsRecovered).toBe(0)
+        expect((await getValidatorProfile(V1))?.approvals).toBe(1)
+    })
+
+    it("never counts a vote twice when the effect is re-run", async () => {
+        await setOrder(verifyingOrder("order-1"))
+        await setValidatorProfile({ ...profile(V1), approvals: 1, scoredTasks: ["task-1"] })
+        await setValidatorProfile(profile(V2))
+        // V1 was scored before a crash; the tick-off never landed
+        await setValidationTask({ ...resolvedTask(), pendingEffects: ["accuracy"] })
+
+        await runValidationWorker(NOW + 60_000)
+        expect((await getValidatorProfile(V1))?.approvals).toBe(1)
+        expect((await getValidatorProfile(V2))?.approvals).toBe(1)
+        expect((await getValidationTask("task-1"))?.pendingEffects).toEqual([])
+    })
+})
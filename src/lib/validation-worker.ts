@@ -0,0 +1,392 @@
+import { updateOrder } from "@/lib/order-store"
+import { type OrderActor, transitionOrder } from "@/lib/order-state-machine"
+import { publishOrderEvent } from "@/lib/order-bus"
+import { PLATFORM_CONFIG } from "@/lib/platform-config"
+import {
+    type ResolutionEffect,
+    type ValidationFallbackAction,
+    type ValidationTask,
+    type ValidatorProfile,
+    getAllValidationTasks,
+    compareAndSetValidationTask,
+    updateValidationTask,
+    updateValidatorProfile,
+    getAllValidatorProfiles,
+} from "@/lib/validation-store"
+import { getVotingPhase } from "@/lib/vote-commit"
+import { refreshCommittee } from "@/lib/validator-committee"
+import { slashForMinorityVote, slashForNoReveal } from "@/lib/validator-slashing"
+import { runValidatorVaultSync } from "@/lib/validator-vault"
+
+/**
+ * Validation Worker
+ *
+ * WHY: A task that closed without a majority used to be auto-approved
+ * after an hour — paying the LP even when no validator had looked — and
+ * that only happened when someone happened to call GET /api/validations.
+ * The sweep now runs on a schedule (GET /api/validations/worker), and a
+ * task without a majority gets the fallback its order's fraud risk and
+ * amount call for (PLATFORM_CONFIG.validationFallback):
+ *
+ *   auto_approve   complete the order, as before (low risk, small amounts)
+ *   extend         new commit/reveal window with extra committee seats
+ *   escalate       freeze the order for the admin
+ *
+ * Extensions are capped (maxExtensions); after that the task escalates.
+ * Each pass ends by syncing rewards and slashes to ValidatorVault.
+ *
+ * A task can be tallied by the reveal that closes its ballot and by the
+ * worker at the same moment. The outcome is claimed with a compare-and-set
+ * on the task (only while it's still pending), so exactly one of them
+ * resolves it and applies the order transition, slashes and accuracy.
+ * Those land after the task is written, so the task lists them as
+ * pendingEffects and ticks each one off once it's through; whatever a
+ * crash or a lost write leaves behind, the next worker pass re-runs.
+ */
+
+// ─── Config ─────────────────────────────────────────────
+export const COMMITTEE_SIZE = Number(process.env.NEXT_PUBLIC_VALIDATION_THRESHOLD || "3")
+export const COMMITTEE_RESPONSE_MS = 15 * 60 * 1000 // Seat is redrawn if no commit within 15 min
+export const COMMIT_WINDOW_MS = 40 * 60 * 1000 // 40 min to commit
+export const REVEAL_WINDOW_MS = 20 * 60 * 1000 // then 20 min to reveal
+export const VALIDATION_TIMEOUT_MS = COMMIT_WINDOW_MS + REVEAL_WINDOW_MS // 1 hour, then the fallback
+
+// Strictest last — amounts over a level's cap move one step right
+const FALLBACK_ORDER: ValidationFallbackAction[] = ['auto_approve', 'extend', 'escalate']
+const MAX_SCORED_TASKS = 100 // Per profile — only needs to reach back past a retry
+
+export interface ValidationWorkerResult {
+    checked: number
+    reseated: number
+    resolved: number
+    extended: number
+    effectsRecovered: number   // Resolved earlier — outstanding effects finished this pass
+    vaultSynced: number        // Profiles pushed to ValidatorVault (validator-vault.ts)
+    vaultErrors: number
+}
+
+// ─── Fallback policy ────────────────────────────────────
+
+/**
+ * Fallback for a task whose window closed without a majority. Orders
+ * scored before risk was recorded are treated as high risk.
+ */
+export function chooseFallback(task: ValidationTask): ValidationFallbackAction {
+    const { byRisk, maxExtensions } = PLATFORM_CONFIG.validationFallback
+    const rule = byRisk[task.risk?.level ?? 'high']
+
+    let step = FALLBACK_ORDER.indexOf(rule.action)
+    if (task.evidence.amountUsdc > rule.maxAmountUSDC) step++
+    const action = FALLBACK_ORDER[Math.min(step, FALLBACK_ORDER.length - 1)]
+
+    const extensions = (task.fallbacks || []).filter(f => f.action === 'extend').length
+    return action === 'extend' && extensions >= maxExtensions ? 'escalate' : action
+}
+
+/**
+ * Give the task another round: fresh windows and more seats, which the
+ * next sweep fills from the same seed
+ */
+function extendTask(task: ValidationTask, now: number) {
+    const { extendMinutes, extendCommitteeBy } = PLATFORM_CONFIG.validationFallback
+    const windowMs = extendMinutes * 60 * 1000
+
+    task.committeeSize += extendCommitteeBy
+    task.threshold = task.committeeSize
+    task.commitDeadline = now + Math.round(windowMs * COMMIT_WINDOW_MS / VALIDATION_TIMEOUT_MS)
+    task.revealDeadline = now + windowMs
+    task.deadline = now + windowMs
+}
+
+// ─── Tally ──────────────────────────────────────────────
+
+/**
+ * Decide a pending task whose reveal phase is over — mutates it, returns
+ * false if there's nothing to write yet. Majority approve / flag resolves
+ * it; without a majority it waits for the deadline and then takes its
+ * fallback (an extension leaves it pending).
+ */
+function tallyTask(task: ValidationTask, now: number): boolean {
+    if (task.resolvedAt || getVotingPhase(task, now) !== 'tally') return false
+
+    const approves = task.votes.filter(v => v.decision === 'approve').length
+    const flags = task.votes.filter(v => v.decision === 'flag').length
+    const majorityNeeded = Math.ceil(task.threshold / 2) // e.g. 3 validators → need 2, 5 → need 3
+
+    if (approves >= majorityNeeded) {
+        task.status = 'approved'
+        task.resolvedBy = 'dao'
+    } else if (flags >= majorityNeeded) {
+        task.status = 'escalated'
+        task.resolvedBy = 'dao'
+    } else if (now > task.deadline) {
+        const action = chooseFallback(task)
+        task.fallbacks = [
+            ...(task.fallbacks || []),
+            { action, riskLevel: task.risk?.level ?? null, amountUsdc: task.evidence.amountUsdc, at: now },
+        ]
+        if (action === 'extend') {
+            extendTask(task, now)
+            return true
+        }
+        task.status = action === 'auto_approve' ? 'auto_approved' : 'escalated'
+        task.resolvedBy = action === 'auto_approve' ? 'timeout' : 'fallback'
+    } else {
+        return false // Everyone revealed early but no majority — wait for the deadline
+    }
+
+    task.resolvedAt = now
+    task.pendingEffects = task.resolvedBy === 'dao' ? ['order', 'non_revealers', 'accuracy'] : ['order', 'non_revealers']
+    return true
+}
+
+/**
+ * Tally a task once its reveal phase is over and apply the outcome.
+ * `task` is refreshed in place with what was written. Returns true only
+ * for the caller that resolved it — that caller has run the effects.
+ */
+export async function advanceTask(task: ValidationTask, now: number = Date.now()): Promise<boolean> {
+    if (getVotingPhase(task, now) !== 'tally') return false
+
+    const written = await updateValidationTask(task.id, current => tallyTask(current, now))
+    if (!written) return false
+    Object.assign(task, written)
+
+    const approves = written.votes.filter(v => v.decision === 'approve').length
+    const flags = written.votes.filter(v => v.decision === 'flag').length
+    if (!written.resolvedAt) {
+        console.log(`[Validation] Task ${written.id} closed without a majority (${approves} approve / ${flags} flag revealed, risk ${written.risk?.level ?? 'unscored'}) — extended`)
+        return false
+    }
+    console.log(`[Validation] Task ${written.id} ${written.status.toUpperCase()} by ${written.resolvedBy} (${approves} approve / ${flags} flag revealed)`)
+
+    await applyResolutionEffects(task)
+    return true
+}
+
+/**
+ * Run a resolved task's outstanding effects, ticking each one off the
+ * task once it's through. Anything that fails stays pending for the next
+ * worker pass — every effect is safe to run again. Returns true once
+ * nothing is left.
+ */
+async function applyResolutionEffects(task: ValidationTask): Promise<boolean> {
+    for (const effect of [...(task.pendingEffects || [])]) {
+        let done = false
+        try {
+            done = await runResolutionEffect(task, effect)
+        } catch (error) {
+            console.error(`[Validation] Task ${task.id} ${effect} effect failed:`, error)
+        }
+        if (!done) continue
+
+        const written = await updateValidationTask(task.id, current => {
+            if (!current.pendingEffects?.includes(effect)) return false
+            current.pendingEffects = current.pendingEffects.filter(e => e !== effect)
+            return true
+        })
+        if (written) Object.assign(task, written)
+    }
+    return !task.pendingEffects?.length
+}
+
+function runResolutionEffect(task: ValidationTask, effect: ResolutionEffect): Promise<boolean> {
+    switch (effect) {
+        case 'order':
+            return task.status === 'escalated'
+                ? freezeOrder(task.orderId, task.resolvedBy === 'dao' ? 'dao' : 'fallback')
+                : completeOrder(task.orderId, task.resolvedBy === 'timeout' ? 'timeout' : 'dao')
+        case 'non_revealers':
+            return penalizeNonRevealers(task)
+        case 'accuracy':
+            return updateAccuracy(task)
+    }
+}
+
+/**
+ * One worker pass — called on a schedule (GET /api/validations/worker).
+ * Redraws seats whose holders missed their response deadline, then
+ * tallies (or falls back on) every task whose reveal phase has closed,
+ * and finishes effects earlier resolutions left outstanding. Rewards and
+ * slashes from this and earlier passes then go on-chain.
+ */
+export async function runValidationWorker(now: number = Date.now()): Promise<ValidationWorkerResult> {
+    const result: ValidationWorkerResult = { checked: 0, reseated: 0, resolved: 0, extended: 0, effectsRecovered: 0, vaultSynced: 0, vaultErrors: 0 }
+    const tasks = await getAllValidationTasks({ includeResolved: true })
+    const pendingTasks = tasks.filter(t => t.status === 'pending')
+    // Picked before this pass's tallies — those have just run their effects
+    const unfinished = tasks.filter(t => t.resolvedAt && t.pendingEffects?.length)
+
+    const profiles = pendingTasks.length > 0 ? await getAllValidatorProfiles() : []
+    for (const task of pendingTasks) {
+        result.checked++
+        const deadline = task.deadline
+        if (refreshCommittee(task, profiles, COMMITTEE_RESPONSE_MS, now)) {
+            // Lost a race (a commit / reveal) — the next pass sees the fresh copy
+            if (!(await compareAndSetValidationTask(task, task.version || 0))) continue
+            result.reseated++
+        }
+
+        if (await advanceTask(task, now)) result.resolved++
+        else if (task.deadline !== deadline) result.extended++
+    }
+
+    for (const task of unfinished) {
+        console.log(`[Validation] Task ${task.id} resolved with ${task.pendingEffects!.join(', ')} outstanding — retrying`)
+        if (await applyResolutionEffects(task)) result.effectsRecovered++
+    }
+
+    // After the tally — it writes the rewards / slashes being synced
+    const synced = await runValidatorVaultSync()
+    result.vaultSynced = synced.filter(r => !r.error).length
+    result.vaultErrors = synced.filter(r => r.error).length
+    return result
+}
+
+// ─── Effects ────────────────────────────────────────────
+
+/**
+ * This task's slash on a profile, if it's already there
+ */
+function findTaskSlash(profile: ValidatorProfile, task: ValidationTask, reason: 'minority_vote' | 'no_reveal') {
+    return (profile.slashLedger || []).find(e => e.taskId === task.id && e.reason === reason)
+}
+
+/**
+ * Slash validators who committed but never revealed (their ballot is void).
+ * True once every one of them carries this task's slash.
+ */
+async function penalizeNonRevealers(task: ValidationTask): Promise<boolean> {
+    let done = true
+    for (const commit of task.commits || []) {
+        if (commit.revealedAt) continue
+        let alreadySlashed = false
+        const profile = await updateValidatorProfile(commit.validator, current => {
+            if (findTaskSlash(current, task, 'no_reveal')) {
+                alreadySlashed = true
+                return false
+            }
+            slashForNoReveal(current, task)
+            current.missedReveals = (current.missedReveals || 0) + 1
+            current.lockedOrders = (current.lockedOrders || []).filter(l => l.orderId !== task.orderId)
+            current.lockedAmount = current.lockedOrders.reduce((sum, l) => sum + l.amount, 0)
+            return true
+        })
+        if (!profile) {
+            if (!alreadySlashed) done = false
+            continue
+        }
+        const slash = findTaskSlash(profile, task, 'no_reveal')
+        if (slash) console.log(`[Validation] SLASHING validator ${commit.validator} $${slash.amount.toFixed(2)} — committed on ${task.id} but never revealed`)
+    }
+    return done
+}
+
+/**
+ * Complete order after validation approval. True once it's done with —
+ * written, or moved on so the transition no longer applies.
+ */
+async function completeOrder(orderId: string, by: string): Promise<boolean> {
+    let skipped = false
+    const order = await updateOrder(orderId, current => {
+        const result = transitionOrder(current, 'complete', {
+            actor: by === 'timeout' ? 'timer' : 'validator',
+            by,
+            note: 'DAO validation approved',
+        })
+        if (!result.success) {
+            console.warn(`[Validation] Could not complete order ${orderId}: ${result.error}`)
+            skipped = true
+        }
+        return result.success
+    })
+    if (!order) return skipped
+    await publishOrderEvent({ type: 'order_update', updateType: 'complete', order })
+    console.log(`[Validation] Order ${orderId} completed after DAO approval`)
+    return true
+}
+
+/**
+ * Freeze order for the admin — flagged by the majority, or escalated by
+ * the fallback policy. True once it's done with, as for completeOrder.
+ */
+async function freezeOrder(orderId: string, by: 'dao' | 'fallback'): Promise<boolean> {
+    const actor: OrderActor = by === 'dao' ? 'validator' : 'timer'
+    let skipped = false
+    const order = await updateOrder(orderId, current => {
+        const result = transitionOrder(current, 'dispute', {
+            actor,
+            by,
+            note: by === 'dao'
+                ? 'Flagged by DAO validators — escalated to admin'
+                : 'No DAO majority — escalated to admin by the fallback policy',
+        })
+        if (!result.success) {
+            console.warn(`[Validation] Could not freeze order ${orderId}: ${result.error}`)
+            skipped = true
+        }
+        return result.success
+    })
+    if (!order) return skipped
+    await publishOrderEvent({ type: 'order_update', updateType: 'dispute', order })
+    console.log(`[Validation] Order ${orderId} frozen — escalated to admin`)
+    return true
+}
+
+/**
+ * Update validator accuracy + graduated slash on a minority vote
+ * (validator-slashing.ts). The order's stake lock is released either way.
+ * True once every vote is counted; a profile that already has this task
+ * in scoredTasks is left alone.
+ */
+async function updateAccuracy(task: ValidationTask): Promise<boolean> {
+    const isApproved = task.status === 'approved' || task.status === 'auto_approved'
+    const majority = isApproved ? 'approve' : 'flag'
+    const majorityShare = task.votes.length > 0
+        ? task.votes.filter(v => v.decision === majority).length / task.votes.length
+        : 1
+    const now = Date.now()
+    let done = true
+
+    for (const vote of task.votes) {
+        const addr = vote.validator.toLowerCase()
+        const votedCorrectly = vote.decision === majority
+
+        let alreadyScored = false
+        const profile = await updateValidatorProfile(addr, current => {
+            if (current.scoredTasks?.includes(task.id)) {
+                alreadyScored = true
+                return false
+            }
+            current.scoredTasks = [...(current.scoredTasks || []), task.id].slice(-MAX_SCORED_TASKS)
+
+            // Slash before the vote lands in accuracy — the scale uses their record so far
+            if (!votedCorrectly && !findTaskSlash(current, task, 'minority_vote')) {
+                slashForMinorityVote(current, task, vote, majorityShare, now)
+            }
+
+            if (vote.decision === 'approve') current.approvals++
+            else current.flags++
+
+            const totalDecisions = current.approvals + current.flags
+            const correct = votedCorrectly
+                ? Math.round(current.accuracy * (totalDecisions - 1) / 100) + 1
+                : Math.round(current.accuracy * (totalDecisions - 1) / 100)
+            current.accuracy = totalDecisions > 0 ? Math.round((correct / totalDecisions) * 100) : 100
+
+            // Release the lock for this order
+            current.lockedOrders = (current.lockedOrders || []).filter(
+                l => l.orderId !== task.orderId
+            )
+            current.lockedAmount = current.lockedOrders.reduce((sum, l) => sum + l.amount, 0)
+            return true
+        })
+
+        if (!profile && !alreadyScored) done = false
+        const entry = !votedCorrectly && profile ? findTaskSlash(profile, task, 'minority_vote') : undefined
+        if (entry) {
+            console.log(`[Validation] SLASHING validator ${addr} ${entry.percent}% ($${entry.amount.toFixed(2)}) — voted ${vote.decision} but majority was ${majority}; cool-off until ${new Date(entry.cooldownUntil!).toISOString()}`)
+        }
+    }
+    return done
+}
@@ -0,0 +1,174 @@
+import { createPublicClient, http, keccak256, stringToBytes } from "viem"
+import { opbnbTestnet } from "@/lib/web3-config"
+import type { ValidationTask, ValidatorProfile } from "@/lib/validation-store"
+import { isCoolingOff } from "@/lib/validator-slashing"
+
+/**
+ * Validator Committees
+ *
+ * WHY: Every task used to go to the whole validator set (threshold = all
+ * eligible validators). That doesn't scale, and one operator running many
+ * addresses saw every trade. Each task now gets a committee of N validators
+ * drawn by stake-weighted randomness from a seed anyone can recompute —
+ * keccak256(blockHash:taskId) for the latest opBNB block at creation. Only
+ * committee members see evidence or vote; a member who hasn't committed
+ * by their respond-by time is replaced by the next draw.
+ */
+
+// ─── Types ──────────────────────────────────────────────
+
+export interface CommitteeSeed {
+    seed: `0x${string}`
+    blockNumber: number | null   // null = RPC was down, seeded from the task ID alone
+    blockHash: string | null
+}
+
+export interface CommitteeMember {
+    validator: string
+    draw: number                 // Draw index that picked them (seed:draw)
+    selectedAt: number
+    respondBy: number            // Must commit by then or lose the seat
+    replacedAt?: number
+}
+
+export interface CommitteeCandidate {
+    address: string
+    weight: number               // Staked USDC
+}
+
+const publicClient = createPublicClient({
+    chain: opbnbTestnet,
+    transport: http(),
+})
+
+// ─── Seed ───────────────────────────────────────────────
+
+/**
+ * keccak256(blockHash:taskId) for the latest block. If the RPC is down the
+ * seed falls back to keccak256(taskId) — still reproducible, just not
+ * unpredictable, so it's logged.
+ */
+export async function getCommitteeSeed(taskId: string): Promise<CommitteeSeed> {
+    try {
+        const block = await publicClient.getBlock({ blockTag: "latest" })
+        return {
+            seed: keccak256(stringToBytes(`${block.hash}:${taskId}`)),
+            blockNumber: Number(block.number),
+            blockHash: block.hash,
+        }
+    } catch (error) {
+        console.warn(`[Committee] ⚠️  Block lookup failed — seeding ${taskId} from the task ID only:`, error)
+        return { seed: keccak256(stringToBytes(taskId)), blockNumber: null, blockHash: null }
+    }
+}
+
+// ─── Draw ───────────────────────────────────────────────
+
+/**
+ * Validators who could sit on this task: active, not slashed or cooling
+ * off, not a party to the order, and with enough free stake to lock the
+ * order amount
+ */
+export function getCommitteeCandidates(
+    task: Pick<ValidationTask, "evidence">,
+    profiles: ValidatorProfile[],
+    now: number = Date.now()
+): CommitteeCandidate[] {
+    const parties = [task.evidence.userAddress, task.evidence.lpAddress].map(a => a.toLowerCase())
+    return profiles
+        .filter(p => p.isActive && !p.isSlashed && !isCoolingOff(p, now) && !parties.includes(p.address.toLowerCase()))
+        .filter(p => {
+            const locked = (p.lockedOrders || [])
+                .filter(l => l.lockedUntil > now)
+                .reduce((sum, l) => sum + l.amount, 0)
+            return p.staked - locked >= task.evidence.amountUsdc
+        })
+        .map(p => ({ address: p.address.toLowerCase(), weight: p.staked }))
+}
+
+/**
+ * Stake-weighted draw without replacement. Draw i picks the candidate at
+ * keccak256(seed:i) mod totalStake along the address-sorted stake line.
+ */
+export function drawValidators(
+    seed: string,
+    fromDraw: number,
+    candidates: CommitteeCandidate[],
+    count: number
+): { address: string; draw: number }[] {
+    // Whole micro-USDC so the walk is exact
+    const pool = [...candidates]
+        .sort((a, b) => a.address.localeCompare(b.address))
+        .map(c => ({ address: c.address, weight: BigInt(Math.round(c.weight * 1e6)) }))
+        .filter(c => c.weight > BigInt(0))
+
+    const picked: { address: string; draw: number }[] = []
+    let draw = fromDraw
+    while (picked.length < count && pool.length > 0) {
+        const total = pool.reduce((sum, c) => sum + c.weight, BigInt(0))
+        let point = BigInt(keccak256(stringToBytes(`${seed}:${draw}`))) % total
+        const index = pool.findIndex(c => {
+            if (point < c.weight) return true
+            point -= c.weight
+            return false
+        })
+        picked.push({ address: pool[index].address, draw })
+        pool.splice(index, 1)
+        draw++
+    }
+    return picked
+}
+
+// ─── Membership ─────────────────────────────────────────
+
+/**
+ * Holds a live seat on the task's committee
+ */
+export function isCommitteeMember(task: Pick<ValidationTask, "committee">, address: string): boolean {
+    const addr = address.toLowerCase()
+    return (task.committee || []).some(m => !m.replacedAt && m.validator === addr)
+}
+
+/**
+ * Replace members who missed their respond-by time and fill empty seats
+ * from the next draws. Only runs while the commit window is open.
+ * Mutates the task; returns true if the committee changed.
+ */
+export function refreshCommittee(
+    task: ValidationTask,
+    profiles: ValidatorProfile[],
+    responseMs: number,
+    now: number = Date.now()
+): boolean {
+    if (task.status !== "pending" || !task.committeeSeed || now >= task.commitDeadline) return false
+    task.committee = task.committee || []
+    let changed = false
+
+    const committed = new Set((task.commits || []).map(c => c.validator.toLowerCase()))
+    for (const member of task.committee) {
+        if (member.replacedAt || committed.has(member.validator) || now <= member.respondBy) continue
+        member.replacedAt = now
+        changed = true
+        console.log(`[Committee] ${member.validator.slice(0, 8)}... missed the response deadline on ${task.id} — replacing`)
+    }
+
+    const seated = task.committee.filter(m => !m.replacedAt).length
+    if (seated >= task.committeeSize) return changed
+
+    // Anyone who has held a seat on this task is out of the pool
+    const previous = new Set(task.committee.map(m => m.validator))
+    const candidates = getCommitteeCandidates(task, profiles, now).filter(c => !previous.has(c.address))
+    const nextDraw = task.committee.reduce((max, m) => Math.max(max, m.draw + 1), 0)
+
+    for (const pick of drawValidators(task.committeeSeed.seed, nextDraw, candidates, task.committeeSize - seated)) {
+        task.committee.push({
+            validator: pick.address,
+            draw: pick.draw,
+            selectedAt: now,
+            respondBy: Math.min(now + responseMs, task.commitDeadline),
+        })
+        changed = true
+        console.log(`[Committee] Seated ${pick.address.slice(0, 8)}... on ${task.id} (draw ${pick.draw})`)
+    }
+    return changed
+}
@@ -0,0 +1,209 @@
+import { VALIDATOR_SLASH_RULES, calculateValidatorSlash } from "@/lib/slashing-rules"
+import type { Order } from "@/lib/order-store"
+import type {
+    ValidationTask,
+    ValidationVote,
+    ValidatorProfile,
+    ValidatorSlashEntry,
+} from "@/lib/validation-store"
+
+/**
+ * Validator Slash Ledger
+ *
+ * WHY: One vote against consensus used to zero the validator's stake and
+ * ban them, with no record and no way back — even when the admin later
+ * found the minority had been right. Slashes are now graduated
+ * (slashing-rules.ts), start a cool-off instead of a ban, and every one is
+ * written to the profile's slashLedger. A validator can appeal a
+ * minority-vote slash; an admin can reverse it once the order's final
+ * resolution went the validator's way.
+ *
+ * Helpers mutate the profile in place — callers save it.
+ */
+
+export type SlashReviewResult =
+    | { ok: true; entry: ValidatorSlashEntry }
+    | { ok: false; error: string; status: 400 | 404 | 409 }
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+/**
+ * Still cooling off from a minority-vote slash?
+ */
+export function isCoolingOff(profile: Pick<ValidatorProfile, "cooldownUntil">, now: number = Date.now()): boolean {
+    return !!profile.cooldownUntil && profile.cooldownUntil > now
+}
+
+function recordSlash(profile: ValidatorProfile, entry: ValidatorSlashEntry) {
+    profile.staked = Math.max(profile.staked - entry.amount, 0)
+    profile.slashLedger = [...(profile.slashLedger || []), entry]
+    if (entry.cooldownUntil) {
+        profile.cooldownUntil = Math.max(profile.cooldownUntil || 0, entry.cooldownUntil)
+    }
+}
+
+/**
+ * Graduated slash + cool-off for voting against the majority.
+ * Call before the vote is counted into the profile's accuracy.
+ */
+export function slashForMinorityVote(
+    profile: ValidatorProfile,
+    task: ValidationTask,
+    vote: ValidationVote,
+    majorityShare: number,
+    now: number = Date.now()
+): ValidatorSlashEntry {
+    const { recentWindowDays } = VALIDATOR_SLASH_RULES.MINORITY_VOTE
+    const recent = (profile.slashLedger || []).filter(e =>
+        e.reason === "minority_vote" && !e.reversedAt && now - e.at < recentWindowDays * DAY_MS
+    ).length
+    const slash = calculateValidatorSlash(profile.staked, profile.accuracy, majorityShare, recent)
+
+    const entry: ValidatorSlashEntry = {
+        id: `${task.id}:minority_vote`,
+        taskId: task.id,
+        orderId: task.orderId,
+        reason: "minority_vote",
+        decision: vote.decision,
+        percent: slash.percent,
+        amount: slash.amount,
+        stakeBefore: profile.staked,
+        accuracyBefore: profile.accuracy,
+        majorityShare,
+        cooldownUntil: now + slash.cooldownHours * HOUR_MS,
+        at: now,
+    }
+    recordSlash(profile, entry)
+    return entry
+}
+
+/**
+ * Flat slash for a committed vote that was never revealed
+ */
+export function slashForNoReveal(profile: ValidatorProfile, task: ValidationTask, now: number = Date.now()): ValidatorSlashEntry {
+    const { slashPercent } = VALIDATOR_SLASH_RULES.NO_REVEAL
+    const entry: ValidatorSlashEntry = {
+        id: `${task.id}:no_reveal`,
+        taskId: task.id,
+        orderId: task.orderId,
+        reason: "no_reveal",
+        percent: slashPercent,
+        amount: (profile.staked * slashPercent) / 100,
+        stakeBefore: profile.staked,
+        at: now,
+    }
+    recordSlash(profile, entry)
+    return entry
+}
+
+// ─── Appeals ────────────────────────────────────────────
+
+/**
+ * Which decision the final resolution proved right: the admin's last
+ * resolve (LP paid → approve) or refund (→ flag) on the order, else the
+ * admin's ruling on the task itself. null = not finally resolved yet.
+ */
+export function getFinalOutcome(order: Order | null, task: ValidationTask | null): "approve" | "flag" | null {
+    const ruling = [...(order?.history || [])]
+        .reverse()
+        .find(h => h.actor === "admin" && (h.event === "resolve" || h.event === "refund"))
+    if (ruling) return ruling.event === "resolve" ? "approve" : "flag"
+
+    if (task?.resolvedBy === "admin") {
+        if (task.status === "approved") return "approve"
+        if (task.status === "flagged") return "flag"
+    }
+    return null
+}
+
+function findAppealable(profile: ValidatorProfile, entryId: string): SlashReviewResult {
+    const entry = (profile.slashLedger || []).find(e => e.id === entryId)
+    if (!entry) return { ok: false, error: "Slash not found", status: 404 }
+    if (entry.reason !== "minority_vote") {
+        return { ok: false, error: "Only minority-vote slashes can be appealed", status: 400 }
+    }
+    if (entry.reversedAt) return { ok: false, error: "Slash already reversed", status: 409 }
+    return { ok: true, entry }
+}
+
+/**
+ * Validator asks for a slash to be reviewed
+ */
+export function fileSlashAppeal(profile: ValidatorProfile, entryId: string, note?: string, now: number = Date.now()): SlashReviewResult {
+    const found = findAppealable(profile, entryId)
+    if (!found.ok) return found
+    if (found.entry.appeal) return { ok: false, error: "Appeal already filed", status: 409 }
+
+    found.entry.appeal = { note: note?.slice(0, 500), filedAt: now, status: "pending" }
+    return found
+}
+
+/**
+ * Admin gives the stake back — only if the order's final resolution
+ * agrees with the validator's vote. Also lifts the cool-off it started
+ * and counts the vote as correct.
+ */
+export function reverseSlash(
+    profile: ValidatorProfile,
+    entryId: string,
+    finalOutcome: "approve" | "flag" | null,
+    admin: string,
+    note?: string,
+    now: number = Date.now()
+): SlashReviewResult {
+    const found = findAppealable(profile, entryId)
+    if (!found.ok) return found
+    const entry = found.entry
+
+    if (!finalOutcome) {
+        return { ok: false, error: "The order hasn't been finally resolved yet", status: 409 }
+    }
+    if (finalOutcome !== entry.decision) {
+        return { ok: false, error: "The final resolution agrees with the majority — nothing to reverse", status: 409 }
+    }
+
+    profile.staked += entry.amount
+    entry.reversedAt = now
+    entry.reversedBy = admin
+    entry.appeal = {
+        ...(entry.appeal || { filedAt: now }),
+        status: "granted",
+        reviewedBy: admin,
+        reviewedAt: now,
+        reviewNote: note,
+    }
+
+    // Cool-off now runs to the latest slash still standing
+    const standing = (profile.slashLedger || [])
+        .filter(e => !e.reversedAt && e.cooldownUntil && e.cooldownUntil > now)
+        .map(e => e.cooldownUntil as number)
+    profile.cooldownUntil = standing.length > 0 ? Math.max(...standing) : undefined
+
+    // The vote was right after all
+    const total = profile.approvals + profile.flags
+    if (total > 0) {
+        const correct = Math.min(Math.round(profile.accuracy * total / 100) + 1, total)
+        profile.accuracy = Math.round((correct / total) * 100)
+    }
+    return { ok: true, entry }
+}
+
+/**
+ * Admin turns an appeal down — the slash stands
+ */
+export function rejectSlashAppeal(
+    profile: ValidatorProfile,
+    entryId: string,
+    admin: string,
+    note?: string,
+    now: number = Date.now()
+): SlashReviewResult {
+    const found = findAppealable(profile, entryId)
+    if (!found.ok) return found
+    if (found.entry.appeal?.status !== "pending") {
+        return { ok: false, error: "No pending appeal on this slash", status: 400 }
+    }
+    found.entry.appeal = { ...found.entry.appeal, status: "rejected", reviewedBy: admin, reviewedAt: now, reviewNote: note }
+    return found
+}
@@ -0,0 +1,337 @@
+import {
+    BaseError,
+    ContractFunctionRevertedError,
+    createPublicClient,
+    createWalletClient,
+    http,
+    keccak256,
+    stringToBytes,
+    type Chain,
+    type Hash,
+} from "viem"
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts"
+import { hardhat } from "viem/chains"
+import { CONTRACT_ADDRESSES, opbnbTestnet } from "@/lib/web3-config"
+import { VALIDATOR_VAULT_ABI, formatUsdc, parseUsdc } from "@/lib/escrow-abi"
+import { type ValidatorProfile, getAllValidatorProfiles, updateValidatorProfile } from "@/lib/validation-store"
+
+/**
+ * Validator Vault
+ *
+ * WHY: Validator stake and earnings only existed in Redis — registration
+ * took the client's word for a $100 stake, and the $0.05 review rewards
+ * could never be withdrawn. Stake now sits in ValidatorVault as USDC, and
+ * the Redis profile is the ledger the vault is brought in line with:
+ *
+ *   profile.totalEarned   ──syncRewards(cumulative)──▶  claimable (paid from fees)
+ *   slashLedger entry     ──slash(slashId)───────────▶  slashed pool
+ *   entry.reversedAt      ──reverseSlash(slashId)────▶  back to stake
+ *
+ * Every op is keyed by a cumulative total or a slash ID, so a retry after
+ * a receipt timeout can't double-credit or double-slash. The sync runs
+ * with each validation worker pass, least recently tried profiles first;
+ * one that keeps failing backs off so it can't hold up the rest. Once its
+ * slashes are through, profile.staked is refreshed from the vault.
+ *
+ * Env:
+ *   NEXT_PUBLIC_VALIDATOR_VAULT_ADDRESS     deployed ValidatorVault
+ *   VALIDATOR_VAULT_OPERATOR_PRIVATE_KEY    operator key — setOperator() on the vault
+ *   SETTLEMENT_RPC_URL / SETTLEMENT_CHAIN_ID  RPC override, shared with settlement-worker.ts
+ */
+
+export interface VaultPosition {
+    staked: number
+    unbonding: number
+    unbondingReleaseAt: number     // ms, 0 = nothing unbonding
+    claimable: number
+    totalEarned: number
+    totalClaimed: number
+    totalSlashed: number
+}
+
+export interface VaultSyncResult {
+    address: string
+    txHashes: string[]
+    error?: string
+}
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000"
+const VAULT_ADDRESS = CONTRACT_ADDRESSES.VALIDATOR_VAULT as `0x${string}`
+const RECEIPT_TIMEOUT_MS = 60_000
+const MAX_PROFILES_PER_RUN = 10      // One operator nonce → sync sequentially
+const SYNC_RETRY_BASE_MS = 60_000    // Backoff after a failed sync, doubled per failure in a row
+const SYNC_RETRY_MAX_MS = 6 * 60 * 60 * 1000
+
+// ─── Clients ────────────────────────────────────────────
+
+interface OperatorClients {
+    account: PrivateKeyAccount
+    walletClient: ReturnType<typeof createWalletClient>
+    chain: Chain
+}
+
+const globalForVault = globalThis as unknown as {
+    _uwuVaultPublicClient?: ReturnType<typeof createPublicClient>
+    _uwuVaultOperator?: OperatorClients | null
+}
+
+function getChain(): Chain {
+    return Number(process.env.SETTLEMENT_CHAIN_ID) === hardhat.id ? hardhat : opbnbTestnet
+}
+
+function getPublicClient() {
+    if (!globalForVault._uwuVaultPublicClient) {
+        globalForVault._uwuVaultPublicClient = createPublicClient({
+            chain: getChain(),
+            transport: http(process.env.SETTLEMENT_RPC_URL || undefined),
+        })
+    }
+    return globalForVault._uwuVaultPublicClient
+}
+
+/**
+ * Operator clients, or null if no operator key is configured
+ */
+function getOperatorClients(): OperatorClients | null {
+    if (globalForVault._uwuVaultOperator !== undefined) return globalForVault._uwuVaultOperator
+
+    const privateKey = process.env.VALIDATOR_VAULT_OPERATOR_PRIVATE_KEY
+    if (!privateKey) {
+        console.warn("[Vault] ⚠️  VALIDATOR_VAULT_OPERATOR_PRIVATE_KEY missing — on-chain rewards and slashes disabled")
+        globalForVault._uwuVaultOperator = null
+        return null
+    }
+
+    const chain = getChain()
+    const account = privateKeyToAccount(privateKey as `0x${string}`)
+    globalForVault._uwuVaultOperator = {
+        account,
+        chain,
+        walletClient: createWalletClient({ account, chain, transport: http(process.env.SETTLEMENT_RPC_URL || undefined) }),
+    }
+    console.log(`[Vault] Operator ${account.address} on ${chain.name}`)
+    return globalForVault._uwuVaultOperator
+}
+
+export function isVaultConfigured(): boolean {
+    return VAULT_ADDRESS.toLowerCase() !== ZERO_ADDRESS
+}
+
+/**
+ * On-chain key for a slash ledger entry (entry IDs are only unique per validator)
+ */
+export function vaultSlashId(validator: string, entryId: string): `0x${string}` {
+    return keccak256(stringToBytes(`${validator.toLowerCase()}:${entryId}`))
+}
+
+function describeError(error: unknown): string {
+    if (error instanceof BaseError) {
+        const revert = error.walk(e => e instanceof ContractFunctionRevertedError)
+        if (revert instanceof ContractFunctionRevertedError) {
+            return `ValidatorVault reverted: ${revert.data?.errorName || revert.reason || "unknown"}`
+        }
+        return error.shortMessage
+    }
+    return error instanceof Error ? error.message : String(error)
+}
+
+// ─── Reads ──────────────────────────────────────────────
+
+/**
+ * Stake, unbonding and reward balances — null if the vault isn't
+ * configured or the RPC call failed
+ */
+export async function getVaultPosition(address: string): Promise<VaultPosition | null> {
+    if (!isVaultConfigured()) return null
+    try {
+        const v = await getPublicClient().readContract({
+            address: VAULT_ADDRESS,
+            abi: VALIDATOR_VAULT_ABI,
+            functionName: "getValidator",
+            args: [address as `0x${string}`],
+        })
+        return {
+            staked: formatUsdc(v.stake),
+            unbonding: formatUsdc(v.unbonding),
+            unbondingReleaseAt: Number(v.unbondingReleaseAt) * 1000,
+            claimable: formatUsdc(v.claimable),
+            totalEarned: formatUsdc(v.totalEarned),
+            totalClaimed: formatUsdc(v.totalClaimed),
+            totalSlashed: formatUsdc(v.totalSlashed),
+        }
+    } catch (error) {
+        console.error(`[Vault] Could not read position for ${address}: ${describeError(error)}`)
+        return null
+    }
+}
+
+async function getVaultSlash(slashId: `0x${string}`) {
+    return getPublicClient().readContract({
+        address: VAULT_ADDRESS,
+        abi: VALIDATOR_VAULT_ABI,
+        functionName: "getSlash",
+        args: [slashId],
+    })
+}
+
+// ─── Sync ───────────────────────────────────────────────
+
+/**
+ * Rewards or slash-ledger changes the vault hasn't seen yet
+ */
+export function needsVaultSync(profile: ValidatorProfile): boolean {
+    if ((profile.totalEarned || 0) > (profile.vaultEarnedSynced || 0)) return true
+    return (profile.slashLedger || []).some(e =>
+        e.amount > 0 && (e.vault ? !!e.reversedAt && !e.vault.reversed : !e.reversedAt)
+    )
+}
+
+/**
+ * Has a profile's backoff after failed syncs run out?
+ */
+function isVaultSyncDue(profile: ValidatorProfile, now: number): boolean {
+    const failures = profile.vaultSyncFailures || 0
+    if (failures === 0) return true
+    const delay = Math.min(SYNC_RETRY_BASE_MS * 2 ** (failures - 1), SYNC_RETRY_MAX_MS)
+    return now >= (profile.vaultSyncedAt || 0) + delay
+}
+
+/**
+ * Wait for an operator tx. A timeout throws; the next pass re-reads the
+ * vault, so a tx that lands late is never sent twice.
+ */
+async function confirmVaultTx(hash: Hash): Promise<Hash> {
+    const receipt = await getPublicClient().waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS })
+    if (receipt.status !== "success") throw new Error(`ValidatorVault tx ${hash} reverted`)
+    return hash
+}
+
+/**
+ * Push one validator's outstanding slashes, reversals and rewards to the
+ * vault, then refresh their stake from it. Progress is saved even if a
+ * later op fails; the next pass picks up from there.
+ *
+ * Slashes go first and each op has its own try — a reward the pool can't
+ * cover yet (InsufficientRewardPool) must not keep a slash off-chain.
+ *
+ * The txs take a while to confirm, and votes, rewards and slashes keep
+ * landing on the profile meanwhile — so only the vault fields are merged
+ * into the latest profile, under compare-and-set.
+ */
+export async function syncValidatorVault(profile: ValidatorProfile): Promise<VaultSyncResult> {
+    const result: VaultSyncResult = { address: profile.address, txHashes: [] }
+    const clients = getOperatorClients()
+    if (!isVaultConfigured() || !clients) return { ...result, error: "Validator vault not configured" }
+
+    const validator = profile.address as `0x${string}`
+    // Gas estimation reverts with the vault's custom error before anything is sent
+    const vault = { address: VAULT_ADDRESS, abi: VALIDATOR_VAULT_ABI, account: clients.account, chain: clients.chain } as const
+    const errors: string[] = []
+    const fail = (what: string, error: unknown) => {
+        const message = `${what}: ${describeError(error)}`
+        errors.push(message)
+        console.error(`[Vault] Sync failed for ${profile.address} — ${message}`)
+    }
+
+    for (const entry of profile.slashLedger || []) {
+        if (entry.amount <= 0) continue
+        const slashId = vaultSlashId(profile.address, entry.id)
+
+        try {
+            if (!entry.vault) {
+                if (entry.reversedAt) continue // Reversed before it ever reached the vault
+                const onChain = await getVaultSlash(slashId)
+                let slashTx: string | undefined
+                if (onChain.validator === ZERO_ADDRESS) {
+                    slashTx = await confirmVaultTx(await clients.walletClient.writeContract({
+                        ...vault,
+                        functionName: "slash",
+                        args: [slashId, validator, parseUsdc(entry.amount)],
+                    }))
+                    result.txHashes.push(slashTx)
+                    console.log(`[Vault] Slashed ${profile.address} $${entry.amount.toFixed(2)} for ${entry.id} (${slashTx})`)
+                }
+                entry.vault = { slashId, slashTx }
+            }
+
+            if (entry.reversedAt && !entry.vault.reversed) {
+                const onChain = await getVaultSlash(slashId)
+                if (!onChain.reversed) {
+                    entry.vault.reverseTx = await confirmVaultTx(await clients.walletClient.writeContract({
+                        ...vault,
+                        functionName: "reverseSlash",
+                        args: [slashId],
+                    }))
+                    result.txHashes.push(entry.vault.reverseTx)
+                    console.log(`[Vault] Reversed slash ${entry.id} for ${profile.address} (${entry.vault.reverseTx})`)
+                }
+                entry.vault.reversed = true
+            }
+        } catch (error) {
+            fail(`slash ${entry.id}`, error)
+        }
+    }
+    const slashesSynced = errors.length === 0
+
+    try {
+        // One cumulative target covers every review since the last sync
+        const position = await getVaultPosition(profile.address)
+        if (!position) throw new Error("Could not read the vault")
+        if (parseUsdc(profile.totalEarned || 0) > parseUsdc(position.totalEarned)) {
+            const hash = await confirmVaultTx(await clients.walletClient.writeContract({
+                ...vault,
+                functionName: "syncRewards",
+                args: [validator, parseUsdc(profile.totalEarned)],
+            }))
+            result.txHashes.push(hash)
+            console.log(`[Vault] Credited ${profile.address} up to $${profile.totalEarned.toFixed(2)} earned (${hash})`)
+        }
+        profile.vaultEarnedSynced = profile.totalEarned
+    } catch (error) {
+        fail("rewards", error)
+    }
+
+    // The vault is the source of truth for stake — only slashes move it
+    let staked: number | undefined
+    if (slashesSynced) {
+        const after = await getVaultPosition(profile.address)
+        if (after) staked = after.staked
+    }
+    if (errors.length > 0) result.error = errors.join("; ")
+
+    const syncedAt = Date.now()
+    const saved = await updateValidatorProfile(profile.address, current => {
+        current.vaultEarnedSynced = Math.max(current.vaultEarnedSynced || 0, profile.vaultEarnedSynced || 0)
+        for (const entry of profile.slashLedger || []) {
+            const match = entry.vault && (current.slashLedger || []).find(e => e.id === entry.id)
+            if (match) match.vault = entry.vault
+        }
+        if (staked !== undefined) current.staked = staked
+        current.vaultSyncError = result.error
+        current.vaultSyncFailures = result.error ? (current.vaultSyncFailures || 0) + 1 : 0
+        current.vaultSyncedAt = syncedAt
+        return true
+    })
+    if (!saved) console.error(`[Vault] Could not save sync progress for ${profile.address} — the next pass re-reads the vault`)
+    return result
+}
+
+/**
+ * Sync validators with something outstanding — called from each
+ * validation worker pass (GET /api/validations/worker). Least recently
+ * tried first, so a full pass never starves the profiles behind it.
+ */
+export async function runValidatorVaultSync(): Promise<VaultSyncResult[]> {
+    if (!isVaultConfigured() || !getOperatorClients()) return []
+
+    const now = Date.now()
+    const profiles = (await getAllValidatorProfiles())
+        .filter(p => needsVaultSync(p) && isVaultSyncDue(p, now))
+        .sort((a, b) => (a.vaultSyncedAt || 0) - (b.vaultSyncedAt || 0))
+        .slice(0, MAX_PROFILES_PER_RUN)
+    const results: VaultSyncResult[] = []
+    for (const profile of profiles) {
+        results.push(await syncValidatorVault(profile))
+    }
+    return results
+}
@@ -0,0 +1,57 @@
+import { keccak256, stringToBytes } from "viem"
+
+/**
+ * Commit-Reveal Ballots for DAO Validations
+ *
+ * WHY: Votes used to be recorded in the clear and the running tally was
+ * visible to every validator, so with a 100% slash for voting against
+ * consensus the safe move was to copy the majority. Validators now commit
+ * keccak256(taskId:validator:decision:salt) during the commit window and
+ * reveal decision + salt afterwards; nobody sees a tally until the reveal
+ * phase closes. Shared by the API and the DAO page.
+ */
+
+export type VoteDecision = "approve" | "flag"
+
+/**
+ * commit → (all eligible committed, or commit window over) → reveal →
+ * (all committers revealed, or reveal window over) → tally → closed
+ */
+export type VotingPhase = "commit" | "reveal" | "tally" | "closed"
+
+export interface VoteCommit {
+    validator: string
+    commitHash: string
+    committedAt: number
+    revealedAt?: number
+}
+
+export function voteCommitHash(taskId: string, validator: string, decision: VoteDecision, salt: string): `0x${string}` {
+    return keccak256(stringToBytes(`${taskId}:${validator.toLowerCase()}:${decision}:${salt}`))
+}
+
+/**
+ * 32 random bytes, hex — kept by the validator until they reveal
+ */
+export function generateVoteSalt(): string {
+    const bytes = new Uint8Array(32)
+    crypto.getRandomValues(bytes)
+    return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("")
+}
+
+export function getVotingPhase(
+    task: {
+        status: string
+        threshold: number
+        commitDeadline: number
+        revealDeadline: number
+        commits?: VoteCommit[]
+    },
+    now: number = Date.now()
+): VotingPhase {
+    if (task.status !== "pending") return "closed"
+    const commits = task.commits || []
+    if (now < task.commitDeadline && commits.length < task.threshold) return "commit"
+    if (now < task.revealDeadline && commits.some(c => !c.revealedAt)) return "reveal"
+    return "tally"
+}
@@ -86,6 +86,7 @@ export const CONTRACT_ADDRESSES = {
     P2P_ESCROW: process.env.NEXT_PUBLIC_P2P_ESCROW_ADDRESS || '0x0000000000000000000000000000000000000000',
     DISPUTE_DAO: process.env.NEXT_PUBLIC_DISPUTE_DAO_ADDRESS || '0x0000000000000000000000000000000000000000',
     TRUST_SCORE: process.env.NEXT_PUBLIC_TRUST_SCORE_ADDRESS || '0x0000000000000000000000000000000000000000',
+    VALIDATOR_VAULT: process.env.NEXT_PUBLIC_VALIDATOR_VAULT_ADDRESS || '0x0000000000000000000000000000000000000000',
     LIQUIDITY_POOL: '0x0000000000000000000000000000000000000000',
 } as const
 
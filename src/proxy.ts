@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { SESSION_ADDRESS_HEADER, SESSION_COOKIE, verifySessionToken } from "@/lib/session"
+
+/**
+ * API Proxy — binds the signed-in wallet to every API request
+ *
+ * Strips any client-supplied x-uwu-address header, verifies the session
+ * cookie (or `Authorization: Bearer <token>`), and sets the header to the
+ * verified address. Routes read it via getSessionAddress().
+ */
+export async function proxy(request: NextRequest) {
+    const headers = new Headers(request.headers)
+    headers.delete(SESSION_ADDRESS_HEADER)
+
+    const bearer = request.headers.get("authorization")?.match(/^Bearer (.+)$/i)?.[1]
+    const token = request.cookies.get(SESSION_COOKIE)?.value || bearer
+    if (token) {
+        const address = await verifySessionToken(token)
+        if (address) headers.set(SESSION_ADDRESS_HEADER, address)
+    }
+
+    return NextResponse.next({ request: { headers } })
+}
+
+export const config = {
+    matcher: "/api/:path*",
+}